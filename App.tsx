@@ -1,7 +1,112 @@
-import React, { useState, useEffect } from 'react';
-import { UploadedImage, AspectRatio, GenerationResult } from './types';
-import { ImageUploader } from './components/ImageUploader';
-import { generateAdvertisementImage } from './services/geminiService';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { UploadedImage, AdCopyVariant, AdTemplate, AspectRatio, Campaign, CampaignItem, MarketId, MarketProfile, MarketVariant, UiLocale, PublishAccount, PublishRecord, GenerationResult, BatchItem, OverlayLayer, AdRequest, HistoryEntry, ImageGenerationResponse, VariantItem, VariationMode, BrandKit, ImageGenerationRequest, ExportMetadata, ExportSettings, ImagePreprocessOptions, LogoMode, LogoPlacements, ProductShot, StructuredBrief, RefinementHistory, CatalogRow, GenerationJob, UsageRecord, RecoveryAction } from './types';
+import { AD_FORMATS, MARKET_PROFILES, MAX_EXTRA_PRODUCTS, MAX_REFERENCE_IMAGES, RETAILER_PROFILES, getMarketProfile, getRetailerProfile } from './constants';
+import { ImageGallery, ImageUploader } from './components/ImageUploader';
+import { BatchResultsGrid } from './components/BatchResultsGrid';
+import { ComplianceReportPanel } from './components/ComplianceReportPanel';
+import { OverlayEditor } from './components/OverlayEditor';
+import { HistorySidebar } from './components/HistorySidebar';
+import { VariantComparisonGrid } from './components/VariantComparisonGrid';
+import { BrandKitManager } from './components/BrandKitManager';
+import { PromptBuilder } from './components/PromptBuilder';
+import { RefinementPanel } from './components/RefinementPanel';
+import { MaskEditor } from './components/MaskEditor';
+import { CatalogImporter } from './components/CatalogImporter';
+import { JobsPanel, RetryCountdown } from './components/JobsPanel';
+import { UsageDashboard } from './components/UsageDashboard';
+import { GenerationErrorPanel } from './components/GenerationErrorPanel';
+import { UploadSettings } from './components/UploadSettings';
+import { LogoPlacementControls } from './components/LogoPlacementControls';
+import { ExportDialog } from './components/ExportDialog';
+import { CopyOptions, CopyPanel } from './components/CopyPanel';
+import { PublishDialog, PublishSubmission } from './components/PublishDialog';
+import { CampaignPlanner } from './components/CampaignPlanner';
+import { TemplateLibrary } from './components/TemplateLibrary';
+import { MarketVariantsDialog } from './components/MarketVariantsDialog';
+import { generateAdCopy, generateAdvertisementImage, getActiveImageProvider, inpaintAdvertisementImage, refineAdvertisementImage } from './services/imageService';
+import { createBatchItems, runBatchGeneration } from './services/batchService';
+import { describeCatalogRow } from './services/catalogService';
+import { DEFAULT_PREPROCESS_OPTIONS } from './services/imagePreprocessService';
+import { describeLogoAnchor, getLogoPlacement } from './services/logoCompositorService';
+import { getDefaultExportSettings } from './services/exportService';
+import { draftAdCopy, formatCaption } from './services/copyService';
+import {
+  createPublishAccount,
+  createPublishRecord,
+  getPublishConnector,
+  isDueOnPlatform,
+  isPublicationDue,
+  listPublishAccounts,
+  restorePublications,
+  savePublication,
+  savePublishAccount,
+  sendPublication,
+  updatePublication,
+  validatePublication,
+} from './services/publishService';
+import {
+  CampaignReminder,
+  deleteCampaign,
+  describeCampaignItem,
+  getDueReminders,
+  getHistoryExportMetadata,
+  listCampaigns,
+  renderHistoryCreative,
+  saveCampaign,
+} from './services/campaignService';
+import {
+  TemplateValues,
+  buildTemplateLayers,
+  createTemplateFromSetup,
+  deleteTemplate,
+  fillTemplateText,
+  listCustomTemplates,
+  saveTemplate,
+} from './services/templateLibraryService';
+import { getMarketIssues, localizeCreative, saveMarketVariant } from './services/marketVariantService';
+import { localizeTemplateValues } from './services/localizationService';
+import { TranslatorContext, UI_LOCALES, createTranslator, detectUiLocale } from './services/i18nService';
+import { PRODUCT_ROLES, PRODUCT_SCALE_RANGE, createProductShot } from './services/compositionService';
+import { VARIATION_MODES, createVariantItems, runVariantGeneration } from './services/variantService';
+import { buildComplianceContext, evaluateCompliance } from './services/complianceService';
+import { flattenCreative } from './services/overlayService';
+import {
+  deleteHistoryEntry,
+  duplicateHistoryEntry,
+  fromStoredImage,
+  fromStoredProducts,
+  fromStoredRequest,
+  listHistory,
+  loadDraft,
+  saveDraft,
+  saveGeneration,
+  toStoredImage,
+  toStoredProducts,
+  toStoredRequest,
+  updateHistoryEntry,
+} from './services/historyService';
+import { deleteBrandKit, listBrandKits, saveBrandKit } from './services/brandKitService';
+import {
+  createGenerationJob,
+  deleteJob,
+  getNextQueuedJob,
+  isJobActive,
+  isJobFinished,
+  restoreJobs,
+  saveJob,
+  updateJob,
+} from './services/jobQueueService';
+import { checkBudget, listUsage } from './services/usageService';
+import { AuthError, GenerationError, classifyError } from './services/generationErrors';
+import {
+  createRefinementHistory,
+  getCurrentStep,
+  jumpToRefinement,
+  pushRefinement,
+  redoRefinement,
+  undoRefinement,
+} from './services/refinementService';
+import { DEFAULT_PROMPT_TEMPLATE_ID, EMPTY_BRIEF, buildAdPrompt, hasBriefContent, rephraseBriefSafely, summarizeBrief } from './services/promptService';
 
 const App: React.FC = () => {
   // Authentication State
@@ -10,15 +115,104 @@ const App: React.FC = () => {
 
   // Application State
   const [productImage, setProductImage] = useState<UploadedImage | null>(null);
+  const [extraProducts, setExtraProducts] = useState<ProductShot[]>([]);
+  const [referenceImages, setReferenceImages] = useState<UploadedImage[]>([]);
+  const [preprocessOptions, setPreprocessOptions] = useState<ImagePreprocessOptions>(DEFAULT_PREPROCESS_OPTIONS);
   const [logoImage, setLogoImage] = useState<UploadedImage | null>(null);
+  const [logoMode, setLogoMode] = useState<LogoMode>('ai');
+  const [logoPlacements, setLogoPlacements] = useState<LogoPlacements>({});
   const [description, setDescription] = useState<string>("");
+  const [brief, setBrief] = useState<StructuredBrief>(EMPTY_BRIEF);
+  const [promptTemplateId, setPromptTemplateId] = useState<string>(DEFAULT_PROMPT_TEMPLATE_ID);
   const [aspectRatio, setAspectRatio] = useState<AspectRatio>(AspectRatio.Square);
   const [useProModel, setUseProModel] = useState<boolean>(false); // Default to Standard (Free)
+
+  // Localization State (UI language, and the market prices, copy language and wording checks follow)
+  const [uiLocale, setUiLocale] = useState<UiLocale>(detectUiLocale);
+  const t = useMemo(() => createTranslator(uiLocale), [uiLocale]);
+  const [marketId, setMarketId] = useState<MarketId>(MARKET_PROFILES[0].id);
+  const [isMarketsOpen, setIsMarketsOpen] = useState<boolean>(false);
+
+  // Brand Kit State (saved logos, palette, fonts and tone)
+  const [brandKits, setBrandKits] = useState<BrandKit[]>([]);
+  const [brandKitId, setBrandKitId] = useState<string | null>(null);
+  const [isBrandKitManagerOpen, setIsBrandKitManagerOpen] = useState<boolean>(false);
+
+  // Template State (seasonal and promotional starting points; built-ins are not stored)
+  const [templates, setTemplates] = useState<AdTemplate[]>([]);
+  const [isTemplateLibraryOpen, setIsTemplateLibraryOpen] = useState<boolean>(false);
+  // Kept after applying so new results get the template's overlays with the same values
+  const [appliedTemplate, setAppliedTemplate] = useState<{ template: AdTemplate; values: TemplateValues } | null>(null);
+
+  // Batch State (one brief rendered in every selected format)
+  const [batchMode, setBatchMode] = useState<boolean>(false);
+  const [batchFormats, setBatchFormats] = useState<AspectRatio[]>(AD_FORMATS);
+
+  // Catalog State (bulk generation from an imported product list)
+  const [isCatalogOpen, setIsCatalogOpen] = useState<boolean>(false);
+  const [batchItems, setBatchItems] = useState<BatchItem[]>([]);
+  const [isBatchRunning, setIsBatchRunning] = useState<boolean>(false);
+
+  // Variant State (several candidates from the same brief)
+  const [variantCount, setVariantCount] = useState<number>(1);
+  const [variationMode, setVariationMode] = useState<VariationMode>('none');
+  const [variantItems, setVariantItems] = useState<VariantItem[]>([]);
+  const [isVariantRunning, setIsVariantRunning] = useState<boolean>(false);
+  // Shared by batch and variant runs so their grids can stop the run in progress
+  const runController = useRef<AbortController | null>(null);
+
+  // Compliance State
+  const [complianceProfileId, setComplianceProfileId] = useState<string>(RETAILER_PROFILES[0].id);
+  const [showSafeZone, setShowSafeZone] = useState<boolean>(false);
+
+  // Overlay Editor State (text, badges, CTA and logo layers on top of the output)
+  const [overlayLayers, setOverlayLayers] = useState<OverlayLayer[]>([]);
+  const [isEditingOverlay, setIsEditingOverlay] = useState<boolean>(false);
+  const [overlayPreviewUrl, setOverlayPreviewUrl] = useState<string>("");
+
+  // Refinement State (conversational edits with undo/redo per creative)
+  const [refinements, setRefinements] = useState<RefinementHistory | null>(null);
+  const [isRefining, setIsRefining] = useState<boolean>(false);
+  const [refineError, setRefineError] = useState<string | null>(null);
+  const [isMasking, setIsMasking] = useState<boolean>(false);
+
+  // History State (persisted in IndexedDB)
+  const [historyEntries, setHistoryEntries] = useState<HistoryEntry[]>([]);
+  const [activeHistoryId, setActiveHistoryId] = useState<string | null>(null);
+  const [isHistoryOpen, setIsHistoryOpen] = useState<boolean>(false);
+  const [isDraftRestored, setIsDraftRestored] = useState<boolean>(false);
+
+  // Job Queue State (single generations run one at a time and persist across reloads)
+  const [jobs, setJobs] = useState<GenerationJob[]>([]);
+  const [isQueuePaused, setIsQueuePaused] = useState<boolean>(false);
+  const [isJobsPanelOpen, setIsJobsPanelOpen] = useState<boolean>(false);
+  const [followedJobId, setFollowedJobId] = useState<string | null>(null);
+  // The job whose result goes to the main preview; a ref so in-flight runs see changes
+  const followedJobRef = useRef<string | null>(null);
+  const jobControllers = useRef<Map<string, AbortController>>(new Map());
+
+  // Usage State (local ledger of Gemini calls and estimated spend)
+  const [usageRecords, setUsageRecords] = useState<UsageRecord[]>([]);
+  const [isUsageOpen, setIsUsageOpen] = useState<boolean>(false);
   
   // Sharing State
   const [isShareModalOpen, setIsShareModalOpen] = useState<boolean>(false);
+  // Created from the compliance profile on first export, then kept for the session
+  const [exportSettings, setExportSettings] = useState<ExportSettings | null>(null);
+  const [isExportOpen, setIsExportOpen] = useState<boolean>(false);
+  const [isPublishOpen, setIsPublishOpen] = useState<boolean>(false);
+  const [publications, setPublications] = useState<PublishRecord[]>([]);
+  const [publishAccounts, setPublishAccounts] = useState<PublishAccount[]>([]);
+  // Ticks so locally scheduled posts and campaign reminders are picked up when their time comes
+  const [publishClock, setPublishClock] = useState<number>(Date.now());
+  const [campaigns, setCampaigns] = useState<Campaign[]>([]);
+  const [isCampaignsOpen, setIsCampaignsOpen] = useState<boolean>(false);
+  const [reminders, setReminders] = useState<CampaignReminder[]>([]);
+  // Reminders only fire for times passed while the app is open
+  const reminderCheckRef = useRef<number>(Date.now());
   const [showManualShareStep, setShowManualShareStep] = useState<boolean>(false);
   const [shareCaption, setShareCaption] = useState<string>("");
+  const [copyVariants, setCopyVariants] = useState<AdCopyVariant[]>([]);
 
   const [result, setResult] = useState<GenerationResult>({
     imageUrl: "",
@@ -30,7 +224,10 @@ const App: React.FC = () => {
   useEffect(() => {
     const checkApiKey = async () => {
       try {
-        if ((window as any).aistudio && (window as any).aistudio.hasSelectedApiKey) {
+        if (!getActiveImageProvider().requiresApiKey) {
+          // Offline providers (e.g. the mock renderer) don't need a key
+          setHasApiKey(true);
+        } else if ((window as any).aistudio && (window as any).aistudio.hasSelectedApiKey) {
           const hasKey = await (window as any).aistudio.hasSelectedApiKey();
           setHasApiKey(hasKey);
         } else {
@@ -54,6 +251,133 @@ const App: React.FC = () => {
     checkApiKey();
   }, []);
 
+  // Restore saved history and the last working draft on mount
+  useEffect(() => {
+    const restore = async () => {
+      try {
+        setHistoryEntries(await listHistory());
+        setBrandKits(await listBrandKits());
+        const restoredJobs = await restoreJobs();
+        setJobs(restoredJobs);
+        // Leftover jobs wait for an explicit resume instead of firing requests on page load
+        if (restoredJobs.some(job => job.status === 'queued')) setIsQueuePaused(true);
+        setPublications(await restorePublications());
+        setPublishAccounts(await listPublishAccounts());
+        setCampaigns(await listCampaigns());
+        setTemplates(await listCustomTemplates());
+        const draft = await loadDraft();
+        if (draft) {
+          setProductImage(draft.productImage ? fromStoredImage(draft.productImage) : null);
+          setExtraProducts(fromStoredProducts(draft.extraProducts));
+          setReferenceImages((draft.referenceImages || []).map(fromStoredImage));
+          setLogoImage(draft.logoImage ? fromStoredImage(draft.logoImage) : null);
+          setLogoMode(draft.logoMode || 'ai');
+          setLogoPlacements(draft.logoPlacements || {});
+          setDescription(draft.description);
+          setBrief(draft.brief || EMPTY_BRIEF);
+          setPromptTemplateId(draft.promptTemplateId || DEFAULT_PROMPT_TEMPLATE_ID);
+          setAspectRatio(draft.aspectRatio);
+          setUseProModel(draft.useProModel);
+          setBrandKitId(draft.brandKitId || null);
+          setPreprocessOptions(draft.preprocessOptions || DEFAULT_PREPROCESS_OPTIONS);
+          if (draft.uiLocale) setUiLocale(draft.uiLocale);
+          setMarketId(draft.marketId || MARKET_PROFILES[0].id);
+        }
+      } catch (e) {
+        console.error("[Visioncraft] Failed to restore local projects:", e);
+      } finally {
+        setIsDraftRestored(true);
+      }
+    };
+    restore();
+  }, []);
+
+  // Persist the form so a reload doesn't lose uploads or the brief
+  useEffect(() => {
+    if (!isDraftRestored) return;
+    const timer = setTimeout(() => {
+      saveDraft({
+        productImage: productImage ? toStoredImage(productImage) : null,
+        extraProducts: toStoredProducts(extraProducts),
+        referenceImages: referenceImages.map(toStoredImage),
+        logoImage: logoImage ? toStoredImage(logoImage) : null,
+        logoMode,
+        logoPlacements,
+        description,
+        brief,
+        promptTemplateId,
+        aspectRatio,
+        useProModel,
+        brandKitId,
+        preprocessOptions,
+        uiLocale,
+        marketId,
+      }).catch(e => console.error("[Visioncraft] Failed to save draft:", e));
+    }, 500);
+    return () => clearTimeout(timer);
+  }, [isDraftRestored, productImage, extraProducts, referenceImages, logoImage, logoMode, logoPlacements, description, brief, promptTemplateId, aspectRatio, useProModel, brandKitId, preprocessOptions, uiLocale, marketId]);
+
+  // Keep overlay edits and refinement steps attached to the open history entry
+  useEffect(() => {
+    if (!activeHistoryId) return;
+    const entry = historyEntries.find(e => e.id === activeHistoryId);
+    // Compare refinements by step ids + position; the image payloads are large
+    const refinementKey = (h: RefinementHistory | null | undefined) => h ? `${h.index}:${h.steps.map(step => step.id).join(',')}` : '';
+    if (
+      !entry ||
+      (JSON.stringify(entry.overlays) === JSON.stringify(overlayLayers) && refinementKey(entry.refinements) === refinementKey(refinements))
+    ) return;
+
+    const timer = setTimeout(() => {
+      const updated = { ...entry, overlays: overlayLayers, refinements };
+      updateHistoryEntry(updated)
+        .then(() => setHistoryEntries(prev => prev.map(e => e.id === updated.id ? updated : e)))
+        .catch(e => console.error("[Visioncraft] Failed to update history entry:", e));
+    }, 500);
+    return () => clearTimeout(timer);
+  }, [overlayLayers, refinements, activeHistoryId, historyEntries]);
+
+  // Re-run the retailer rules whenever the output or anything they inspect changes
+  useEffect(() => {
+    const imageUrl = result.imageUrl;
+    if (!imageUrl) return;
+
+    let cancelled = false;
+    const profile = getRetailerProfile(complianceProfileId);
+    buildComplianceContext(imageUrl, {
+      aspectRatio: result.meta?.aspectRatio || aspectRatio,
+      description: summarizeBrief(brief, description),
+      caption: shareCaption,
+      hasLogo: logoImage !== null,
+      overlays: overlayLayers,
+      logoUrl: logoImage ? logoImage.base64 : null,
+      market: getMarketProfile(marketId),
+    }, t)
+      .then(context => {
+        if (cancelled) return;
+        const compliance = evaluateCompliance(profile, context, t);
+        setResult(prev => prev.imageUrl === imageUrl ? { ...prev, compliance } : prev);
+      })
+      .catch(e => console.error("[Visioncraft] Compliance check failed:", e));
+
+    return () => { cancelled = true; };
+  }, [result.imageUrl, result.meta, complianceProfileId, marketId, description, brief, shareCaption, logoImage, aspectRatio, overlayLayers, t]);
+
+  // Keep a flattened preview so the result view shows overlays without the editor open
+  useEffect(() => {
+    if (!result.imageUrl || overlayLayers.length === 0) {
+      setOverlayPreviewUrl("");
+      return;
+    }
+
+    let cancelled = false;
+    flattenCreative(result.imageUrl, overlayLayers, logoImage ? logoImage.base64 : null)
+      .then(url => { if (!cancelled) setOverlayPreviewUrl(url); })
+      .catch(e => console.error("[Visioncraft] Overlay preview failed:", e));
+
+    return () => { cancelled = true; };
+  }, [result.imageUrl, overlayLayers, logoImage]);
+
   const handleApiKeySelect = async () => {
     if ((window as any).aistudio) {
       try {
@@ -67,69 +391,697 @@ const App: React.FC = () => {
   };
 
   // Derived state
-  const isFormValid = productImage !== null && description.trim().length > 0;
+  const isBusy = result.loading || isBatchRunning || isVariantRunning;
+  const pendingJobCount = jobs.filter(job => !isJobFinished(job)).length;
+  const isVariantMode = !batchMode && variantCount > 1;
+  // Only providers that need an API key hit metered quotas
+  const isMetered = getActiveImageProvider().requiresApiKey;
+  const plannedCalls = batchMode ? batchFormats.length : isVariantMode ? variantCount : 1;
+  const budgetWarnings = isMetered ? checkBudget(usageRecords, useProModel ? 'pro' : 'standard', plannedCalls, t) : [];
+  const followedJob = jobs.find(job => job.id === followedJobId) || null;
+  const selectedBrandKit = brandKits.find(kit => kit.id === brandKitId) || null;
+  const market = getMarketProfile(marketId);
+  const complianceProfile = getRetailerProfile(complianceProfileId);
+  const safeZone = complianceProfile.safeZones[result.meta?.aspectRatio || aspectRatio];
+  const isDownloadBlocked = !result.compliance || result.compliance.status === 'fail';
+  const pendingPublicationCount = publications
+    .filter(record => ['queued', 'scheduled', 'publishing'].includes(record.status) && !isDueOnPlatform(record, publishClock))
+    .length;
+  const isFormValid = productImage !== null && hasBriefContent(brief, description) && (!batchMode || batchFormats.length > 0);
+  const previewPrompt = buildAdPrompt(promptTemplateId, {
+    description,
+    brief,
+    hasLogo: logoImage !== null && logoMode === 'ai',
+    extraProducts,
+    referenceCount: referenceImages.length,
+    logoClearSpace: logoImage && logoMode === 'overlay' ? describeLogoAnchor(getLogoPlacement(logoPlacements, aspectRatio).anchor) : null,
+    brandKit: selectedBrandKit,
+  });
+
+  // Re-read the usage ledger whenever a run finishes or a budget view opens
+  useEffect(() => {
+    if (isBusy) return;
+    listUsage()
+      .then(setUsageRecords)
+      .catch(e => console.error("[Visioncraft] Failed to load usage:", e));
+  }, [isBusy, isUsageOpen, isCatalogOpen]);
+
+  const getApiKey = (): string => (import.meta as any).env?.VITE_API_KEY || process.env.API_KEY || "";
+
+  const toggleBatchFormat = (format: AspectRatio) => {
+    setBatchFormats(prev => prev.includes(format) ? prev.filter(f => f !== format) : [...prev, format]);
+  };
+
+  const updateExtraProduct = (id: string, patch: Partial<ProductShot>) => {
+    setExtraProducts(prev => prev.map(shot => shot.id === id ? { ...shot, ...patch } : shot));
+  };
+
+  const renderProductControls = (id: string) => {
+    const shot = extraProducts.find(item => item.id === id);
+    if (!shot) return null;
+    return (
+      <>
+        <input
+          type="text"
+          value={shot.label}
+          onChange={(e) => updateExtraProduct(id, { label: e.target.value })}
+          placeholder={t('assets.partLabel')}
+          className="w-full bg-gray-900 border border-gray-700 rounded px-2 py-1 text-[11px] text-gray-200 placeholder-gray-500 focus:outline-none"
+        />
+        <select
+          value={shot.role}
+          onChange={(e) => updateExtraProduct(id, { role: e.target.value as ProductShot['role'] })}
+          className="w-full bg-gray-900 border border-gray-700 rounded px-2 py-1 text-[11px] text-gray-200 focus:outline-none"
+        >
+          {PRODUCT_ROLES.map(role => <option key={role} value={role}>{t(`assets.role.${role}`)}</option>)}
+        </select>
+        <label className="block text-[10px] text-gray-500">
+          {t('assets.partScale', { percent: Math.round(shot.scale * 100) })}
+          <input
+            type="range"
+            min={PRODUCT_SCALE_RANGE.min}
+            max={PRODUCT_SCALE_RANGE.max}
+            step={PRODUCT_SCALE_RANGE.step}
+            value={shot.scale}
+            onChange={(e) => updateExtraProduct(id, { scale: Number(e.target.value) })}
+            className="w-full accent-brand-500"
+          />
+        </label>
+      </>
+    );
+  };
+
+  const updateBatchItem = (format: AspectRatio, patch: Partial<BatchItem>) => {
+    setBatchItems(prev => prev.map(item => item.aspectRatio === format ? { ...item, ...patch } : item));
+  };
+
+  // Snapshot of the form as an AdRequest
+  const currentRequest = (): AdRequest => ({
+    productImage,
+    extraProducts,
+    referenceImages,
+    logoImage,
+    logoMode,
+    logoPlacements,
+    description,
+    aspectRatio,
+    useProModel,
+    brief,
+    promptTemplateId,
+  });
+
+  const toProviderRequest = (
+    request: AdRequest & { productImage: UploadedImage },
+    brandKit: BrandKit | null = selectedBrandKit
+  ): ImageGenerationRequest => ({
+    apiKey: getApiKey(),
+    description: request.description,
+    brief: request.brief,
+    promptTemplateId: request.promptTemplateId,
+    productImage: request.productImage,
+    extraProducts: request.extraProducts,
+    referenceImages: request.referenceImages,
+    logoImage: request.logoImage,
+    logoMode: request.logoMode,
+    logoPlacements: request.logoPlacements,
+    aspectRatio: request.aspectRatio,
+    useProModel: request.useProModel,
+    brandKit,
+  });
+
+  // Catalog rows reuse the current creative settings; only the product and its copy change.
+  // Bundle products belong to the form's product, so rows render on their own.
+  const buildCatalogRequest = (row: CatalogRow, rowImage: UploadedImage, format: AspectRatio): ImageGenerationRequest => (
+    toProviderRequest({ ...currentRequest(), productImage: rowImage, extraProducts: [], description: describeCatalogRow(row), aspectRatio: format })
+  );
+
+  // A new creative starts from template copy; AI variants written for the previous one are dropped
+  const resetCopy = (request: AdRequest, kit: BrandKit | null = selectedBrandKit) => {
+    setCopyVariants([]);
+    const tone = appliedTemplate?.template.copyTone || 'friendly';
+    setShareCaption(formatCaption(draftAdCopy({ ...request, brandKit: kit, platform: 'instagram-post', tone, length: 'short' })));
+  };
+
+  // Overlays a new result starts with: the applied template's slots, or none
+  const templateLayersFor = (kit: BrandKit | null = selectedBrandKit): OverlayLayer[] => {
+    return appliedTemplate ? buildTemplateLayers(appliedTemplate.template, kit, localizeTemplateValues(appliedTemplate.values, market)) : [];
+  };
+
+  const recordGeneration = async (request: AdRequest, output: ImageGenerationResponse): Promise<HistoryEntry | null> => {
+    if (!request.productImage) return null;
+    try {
+      const entry = await saveGeneration(
+        toStoredRequest({ ...request, productImage: request.productImage, aspectRatio: output.aspectRatio }),
+        output
+      );
+      setHistoryEntries(prev => [entry, ...prev]);
+      return entry;
+    } catch (e) {
+      console.error("[Visioncraft] Failed to save generation to history:", e);
+      return null;
+    }
+  };
+
+  const runBatch = async (items: BatchItem[]) => {
+    const request = currentRequest();
+    if (!request.productImage) return;
+
+    const controller = new AbortController();
+    runController.current = controller;
+    setIsBatchRunning(true);
+    try {
+      await runBatchGeneration(
+        toProviderRequest({ ...request, productImage: request.productImage }),
+        items,
+        (format, patch) => {
+          updateBatchItem(format, patch);
+          if (patch.status === 'done' && patch.imageUrl && patch.meta) {
+            recordGeneration(request, { imageUrl: patch.imageUrl, ...patch.meta });
+          }
+        },
+        controller.signal
+      );
+      resetCopy(currentRequest());
+    } finally {
+      runController.current = null;
+      setIsBatchRunning(false);
+    }
+  };
+
+  const handleStopRun = () => {
+    runController.current?.abort();
+  };
+
+  const handleRetryBatchItem = (format: AspectRatio) => {
+    const item = batchItems.find(i => i.aspectRatio === format);
+    if (item) runBatch([item]);
+  };
+
+  // Show an output in the main preview, starting a fresh refinement stack unless one is given
+  const presentOutput = (output: ImageGenerationResponse, history: RefinementHistory | null = null) => {
+    const stack = history || createRefinementHistory(output);
+    const { imageUrl, ...meta } = getCurrentStep(stack).output;
+    setRefinements(stack);
+    setRefineError(null);
+    setResult({ imageUrl, loading: false, error: null, meta, compliance: null });
+  };
+
+  const openBatchItem = (item: BatchItem) => {
+    if (!item.meta) return;
+    setAspectRatio(item.aspectRatio);
+    setOverlayLayers(templateLayersFor());
+    presentOutput({ imageUrl: item.imageUrl, ...item.meta });
+  };
+
+  const updateVariantItem = (id: string, patch: Partial<VariantItem>) => {
+    setVariantItems(prev => prev.map(item => item.id === id ? { ...item, ...patch } : item));
+  };
+
+  const runVariants = async (items: VariantItem[]) => {
+    const request = currentRequest();
+    if (!request.productImage) return;
+
+    const controller = new AbortController();
+    runController.current = controller;
+    setIsVariantRunning(true);
+    try {
+      await runVariantGeneration(
+        toProviderRequest({ ...request, productImage: request.productImage }),
+        items,
+        updateVariantItem,
+        controller.signal
+      );
+    } finally {
+      runController.current = null;
+      setIsVariantRunning(false);
+    }
+  };
+
+  const handleRetryVariant = (id: string) => {
+    const item = variantItems.find(i => i.id === id);
+    if (item) runVariants([item]);
+  };
+
+  const handlePickWinner = async (item: VariantItem) => {
+    if (!item.meta) return;
+    setOverlayLayers(templateLayersFor());
+    presentOutput({ imageUrl: item.imageUrl, ...item.meta });
+    resetCopy(currentRequest());
+
+    const entry = await recordGeneration(
+      { ...currentRequest(), aspectRatio: item.meta.aspectRatio },
+      { imageUrl: item.imageUrl, ...item.meta }
+    );
+    if (entry) setActiveHistoryId(entry.id);
+  };
+
+  const handleRefine = async (instruction: string) => {
+    if (!refinements || !result.meta) return;
+
+    setIsRefining(true);
+    setRefineError(null);
+    try {
+      const output = await refineAdvertisementImage({
+        apiKey: getApiKey(),
+        image: { base64: result.imageUrl, mimeType: result.meta.mimeType },
+        instruction,
+        aspectRatio: result.meta.aspectRatio,
+        useProModel,
+      });
+      presentOutput(output, pushRefinement(refinements, instruction, output));
+    } catch (err: any) {
+      console.error("Refinement failed:", err);
+      setRefineError(err.message || t('errors.refine'));
+    } finally {
+      setIsRefining(false);
+    }
+  };
+
+  const handleInpaint = async (alphaMaskUrl: string, instruction: string) => {
+    if (!refinements || !result.meta) return;
+
+    setIsRefining(true);
+    setRefineError(null);
+    try {
+      const output = await inpaintAdvertisementImage(
+        {
+          apiKey: getApiKey(),
+          image: { base64: result.imageUrl, mimeType: result.meta.mimeType },
+          instruction,
+          aspectRatio: result.meta.aspectRatio,
+          useProModel,
+        },
+        alphaMaskUrl
+      );
+      presentOutput(output, pushRefinement(refinements, `Region: ${instruction}`, output));
+      setIsMasking(false);
+    } catch (err: any) {
+      console.error("Region edit failed:", err);
+      setRefineError(err.message || t('errors.region'));
+    } finally {
+      setIsRefining(false);
+    }
+  };
+
+  const moveRefinement = (next: RefinementHistory) => {
+    presentOutput(getCurrentStep(next).output, next);
+  };
+
+  const restoreRequest = (entry: HistoryEntry): AdRequest => {
+    const request = fromStoredRequest(entry.request);
+    setProductImage(request.productImage);
+    setExtraProducts(request.extraProducts);
+    setReferenceImages(request.referenceImages);
+    setLogoImage(request.logoImage);
+    setLogoMode(request.logoMode);
+    setLogoPlacements(request.logoPlacements);
+    setDescription(request.description);
+    setAspectRatio(request.aspectRatio);
+    setUseProModel(request.useProModel);
+    setBrief(request.brief);
+    setPromptTemplateId(request.promptTemplateId);
+    setBatchMode(false);
+    setBatchItems([]);
+    setVariantItems([]);
+    return request;
+  };
+
+  const handleOpenHistory = (entry: HistoryEntry) => {
+    restoreRequest(entry);
+    setOverlayLayers(entry.overlays);
+    setActiveHistoryId(entry.id);
+    // Market variants bring their translated caption and switch the wording checks to their market
+    if (entry.marketId) setMarketId(entry.marketId);
+    if (entry.caption) {
+      setCopyVariants([]);
+      setShareCaption(entry.caption);
+    }
+    presentOutput(entry.output, entry.refinements || null);
+    setIsHistoryOpen(false);
+  };
+
+  const handleDuplicateHistory = async (entry: HistoryEntry) => {
+    try {
+      const copy = await duplicateHistoryEntry(entry);
+      setHistoryEntries(prev => [copy, ...prev]);
+    } catch (e) {
+      console.error("[Visioncraft] Failed to duplicate history entry:", e);
+    }
+  };
+
+  const handleRerunHistory = (entry: HistoryEntry) => {
+    const request = restoreRequest(entry);
+    setIsHistoryOpen(false);
+    generateSingle(request);
+  };
+
+  const handleDeleteHistory = async (entry: HistoryEntry) => {
+    try {
+      await deleteHistoryEntry(entry.id);
+      setHistoryEntries(prev => prev.filter(e => e.id !== entry.id));
+      if (activeHistoryId === entry.id) setActiveHistoryId(null);
+    } catch (e) {
+      console.error("[Visioncraft] Failed to delete history entry:", e);
+    }
+  };
+
+  const handleSaveBrandKit = async (kit: BrandKit) => {
+    try {
+      const saved = await saveBrandKit(kit);
+      setBrandKits(prev => [...prev.filter(k => k.id !== saved.id), saved].sort((a, b) => a.name.localeCompare(b.name)));
+      setBrandKitId(saved.id);
+    } catch (e) {
+      console.error("[Visioncraft] Failed to save brand kit:", e);
+    }
+  };
+
+  const handleDeleteBrandKit = async (kit: BrandKit) => {
+    try {
+      await deleteBrandKit(kit.id);
+      setBrandKits(prev => prev.filter(k => k.id !== kit.id));
+      if (brandKitId === kit.id) setBrandKitId(null);
+    } catch (e) {
+      console.error("[Visioncraft] Failed to delete brand kit:", e);
+    }
+  };
+
+  const handleSelectBrandKit = (id: string) => {
+    const kit = brandKits.find(k => k.id === id) || null;
+    setBrandKitId(kit ? kit.id : null);
+    // Default to the kit's primary logo so it doesn't need re-uploading
+    if (kit && kit.logos.length > 0) {
+      setLogoImage(fromStoredImage(kit.logos[0]));
+    }
+  };
 
   const handleGenerate = async () => {
-    const apiKey = (import.meta as any).env?.VITE_API_KEY || process.env.API_KEY;
+    const apiKey = getApiKey();
 
     // Safety check for API Key
-    if (!apiKey) {
-        setResult(prev => ({ ...prev, error: "API Key not found. Please check your .env file contains VITE_API_KEY." }));
+    if (!apiKey && getActiveImageProvider().requiresApiKey) {
+        setResult(prev => ({ ...prev, ...describeFailure(new AuthError("API Key not found. Please check your .env file contains VITE_API_KEY.")) }));
         setHasApiKey(false);
         return;
     }
     
     if (!productImage) return;
 
-    setResult({ imageUrl: "", loading: true, error: null });
+    if (batchMode) {
+      const items = createBatchItems(batchFormats);
+      setResult({ imageUrl: "", loading: false, error: null, meta: null });
+      setActiveHistoryId(null);
+      setBatchItems(items);
+      setVariantItems([]);
+      await runBatch(items);
+      return;
+    }
 
-    try {
-      const generatedImage = await generateAdvertisementImage(
-        apiKey,
-        description,
-        productImage.base64,
-        productImage.mimeType,
-        logoImage ? logoImage.base64 : null,
-        logoImage ? logoImage.mimeType : null,
-        aspectRatio,
-        useProModel
-      );
+    if (isVariantMode) {
+      const items = createVariantItems(variantCount, variationMode);
+      setResult({ imageUrl: "", loading: false, error: null, meta: null });
+      setActiveHistoryId(null);
+      setBatchItems([]);
+      setVariantItems(items);
+      await runVariants(items);
+      return;
+    }
 
-      setResult({
-        imageUrl: generatedImage,
-        loading: false,
-        error: null,
-      });
+    await generateSingle(currentRequest());
+  };
+
+  // Turn a thrown error into result fields; auth failures also drop back to key selection
+  const describeFailure = (err: unknown): Pick<GenerationResult, 'error' | 'errorKind' | 'diagnostics'> => {
+    const error = classifyError(err, { useProModel });
+    const errorKind = error instanceof GenerationError ? error.kind : 'unknown';
+    if (errorKind === 'auth') setHasApiKey(false);
+    return {
+      error: error.message || t('errors.generation'),
+      errorKind,
+      diagnostics: error instanceof GenerationError ? error.diagnostics : null,
+    };
+  };
+
+  const handleRecoveryAction = (action: RecoveryAction) => {
+    const dismiss = () => setResult({ imageUrl: "", loading: false, error: null, meta: null });
+    switch (action) {
+      case 'retry':
+        handleGenerate();
+        break;
+      case 'reconnect':
+        setHasApiKey(false);
+        break;
+      case 'use-standard':
+        setUseProModel(false);
+        dismiss();
+        break;
+      case 'switch-model':
+        setUseProModel(prev => !prev);
+        dismiss();
+        break;
+      case 'open-usage':
+        setIsUsageOpen(true);
+        break;
+      case 'edit-brief':
+        dismiss();
+        break;
+      case 'rephrase': {
+        const safe = rephraseBriefSafely(brief, description);
+        setBrief(safe.brief);
+        setDescription(safe.description);
+        generateSingle({ ...currentRequest(), brief: safe.brief, description: safe.description });
+        break;
+      }
+    }
+  };
 
-      // Pre-fill a default caption
-      setShareCaption(`Check out this new ad created with Visioncraft AI! #Visioncraft #AI #Design \n\n${description.substring(0, 50)}...`);
+  const followJob = (id: string | null) => {
+    followedJobRef.current = id;
+    setFollowedJobId(id);
+  };
+
+  const patchJob = (id: string, patch: Partial<GenerationJob>) => {
+    setJobs(prev => prev.map(job => job.id === id ? { ...job, ...patch, updatedAt: Date.now() } : job));
+    updateJob(id, patch).catch(e => console.error("[Visioncraft] Failed to persist job:", e));
+  };
+
+  const executeJob = async (job: GenerationJob) => {
+    const controller = new AbortController();
+    jobControllers.current.set(job.id, controller);
+    patchJob(job.id, { status: 'running', attempts: job.attempts + 1, error: null, errorKind: null, retryAt: null });
+
+    const isFollowed = () => followedJobRef.current === job.id;
+
+    try {
+      const request = fromStoredRequest(job.request);
+      const kit = brandKits.find(k => k.id === job.brandKitId) || null;
+      const output = await generateAdvertisementImage({
+        ...toProviderRequest(request, kit),
+        signal: controller.signal,
+        onBackoff: retryAt => patchJob(job.id, { status: retryAt ? 'backing-off' : 'running', retryAt }),
+      });
+      const entry = await recordGeneration(request, output);
+      patchJob(job.id, { status: 'done', retryAt: null, historyId: entry?.id || null });
 
+      if (isFollowed()) {
+        followJob(null);
+        presentOutput(output);
+        setOverlayLayers(templateLayersFor(kit));
+        resetCopy(request, kit);
+        if (entry) setActiveHistoryId(entry.id);
+      }
     } catch (err: any) {
-      console.error("Generation failed:", err);
-      // Try to extract a meaningful message even from JSON objects
-      let errorMessage = err.message;
-      if (!errorMessage && typeof err === 'object') {
-        errorMessage = JSON.stringify(err);
+      if (controller.signal.aborted) {
+        // Pausing puts the job back in line; cancelling ends it
+        const paused = controller.signal.reason === 'paused';
+        patchJob(job.id, { status: paused ? 'queued' : 'cancelled', retryAt: null });
+        if (!paused && isFollowed()) {
+          followJob(null);
+          setResult({ imageUrl: "", loading: false, error: null, meta: null });
+        }
+        return;
       }
-      if (!errorMessage) {
-        errorMessage = "Something went wrong during generation.";
+
+      console.error("Generation failed:", err);
+      const failure = describeFailure(err);
+      patchJob(job.id, { status: 'failed', retryAt: null, error: failure.error, errorKind: failure.errorKind });
+      if (isFollowed()) {
+        followJob(null);
+        setResult({
+          imageUrl: "",
+          loading: false,
+          ...failure,
+        });
       }
-      
-      let displayError = errorMessage;
+    } finally {
+      jobControllers.current.delete(job.id);
+    }
+  };
 
-      // User-friendly error mapping
-      if (errorMessage.includes("Requested entity was not found") || errorMessage.includes("API Key not found")) {
-        setHasApiKey(false);
-        displayError = "Session expired or API Key invalid. Please reconnect.";
-      } 
-      // If the service layer caught the billing/quota error, it throws "Free Tier Limit Reached"
-      // We display that directly.
-
-      setResult({
-        imageUrl: "",
-        loading: false,
-        error: displayError,
-      });
+  // Start the next queued job whenever the queue slot frees up
+  useEffect(() => {
+    if (!isDraftRestored || isQueuePaused || jobs.some(isJobActive)) return;
+    const next = getNextQueuedJob(jobs);
+    if (next) executeJob(next);
+  }, [isDraftRestored, isQueuePaused, jobs]);
+
+  const patchPublication = (id: string, patch: Partial<PublishRecord>) => {
+    setPublications(prev => prev.map(record => record.id === id ? { ...record, ...patch, updatedAt: Date.now() } : record));
+    updatePublication(id, patch).catch(e => console.error("[Visioncraft] Failed to persist publication:", e));
+  };
+
+  const executePublication = async (record: PublishRecord) => {
+    const account = publishAccounts.find(a => a.id === record.connectorId) || createPublishAccount(record.connectorId);
+    patchPublication(record.id, { status: 'publishing', error: null });
+    try {
+      patchPublication(record.id, await sendPublication(record, account));
+    } catch (err: any) {
+      console.error("[Visioncraft] Publishing failed:", err);
+      patchPublication(record.id, { status: 'failed', error: err.message || t('errors.publish') });
+    }
+  };
+
+  useEffect(() => {
+    const timer = setInterval(() => setPublishClock(Date.now()), 30000);
+    return () => clearInterval(timer);
+  }, []);
+
+  // Send due posts one at a time, oldest first
+  useEffect(() => {
+    if (!isDraftRestored) return;
+    if (publications.some(record => record.status === 'publishing')) return;
+    const next = publications
+      .filter(record => isPublicationDue(record))
+      .sort((a, b) => a.createdAt - b.createdAt)[0];
+    if (next) executePublication(next);
+  }, [isDraftRestored, publications, publishClock]);
+
+  useEffect(() => {
+    const due = getDueReminders(campaigns, reminderCheckRef.current, publishClock);
+    reminderCheckRef.current = publishClock;
+    if (due.length === 0) return;
+    setReminders(prev => [...prev, ...due]);
+    if (typeof Notification !== 'undefined' && Notification.permission === 'granted') {
+      due.forEach(({ campaign, item }) => new Notification(`${campaign.name}: ${describeCampaignItem(item)}`, {
+        body: t('reminder.scheduledFor', { time: new Date(item.scheduledAt).toLocaleString() }),
+      }));
+    }
+  }, [publishClock]);
+
+  const handleSaveCampaign = (campaign: Campaign) => {
+    const updated = { ...campaign, updatedAt: Date.now() };
+    setCampaigns(prev => [...prev.filter(c => c.id !== campaign.id), updated].sort((a, b) => a.launchDate - b.launchDate));
+    saveCampaign(updated).catch(e => console.error("[Visioncraft] Failed to save campaign:", e));
+  };
+
+  const handleDeleteCampaign = (id: string) => {
+    setCampaigns(prev => prev.filter(c => c.id !== id));
+    deleteCampaign(id).catch(e => console.error("[Visioncraft] Failed to delete campaign:", e));
+  };
+
+  // Hands a planned post to the publishing queue with its creative as last edited
+  const handleQueueCampaignItem = async (campaign: Campaign, item: CampaignItem) => {
+    const entry = historyEntries.find(e => e.id === item.historyId);
+    if (!entry) throw new Error(t('errors.creativeGone'));
+    const connector = getPublishConnector(item.channel);
+    const issues = validatePublication(connector, publishAccounts.find(a => a.id === item.channel), item.caption, t);
+    if (issues.length > 0) throw new Error(t('errors.queueIssues', { issues: issues.join(' ') }));
+
+    const { imageUrl } = await renderHistoryCreative(entry);
+    // Same gate as the Publish dialog: a failing creative never reaches the queue
+    const profile = getRetailerProfile(complianceProfileId);
+    const context = await buildComplianceContext(imageUrl, {
+      aspectRatio: entry.output.aspectRatio,
+      description: summarizeBrief(entry.request.brief || EMPTY_BRIEF, entry.request.description),
+      caption: item.caption,
+      hasLogo: entry.request.logoImage !== null,
+      overlays: entry.overlays,
+      logoUrl: entry.request.logoImage?.base64 || null,
+      market: getMarketProfile(entry.marketId || marketId),
+    }, t);
+    if (evaluateCompliance(profile, context, t).status === 'fail') {
+      throw new Error(t('errors.queueBlocked', { profile: profile.name }));
+    }
+
+    const record = createPublishRecord(item.channel, {
+      historyId: entry.id,
+      imageUrl,
+      caption: item.caption,
+      title: entry.title,
+      altText: '',
+      link: '',
+      scheduledAt: item.scheduledAt,
+      metadata: getHistoryExportMetadata(entry, selectedBrandKit?.name || null),
+    });
+    await savePublication(record);
+    setPublications(prev => [record, ...prev]);
+    handleSaveCampaign({ ...campaign, items: campaign.items.map(i => i.id === item.id ? { ...i, publicationId: record.id } : i) });
+  };
+
+  const generateSingle = async (request: AdRequest) => {
+    const { productImage } = request;
+    if (!productImage) return;
+
+    setBatchItems([]);
+    setVariantItems([]);
+    setOverlayLayers([]);
+    setActiveHistoryId(null);
+    setResult({ imageUrl: "", loading: true, error: null, meta: null });
+
+    const job = createGenerationJob(toStoredRequest({ ...request, productImage }), brandKitId);
+    followJob(job.id);
+    setJobs(prev => [...prev, job]);
+    try {
+      await saveJob(job);
+    } catch (e) {
+      console.error("[Visioncraft] Failed to persist job:", e);
+    }
+  };
+
+  const handlePauseQueue = () => {
+    setIsQueuePaused(true);
+    jobControllers.current.forEach(controller => controller.abort('paused'));
+  };
+
+  const handleCancelJob = (job: GenerationJob) => {
+    const controller = jobControllers.current.get(job.id);
+    if (controller) {
+      controller.abort('cancelled');
+      return;
+    }
+    patchJob(job.id, { status: 'cancelled', retryAt: null });
+    if (followedJobRef.current === job.id) {
+      followJob(null);
+      setResult({ imageUrl: "", loading: false, error: null, meta: null });
+    }
+  };
+
+  const handleRetryJob = (job: GenerationJob) => {
+    patchJob(job.id, { status: 'queued', error: null, errorKind: null, retryAt: null });
+  };
+
+  const handleOpenJob = (job: GenerationJob) => {
+    const entry = historyEntries.find(e => e.id === job.historyId);
+    if (!entry) return;
+    handleOpenHistory(entry);
+    setIsJobsPanelOpen(false);
+  };
+
+  const handleRemoveJob = async (job: GenerationJob) => {
+    try {
+      await deleteJob(job.id);
+      setJobs(prev => prev.filter(j => j.id !== job.id));
+    } catch (e) {
+      console.error("[Visioncraft] Failed to remove job:", e);
+    }
+  };
+
+  const handleClearFinishedJobs = async () => {
+    const finished = jobs.filter(isJobFinished);
+    try {
+      await Promise.all(finished.map(job => deleteJob(job.id)));
+      setJobs(prev => prev.filter(job => !finished.some(f => f.id === job.id)));
+    } catch (e) {
+      console.error("[Visioncraft] Failed to clear finished jobs:", e);
     }
   };
 
@@ -145,12 +1097,138 @@ const App: React.FC = () => {
     return new Blob([ab], {type: mimeString});
   };
 
+  // The output with any overlay layers baked in
+  const getFinalImageUrl = async (): Promise<string> => {
+    if (overlayLayers.length === 0) return result.imageUrl;
+    return flattenCreative(result.imageUrl, overlayLayers, logoImage ? logoImage.base64 : null);
+  };
+
+  const openExport = () => {
+    if (isDownloadBlocked) return;
+    setExportSettings(prev => prev || getDefaultExportSettings(complianceProfile));
+    setIsExportOpen(true);
+  };
+
+  const buildExportMetadata = (): ExportMetadata => ({
+    title: summarizeBrief(brief, description).slice(0, 80) || 'VisionCraft creative',
+    description: summarizeBrief(brief, description),
+    provider: result.meta?.provider || '',
+    model: result.meta?.model || '',
+    promptTemplateId: result.meta?.promptTemplateId || null,
+    brand: selectedBrandKit?.name || null,
+    aspectRatio: result.meta?.aspectRatio || aspectRatio,
+    createdAt: result.meta?.createdAt || Date.now(),
+  });
+
+  const handleWriteCopy = async (options: CopyOptions) => {
+    if (!result.imageUrl || !result.meta) return;
+    const imageUrl = await getFinalImageUrl();
+    const variants = await generateAdCopy({
+      apiKey: getApiKey(),
+      description,
+      brief,
+      image: { base64: imageUrl, mimeType: overlayLayers.length > 0 ? 'image/png' : result.meta.mimeType },
+      ...options,
+      count: 3,
+      brandKit: selectedBrandKit,
+      language: market.language,
+    });
+    setCopyVariants(prev => [...variants, ...prev]);
+  };
+
+  // Fills the form from a template; a result on screen gets its overlays right away
+  const handleApplyTemplate = (template: AdTemplate, values: TemplateValues) => {
+    const localized = localizeTemplateValues(values, market);
+    setBrief(template.brief);
+    setDescription(fillTemplateText(template.description, localized, selectedBrandKit));
+    setAspectRatio(template.aspectRatios[0]);
+    setBatchFormats(template.aspectRatios);
+    if (template.logoMode) setLogoMode(template.logoMode);
+    setAppliedTemplate({ template, values });
+    if (result.imageUrl) setOverlayLayers(buildTemplateLayers(template, selectedBrandKit, localized));
+    setIsTemplateLibraryOpen(false);
+  };
+
+  const handleSaveTemplate = (template: AdTemplate) => {
+    setTemplates(prev => [...prev.filter(t => t.id !== template.id), template].sort((a, b) => a.name.localeCompare(b.name)));
+    saveTemplate(template).catch(e => console.error("[Visioncraft] Failed to save template:", e));
+  };
+
+  const handleSaveCurrentAsTemplate = (name: string): AdTemplate => {
+    const template = createTemplateFromSetup({
+      name,
+      description,
+      brief,
+      aspectRatios: batchMode ? batchFormats : [aspectRatio],
+      layers: overlayLayers,
+      logoMode,
+    });
+    handleSaveTemplate(template);
+    return template;
+  };
+
+  const handleDeleteTemplate = (id: string) => {
+    setTemplates(prev => prev.filter(t => t.id !== id));
+    if (appliedTemplate?.template.id === id) setAppliedTemplate(null);
+    deleteTemplate(id).catch(e => console.error("[Visioncraft] Failed to delete template:", e));
+  };
+
+  // Variants are saved next to the creative, so an unsaved one (e.g. opened from a batch) is recorded first
+  const openMarkets = async () => {
+    if (!result.imageUrl || !result.meta) return;
+    if (!historyEntries.some(entry => entry.id === activeHistoryId)) {
+      const entry = await recordGeneration(currentRequest(), { imageUrl: result.imageUrl, ...result.meta });
+      if (entry) setActiveHistoryId(entry.id);
+    }
+    setIsMarketsOpen(true);
+  };
+
+  const handleCreateMarketVariant = async (target: MarketProfile, values: Record<string, string>): Promise<MarketVariant> => {
+    const base = historyEntries.find(entry => entry.id === activeHistoryId);
+    if (!base) throw new Error(t('errors.saveFirst'));
+    const creative = await localizeCreative({
+      apiKey: getApiKey(),
+      overlays: overlayLayers,
+      caption: shareCaption,
+      source: market,
+      target,
+      brandKit: selectedBrandKit,
+      sourceValues: appliedTemplate?.values || {},
+      targetValues: values,
+    });
+    const entry = await saveMarketVariant({ ...base, refinements }, target, creative);
+    setHistoryEntries(prev => [entry, ...prev]);
+    return { marketId: target.id, status: 'done', caption: creative.caption, issues: getMarketIssues(target, creative, t), error: null, historyId: entry.id };
+  };
+
+  const handleSavePublishAccount = (account: PublishAccount) => {
+    setPublishAccounts(prev => [...prev.filter(a => a.id !== account.id), account]);
+    savePublishAccount(account).catch(e => console.error("[Visioncraft] Failed to save publishing account:", e));
+  };
+
+  const handlePublish = async (submission: PublishSubmission) => {
+    const { connectorIds, ...post } = submission;
+    const imageUrl = await getFinalImageUrl();
+    const metadata = buildExportMetadata();
+    const records = connectorIds.map(id => createPublishRecord(id, { ...post, historyId: activeHistoryId, imageUrl, metadata }));
+    await Promise.all(records.map(savePublication));
+    setPublications(prev => [...records, ...prev]);
+  };
+
+  const handleRetryPublication = (record: PublishRecord) => {
+    const isFuture = record.scheduledAt !== null && record.scheduledAt > Date.now();
+    patchPublication(record.id, { status: isFuture ? 'scheduled' : 'queued', scheduledRemotely: false, error: null });
+  };
+
   const handleShareToInstagram = async () => {
-    if (!result.imageUrl) return;
+    if (!result.imageUrl || isDownloadBlocked) return;
 
     try {
-      const blob = dataURItoBlob(result.imageUrl);
-      const file = new File([blob], "visioncraft-ad.png", { type: blob.type });
+      const finalImageUrl = await getFinalImageUrl();
+      const blob = dataURItoBlob(finalImageUrl);
+      // Gemini output is often JPEG; name the file after its real type
+      const extension = blob.type === 'image/jpeg' ? 'jpg' : blob.type.split('/')[1] || 'png';
+      const file = new File([blob], `visioncraft-ad.${extension}`, { type: blob.type });
 
       // Check if Web Share API is supported and can share files
       if (navigator.share && navigator.canShare && navigator.canShare({ files: [file] })) {
@@ -163,8 +1241,8 @@ const App: React.FC = () => {
       } else {
         // Fallback for desktop/unsupported browsers: Initiate download and show guide
         const link = document.createElement("a");
-        link.href = result.imageUrl;
-        link.download = "visioncraft-instagram-post.png";
+        link.href = finalImageUrl;
+        link.download = `visioncraft-instagram-post.${extension}`;
         link.click();
         
         // Copy caption to clipboard
@@ -188,7 +1266,7 @@ const App: React.FC = () => {
     return (
       <div className="min-h-screen bg-gray-900 flex flex-col items-center justify-center text-white space-y-4">
         <div className="w-12 h-12 border-4 border-brand-500 border-t-transparent rounded-full animate-spin"></div>
-        <p className="text-gray-400 font-medium">Initializing Visioncraft...</p>
+        <p className="text-gray-400 font-medium">{t('welcome.initializing')}</p>
       </div>
     );
   }
@@ -213,7 +1291,7 @@ const App: React.FC = () => {
             
             <div>
               <h1 className="text-5xl font-bold text-white tracking-tight mb-2">Visioncraft</h1>
-              <p className="text-xl text-gray-400">Professional AI Marketing Assets</p>
+              <p className="text-xl text-gray-400">{t('welcome.tagline')}</p>
             </div>
           </div>
 
@@ -224,8 +1302,8 @@ const App: React.FC = () => {
                     <svg className="w-5 h-5 text-brand-400" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16l4.586-4.586a2 2 0 012.828 0L16 16m-2-2l1.586-1.586a2 2 0 012.828 0L20 14m-6-6h.01M6 20h12a2 2 0 002-2V6a2 2 0 00-2-2H6a2 2 0 00-2 2v12a2 2 0 002 2z" /></svg>
                   </div>
                   <div>
-                    <h3 className="text-white font-semibold">Free Forever</h3>
-                    <p className="text-gray-400 text-sm leading-relaxed">Use the Standard model to generate aesthetic ads without any cost.</p>
+                    <h3 className="text-white font-semibold">{t('welcome.freeTitle')}</h3>
+                    <p className="text-gray-400 text-sm leading-relaxed">{t('welcome.freeBody')}</p>
                   </div>
                </div>
                
@@ -234,8 +1312,8 @@ const App: React.FC = () => {
                     <svg className="w-5 h-5 text-accent-400" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 7a2 2 0 012 2m4 0a6 6 0 01-7.743 5.743L11 17H9v2H7v2H4a1 1 0 01-1-1v-2.586a1 1 0 01.293-.707l5.964-5.964A6 6 0 1121 9z" /></svg>
                   </div>
                   <div>
-                    <h3 className="text-white font-semibold">Secure Access</h3>
-                    <p className="text-gray-400 text-sm leading-relaxed">Connect with your Google account to generate API keys securely.</p>
+                    <h3 className="text-white font-semibold">{t('welcome.secureTitle')}</h3>
+                    <p className="text-gray-400 text-sm leading-relaxed">{t('welcome.secureBody')}</p>
                   </div>
                </div>
              </div>
@@ -247,15 +1325,15 @@ const App: React.FC = () => {
                    onClick={handleApiKeySelect}
                    className="w-full group relative flex items-center justify-center gap-3 bg-white hover:bg-gray-100 text-gray-900 px-8 py-4 rounded-xl font-bold text-lg transition-all transform hover:-translate-y-0.5 hover:shadow-xl hover:shadow-brand-500/10"
                  >
-                   <span>Connect API Key</span>
+                   <span>{t('welcome.connect')}</span>
                    <svg className="w-5 h-5 text-gray-400 group-hover:translate-x-1 transition-transform" fill="none" viewBox="0 0 24 24" stroke="currentColor">
                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 7l5 5m0 0l-5 5m5-5H6" />
                    </svg>
                  </button>
                ) : (
                  <div className="text-center text-red-400 bg-red-500/10 p-4 rounded-lg border border-red-500/20">
-                    <p className="font-bold mb-1">API Key Missing</p>
-                    <p className="text-xs text-gray-400">Create a <code className="bg-gray-800 px-1 py-0.5 rounded">.env</code> file in your project root with <code className="bg-gray-800 px-1 py-0.5 rounded">VITE_API_KEY=your_key</code> and restart.</p>
+                    <p className="font-bold mb-1">{t('welcome.missingTitle')}</p>
+                    <p className="text-xs text-gray-400">{t('welcome.missingBody', { file: '.env', line: 'VITE_API_KEY=your_key' })}</p>
                  </div>
                )}
              </div>
@@ -265,7 +1343,7 @@ const App: React.FC = () => {
     );
   }
 
-  return (
+  const screen = (
     <div className="min-h-screen flex flex-col md:flex-row">
       {/* Left Sidebar: Controls */}
       <div className="w-full md:w-[450px] bg-gray-900 border-r border-gray-800 flex flex-col h-screen overflow-y-auto z-10 shadow-xl">
@@ -279,34 +1357,148 @@ const App: React.FC = () => {
              <h1 className="text-xl font-bold bg-clip-text text-transparent bg-gradient-to-r from-white to-gray-400">
                 Visioncraft
              </h1>
+             <div className="ml-auto flex gap-2">
+                <button
+                   onClick={() => setIsCatalogOpen(true)}
+                   className="text-xs font-semibold text-gray-400 hover:text-white border border-gray-700 hover:border-gray-500 rounded-lg px-3 py-1.5 transition-colors"
+                >
+                   {t('header.catalog')}
+                </button>
+                <button
+                   onClick={() => setIsCampaignsOpen(true)}
+                   className="text-xs font-semibold text-gray-400 hover:text-white border border-gray-700 hover:border-gray-500 rounded-lg px-3 py-1.5 transition-colors"
+                >
+                   {t('header.campaigns')}
+                </button>
+                <button
+                   onClick={() => setIsUsageOpen(true)}
+                   className="text-xs font-semibold text-gray-400 hover:text-white border border-gray-700 hover:border-gray-500 rounded-lg px-3 py-1.5 transition-colors"
+                >
+                   {t('header.usage')}
+                </button>
+                <button
+                   onClick={() => setIsJobsPanelOpen(true)}
+                   className="text-xs font-semibold text-gray-400 hover:text-white border border-gray-700 hover:border-gray-500 rounded-lg px-3 py-1.5 transition-colors"
+                >
+                   {t('header.jobs')}{pendingJobCount > 0 ? ` (${pendingJobCount})` : ''}
+                </button>
+                <button
+                   onClick={() => setIsHistoryOpen(true)}
+                   className="text-xs font-semibold text-gray-400 hover:text-white border border-gray-700 hover:border-gray-500 rounded-lg px-3 py-1.5 transition-colors"
+                >
+                   {t('header.history', { count: historyEntries.length })}
+                </button>
+             </div>
+          </div>
+          <div className="flex items-center justify-between mt-2">
+            <p className="text-xs text-gray-500">{t('header.tagline')}</p>
+            <select
+              value={uiLocale}
+              onChange={(e) => setUiLocale(e.target.value as UiLocale)}
+              title={t('header.language')}
+              aria-label={t('header.language')}
+              className="bg-transparent text-xs text-gray-500 hover:text-gray-300 focus:outline-none"
+            >
+              {UI_LOCALES.map(locale => (
+                <option key={locale.id} value={locale.id}>{locale.label}</option>
+              ))}
+            </select>
           </div>
-          <p className="text-xs text-gray-500 mt-2">AI Marketing tool</p>
         </div>
 
         <div className="flex-1 p-6 space-y-8">
           
           {/* Section 1: Assets */}
           <div className="space-y-4">
-            <h2 className="text-xs uppercase tracking-wider text-gray-400 font-semibold mb-4">1. Brand Assets</h2>
+            <h2 className="text-xs uppercase tracking-wider text-gray-400 font-semibold mb-4">{t('assets.title')}</h2>
+            <div className="space-y-2">
+              <label className="text-sm font-medium text-gray-300 flex justify-between">
+                {t('assets.brandKit')}
+                <button
+                  onClick={() => setIsBrandKitManagerOpen(true)}
+                  className="text-xs font-semibold text-brand-300 hover:text-brand-200"
+                >
+                  {t('assets.manage')}
+                </button>
+              </label>
+              <select
+                value={brandKitId || ''}
+                onChange={(e) => handleSelectBrandKit(e.target.value)}
+                className="w-full bg-gray-800 border border-gray-700 rounded-lg px-3 py-2 text-sm text-gray-200 focus:outline-none focus:ring-2 focus:ring-brand-500/50"
+              >
+                <option value="">{t('assets.noBrandKit')}</option>
+                {brandKits.map(kit => (
+                  <option key={kit.id} value={kit.id}>{kit.name}</option>
+                ))}
+              </select>
+              {selectedBrandKit && selectedBrandKit.logos.length > 1 && (
+                <div className="flex gap-2 flex-wrap">
+                  {selectedBrandKit.logos.map((logo, index) => (
+                    <button
+                      key={`${logo.name}-${index}`}
+                      onClick={() => setLogoImage(fromStoredImage(logo))}
+                      title={logo.name}
+                      className={`w-12 h-12 rounded-lg bg-gray-800 overflow-hidden border ${
+                        logoImage?.base64 === logo.base64 ? 'border-brand-500' : 'border-gray-700 hover:border-gray-500'
+                      }`}
+                    >
+                      <img src={logo.base64} alt={logo.name} className="w-full h-full object-contain p-1" />
+                    </button>
+                  ))}
+                </div>
+              )}
+            </div>
             <ImageUploader 
-              label="Product Photo" 
+              label={t('assets.product')} 
               image={productImage} 
               onImageChange={setProductImage} 
+              preprocess={preprocessOptions}
+              allowCutout
+            />
+            <UploadSettings options={preprocessOptions} onChange={setPreprocessOptions} />
+            <ImageGallery
+              label={t('assets.bundle')}
+              hint={t('assets.bundleHint')}
+              items={extraProducts}
+              maxItems={MAX_EXTRA_PRODUCTS}
+              onAdd={(images) => setExtraProducts(prev => [...prev, ...images.map(createProductShot)])}
+              onRemove={(id) => setExtraProducts(prev => prev.filter(shot => shot.id !== id))}
+              preprocess={{ ...preprocessOptions, crop: null }}
+              renderControls={renderProductControls}
+            />
+            <ImageGallery
+              label={t('assets.references')}
+              hint={t('assets.referencesHint')}
+              items={referenceImages.map((image, index) => ({ id: String(index), image }))}
+              maxItems={MAX_REFERENCE_IMAGES}
+              onAdd={(images) => setReferenceImages(prev => [...prev, ...images])}
+              onRemove={(id) => setReferenceImages(prev => prev.filter((_, index) => String(index) !== id))}
+              preprocess={{ ...preprocessOptions, crop: null }}
             />
             <ImageUploader 
-              label="Brand Logo" 
+              label={t('assets.logo')} 
               image={logoImage} 
               onImageChange={setLogoImage} 
+              preprocess={{ ...preprocessOptions, crop: null }}
               optional
             />
+            {logoImage && (
+              <LogoPlacementControls
+                mode={logoMode}
+                placements={logoPlacements}
+                aspectRatio={aspectRatio}
+                onModeChange={setLogoMode}
+                onPlacementsChange={setLogoPlacements}
+              />
+            )}
           </div>
 
           {/* Section 2: Settings */}
           <div className="space-y-4">
-            <h2 className="text-xs uppercase tracking-wider text-gray-400 font-semibold">2. Configuration</h2>
+            <h2 className="text-xs uppercase tracking-wider text-gray-400 font-semibold">{t('config.title')}</h2>
             
              <div className="space-y-2">
-              <label className="text-sm font-medium text-gray-300">Model Quality</label>
+              <label className="text-sm font-medium text-gray-300">{t('config.model')}</label>
               <div className="grid grid-cols-2 gap-2 p-1 bg-gray-800 rounded-lg border border-gray-700">
                 <button
                   onClick={() => setUseProModel(false)}
@@ -318,7 +1510,7 @@ const App: React.FC = () => {
                     }
                   `}
                 >
-                  Standard (Free Forever)
+                  {t('config.standard')}
                 </button>
                 <button
                   onClick={() => setUseProModel(true)}
@@ -330,78 +1522,176 @@ const App: React.FC = () => {
                     }
                   `}
                 >
-                  Pro
-                  <span className="bg-yellow-500/20 text-yellow-500 text-[9px] px-1.5 py-0.5 rounded ml-1">PAID</span>
+                  {t('config.pro')}
+                  <span className="bg-yellow-500/20 text-yellow-500 text-[9px] px-1.5 py-0.5 rounded ml-1">{t('config.paid')}</span>
                 </button>
               </div>
               <p className="text-[10px] text-gray-500 px-1 mt-1">
-                {useProModel 
-                  ? "⚠️ Pro requires a Google Cloud project with billing enabled." 
-                  : "Standard is 100% free with generous daily limits."}
+                {useProModel ? t('config.proHint') : t('config.standardHint')}
               </p>
             </div>
 
             <div className="space-y-2">
-              <label className="text-sm font-medium text-gray-300">Format & Size</label>
+              <div className="flex items-center justify-between">
+                <label className="text-sm font-medium text-gray-300">{t('config.format')}</label>
+                <button
+                  onClick={() => setBatchMode(!batchMode)}
+                  className={`text-[10px] font-semibold uppercase tracking-wider px-2 py-1 rounded-md border transition-colors ${
+                    batchMode ? 'border-brand-500 text-brand-300 bg-brand-600/20' : 'border-gray-700 text-gray-400 hover:text-white'
+                  }`}
+                >
+                  {batchMode ? t('config.allFormatsOn') : t('config.allFormatsOff')}
+                </button>
+              </div>
               <div className="grid grid-cols-1 gap-2">
-                {[
-                  { id: AspectRatio.Square, label: 'Instagram Post (1:1)' },
-                  { id: AspectRatio.Story, label: 'Instagram Story (9:16)' },
-                  { id: AspectRatio.Widescreen, label: 'Facebook Post (16:9)' },
-                ].map((ratio) => (
+                {AD_FORMATS.map((ratio) => {
+                  const isSelected = batchMode ? batchFormats.includes(ratio) : aspectRatio === ratio;
+                  return (
+                    <button
+                      key={ratio}
+                      onClick={() => batchMode ? toggleBatchFormat(ratio) : setAspectRatio(ratio)}
+                      className={`
+                        px-3 py-3 text-sm font-medium rounded-lg border transition-all flex justify-center items-center
+                        ${isSelected 
+                          ? 'bg-brand-600/20 border-brand-500 text-brand-300' 
+                          : 'bg-gray-800 border-gray-700 text-gray-400 hover:border-gray-500'
+                        }
+                      `}
+                    >
+                      {batchMode && <span className="mr-2">{isSelected ? '☑' : '☐'}</span>}
+                      {t(`format.${ratio}`)}
+                    </button>
+                  );
+                })}
+              </div>
+              {batchMode && (
+                <p className="text-[10px] text-gray-500 px-1">
+                  {t('config.batchHint')}
+                </p>
+              )}
+            </div>
+
+            <div className="space-y-2">
+              <label className="text-sm font-medium text-gray-300">{t('config.variants')}</label>
+              <div className="grid grid-cols-4 gap-2 p-1 bg-gray-800 rounded-lg border border-gray-700">
+                {[1, 2, 3, 4].map(count => (
                   <button
-                    key={ratio.id}
-                    onClick={() => setAspectRatio(ratio.id)}
-                    className={`
-                      px-3 py-3 text-sm font-medium rounded-lg border transition-all flex justify-center items-center
-                      ${aspectRatio === ratio.id 
-                        ? 'bg-brand-600/20 border-brand-500 text-brand-300' 
-                        : 'bg-gray-800 border-gray-700 text-gray-400 hover:border-gray-500'
-                      }
-                    `}
+                    key={count}
+                    onClick={() => setVariantCount(count)}
+                    disabled={batchMode}
+                    className={`px-3 py-2 text-xs font-semibold rounded-md transition-all disabled:opacity-40 ${
+                      variantCount === count ? 'bg-gray-700 text-white shadow-sm ring-1 ring-gray-600' : 'text-gray-400 hover:text-white'
+                    }`}
                   >
-                    {ratio.label}
+                    {count === 1 ? t('config.variantsOff') : `×${count}`}
                   </button>
                 ))}
               </div>
+              {isVariantMode && (
+                <select
+                  value={variationMode}
+                  onChange={(e) => setVariationMode(e.target.value as VariationMode)}
+                  className="w-full bg-gray-800 border border-gray-700 rounded-lg px-3 py-2 text-sm text-gray-200 focus:outline-none focus:ring-2 focus:ring-brand-500/50"
+                >
+                  {VARIATION_MODES.map(mode => (
+                    <option key={mode} value={mode}>{t(`variants.mode.${mode}`)}</option>
+                  ))}
+                </select>
+              )}
+              {batchMode && (
+                <p className="text-[10px] text-gray-500 px-1">{t('config.variantsBatchHint')}</p>
+              )}
             </div>
 
             <div className="space-y-2">
-              <label className="text-sm font-medium text-gray-300">Description</label>
-              <textarea
-                value={description}
-                onChange={(e) => setDescription(e.target.value)}
-                placeholder="E.g., A minimalist summer vibe with golden hour lighting. Place the logo on the front center of the bottle..."
-                className="w-full h-32 bg-gray-800 border border-gray-700 rounded-xl p-3 text-sm text-gray-200 placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-brand-500/50 focus:border-brand-500 resize-none"
-              />
+              <label className="text-sm font-medium text-gray-300">{t('config.retailer')}</label>
+              <select
+                value={complianceProfileId}
+                onChange={(e) => setComplianceProfileId(e.target.value)}
+                className="w-full bg-gray-800 border border-gray-700 rounded-lg px-3 py-2 text-sm text-gray-200 focus:outline-none focus:ring-2 focus:ring-brand-500/50"
+              >
+                {RETAILER_PROFILES.map(profile => (
+                  <option key={profile.id} value={profile.id}>{profile.name}</option>
+                ))}
+              </select>
+              <p className="text-[10px] text-gray-500 px-1">{t('config.retailerHint')}</p>
+            </div>
+
+            <div className="space-y-2">
+              <label className="text-sm font-medium text-gray-300">{t('config.market')}</label>
+              <select
+                value={marketId}
+                onChange={(e) => setMarketId(e.target.value as MarketId)}
+                className="w-full bg-gray-800 border border-gray-700 rounded-lg px-3 py-2 text-sm text-gray-200 focus:outline-none focus:ring-2 focus:ring-brand-500/50"
+              >
+                {MARKET_PROFILES.map(profile => (
+                  <option key={profile.id} value={profile.id}>{profile.label} ({profile.currency})</option>
+                ))}
+              </select>
+              <p className="text-[10px] text-gray-500 px-1">{t('config.marketHint')}</p>
+            </div>
+
+            <div className="flex items-center gap-2">
+              <button
+                onClick={() => setIsTemplateLibraryOpen(true)}
+                className="text-xs font-semibold text-gray-400 hover:text-white border border-gray-700 hover:border-gray-500 rounded-lg px-3 py-1.5 transition-colors"
+              >
+                {appliedTemplate ? t('template.change') : t('template.start')}
+              </button>
+              {appliedTemplate && (
+                <span className="flex items-center gap-1 px-2 py-1 rounded-full bg-brand-500/10 text-[11px] text-brand-300">
+                  {appliedTemplate.template.name}
+                  <button onClick={() => setAppliedTemplate(null)} title={t('template.clear')} className="text-brand-300 hover:text-white">×</button>
+                </span>
+              )}
             </div>
+
+            <PromptBuilder
+              brief={brief}
+              onBriefChange={setBrief}
+              description={description}
+              onDescriptionChange={setDescription}
+              templateId={promptTemplateId}
+              onTemplateChange={setPromptTemplateId}
+              previewPrompt={previewPrompt}
+            />
           </div>
         </div>
 
         <div className="p-6 border-t border-gray-800 bg-gray-900/50 backdrop-blur-md">
           <button
             onClick={handleGenerate}
-            disabled={!isFormValid || result.loading}
+            disabled={!isFormValid || isBusy}
             className={`
               w-full py-4 rounded-xl font-bold text-sm tracking-wide transition-all shadow-lg
-              ${isFormValid && !result.loading
+              ${isFormValid && !isBusy
                 ? 'bg-gradient-to-r from-brand-600 to-accent-600 hover:from-brand-500 hover:to-accent-500 text-white shadow-brand-900/20 hover:shadow-brand-500/30 transform hover:-translate-y-0.5'
                 : 'bg-gray-800 text-gray-500 cursor-not-allowed'
               }
             `}
           >
-            {result.loading ? (
+            {isBusy ? (
               <span className="flex items-center justify-center gap-2">
                 <svg className="animate-spin h-5 w-5 text-white" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
                   <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
                   <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
                 </svg>
-                Generating Assets...
+                {t('generate.busy')}
               </span>
             ) : (
-              "GENERATE ADVERTISEMENT"
+              batchMode
+                ? t('generate.formats', { count: batchFormats.length })
+                : isVariantMode ? t('generate.variants', { count: variantCount }) : t('generate.single')
             )}
           </button>
+          {budgetWarnings.length > 0 && !isBusy && (
+            <button
+              onClick={() => setIsUsageOpen(true)}
+              className="mt-3 w-full text-left text-[11px] text-yellow-300/90 hover:text-yellow-200 leading-snug"
+            >
+              ⚠ {budgetWarnings[0]}
+            </button>
+          )}
         </div>
       </div>
 
@@ -416,21 +1706,41 @@ const App: React.FC = () => {
         <div className="relative z-10 w-full max-w-5xl h-full flex flex-col items-center justify-center">
           
           {result.error && (
-            <div className="bg-red-500/10 border border-red-500/50 text-red-200 px-6 py-4 rounded-xl mb-6 backdrop-blur-md max-w-lg text-center animate-fade-in">
-              <div className="flex items-center justify-center mb-2">
-                 <svg className="w-6 h-6 text-red-400 mr-2" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                   <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-3L13.732 4c-.77-1.333-2.694-1.333-3.464 0L3.34 16c-.77 1.333.192 3 1.732 3z" />
-                 </svg>
-                 <span className="font-bold">Generation Failed</span>
-              </div>
-              <p className="text-sm opacity-90 leading-relaxed">{result.error}</p>
-              {result.error.includes("expired") || result.error.includes("reconnect") || result.error.includes("API Key") ? (
-                  <button onClick={() => setHasApiKey(false)} className="mt-3 px-4 py-2 bg-red-500/20 hover:bg-red-500/30 rounded-lg text-xs font-semibold uppercase tracking-wide transition-colors">Reconnect Account</button>
-              ) : null}
-            </div>
+            <GenerationErrorPanel
+              message={result.error}
+              kind={result.errorKind || 'unknown'}
+              diagnostics={result.diagnostics}
+              rephraseChanges={rephraseBriefSafely(brief, description).changes}
+              useProModel={useProModel}
+              onAction={handleRecoveryAction}
+            />
           )}
 
-          {!result.imageUrl && !result.loading && !result.error && (
+          {batchItems.length > 0 && !result.imageUrl && !result.loading && (
+            <BatchResultsGrid
+              items={batchItems}
+              onRetry={handleRetryBatchItem}
+              onOpen={openBatchItem}
+              onStop={handleStopRun}
+              onResume={() => runBatch(batchItems)}
+              isRunning={isBatchRunning}
+            />
+          )}
+
+          {variantItems.length > 0 && !result.imageUrl && !result.loading && (
+            <VariantComparisonGrid
+              items={variantItems}
+              aspectRatio={aspectRatio}
+              isRunning={isVariantRunning}
+              onToggleStar={(id) => setVariantItems(prev => prev.map(item => item.id === id ? { ...item, starred: !item.starred } : item))}
+              onPickWinner={handlePickWinner}
+              onRetry={handleRetryVariant}
+              onStop={handleStopRun}
+              onResume={() => runVariants(variantItems)}
+            />
+          )}
+
+          {!result.imageUrl && !result.loading && !result.error && batchItems.length === 0 && variantItems.length === 0 && (
             <div className="text-center space-y-6 opacity-40 select-none">
               <div className="w-24 h-24 rounded-full bg-gray-800 mx-auto flex items-center justify-center border border-gray-700">
                 <svg xmlns="http://www.w3.org/2000/svg" className="h-10 w-10 text-gray-500" fill="none" viewBox="0 0 24 24" stroke="currentColor">
@@ -438,8 +1748,8 @@ const App: React.FC = () => {
                 </svg>
               </div>
               <div>
-                <h3 className="text-2xl font-bold text-gray-200">Ready to Create</h3>
-                <p className="text-gray-400 mt-2 max-w-sm mx-auto">Upload your product and logo, describe your vision, and let AI build your campaign.</p>
+                <h3 className="text-2xl font-bold text-gray-200">{t('empty.title')}</h3>
+                <p className="text-gray-400 mt-2 max-w-sm mx-auto">{t('empty.body')}</p>
               </div>
             </div>
           )}
@@ -453,69 +1763,332 @@ const App: React.FC = () => {
                  </div>
                </div>
                <div>
-                  <h3 className="text-2xl font-bold text-white tracking-tight">Designing your Ad...</h3>
-                  <p className="text-brand-300/70 mt-2">Analyzing product • Composing layout • Applying lighting</p>
+                  <h3 className="text-2xl font-bold text-white tracking-tight">{t('loading.title')}</h3>
+                  <p className="text-brand-300/70 mt-2">
+                    {followedJob?.status === 'backing-off'
+                      ? <>{t('loading.rateLimited')} • <RetryCountdown retryAt={followedJob.retryAt} /></>
+                      : followedJob?.status === 'queued'
+                        ? (isQueuePaused ? t('loading.paused') : t('loading.waiting'))
+                        : t('loading.steps')}
+                  </p>
                </div>
+               {followedJob && (
+                 <div className="flex justify-center gap-3">
+                   {isQueuePaused && (
+                     <button
+                       onClick={() => setIsQueuePaused(false)}
+                       className="px-4 py-2 rounded-lg text-sm font-semibold bg-brand-600 hover:bg-brand-500 text-white transition-colors"
+                     >
+                       {t('loading.resumeQueue')}
+                     </button>
+                   )}
+                   <button
+                     onClick={() => handleCancelJob(followedJob)}
+                     className="px-4 py-2 rounded-lg text-sm font-semibold bg-gray-800 hover:bg-gray-700 text-gray-200 transition-colors"
+                   >
+                     {t('common.cancel')}
+                   </button>
+                 </div>
+               )}
              </div>
           )}
 
-          {result.imageUrl && !result.loading && (
+          {result.imageUrl && !result.loading && isEditingOverlay && !isMasking && (
+            <OverlayEditor
+              imageUrl={result.imageUrl}
+              logoImage={logoImage}
+              layers={overlayLayers}
+              brandFonts={selectedBrandKit?.fonts || []}
+              onLayersChange={setOverlayLayers}
+              onClose={() => setIsEditingOverlay(false)}
+            />
+          )}
+
+          {result.imageUrl && !result.loading && isMasking && (
+            <MaskEditor
+              imageUrl={result.imageUrl}
+              isApplying={isRefining}
+              error={refineError}
+              onApply={handleInpaint}
+              onClose={() => { setIsMasking(false); setRefineError(null); }}
+            />
+          )}
+
+          {result.imageUrl && !result.loading && !isEditingOverlay && !isMasking && (
             <div className="flex flex-col items-center gap-6 animate-fade-in w-full h-full justify-center">
-              <div 
-                className={`
-                  relative bg-gray-800 rounded-lg overflow-hidden shadow-2xl ring-1 ring-gray-700
-                  ${aspectRatio === AspectRatio.Story ? 'h-[80vh] aspect-[9/16]' : ''}
-                  ${aspectRatio === AspectRatio.Square ? 'h-[70vh] aspect-square' : ''}
-                  ${aspectRatio === AspectRatio.Widescreen ? 'w-[90%] aspect-video' : ''}
-                  ${aspectRatio === AspectRatio.Portrait ? 'h-[80vh] aspect-[3/4]' : ''}
-                  ${aspectRatio === AspectRatio.Landscape ? 'w-[80%] aspect-[4/3]' : ''}
-                `}
-              >
-                <img 
-                  src={result.imageUrl} 
-                  alt="Generated Ad" 
-                  className="w-full h-full object-cover"
+              <div className="flex items-center gap-6 max-w-full">
+                <div 
+                  className={`
+                    relative bg-gray-800 rounded-lg overflow-hidden shadow-2xl ring-1 ring-gray-700
+                    ${aspectRatio === AspectRatio.Story ? 'h-[80vh] aspect-[9/16]' : ''}
+                    ${aspectRatio === AspectRatio.Square ? 'h-[70vh] aspect-square' : ''}
+                    ${aspectRatio === AspectRatio.Widescreen ? 'w-[90%] aspect-video' : ''}
+                    ${aspectRatio === AspectRatio.Portrait ? 'h-[80vh] aspect-[3/4]' : ''}
+                    ${aspectRatio === AspectRatio.Landscape ? 'w-[80%] aspect-[4/3]' : ''}
+                  `}
+                >
+                  <img 
+                    src={overlayPreviewUrl || result.imageUrl} 
+                    alt={t('result.imageAlt')}
+                    className="w-full h-full object-cover"
+                  />
+                  {showSafeZone && (
+                    <div
+                      className="absolute border-2 border-dashed border-yellow-400/80 pointer-events-none"
+                      style={{
+                        top: `${safeZone.top * 100}%`,
+                        right: `${safeZone.right * 100}%`,
+                        bottom: `${safeZone.bottom * 100}%`,
+                        left: `${safeZone.left * 100}%`,
+                      }}
+                    />
+                  )}
+                </div>
+                <ComplianceReportPanel
+                  report={result.compliance}
+                  profileName={complianceProfile.name}
+                  showSafeZone={showSafeZone}
+                  onToggleSafeZone={() => setShowSafeZone(!showSafeZone)}
                 />
               </div>
               
               <div className="flex gap-4">
-                 <a 
-                   href={result.imageUrl} 
-                   download="visioncraft-output.png"
-                   className="flex items-center gap-2 bg-white text-black px-6 py-3 rounded-full font-bold text-sm hover:bg-gray-200 transition-colors"
+                 <button 
+                   onClick={openExport}
+                   aria-disabled={isDownloadBlocked}
+                   title={isDownloadBlocked ? t('result.downloadBlocked') : undefined}
+                   className={`flex items-center gap-2 px-6 py-3 rounded-full font-bold text-sm transition-colors ${
+                     isDownloadBlocked ? 'bg-gray-700 text-gray-400 cursor-not-allowed' : 'bg-white text-black hover:bg-gray-200'
+                   }`}
                  >
                    <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" />
                    </svg>
-                   Download Image
-                 </a>
+                   {t('result.download')}
+                 </button>
                  <button 
-                    onClick={() => setIsShareModalOpen(true)}
-                    className="flex items-center gap-2 bg-gradient-to-tr from-yellow-500 via-red-500 to-purple-600 text-white px-6 py-3 rounded-full font-bold text-sm hover:opacity-90 transition-opacity"
+                    onClick={() => { setIsEditingOverlay(false); setIsMasking(true); }}
+                    disabled={isRefining}
+                    className="flex items-center gap-2 bg-gray-800 border border-gray-700 text-white px-6 py-3 rounded-full font-bold text-sm hover:bg-gray-700 disabled:opacity-40 transition-colors"
+                 >
+                    {t('result.editRegion')}
+                 </button>
+                 <button 
+                    onClick={() => setIsEditingOverlay(true)}
+                    className="flex items-center gap-2 bg-gray-800 border border-gray-700 text-white px-6 py-3 rounded-full font-bold text-sm hover:bg-gray-700 transition-colors"
+                 >
+                    {overlayLayers.length > 0 ? t('result.editOverlays', { count: overlayLayers.length }) : t('result.addOverlays')}
+                 </button>
+                 <button 
+                    onClick={() => !isDownloadBlocked && setIsShareModalOpen(true)}
+                    aria-disabled={isDownloadBlocked}
+                    title={isDownloadBlocked ? t('result.shareBlocked') : undefined}
+                    className={`flex items-center gap-2 px-6 py-3 rounded-full font-bold text-sm transition-opacity ${
+                      isDownloadBlocked ? 'bg-gray-700 text-gray-400 cursor-not-allowed' : 'bg-gradient-to-tr from-yellow-500 via-red-500 to-purple-600 text-white hover:opacity-90'
+                    }`}
                  >
                     <svg className="w-4 h-4" fill="currentColor" viewBox="0 0 24 24"><path d="M12 2.163c3.204 0 3.584.012 4.85.07 3.252.148 4.771 1.691 4.919 4.919.058 1.265.069 1.645.069 4.849 0 3.205-.012 3.584-.069 4.849-.149 3.225-1.664 4.771-4.919 4.919-1.266.058-1.644.07-4.85.07-3.204 0-3.584-.012-4.849-.07-3.26-.149-4.771-1.699-4.919-4.92-.058-1.265-.07-1.644-.07-4.849 0-3.204.013-3.583.07-4.849.149-3.227 1.664-4.771 4.919-4.919 1.266-.057 1.645-.069 4.849-.069zm0-2.163c-3.259 0-3.667.014-4.947.072-4.358.2-6.78 2.618-6.98 6.98-.059 1.281-.073 1.689-.073 4.948 0 3.259.014 3.668.072 4.948.2 4.358 2.618 6.78 6.98 6.98 1.281.058 1.689.072 4.948.072 3.259 0 3.668-.014 4.948-.072 4.354-.2 6.782-2.618 6.979-6.98.059-1.28.073-1.689.073-4.948 0-3.259-.014-3.667-.072-4.947-.196-4.354-2.617-6.78-6.979-6.98-1.281-.059-1.69-.073-4.949-.073zm0 5.838c-3.403 0-6.162 2.759-6.162 6.162s2.759 6.163 6.162 6.163 6.162-2.759 6.162-6.163c0-3.403-2.759-6.162-6.162-6.162zm0 10.162c-2.209 0-4-1.79-4-4 0-2.209 1.791-4 4-4s4 1.791 4 4c0 2.21-1.791 4-4 4zm6.406-11.845c-.796 0-1.441.645-1.441 1.44s.645 1.44 1.441 1.44c.795 0 1.439-.645 1.439-1.44s-.644-1.44-1.439-1.44z"/></svg>
-                    Post to Instagram
+                    {t('result.instagram')}
+                 </button>
+                 <button 
+                    onClick={() => !isDownloadBlocked && setIsPublishOpen(true)}
+                    aria-disabled={isDownloadBlocked}
+                    title={isDownloadBlocked ? t('result.publishBlocked') : undefined}
+                    className={`flex items-center gap-2 px-6 py-3 rounded-full font-bold text-sm transition-colors ${
+                      isDownloadBlocked ? 'bg-gray-700 text-gray-400 cursor-not-allowed' : 'bg-gray-800 border border-gray-700 text-white hover:bg-gray-700'
+                    }`}
+                 >
+                    {t('result.publish')}
+                    {pendingPublicationCount > 0 && (
+                      <span className="px-1.5 py-0.5 rounded-full bg-brand-500/20 text-brand-300 text-[10px]">{pendingPublicationCount}</span>
+                    )}
+                 </button>
+                 <button 
+                    onClick={openMarkets}
+                    className="flex items-center gap-2 bg-gray-800 border border-gray-700 text-white px-6 py-3 rounded-full font-bold text-sm hover:bg-gray-700 transition-colors"
+                 >
+                    {t('result.markets')}
                  </button>
                  <button 
-                    onClick={() => setResult({imageUrl: "", loading: false, error: null})}
+                    onClick={() => { setResult({imageUrl: "", loading: false, error: null, meta: null}); setRefinements(null); }}
                     className="flex items-center gap-2 bg-gray-800 border border-gray-700 text-white px-6 py-3 rounded-full font-bold text-sm hover:bg-gray-700 transition-colors"
                  >
-                    New Design
+                    {batchItems.length > 0 ? t('result.backToFormats') : variantItems.length > 0 ? t('result.backToVariants') : t('result.newDesign')}
                  </button>
               </div>
+
+              {refinements && (
+                <RefinementPanel
+                  history={refinements}
+                  isRefining={isRefining}
+                  error={refineError}
+                  onRefine={handleRefine}
+                  onUndo={() => moveRefinement(undoRefinement(refinements))}
+                  onRedo={() => moveRefinement(redoRefinement(refinements))}
+                  onJump={(index) => moveRefinement(jumpToRefinement(refinements, index))}
+                />
+              )}
             </div>
           )}
 
         </div>
       </div>
 
+      {/* Brand Kit Manager */}
+      {isBrandKitManagerOpen && (
+        <BrandKitManager
+          kits={brandKits}
+          onSave={handleSaveBrandKit}
+          onDelete={handleDeleteBrandKit}
+          onClose={() => setIsBrandKitManagerOpen(false)}
+        />
+      )}
+
+      {/* Catalog Import */}
+      {isCatalogOpen && (
+        <CatalogImporter
+          defaultFormats={batchMode ? batchFormats : [aspectRatio]}
+          preprocessOptions={preprocessOptions}
+          buildRequest={buildCatalogRequest}
+          checkBudget={count => isMetered ? checkBudget(usageRecords, useProModel ? 'pro' : 'standard', count, t) : []}
+          onClose={() => setIsCatalogOpen(false)}
+        />
+      )}
+
+      {/* Export */}
+      {isExportOpen && exportSettings && result.imageUrl && (
+        <ExportDialog
+          settings={exportSettings}
+          metadata={buildExportMetadata()}
+          getImageUrl={getFinalImageUrl}
+          onSettingsChange={setExportSettings}
+          onClose={() => setIsExportOpen(false)}
+        />
+      )}
+
+      {isPublishOpen && result.imageUrl && (
+        <PublishDialog
+          accounts={publishAccounts}
+          caption={shareCaption}
+          defaultTitle={buildExportMetadata().title}
+          defaultAltText={copyVariants[0]?.altText || draftAdCopy({ description, brief, brandKit: selectedBrandKit, platform: 'instagram-post', tone: 'friendly', length: 'short' }).altText}
+          publications={activeHistoryId ? publications.filter(record => record.historyId === activeHistoryId) : []}
+          onCaptionChange={setShareCaption}
+          onSaveAccount={handleSavePublishAccount}
+          onSubmit={handlePublish}
+          onRetry={handleRetryPublication}
+          onCancel={(record) => patchPublication(record.id, { status: 'cancelled' })}
+          onClose={() => setIsPublishOpen(false)}
+        />
+      )}
+
+      {isMarketsOpen && (
+        <MarketVariantsDialog
+          sourceMarketId={marketId}
+          templateValues={appliedTemplate?.values || null}
+          onLocalize={handleCreateMarketVariant}
+          onOpen={(historyId) => {
+            const entry = historyEntries.find(e => e.id === historyId);
+            if (entry) handleOpenHistory(entry);
+            setIsMarketsOpen(false);
+          }}
+          onClose={() => setIsMarketsOpen(false)}
+        />
+      )}
+
+      {isTemplateLibraryOpen && (
+        <TemplateLibrary
+          templates={templates}
+          brandKit={selectedBrandKit}
+          appliedTemplateId={appliedTemplate?.template.id || null}
+          onApply={handleApplyTemplate}
+          onSaveCurrent={handleSaveCurrentAsTemplate}
+          onSave={handleSaveTemplate}
+          onDelete={handleDeleteTemplate}
+          onClose={() => setIsTemplateLibraryOpen(false)}
+        />
+      )}
+
+      {isCampaignsOpen && (
+        <CampaignPlanner
+          campaigns={campaigns}
+          historyEntries={historyEntries}
+          publications={publications}
+          activeHistoryId={activeHistoryId}
+          currentCaption={shareCaption}
+          onSave={handleSaveCampaign}
+          onDelete={handleDeleteCampaign}
+          onQueue={handleQueueCampaignItem}
+          onClose={() => setIsCampaignsOpen(false)}
+        />
+      )}
+
+      {reminders.length > 0 && (
+        <div className="fixed bottom-4 right-4 z-50 space-y-2 w-72">
+          {reminders.map(({ campaign, item }) => (
+            <div key={item.id} className="p-3 rounded-xl bg-gray-900 border border-gray-700 shadow-2xl text-xs" style={{ borderLeft: `3px solid ${campaign.color}` }}>
+              <div className="flex justify-between gap-2">
+                <p className="font-semibold text-white">{campaign.name}</p>
+                <button onClick={() => setReminders(prev => prev.filter(r => r.item.id !== item.id))} className="text-gray-500 hover:text-white">✕</button>
+              </div>
+              <p className="text-gray-300">{t('reminder.at', { post: describeCampaignItem(item), time: new Date(item.scheduledAt).toLocaleString() })}</p>
+              <button
+                onClick={() => { setIsCampaignsOpen(true); setReminders(prev => prev.filter(r => r.item.id !== item.id)); }}
+                className="mt-1 text-brand-300 hover:text-brand-200"
+              >
+                {t('reminder.openCalendar')}
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* Usage Dashboard */}
+      {isUsageOpen && (
+        <UsageDashboard
+          records={usageRecords}
+          warnings={budgetWarnings}
+          onClose={() => setIsUsageOpen(false)}
+        />
+      )}
+
+      {/* Jobs Panel */}
+      {isJobsPanelOpen && (
+        <JobsPanel
+          jobs={jobs}
+          isPaused={isQueuePaused}
+          onPause={handlePauseQueue}
+          onResume={() => setIsQueuePaused(false)}
+          onCancel={handleCancelJob}
+          onRetry={handleRetryJob}
+          onOpen={handleOpenJob}
+          onRemove={handleRemoveJob}
+          onClearFinished={handleClearFinishedJobs}
+          onClose={() => setIsJobsPanelOpen(false)}
+        />
+      )}
+
+      {/* History Sidebar */}
+      {isHistoryOpen && (
+        <HistorySidebar
+          entries={historyEntries}
+          activeId={activeHistoryId}
+          isBusy={isBusy}
+          onOpen={handleOpenHistory}
+          onDuplicate={handleDuplicateHistory}
+          onRerun={handleRerunHistory}
+          onDelete={handleDeleteHistory}
+          onClose={() => setIsHistoryOpen(false)}
+        />
+      )}
+
       {/* Share Modal */}
       {isShareModalOpen && (
         <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/80 backdrop-blur-sm">
-          <div className="bg-gray-900 border border-gray-800 rounded-2xl w-full max-w-md overflow-hidden shadow-2xl">
+          <div className="bg-gray-900 border border-gray-800 rounded-2xl w-full max-w-lg max-h-[90vh] overflow-y-auto shadow-2xl">
             <div className="p-4 border-b border-gray-800 flex justify-between items-center">
               <h3 className="text-white font-bold text-lg">
-                {showManualShareStep ? "Complete Your Post" : "New Post"}
+                {t(showManualShareStep ? 'share.complete' : 'share.new')}
               </h3>
               <button 
                 onClick={closeShareModal}
@@ -530,23 +2103,23 @@ const App: React.FC = () => {
                  <div className="flex flex-col gap-4">
                     <div className="flex items-center gap-3 text-green-400 bg-green-400/10 p-3 rounded-lg">
                        <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" /></svg>
-                       <span className="text-sm font-medium">Image downloaded to device</span>
+                       <span className="text-sm font-medium">{t('share.downloaded')}</span>
                     </div>
                     <div className="flex items-center gap-3 text-green-400 bg-green-400/10 p-3 rounded-lg">
                        <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" /></svg>
-                       <span className="text-sm font-medium">Caption copied to clipboard</span>
+                       <span className="text-sm font-medium">{t('share.copied')}</span>
                     </div>
                  </div>
                  
                  <div className="text-center">
-                    <p className="text-gray-400 text-sm mb-4">You can now open Instagram and create your post.</p>
+                    <p className="text-gray-400 text-sm mb-4">{t('share.openHint')}</p>
                     <a 
                       href="https://www.instagram.com" 
                       target="_blank" 
                       rel="noopener noreferrer"
                       className="inline-flex items-center justify-center w-full py-3 bg-gradient-to-r from-purple-500 to-pink-500 hover:from-purple-600 hover:to-pink-600 text-white font-bold rounded-xl transition-all"
                     >
-                      Open Instagram.com
+                      {t('share.openInstagram')}
                       <svg className="w-4 h-4 ml-2" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10 6H6a2 2 0 00-2 2v10a2 2 0 002 2h10a2 2 0 002-2v-4M14 4h6m0 0v6m0-6L10 14" /></svg>
                     </a>
                  </div>
@@ -555,25 +2128,37 @@ const App: React.FC = () => {
               <>
                 <div className="p-4 flex gap-4">
                   <div className="w-24 h-24 flex-shrink-0 bg-gray-800 rounded-lg overflow-hidden">
-                    <img src={result.imageUrl} className="w-full h-full object-cover" alt="Preview" />
+                    <img src={overlayPreviewUrl || result.imageUrl} className="w-full h-full object-cover" alt={t('upload.preview')} />
                   </div>
                   <textarea
                     value={shareCaption}
                     onChange={(e) => setShareCaption(e.target.value)}
-                    placeholder="Write a caption..."
+                    placeholder={t('share.captionPlaceholder')}
                     className="flex-1 bg-transparent text-white text-sm focus:outline-none resize-none h-24"
                   />
                 </div>
+
+                <div className="px-4 pb-4">
+                  <CopyPanel
+                    variants={copyVariants}
+                    caption={shareCaption}
+                    defaultTone={appliedTemplate?.template.copyTone}
+                    onGenerate={handleWriteCopy}
+                    onUseCaption={setShareCaption}
+                  />
+                </div>
                 
                 <div className="p-4 border-t border-gray-800 bg-gray-900">
                    <button 
                      onClick={handleShareToInstagram}
-                     className="w-full py-3 bg-gradient-to-r from-blue-500 to-blue-600 hover:from-blue-600 hover:to-blue-700 text-white font-bold rounded-xl transition-all"
+                     disabled={isDownloadBlocked}
+                     title={isDownloadBlocked ? t('result.shareBlocked') : undefined}
+                     className="w-full py-3 bg-gradient-to-r from-blue-500 to-blue-600 hover:from-blue-600 hover:to-blue-700 text-white font-bold rounded-xl transition-all disabled:from-gray-700 disabled:to-gray-700 disabled:text-gray-400 disabled:cursor-not-allowed"
                    >
-                     Share Now
+                     {t('share.now')}
                    </button>
                    <p className="text-xs text-gray-500 text-center mt-3">
-                     Opens native sharing or downloads for manual posting.
+                     {t('share.hint')}
                    </p>
                 </div>
               </>
@@ -583,6 +2168,8 @@ const App: React.FC = () => {
       )}
     </div>
   );
+
+  return <TranslatorContext.Provider value={t}>{screen}</TranslatorContext.Provider>;
 };
 
 export default App;
\ No newline at end of file
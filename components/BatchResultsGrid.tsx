@@ -0,0 +1,100 @@
+import React from 'react';
+import { AspectRatio, BatchItem } from '../types';
+import { ASPECT_RATIO_CLASSES } from '../constants';
+import { MessageKey, useTranslator } from '../services/i18nService';
+
+interface BatchResultsGridProps {
+  items: BatchItem[];
+  onRetry: (aspectRatio: AspectRatio) => void;
+  onOpen: (item: BatchItem) => void;
+  onStop: () => void;
+  onResume: () => void;
+  isRunning: boolean;
+}
+
+export const BatchResultsGrid: React.FC<BatchResultsGridProps> = ({ items, onRetry, onOpen, onStop, onResume, isRunning }) => {
+  const t = useTranslator();
+  const completed = items.filter(item => item.status === 'done').length;
+  const failed = items.filter(item => item.status === 'error').length;
+  const stopped = !isRunning && items.some(item => item.status === 'pending');
+
+  return (
+    <div className="w-full h-full flex flex-col gap-4 overflow-y-auto">
+      <div className="flex items-center justify-between">
+        <h3 className="text-lg font-bold text-white">{t('batch.title')}</h3>
+        <div className="flex items-center gap-3">
+          <span className="text-xs text-gray-400">
+            {t('batch.progress', { done: completed, total: items.length })}{failed > 0 ? ` • ${t('batch.failed', { count: failed })}` : ''}
+          </span>
+          {(isRunning || stopped) && (
+            <button
+              onClick={isRunning ? onStop : onResume}
+              className="text-[11px] font-semibold uppercase tracking-wide px-3 py-1.5 rounded-lg border border-gray-700 text-gray-300 hover:border-gray-500 transition-colors"
+            >
+              {t(isRunning ? 'common.stop' : 'common.resume')}
+            </button>
+          )}
+        </div>
+      </div>
+      <div className="w-full h-1 bg-gray-800 rounded-full overflow-hidden">
+        <div
+          className="h-full bg-brand-500 transition-all"
+          style={{ width: `${items.length ? (completed / items.length) * 100 : 0}%` }}
+        />
+      </div>
+
+      <div className="grid grid-cols-2 lg:grid-cols-3 gap-4 items-start">
+        {items.map(item => (
+          <div key={item.aspectRatio} className="bg-gray-900/80 border border-gray-800 rounded-xl p-3 flex flex-col gap-2">
+            <div className="flex items-center justify-between">
+              <span className="text-xs font-semibold text-gray-300">{t(`format.${item.aspectRatio}` as MessageKey)}</span>
+              {item.attempts > 1 && (
+                <span className="text-[10px] text-gray-500">{t('batch.attempt', { count: item.attempts })}</span>
+              )}
+            </div>
+
+            <div className={`relative w-full bg-gray-800 rounded-lg overflow-hidden ${ASPECT_RATIO_CLASSES[item.aspectRatio]}`}>
+              {item.status === 'done' && (
+                <img
+                  src={item.imageUrl}
+                  alt={t('batch.imageAlt', { format: item.aspectRatio })}
+                  className="w-full h-full object-cover cursor-pointer"
+                  onClick={() => onOpen(item)}
+                />
+              )}
+              {item.status === 'running' && (
+                <div className="absolute inset-0 flex items-center justify-center">
+                  <div className="w-8 h-8 border-4 border-brand-500/30 border-t-brand-500 rounded-full animate-spin"></div>
+                </div>
+              )}
+              {item.status === 'pending' && (
+                <div className="absolute inset-0 flex items-center justify-center text-xs text-gray-500">{t('common.queued')}</div>
+              )}
+              {item.status === 'error' && (
+                <div className="absolute inset-0 flex flex-col items-center justify-center gap-2 p-3 text-center">
+                  <p className="text-[11px] text-red-300 leading-snug">{item.error}</p>
+                  <button
+                    onClick={() => onRetry(item.aspectRatio)}
+                    disabled={isRunning}
+                    className="px-3 py-1 bg-red-500/20 hover:bg-red-500/30 disabled:opacity-40 rounded-md text-[11px] font-semibold text-red-200 transition-colors"
+                  >
+                    {t('common.retry')}
+                  </button>
+                </div>
+              )}
+            </div>
+
+            {item.status === 'done' && (
+              <button
+                onClick={() => onOpen(item)}
+                className="text-center text-[11px] font-semibold text-brand-300 hover:text-brand-200"
+              >
+                {t('batch.review')}
+              </button>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
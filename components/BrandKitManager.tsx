@@ -0,0 +1,190 @@
+import React, { useState } from 'react';
+import { BrandKit } from '../types';
+import { readFileAsDataUrl } from '../services/canvasUtils';
+import { createEmptyBrandKit } from '../services/brandKitService';
+import { useTranslator } from '../services/i18nService';
+
+interface BrandKitManagerProps {
+  kits: BrandKit[];
+  onSave: (kit: BrandKit) => void;
+  onDelete: (kit: BrandKit) => void;
+  onClose: () => void;
+}
+
+// Comma separated text <-> list helpers for the simple list fields
+const splitList = (value: string): string[] => value.split(',').map(item => item.trim()).filter(Boolean);
+
+export const BrandKitManager: React.FC<BrandKitManagerProps> = ({ kits, onSave, onDelete, onClose }) => {
+  const t = useTranslator();
+  const [draft, setDraft] = useState<BrandKit | null>(kits[0] || null);
+  const [fontsText, setFontsText] = useState<string>(kits[0]?.fonts.join(', ') || '');
+  const [forbiddenText, setForbiddenText] = useState<string>(kits[0]?.forbiddenStyles.join(', ') || '');
+
+  const selectKit = (kit: BrandKit) => {
+    setDraft(kit);
+    setFontsText(kit.fonts.join(', '));
+    setForbiddenText(kit.forbiddenStyles.join(', '));
+  };
+
+  const update = (patch: Partial<BrandKit>) => {
+    setDraft(prev => prev ? { ...prev, ...patch } : prev);
+  };
+
+  const handleLogoUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []) as File[];
+    if (!draft || files.length === 0) return;
+    const logos = await Promise.all(files.map(async file => ({
+      name: file.name,
+      base64: await readFileAsDataUrl(file),
+      mimeType: file.type,
+    })));
+    update({ logos: [...draft.logos, ...logos] });
+    e.target.value = '';
+  };
+
+  const handleSave = () => {
+    if (!draft) return;
+    onSave({ ...draft, fonts: splitList(fontsText), forbiddenStyles: splitList(forbiddenText) });
+  };
+
+  const inputClass = "w-full bg-gray-800 border border-gray-700 rounded-lg px-3 py-2 text-sm text-gray-200 placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-brand-500/50";
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/80 backdrop-blur-sm">
+      <div className="bg-gray-900 border border-gray-800 rounded-2xl w-full max-w-3xl max-h-[90vh] overflow-hidden shadow-2xl flex flex-col">
+        <div className="p-4 border-b border-gray-800 flex justify-between items-center">
+          <h3 className="text-white font-bold text-lg">{t('brandKit.title')}</h3>
+          <button onClick={onClose} className="text-gray-400 hover:text-white">
+            <svg className="w-6 h-6" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" /></svg>
+          </button>
+        </div>
+
+        <div className="flex flex-1 min-h-0">
+          <div className="w-56 border-r border-gray-800 p-3 space-y-2 overflow-y-auto">
+            {kits.map(kit => (
+              <button
+                key={kit.id}
+                onClick={() => selectKit(kit)}
+                className={`w-full text-left px-3 py-2 rounded-lg text-sm transition-colors ${
+                  draft?.id === kit.id ? 'bg-brand-600/20 text-brand-300' : 'text-gray-300 hover:bg-gray-800'
+                }`}
+              >
+                <span className="block truncate font-semibold">{kit.name}</span>
+                <span className="flex gap-1 mt-1">
+                  {kit.palette.slice(0, 5).map(color => (
+                    <span key={color} className="w-3 h-3 rounded-full border border-gray-700" style={{ backgroundColor: color }} />
+                  ))}
+                </span>
+              </button>
+            ))}
+            <button
+              onClick={() => selectKit(createEmptyBrandKit())}
+              className="w-full px-3 py-2 rounded-lg text-sm font-semibold border border-dashed border-gray-700 text-gray-400 hover:text-white hover:border-gray-500 transition-colors"
+            >
+              {t('brandKit.new')}
+            </button>
+          </div>
+
+          {draft ? (
+            <div className="flex-1 p-5 space-y-4 overflow-y-auto">
+              <label className="block space-y-1">
+                <span className="text-xs font-medium text-gray-400">{t('brandKit.name')}</span>
+                <input value={draft.name} onChange={(e) => update({ name: e.target.value })} className={inputClass} />
+              </label>
+
+              <div className="space-y-1">
+                <span className="text-xs font-medium text-gray-400">{t('brandKit.logos')}</span>
+                <div className="flex flex-wrap gap-2">
+                  {draft.logos.map((logo, index) => (
+                    <div key={`${logo.name}-${index}`} className="relative w-16 h-16 bg-gray-800 rounded-lg overflow-hidden group">
+                      <img src={logo.base64} alt={logo.name} className="w-full h-full object-contain p-1" />
+                      <button
+                        onClick={() => update({ logos: draft.logos.filter((_, i) => i !== index) })}
+                        className="absolute inset-0 bg-black/60 opacity-0 group-hover:opacity-100 text-[10px] font-semibold text-red-300 transition-opacity"
+                      >
+                        {t('common.remove')}
+                      </button>
+                    </div>
+                  ))}
+                  <label className="w-16 h-16 rounded-lg border-2 border-dashed border-gray-700 hover:border-gray-500 flex items-center justify-center text-gray-500 text-xl cursor-pointer">
+                    +
+                    <input type="file" accept="image/*" multiple onChange={handleLogoUpload} className="hidden" />
+                  </label>
+                </div>
+              </div>
+
+              <div className="space-y-1">
+                <span className="text-xs font-medium text-gray-400">{t('brandKit.palette')}</span>
+                <div className="flex flex-wrap gap-2 items-center">
+                  {draft.palette.map((color, index) => (
+                    <div key={index} className="flex items-center gap-1 bg-gray-800 rounded-lg px-2 py-1">
+                      <input
+                        type="color"
+                        value={color}
+                        onChange={(e) => update({ palette: draft.palette.map((c, i) => i === index ? e.target.value : c) })}
+                      />
+                      <span className="text-[11px] text-gray-400 font-mono">{color}</span>
+                      <button
+                        onClick={() => update({ palette: draft.palette.filter((_, i) => i !== index) })}
+                        className="text-gray-500 hover:text-red-300 text-xs"
+                      >
+                        ✕
+                      </button>
+                    </div>
+                  ))}
+                  <button
+                    onClick={() => update({ palette: [...draft.palette, '#ffffff'] })}
+                    className="px-2 py-1 text-xs font-semibold text-gray-400 hover:text-white"
+                  >
+                    {t('brandKit.addColor')}
+                  </button>
+                </div>
+              </div>
+
+              <label className="block space-y-1">
+                <span className="text-xs font-medium text-gray-400">{t('brandKit.fonts')}</span>
+                <input value={fontsText} onChange={(e) => setFontsText(e.target.value)} placeholder="Montserrat, Georgia" className={inputClass} />
+              </label>
+
+              <label className="block space-y-1">
+                <span className="text-xs font-medium text-gray-400">{t('brandKit.tone')}</span>
+                <textarea
+                  value={draft.tone}
+                  onChange={(e) => update({ tone: e.target.value })}
+                  placeholder={t('brandKit.tonePlaceholder')}
+                  className={`${inputClass} h-20 resize-none`}
+                />
+              </label>
+
+              <label className="block space-y-1">
+                <span className="text-xs font-medium text-gray-400">{t('brandKit.forbidden')}</span>
+                <input value={forbiddenText} onChange={(e) => setForbiddenText(e.target.value)} placeholder={t('brandKit.forbiddenPlaceholder')} className={inputClass} />
+              </label>
+
+              <div className="flex gap-3 pt-2">
+                <button
+                  onClick={handleSave}
+                  className="flex-1 py-2.5 bg-brand-600 hover:bg-brand-500 text-white text-sm font-bold rounded-lg transition-colors"
+                >
+                  {t('brandKit.save')}
+                </button>
+                {kits.some(kit => kit.id === draft.id) && (
+                  <button
+                    onClick={() => { onDelete(draft); setDraft(null); }}
+                    className="px-4 py-2.5 bg-red-500/15 hover:bg-red-500/25 text-red-300 text-sm font-semibold rounded-lg transition-colors"
+                  >
+                    {t('common.delete')}
+                  </button>
+                )}
+              </div>
+            </div>
+          ) : (
+            <div className="flex-1 flex items-center justify-center text-sm text-gray-500">
+              {t('brandKit.empty')}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
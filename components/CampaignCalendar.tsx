@@ -0,0 +1,97 @@
+import React from 'react';
+import { Campaign, CampaignItem, PublishRecord } from '../types';
+import { describeCampaignItem, getCampaignItemStatus, getMonthGrid, isSameDay } from '../services/campaignService';
+import { useTranslator } from '../services/i18nService';
+
+interface CampaignCalendarProps {
+  month: number;
+  campaigns: Campaign[];
+  publications: PublishRecord[];
+  selectedItemId: string | null;
+  onSelectItem: (campaign: Campaign, item: CampaignItem) => void;
+  onAddItem: (day: number) => void;
+  onMoveItem: (campaignId: string, itemId: string, day: number) => void;
+}
+
+// Same status colours as the publish dialog, reduced to a dot
+const STATUS_DOTS: Record<string, string> = {
+  planned: 'bg-gray-500',
+  ready: 'bg-yellow-400',
+  queued: 'bg-gray-300',
+  scheduled: 'bg-blue-400',
+  due: 'bg-blue-200',
+  publishing: 'bg-brand-400',
+  published: 'bg-green-400',
+  failed: 'bg-red-400',
+  cancelled: 'bg-gray-700',
+};
+
+export const CampaignCalendar: React.FC<CampaignCalendarProps> = ({
+  month,
+  campaigns,
+  publications,
+  selectedItemId,
+  onSelectItem,
+  onAddItem,
+  onMoveItem,
+}) => {
+  const t = useTranslator();
+  const days = getMonthGrid(month);
+  const currentMonth = new Date(month).getMonth();
+  const today = Date.now();
+
+  const handleDrop = (e: React.DragEvent<HTMLDivElement>, day: number) => {
+    e.preventDefault();
+    const [campaignId, itemId] = e.dataTransfer.getData('text/plain').split('|');
+    if (campaignId && itemId) onMoveItem(campaignId, itemId, day);
+  };
+
+  return (
+    <div className="grid grid-cols-7 gap-px bg-gray-800 border border-gray-800 rounded-lg overflow-hidden">
+      {days.slice(0, 7).map(day => (
+        <div key={day} className="bg-gray-900 px-2 py-1 text-[10px] font-semibold text-gray-500 uppercase">
+          {new Date(day).toLocaleDateString([], { weekday: 'short' })}
+        </div>
+      ))}
+      {days.map(day => {
+        const entries = campaigns
+          .flatMap(campaign => campaign.items.filter(item => isSameDay(item.scheduledAt, day)).map(item => ({ campaign, item })))
+          .sort((a, b) => a.item.scheduledAt - b.item.scheduledAt);
+        return (
+          <div
+            key={day}
+            onDragOver={(e) => e.preventDefault()}
+            onDrop={(e) => handleDrop(e, day)}
+            onDoubleClick={() => onAddItem(day)}
+            className={`group min-h-[88px] p-1 space-y-1 ${new Date(day).getMonth() === currentMonth ? 'bg-gray-900' : 'bg-gray-900/60'}`}
+          >
+            <div className="flex justify-between items-center">
+              <span className={`text-[11px] ${isSameDay(day, today) ? 'px-1.5 rounded-full bg-brand-600 text-white' : new Date(day).getMonth() === currentMonth ? 'text-gray-300' : 'text-gray-600'}`}>
+                {new Date(day).getDate()}
+              </span>
+              <button onClick={() => onAddItem(day)} title={t('campaign.planPost')} className="text-gray-600 hover:text-white text-xs opacity-0 group-hover:opacity-100">+</button>
+            </div>
+            {entries.map(({ campaign, item }) => (
+              <button
+                key={item.id}
+                draggable
+                onDragStart={(e) => e.dataTransfer.setData('text/plain', `${campaign.id}|${item.id}`)}
+                onClick={() => onSelectItem(campaign, item)}
+                title={`${campaign.name}: ${describeCampaignItem(item)}`}
+                className={`w-full flex items-center gap-1 px-1 py-0.5 rounded text-left text-[10px] text-white truncate ${
+                  selectedItemId === item.id ? 'ring-1 ring-white' : ''
+                }`}
+                style={{ backgroundColor: `${campaign.color}40`, borderLeft: `3px solid ${campaign.color}` }}
+              >
+                <span className={`w-1.5 h-1.5 rounded-full flex-shrink-0 ${STATUS_DOTS[getCampaignItemStatus(item, publications)]}`} />
+                <span className="truncate">
+                  {new Date(item.scheduledAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })} {describeCampaignItem(item)}
+                </span>
+              </button>
+            ))}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
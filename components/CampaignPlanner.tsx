@@ -0,0 +1,374 @@
+import React, { useState } from 'react';
+import { AspectRatio, Campaign, CampaignItem, HistoryEntry, PublishConnectorId, PublishRecord } from '../types';
+import { AD_FORMATS } from '../constants';
+import { CampaignCalendar } from './CampaignCalendar';
+import {
+  CAMPAIGN_COLORS,
+  CampaignItemStatus,
+  REMINDER_OPTIONS,
+  buildCampaignIcs,
+  buildCampaignZip,
+  createCampaign,
+  createCampaignItem,
+  getCampaignItemStatus,
+  moveToDay,
+} from '../services/campaignService';
+import { listPublishConnectors } from '../services/publishService';
+import { safePathSegment } from '../services/catalogService';
+import { downloadBlob } from '../services/zipService';
+import { MessageKey, useTranslator } from '../services/i18nService';
+
+interface CampaignPlannerProps {
+  campaigns: Campaign[];
+  historyEntries: HistoryEntry[];
+  publications: PublishRecord[];
+  // Creative and caption on screen, offered when filling a post
+  activeHistoryId: string | null;
+  currentCaption: string;
+  onSave: (campaign: Campaign) => void;
+  onDelete: (id: string) => void;
+  onQueue: (campaign: Campaign, item: CampaignItem) => Promise<void>;
+  onClose: () => void;
+}
+
+const INPUT_CLASS = 'w-full bg-gray-800 border border-gray-700 rounded-lg px-3 py-2 text-sm text-gray-200 focus:outline-none focus:ring-2 focus:ring-brand-500/50';
+
+// Publish statuses share their labels with the publish dialog
+const STATUS_KEYS: Record<CampaignItemStatus, MessageKey> = {
+  planned: 'campaign.status.planned',
+  ready: 'campaign.status.ready',
+  due: 'publish.status.due',
+  queued: 'publish.status.queued',
+  scheduled: 'publish.status.scheduled',
+  publishing: 'publish.status.publishing',
+  published: 'publish.status.published',
+  failed: 'publish.status.failed',
+  cancelled: 'publish.status.cancelled',
+};
+
+// <input type="datetime-local"> works in local time without a zone suffix
+const toLocalInputValue = (time: number): string => {
+  return new Date(time - new Date(time).getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+};
+
+export const CampaignPlanner: React.FC<CampaignPlannerProps> = ({
+  campaigns,
+  historyEntries,
+  publications,
+  activeHistoryId,
+  currentCaption,
+  onSave,
+  onDelete,
+  onQueue,
+  onClose,
+}) => {
+  const t = useTranslator();
+  const connectors = listPublishConnectors();
+  const [selectedId, setSelectedId] = useState<string | null>(campaigns[0]?.id || null);
+  const [selectedItemId, setSelectedItemId] = useState<string | null>(null);
+  const [month, setMonth] = useState<number>(campaigns[0]?.launchDate || Date.now());
+  const [isExporting, setIsExporting] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+  const [notificationPermission, setNotificationPermission] = useState<string>(
+    typeof Notification === 'undefined' ? 'unsupported' : Notification.permission
+  );
+
+  const campaign = campaigns.find(c => c.id === selectedId) || null;
+  const item = campaign?.items.find(i => i.id === selectedItemId) || null;
+  const monthDate = new Date(month);
+
+  const updateCampaign = (patch: Partial<Campaign>) => {
+    if (campaign) onSave({ ...campaign, ...patch });
+  };
+
+  const updateItem = (patch: Partial<CampaignItem>) => {
+    if (!campaign || !item) return;
+    updateCampaign({ items: campaign.items.map(i => i.id === item.id ? { ...i, ...patch } : i) });
+  };
+
+  const toggleIn = <T,>(list: T[], value: T): T[] => list.includes(value) ? list.filter(v => v !== value) : [...list, value];
+
+  const handleNewCampaign = () => {
+    const created = createCampaign(campaigns.length);
+    onSave(created);
+    setSelectedId(created.id);
+    setSelectedItemId(null);
+    setMonth(created.launchDate);
+  };
+
+  const handleAddItem = (day: number) => {
+    if (!campaign) return;
+    const created = createCampaignItem(campaign, day);
+    updateCampaign({ items: [...campaign.items, created] });
+    setSelectedItemId(created.id);
+  };
+
+  const handleMoveItem = (campaignId: string, itemId: string, day: number) => {
+    const target = campaigns.find(c => c.id === campaignId);
+    if (!target) return;
+    onSave({ ...target, items: target.items.map(i => i.id === itemId ? { ...i, scheduledAt: moveToDay(i.scheduledAt, day) } : i) });
+  };
+
+  const shiftMonth = (delta: number) => {
+    setMonth(new Date(monthDate.getFullYear(), monthDate.getMonth() + delta, 1).getTime());
+  };
+
+  const handleDownloadIcs = () => {
+    const targets = campaign ? [campaign] : campaigns;
+    const blob = new Blob([buildCampaignIcs(targets)], { type: 'text/calendar' });
+    downloadBlob(blob, `${safePathSegment(campaign?.name || 'visioncraft-campaigns')}.ics`);
+  };
+
+  const handleDownloadZip = async () => {
+    if (!campaign) return;
+    setIsExporting(true);
+    setError(null);
+    try {
+      downloadBlob(await buildCampaignZip(campaign, historyEntries), `${safePathSegment(campaign.name)}.zip`);
+    } catch (e: any) {
+      setError(e.message || t('campaign.zipFailed'));
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const handleQueue = async () => {
+    if (!campaign || !item) return;
+    setError(null);
+    try {
+      await onQueue(campaign, item);
+    } catch (e: any) {
+      setError(e.message || t('publish.failed'));
+    }
+  };
+
+  const itemStatus = item ? getCampaignItemStatus(item, publications) : null;
+  const isLocked = itemStatus !== null && !['planned', 'ready', 'failed', 'cancelled'].includes(itemStatus);
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/80 backdrop-blur-sm">
+      <div className="bg-gray-900 border border-gray-800 rounded-2xl w-full max-w-6xl max-h-[92vh] overflow-hidden shadow-2xl flex flex-col">
+        <div className="p-4 border-b border-gray-800 flex justify-between items-center gap-4">
+          <div className="flex items-center gap-3">
+            <h3 className="text-white font-bold text-lg">{t('campaign.title')}</h3>
+            <button onClick={() => shiftMonth(-1)} className="text-gray-400 hover:text-white px-2">‹</button>
+            <span className="text-sm text-gray-200 w-32 text-center">{monthDate.toLocaleDateString([], { month: 'long', year: 'numeric' })}</span>
+            <button onClick={() => shiftMonth(1)} className="text-gray-400 hover:text-white px-2">›</button>
+            <button onClick={() => setMonth(Date.now())} className="text-[11px] text-gray-400 hover:text-white">{t('campaign.today')}</button>
+          </div>
+          <div className="flex items-center gap-3">
+            {notificationPermission === 'default' && (
+              <button
+                onClick={() => Notification.requestPermission().then(setNotificationPermission)}
+                className="text-xs text-brand-300 hover:text-brand-200"
+              >
+                {t('campaign.enableReminders')}
+              </button>
+            )}
+            <button onClick={handleDownloadIcs} disabled={campaigns.length === 0} className="text-xs text-gray-300 hover:text-white disabled:opacity-40">
+              {t('campaign.exportIcs')}
+            </button>
+            <button onClick={handleDownloadZip} disabled={!campaign || isExporting} className="text-xs text-gray-300 hover:text-white disabled:opacity-40">
+              {t(isExporting ? 'campaign.packing' : 'campaign.downloadZip')}
+            </button>
+            <button onClick={onClose} className="text-gray-400 hover:text-white">
+              <svg className="w-6 h-6" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" /></svg>
+            </button>
+          </div>
+        </div>
+
+        <div className="flex-1 flex min-h-0">
+          <div className="w-64 border-r border-gray-800 p-4 space-y-4 overflow-y-auto">
+            <div className="space-y-1">
+              {campaigns.map(c => (
+                <button
+                  key={c.id}
+                  onClick={() => { setSelectedId(c.id); setSelectedItemId(null); }}
+                  className={`w-full flex items-center gap-2 px-2 py-1.5 rounded-lg text-left text-sm ${
+                    c.id === selectedId ? 'bg-gray-800 text-white' : 'text-gray-400 hover:text-white'
+                  }`}
+                >
+                  <span className="w-2.5 h-2.5 rounded-full flex-shrink-0" style={{ backgroundColor: c.color }} />
+                  <span className="truncate flex-1">{c.name}</span>
+                  <span className="text-[10px] text-gray-500">{c.items.length}</span>
+                </button>
+              ))}
+              <button onClick={handleNewCampaign} className="w-full px-2 py-1.5 text-left text-xs text-brand-300 hover:text-brand-200">
+                {t('campaign.new')}
+              </button>
+            </div>
+
+            {campaign && (
+              <div className="space-y-3 pt-3 border-t border-gray-800">
+                <input value={campaign.name} onChange={(e) => updateCampaign({ name: e.target.value })} className={INPUT_CLASS} />
+                <label className="block space-y-1 text-[11px] text-gray-400">
+                  {t('campaign.launch')}
+                  <input
+                    type="datetime-local"
+                    value={toLocalInputValue(campaign.launchDate)}
+                    onChange={(e) => e.target.value && updateCampaign({ launchDate: new Date(e.target.value).getTime() })}
+                    className={INPUT_CLASS}
+                  />
+                </label>
+                <div className="space-y-1 text-[11px] text-gray-400">
+                  {t('campaign.channels')}
+                  <div className="flex flex-wrap gap-1">
+                    {connectors.map(connector => (
+                      <button
+                        key={connector.id}
+                        onClick={() => updateCampaign({ channels: toggleIn<PublishConnectorId>(campaign.channels, connector.id) })}
+                        className={`px-2 py-1 rounded-md border ${campaign.channels.includes(connector.id) ? 'border-brand-500 text-brand-300' : 'border-gray-700 text-gray-400'}`}
+                      >
+                        {connector.label}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+                <div className="space-y-1 text-[11px] text-gray-400">
+                  {t('campaign.formats')}
+                  <div className="flex flex-wrap gap-1">
+                    {AD_FORMATS.map(format => (
+                      <button
+                        key={format}
+                        onClick={() => updateCampaign({ formats: toggleIn<AspectRatio>(campaign.formats, format) })}
+                        title={t(`format.${format}`)}
+                        className={`px-2 py-1 rounded-md border ${campaign.formats.includes(format) ? 'border-brand-500 text-brand-300' : 'border-gray-700 text-gray-400'}`}
+                      >
+                        {format}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+                <div className="flex gap-1.5">
+                  {CAMPAIGN_COLORS.map(color => (
+                    <button
+                      key={color}
+                      onClick={() => updateCampaign({ color })}
+                      className={`w-5 h-5 rounded-full ${campaign.color === color ? 'ring-2 ring-white' : ''}`}
+                      style={{ backgroundColor: color }}
+                    />
+                  ))}
+                </div>
+                <textarea
+                  value={campaign.notes}
+                  onChange={(e) => updateCampaign({ notes: e.target.value })}
+                  placeholder={t('campaign.notesPlaceholder')}
+                  className={`${INPUT_CLASS} h-20 resize-none text-xs`}
+                />
+                <button
+                  onClick={() => { onDelete(campaign.id); setSelectedId(null); setSelectedItemId(null); }}
+                  className="text-[11px] text-red-300 hover:text-red-200"
+                >
+                  {t('campaign.delete')}
+                </button>
+              </div>
+            )}
+          </div>
+
+          <div className="flex-1 p-4 overflow-y-auto min-w-0 space-y-2">
+            <CampaignCalendar
+              month={month}
+              campaigns={campaigns}
+              publications={publications}
+              selectedItemId={selectedItemId}
+              onSelectItem={(c, i) => { setSelectedId(c.id); setSelectedItemId(i.id); }}
+              onAddItem={handleAddItem}
+              onMoveItem={handleMoveItem}
+            />
+            <p className="text-[11px] text-gray-500">
+              {campaign ? t('campaign.planHint', { name: campaign.name }) : t('campaign.createHint')}
+            </p>
+          </div>
+
+          {campaign && item && (
+            <div className="w-72 border-l border-gray-800 p-4 space-y-3 overflow-y-auto">
+              <div className="flex justify-between items-center">
+                <p className="text-xs font-semibold text-gray-400 uppercase tracking-wide">{t('campaign.post')}</p>
+                <span className="text-[11px] text-gray-400">{itemStatus && t(STATUS_KEYS[itemStatus])}</span>
+              </div>
+              <input
+                type="datetime-local"
+                value={toLocalInputValue(item.scheduledAt)}
+                disabled={isLocked}
+                onChange={(e) => e.target.value && updateItem({ scheduledAt: new Date(e.target.value).getTime() })}
+                className={INPUT_CLASS}
+              />
+              <div className="grid grid-cols-2 gap-2">
+                <select value={item.channel} disabled={isLocked} onChange={(e) => updateItem({ channel: e.target.value as PublishConnectorId })} className={INPUT_CLASS}>
+                  {connectors.map(connector => <option key={connector.id} value={connector.id}>{connector.label}</option>)}
+                </select>
+                <select value={item.aspectRatio} disabled={isLocked} onChange={(e) => updateItem({ aspectRatio: e.target.value as AspectRatio })} className={INPUT_CLASS}>
+                  {AD_FORMATS.map(format => <option key={format} value={format}>{format}</option>)}
+                </select>
+              </div>
+
+              <label className="block space-y-1 text-[11px] text-gray-400">
+                {t('campaign.creative')}
+                <select
+                  value={item.historyId || ''}
+                  disabled={isLocked}
+                  onChange={(e) => updateItem({ historyId: e.target.value || null })}
+                  className={INPUT_CLASS}
+                >
+                  <option value="">{t('campaign.notChosen')}</option>
+                  {historyEntries.map(entry => (
+                    <option key={entry.id} value={entry.id}>
+                      {entry.title} ({entry.output.aspectRatio}){entry.output.aspectRatio !== item.aspectRatio ? ' *' : ''}
+                    </option>
+                  ))}
+                </select>
+                {activeHistoryId && item.historyId !== activeHistoryId && !isLocked && (
+                  <button onClick={() => updateItem({ historyId: activeHistoryId })} className="text-brand-300 hover:text-brand-200">
+                    {t('campaign.useCreative')}
+                  </button>
+                )}
+              </label>
+
+              <label className="block space-y-1 text-[11px] text-gray-400">
+                {t('campaign.caption')}
+                <textarea value={item.caption} disabled={isLocked} onChange={(e) => updateItem({ caption: e.target.value })} className={`${INPUT_CLASS} h-24 resize-none text-xs`} />
+                {currentCaption && item.caption !== currentCaption && !isLocked && (
+                  <button onClick={() => updateItem({ caption: currentCaption })} className="text-brand-300 hover:text-brand-200">
+                    {t('campaign.useCaption')}
+                  </button>
+                )}
+              </label>
+
+              <textarea
+                value={item.notes}
+                onChange={(e) => updateItem({ notes: e.target.value })}
+                placeholder={t('campaign.notesForTeam')}
+                className={`${INPUT_CLASS} h-16 resize-none text-xs`}
+              />
+
+              <select
+                value={item.reminderMinutes ?? ''}
+                onChange={(e) => updateItem({ reminderMinutes: e.target.value ? Number(e.target.value) : null })}
+                className={INPUT_CLASS}
+              >
+                {REMINDER_OPTIONS.map(minutes => <option key={minutes ?? 'none'} value={minutes ?? ''}>{t(`campaign.reminder.${minutes ?? 'none'}` as MessageKey)}</option>)}
+              </select>
+
+              {error && <p className="text-[11px] text-red-300">{error}</p>}
+
+              <button
+                onClick={handleQueue}
+                disabled={!item.historyId || isLocked}
+                className="w-full py-2 bg-brand-600 hover:bg-brand-500 disabled:bg-gray-800 disabled:text-gray-500 text-white text-sm font-bold rounded-lg transition-colors"
+              >
+                {t('campaign.schedule')}
+              </button>
+              <button
+                onClick={() => { updateCampaign({ items: campaign.items.filter(i => i.id !== item.id) }); setSelectedItemId(null); }}
+                disabled={isLocked}
+                className="w-full text-[11px] text-red-300 hover:text-red-200 disabled:opacity-40"
+              >
+                {t('campaign.removePost')}
+              </button>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,304 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { AspectRatio, CatalogJob, CatalogRow, ImageGenerationRequest, ImagePreprocessOptions, UploadedImage } from '../types';
+import {
+  CATALOG_THROTTLE_MS,
+  buildCatalogZip,
+  createCatalogJobs,
+  matchCatalogImages,
+  parseCatalog,
+  runCatalogGeneration,
+} from '../services/catalogService';
+import { downloadBlob } from '../services/zipService';
+import { preprocessImage } from '../services/imagePreprocessService';
+import { MessageKey, useTranslator } from '../services/i18nService';
+
+interface CatalogImporterProps {
+  defaultFormats: AspectRatio[];
+  // Same upload settings as the form's product photo
+  preprocessOptions: ImagePreprocessOptions;
+  buildRequest: (row: CatalogRow, productImage: UploadedImage, aspectRatio: AspectRatio) => ImageGenerationRequest;
+  // Budget warnings for a run of this many generations
+  checkBudget: (count: number) => string[];
+  onClose: () => void;
+}
+
+const STATUS_CLASSES: Record<CatalogJob['status'], string> = {
+  pending: 'bg-gray-800 text-gray-400',
+  running: 'bg-brand-500/20 text-brand-300',
+  done: 'bg-green-500/20 text-green-300',
+  error: 'bg-red-500/20 text-red-300',
+};
+
+export const CatalogImporter: React.FC<CatalogImporterProps> = ({ defaultFormats, preprocessOptions, buildRequest, checkBudget, onClose }) => {
+  const t = useTranslator();
+  const [catalogName, setCatalogName] = useState<string>('');
+  const [rows, setRows] = useState<CatalogRow[]>([]);
+  const [warnings, setWarnings] = useState<string[]>([]);
+  const [parseError, setParseError] = useState<string | null>(null);
+  const [files, setFiles] = useState<File[]>([]);
+  const [jobs, setJobs] = useState<CatalogJob[]>([]);
+  const [isRunning, setIsRunning] = useState<boolean>(false);
+  const [isDragging, setIsDragging] = useState<boolean>(false);
+  // Product images are read once per row and reused for every format
+  const imageCache = useRef<Map<string, UploadedImage>>(new Map());
+  const runController = useRef<AbortController | null>(null);
+
+  // Closing the dialog stops the run instead of leaving it working in the background
+  useEffect(() => () => runController.current?.abort(), []);
+
+  const matches = matchCatalogImages(rows, files);
+  const matchedCount = rows.filter(row => matches[row.id]).length;
+  const completed = jobs.filter(job => job.status === 'done').length;
+  const failed = jobs.filter(job => job.status === 'error').length;
+  const plannedCount = jobs.length > 0
+    ? jobs.length - completed
+    : createCatalogJobs(rows, matches, defaultFormats).length;
+  const budgetWarnings = isRunning || plannedCount === 0 ? [] : checkBudget(plannedCount);
+
+  const handleCatalogFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const result = parseCatalog(await file.text(), file.name);
+      setCatalogName(file.name);
+      setRows(result.rows);
+      setWarnings(result.warnings);
+      setParseError(null);
+      setJobs([]);
+      imageCache.current.clear();
+    } catch (error: any) {
+      setParseError(error.message || t('catalog.readFailed'));
+    }
+  };
+
+  const addImageFiles = (list: FileList | null) => {
+    const images = (Array.from(list || []) as File[]).filter(file => file.type.startsWith('image/'));
+    if (images.length === 0) return;
+    setFiles(prev => [...prev.filter(existing => !images.some(file => file.name === existing.name)), ...images]);
+    setJobs([]);
+    imageCache.current.clear();
+  };
+
+  const handleDrop = (e: React.DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    setIsDragging(false);
+    if (isRunning) return;
+    addImageFiles(e.dataTransfer.files);
+  };
+
+  const updateJob = (id: string, patch: Partial<CatalogJob>) => {
+    setJobs(prev => prev.map(job => job.id === id ? { ...job, ...patch } : job));
+  };
+
+  const run = async (queue: CatalogJob[]) => {
+    const rowsById = new Map<string, CatalogRow>(rows.map(row => [row.id, row]));
+    const controller = new AbortController();
+    runController.current = controller;
+    setIsRunning(true);
+    try {
+      await runCatalogGeneration(
+        queue,
+        async job => {
+          const row = rowsById.get(job.rowId)!;
+          let image = imageCache.current.get(row.id);
+          if (!image) {
+            image = await preprocessImage(matches[row.id], preprocessOptions);
+            imageCache.current.set(row.id, image);
+          }
+          return buildRequest(row, image, job.aspectRatio);
+        },
+        updateJob,
+        CATALOG_THROTTLE_MS,
+        controller.signal
+      );
+    } finally {
+      runController.current = null;
+      setIsRunning(false);
+    }
+  };
+
+  const handleGenerateAll = () => {
+    const queue = jobs.length > 0 ? jobs : createCatalogJobs(rows, matches, defaultFormats);
+    if (jobs.length === 0) setJobs(queue);
+    run(queue);
+  };
+
+  const handleStop = () => {
+    runController.current?.abort();
+  };
+
+  const handleRetryFailed = () => {
+    run(jobs.filter(job => job.status === 'error'));
+  };
+
+  const handleExport = () => {
+    const stem = catalogName.replace(/\.[^.]+$/, '') || 'catalog';
+    downloadBlob(buildCatalogZip(rows, jobs), `visioncraft-${stem}.zip`);
+  };
+
+  const jobsForRow = (row: CatalogRow) => jobs.filter(job => job.rowId === row.id);
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/80 backdrop-blur-sm">
+      <div className="bg-gray-900 border border-gray-800 rounded-2xl w-full max-w-5xl max-h-[90vh] overflow-hidden shadow-2xl flex flex-col">
+        <div className="p-4 border-b border-gray-800 flex justify-between items-center">
+          <div>
+            <h3 className="text-white font-bold text-lg">{t('catalog.title')}</h3>
+            <p className="text-xs text-gray-500">{t('catalog.subtitle')}</p>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-white" title={t(isRunning ? 'catalog.closeAndStop' : 'common.close')}>
+            <svg className="w-6 h-6" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" /></svg>
+          </button>
+        </div>
+
+        <div className="p-4 grid grid-cols-1 md:grid-cols-2 gap-4 border-b border-gray-800">
+          <label className="flex flex-col gap-2 p-4 rounded-xl border-2 border-dashed border-gray-700 hover:border-brand-500 bg-gray-800/30 cursor-pointer transition-colors">
+            <span className="text-sm font-semibold text-gray-200">{t('catalog.file')}</span>
+            <span className="text-xs text-gray-500 truncate">{catalogName || t('catalog.chooseFile')}</span>
+            <input type="file" accept=".csv,.json,text/csv,application/json" className="hidden" onChange={handleCatalogFile} disabled={isRunning} />
+          </label>
+
+          <div
+            onDragOver={e => { e.preventDefault(); setIsDragging(true); }}
+            onDragLeave={() => setIsDragging(false)}
+            onDrop={handleDrop}
+            className={`flex flex-col gap-2 p-4 rounded-xl border-2 border-dashed transition-colors ${
+              isDragging ? 'border-brand-500 bg-brand-500/10' : 'border-gray-700 bg-gray-800/30'
+            }`}
+          >
+            <span className="text-sm font-semibold text-gray-200">{t('catalog.images')}</span>
+            <span className="text-xs text-gray-500">
+              {files.length > 0 ? t('catalog.imagesMatched', { count: files.length, matched: matchedCount, total: rows.length }) : t('catalog.dropImages')}
+            </span>
+            <div className="flex gap-2">
+              <label className="px-3 py-1 rounded-md bg-gray-800 hover:bg-gray-700 text-[11px] font-semibold text-gray-300 cursor-pointer">
+                {t('catalog.pickFolder')}
+                <input
+                  type="file"
+                  multiple
+                  className="hidden"
+                  onChange={e => { addImageFiles(e.target.files); e.target.value = ''; }}
+                  disabled={isRunning}
+                  {...{ webkitdirectory: '' }}
+                />
+              </label>
+              <label className="px-3 py-1 rounded-md bg-gray-800 hover:bg-gray-700 text-[11px] font-semibold text-gray-300 cursor-pointer">
+                {t('catalog.pickFiles')}
+                <input type="file" accept="image/*" multiple className="hidden" onChange={e => { addImageFiles(e.target.files); e.target.value = ''; }} disabled={isRunning} />
+              </label>
+            </div>
+          </div>
+        </div>
+
+        {(parseError || warnings.length > 0) && (
+          <div className="px-4 py-2 border-b border-gray-800 text-xs space-y-1 max-h-24 overflow-y-auto">
+            {parseError && <p className="text-red-300">{parseError}</p>}
+            {warnings.map(warning => <p key={warning} className="text-yellow-300/80">{warning}</p>)}
+          </div>
+        )}
+
+        <div className="flex-1 min-h-0 overflow-y-auto">
+          {rows.length === 0 ? (
+            <p className="p-8 text-center text-sm text-gray-500">{t('catalog.empty')}</p>
+          ) : (
+            <table className="w-full text-sm">
+              <thead className="sticky top-0 bg-gray-900 text-[11px] uppercase tracking-wider text-gray-500">
+                <tr>
+                  <th className="text-left px-4 py-2">{t('catalog.sku')}</th>
+                  <th className="text-left px-4 py-2">{t('catalog.product')}</th>
+                  <th className="text-left px-4 py-2">{t('catalog.image')}</th>
+                  <th className="text-left px-4 py-2">{t('catalog.formats')}</th>
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map(row => {
+                  const rowJobs = jobsForRow(row);
+                  const formats = row.formats.length > 0 ? row.formats : defaultFormats;
+                  return (
+                    <tr key={row.id} className="border-t border-gray-800 align-top">
+                      <td className="px-4 py-2 font-mono text-xs text-gray-300">{row.sku}</td>
+                      <td className="px-4 py-2">
+                        <span className="block text-gray-200">{row.name || '—'}</span>
+                        {row.price && <span className="text-xs text-gray-500">{row.price}</span>}
+                      </td>
+                      <td className="px-4 py-2 text-xs">
+                        {matches[row.id]
+                          ? <span className="text-green-300">{matches[row.id].name}</span>
+                          : <span className="text-red-300">{t('catalog.notFound', { file: row.imageFile || `${row.sku}.*` })}</span>}
+                      </td>
+                      <td className="px-4 py-2">
+                        <div className="flex flex-wrap gap-1">
+                          {rowJobs.length > 0
+                            ? rowJobs.map(job => (
+                              <span
+                                key={job.id}
+                                title={job.error || t(`format.${job.aspectRatio}` as MessageKey)}
+                                className={`px-2 py-0.5 rounded text-[10px] font-semibold ${STATUS_CLASSES[job.status]}`}
+                              >
+                                {job.aspectRatio}
+                              </span>
+                            ))
+                            : formats.map(format => (
+                              <span key={format} className="px-2 py-0.5 rounded text-[10px] font-semibold bg-gray-800 text-gray-500">{format}</span>
+                            ))}
+                        </div>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          )}
+        </div>
+
+        {budgetWarnings.length > 0 && (
+          <div className="px-4 py-2 border-t border-gray-800 text-xs text-yellow-300/90 space-y-1">
+            {budgetWarnings.map(warning => <p key={warning}>⚠ {warning}</p>)}
+          </div>
+        )}
+
+        <div className="p-4 border-t border-gray-800 flex items-center justify-between gap-3">
+          <span className="text-xs text-gray-400">
+            {jobs.length > 0
+              ? `${t('catalog.progress', { completed, total: jobs.length })}${failed > 0 ? ` • ${t('catalog.progressFailed', { failed })}` : ''}`
+              : t('catalog.readyToGenerate', { count: matchedCount })}
+          </span>
+          <div className="flex gap-2">
+            {failed > 0 && (
+              <button
+                onClick={handleRetryFailed}
+                disabled={isRunning}
+                className="px-4 py-2 rounded-lg text-sm font-semibold bg-red-500/20 hover:bg-red-500/30 text-red-200 disabled:opacity-40 transition-colors"
+              >
+                {t('catalog.retryFailed')}
+              </button>
+            )}
+            <button
+              onClick={handleExport}
+              disabled={completed === 0}
+              className="px-4 py-2 rounded-lg text-sm font-semibold bg-gray-800 hover:bg-gray-700 text-white disabled:opacity-40 transition-colors"
+            >
+              {t('catalog.exportZip')}
+            </button>
+            {isRunning && (
+              <button
+                onClick={handleStop}
+                className="px-4 py-2 rounded-lg text-sm font-semibold bg-gray-800 hover:bg-gray-700 text-white transition-colors"
+              >
+                {t('catalog.stop')}
+              </button>
+            )}
+            <button
+              onClick={handleGenerateAll}
+              disabled={isRunning || matchedCount === 0 || (jobs.length > 0 && completed === jobs.length)}
+              className="px-4 py-2 rounded-lg text-sm font-semibold bg-brand-600 hover:bg-brand-500 text-white disabled:opacity-40 transition-colors"
+            >
+              {t(isRunning ? 'catalog.generating' : jobs.length > 0 ? 'catalog.resume' : 'catalog.generateAll')}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
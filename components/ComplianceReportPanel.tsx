@@ -0,0 +1,64 @@
+import React from 'react';
+import { ComplianceReport, ComplianceStatus } from '../types';
+import { MessageKey, useTranslator } from '../services/i18nService';
+
+interface ComplianceReportPanelProps {
+  report: ComplianceReport | null | undefined;
+  profileName: string;
+  showSafeZone: boolean;
+  onToggleSafeZone: () => void;
+}
+
+const statusStyles: Record<ComplianceStatus, { badge: string; icon: string; label: MessageKey }> = {
+  pass: { badge: 'bg-green-500/15 text-green-300 border-green-500/30', icon: '✓', label: 'compliance.pass' },
+  warn: { badge: 'bg-yellow-500/15 text-yellow-300 border-yellow-500/30', icon: '!', label: 'compliance.warn' },
+  fail: { badge: 'bg-red-500/15 text-red-300 border-red-500/30', icon: '✕', label: 'compliance.fail' },
+};
+
+export const ComplianceReportPanel: React.FC<ComplianceReportPanelProps> = ({ report, profileName, showSafeZone, onToggleSafeZone }) => {
+  const t = useTranslator();
+  return (
+    <div className="w-72 bg-gray-900/80 border border-gray-800 rounded-xl p-4 space-y-4 backdrop-blur-md">
+      <div className="flex items-center justify-between">
+        <div>
+          <h3 className="text-sm font-bold text-white">{t('compliance.title')}</h3>
+          <p className="text-[11px] text-gray-500">{profileName}</p>
+        </div>
+        {report ? (
+          <span className={`text-[11px] font-semibold px-2 py-1 rounded-md border ${statusStyles[report.status].badge}`}>
+            {t(statusStyles[report.status].label)}
+          </span>
+        ) : (
+          <span className="text-[11px] text-gray-500">{t('compliance.checking')}</span>
+        )}
+      </div>
+
+      {report && (
+        <ul className="space-y-2">
+          {report.checks.map(check => (
+            <li key={check.ruleId} className="flex gap-2">
+              <span className={`flex-shrink-0 w-5 h-5 rounded-full border text-[10px] font-bold flex items-center justify-center ${statusStyles[check.status].badge}`}>
+                {statusStyles[check.status].icon}
+              </span>
+              <div>
+                <p className="text-xs font-semibold text-gray-200">{check.label}</p>
+                <p className="text-[11px] text-gray-400 leading-snug">{check.message}</p>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <button
+        onClick={onToggleSafeZone}
+        className="w-full py-2 text-[11px] font-semibold uppercase tracking-wide rounded-lg border border-gray-700 text-gray-300 hover:border-gray-500 transition-colors"
+      >
+        {showSafeZone ? t('compliance.hideSafeZone') : t('compliance.showSafeZone')}
+      </button>
+
+      {report?.status === 'fail' && (
+        <p className="text-[11px] text-red-300 leading-snug">{t('compliance.blocked')}</p>
+      )}
+    </div>
+  );
+};
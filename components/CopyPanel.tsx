@@ -0,0 +1,123 @@
+import React, { useState } from 'react';
+import { AdCopyVariant, CopyLength, CopyPlatform, CopyTone } from '../types';
+import { PLATFORM_COPY_LIMITS } from '../constants';
+import { COPY_LENGTHS, COPY_PLATFORMS, COPY_TONES, formatCaption, validateAdCopy } from '../services/copyService';
+import { MessageKey, useTranslator } from '../services/i18nService';
+
+export interface CopyOptions {
+  platform: CopyPlatform;
+  tone: CopyTone;
+  length: CopyLength;
+}
+
+interface CopyPanelProps {
+  variants: AdCopyVariant[];
+  caption: string;
+  // Starting tone, e.g. from the applied ad template
+  defaultTone?: CopyTone;
+  onGenerate: (options: CopyOptions) => Promise<void>;
+  onUseCaption: (caption: string) => void;
+}
+
+const SELECT_CLASS = 'bg-gray-800 border border-gray-700 rounded-lg px-2 py-1.5 text-xs text-gray-200 focus:outline-none focus:ring-2 focus:ring-brand-500/50';
+
+const Counter: React.FC<{ value: number; max: number }> = ({ value, max }) => (
+  <span className={`text-[10px] tabular-nums ${value > max ? 'text-red-300' : 'text-gray-500'}`}>{value}/{max}</span>
+);
+
+export const CopyPanel: React.FC<CopyPanelProps> = ({ variants, caption, defaultTone = 'friendly', onGenerate, onUseCaption }) => {
+  const t = useTranslator();
+  const [options, setOptions] = useState<CopyOptions>({ platform: 'instagram-post', tone: defaultTone, length: 'short' });
+  const [isWriting, setIsWriting] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+  const limits = PLATFORM_COPY_LIMITS[options.platform];
+  const platformVariants = variants.filter(variant => variant.platform === options.platform);
+
+  const handleGenerate = async () => {
+    setIsWriting(true);
+    setError(null);
+    try {
+      await onGenerate(options);
+    } catch (e: any) {
+      setError(e.message || t('copy.failed'));
+    } finally {
+      setIsWriting(false);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-3 gap-1 p-1 bg-gray-800 rounded-lg border border-gray-700">
+        {COPY_PLATFORMS.map(platform => (
+          <button
+            key={platform}
+            onClick={() => setOptions({ ...options, platform })}
+            className={`px-2 py-1.5 text-[11px] font-semibold rounded-md transition-all ${
+              options.platform === platform ? 'bg-gray-700 text-white shadow-sm ring-1 ring-gray-600' : 'text-gray-400 hover:text-white'
+            }`}
+          >
+            {t(`copy.platform.${platform}`)}
+          </button>
+        ))}
+      </div>
+
+      <div className="flex items-center gap-2">
+        <select value={options.tone} onChange={(e) => setOptions({ ...options, tone: e.target.value as CopyTone })} className={SELECT_CLASS}>
+          {COPY_TONES.map(tone => <option key={tone.id} value={tone.id}>{t(`copy.tone.${tone.id}`)}</option>)}
+        </select>
+        <select value={options.length} onChange={(e) => setOptions({ ...options, length: e.target.value as CopyLength })} className={SELECT_CLASS}>
+          {COPY_LENGTHS.map(length => <option key={length.id} value={length.id}>{t(`copy.length.${length.id}`)}</option>)}
+        </select>
+        <button
+          onClick={handleGenerate}
+          disabled={isWriting}
+          className="ml-auto px-3 py-1.5 bg-brand-600 hover:bg-brand-500 disabled:bg-gray-800 disabled:text-gray-500 text-white text-xs font-bold rounded-lg transition-colors"
+        >
+          {isWriting ? t('copy.writing') : t('copy.write')}
+        </button>
+      </div>
+
+      <p className="text-[11px] text-gray-500">
+        {t('copy.caption')} <Counter value={caption.length} max={limits.caption} /> • {t('copy.limits', { headline: limits.headline, body: limits.body, hashtags: limits.hashtags })}
+      </p>
+      {error && <p className="text-[11px] text-red-300">{error}</p>}
+
+      {platformVariants.length > 0 && (
+        <div className="space-y-2 max-h-64 overflow-y-auto pr-1">
+          {platformVariants.map(variant => {
+            const issues = validateAdCopy(variant, variant.platform, t);
+            return (
+              <div key={variant.id} className="p-3 rounded-lg border border-gray-800 bg-gray-800/40 space-y-1.5 text-xs">
+                <div className="flex justify-between gap-2">
+                  <p className="font-semibold text-white">{variant.headline}</p>
+                  <Counter value={variant.headline.length} max={limits.headline} />
+                </div>
+                <div className="flex justify-between gap-2">
+                  <p className="text-gray-300 whitespace-pre-line">{variant.body}</p>
+                  <Counter value={variant.body.length} max={limits.body} />
+                </div>
+                {variant.hashtags.length > 0 && (
+                  <p className="text-brand-300">{variant.hashtags.map(tag => `#${tag}`).join(' ')}</p>
+                )}
+                <div className="flex justify-between gap-2 text-[11px] text-gray-500">
+                  <p><span className="text-gray-400">{t('copy.altText')}</span> {variant.altText}</p>
+                  <Counter value={variant.altText.length} max={limits.altText} />
+                </div>
+                {issues.map(issue => <p key={issue.field} className="text-[11px] text-yellow-300">{issue.message}</p>)}
+                <div className="flex items-center gap-3 pt-1 text-[11px]">
+                  <span className="text-gray-500">{t(`copy.tone.${variant.tone}` as MessageKey)} • {t(`copy.length.${variant.length}` as MessageKey)}</span>
+                  <button onClick={() => navigator.clipboard.writeText(variant.altText)} className="ml-auto text-gray-400 hover:text-white">
+                    {t('copy.copyAltText')}
+                  </button>
+                  <button onClick={() => onUseCaption(formatCaption(variant))} className="text-brand-300 hover:text-brand-200 font-semibold">
+                    {t('copy.useCaption')}
+                  </button>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
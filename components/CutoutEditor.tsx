@@ -0,0 +1,242 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { UploadedImage } from '../types';
+import { loadImage, toDataUrl } from '../services/canvasUtils';
+import { DEFAULT_CUTOUT_TOLERANCE, applyCutoutMask, createCutoutImage, segmentProduct } from '../services/cutoutService';
+import { MessageKey, useTranslator } from '../services/i18nService';
+
+interface CutoutEditorProps {
+  image: UploadedImage;
+  onApply: (cutout: UploadedImage) => void;
+  onClose: () => void;
+}
+
+type CutoutTool = 'keep' | 'remove';
+
+const TOOLS: CutoutTool[] = ['keep', 'remove'];
+
+// Checkerboard so transparent areas read as "removed"
+const CHECKERBOARD: React.CSSProperties = {
+  backgroundColor: '#1f2937',
+  backgroundImage: 'linear-gradient(45deg, #374151 25%, transparent 25%), linear-gradient(-45deg, #374151 25%, transparent 25%), linear-gradient(45deg, transparent 75%, #374151 75%), linear-gradient(-45deg, transparent 75%, #374151 75%)',
+  backgroundSize: '20px 20px',
+  backgroundPosition: '0 0, 0 10px, 10px -10px, -10px 0',
+};
+
+// Removed background stays faintly visible so edges are easy to judge
+const GHOST_OPACITY = 0.2;
+
+export const CutoutEditor: React.FC<CutoutEditorProps> = ({ image, onApply, onClose }) => {
+  const t = useTranslator();
+  const sourceUrl = toDataUrl(image.base64, image.mimeType);
+  const sourceRef = useRef<HTMLImageElement | null>(null);
+  const maskRef = useRef<HTMLCanvasElement | null>(null);
+  const cutRef = useRef<HTMLCanvasElement | null>(null);
+  const displayRef = useRef<HTMLCanvasElement>(null);
+  const isPaintingRef = useRef<boolean>(false);
+  const [size, setSize] = useState<{ width: number; height: number } | null>(null);
+  const [tolerance, setTolerance] = useState<number>(DEFAULT_CUTOUT_TOLERANCE);
+  const [tool, setTool] = useState<CutoutTool>('remove');
+  const [brushSize, setBrushSize] = useState<number>(0.04);
+  const [isSegmenting, setIsSegmenting] = useState<boolean>(true);
+  const [isApplying, setIsApplying] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const render = () => {
+    const source = sourceRef.current;
+    const mask = maskRef.current;
+    const cut = cutRef.current;
+    const ctx = displayRef.current?.getContext('2d');
+    const cutCtx = cut?.getContext('2d');
+    if (!source || !mask || !cut || !ctx || !cutCtx) return;
+
+    cutCtx.globalCompositeOperation = 'source-over';
+    cutCtx.clearRect(0, 0, cut.width, cut.height);
+    cutCtx.drawImage(mask, 0, 0);
+    cutCtx.globalCompositeOperation = 'source-in';
+    cutCtx.drawImage(source, 0, 0);
+
+    ctx.clearRect(0, 0, cut.width, cut.height);
+    ctx.globalAlpha = GHOST_OPACITY;
+    ctx.drawImage(source, 0, 0);
+    ctx.globalAlpha = 1;
+    ctx.drawImage(cut, 0, 0);
+  };
+
+  useEffect(() => {
+    loadImage(sourceUrl)
+      .then(img => {
+        sourceRef.current = img;
+        const width = img.naturalWidth;
+        const height = img.naturalHeight;
+        for (const ref of [maskRef, cutRef]) {
+          const canvas = document.createElement('canvas');
+          canvas.width = width;
+          canvas.height = height;
+          ref.current = canvas;
+        }
+        setSize({ width, height });
+      })
+      .catch(e => setError(e.message || t('cutout.loadFailed')));
+  }, [sourceUrl]);
+
+  // Re-run the automatic segmentation when the tolerance settles; this resets manual touch-ups
+  useEffect(() => {
+    if (!size) return;
+    let isCurrent = true;
+    setIsSegmenting(true);
+    const timer = setTimeout(() => {
+      segmentProduct(sourceUrl, tolerance)
+        .then(loadImage)
+        .then(maskImage => {
+          const ctx = maskRef.current?.getContext('2d');
+          if (!isCurrent || !ctx) return;
+          ctx.clearRect(0, 0, size.width, size.height);
+          ctx.drawImage(maskImage, 0, 0);
+          render();
+        })
+        .catch(e => setError(e.message || t('cutout.segmentFailed')))
+        .finally(() => isCurrent && setIsSegmenting(false));
+    }, 250);
+    return () => {
+      isCurrent = false;
+      clearTimeout(timer);
+    };
+  }, [size, tolerance, sourceUrl]);
+
+  const paintAt = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const canvas = e.currentTarget;
+    const ctx = maskRef.current?.getContext('2d');
+    if (!ctx || !size) return;
+    const rect = canvas.getBoundingClientRect();
+    const x = ((e.clientX - rect.left) / rect.width) * canvas.width;
+    const y = ((e.clientY - rect.top) / rect.height) * canvas.height;
+    ctx.save();
+    ctx.globalCompositeOperation = tool === 'remove' ? 'destination-out' : 'source-over';
+    ctx.fillStyle = '#ffffff';
+    ctx.beginPath();
+    ctx.arc(x, y, (brushSize * Math.min(size.width, size.height)) / 2, 0, Math.PI * 2);
+    ctx.fill();
+    ctx.restore();
+    render();
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (isSegmenting) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    isPaintingRef.current = true;
+    paintAt(e);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (isPaintingRef.current) paintAt(e);
+  };
+
+  const apply = async () => {
+    const mask = maskRef.current;
+    if (!mask) return;
+    setIsApplying(true);
+    setError(null);
+    try {
+      const cutoutUrl = await applyCutoutMask(sourceUrl, mask.toDataURL('image/png'));
+      onApply(await createCutoutImage(cutoutUrl, image));
+    } catch (e: any) {
+      setError(e.message || t('cutout.failed'));
+      setIsApplying(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/80 backdrop-blur-sm">
+      <div className="bg-gray-900 border border-gray-800 rounded-2xl w-full max-w-4xl max-h-[90vh] overflow-hidden shadow-2xl flex flex-col">
+        <div className="p-4 border-b border-gray-800 flex justify-between items-center">
+          <div>
+            <h3 className="text-white font-bold text-lg">{t('cutout.title')}</h3>
+            <p className="text-xs text-gray-500">{t('cutout.subtitle')}</p>
+          </div>
+          <button onClick={onClose} disabled={isApplying} className="text-gray-400 hover:text-white disabled:opacity-40">
+            <svg className="w-6 h-6" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" /></svg>
+          </button>
+        </div>
+
+        <div className="flex-1 flex gap-4 p-4 min-h-0">
+          <div className="flex-1 flex items-center justify-center min-w-0">
+            {size && (
+              <div className="relative max-w-full max-h-[65vh] rounded-lg overflow-hidden ring-1 ring-gray-700" style={{ ...CHECKERBOARD, aspectRatio: `${size.width} / ${size.height}` }}>
+                <canvas
+                  ref={displayRef}
+                  width={size.width}
+                  height={size.height}
+                  onPointerDown={handlePointerDown}
+                  onPointerMove={handlePointerMove}
+                  onPointerUp={() => { isPaintingRef.current = false; }}
+                  className="w-full h-full cursor-crosshair touch-none"
+                />
+                {(isSegmenting || isApplying) && (
+                  <div className="absolute inset-0 bg-black/50 flex items-center justify-center">
+                    <div className="w-10 h-10 border-4 border-brand-500/30 border-t-brand-500 rounded-full animate-spin"></div>
+                  </div>
+                )}
+              </div>
+            )}
+          </div>
+
+          <div className="w-64 space-y-4">
+            <label className="block text-[11px] text-gray-400">
+              {t('cutout.tolerance')}
+              <input
+                type="range"
+                min={0.05}
+                max={0.4}
+                step={0.01}
+                value={tolerance}
+                onChange={(e) => setTolerance(Number(e.target.value))}
+                disabled={isApplying}
+                className="w-full accent-brand-500"
+              />
+              <span className="text-gray-500">{t('cutout.toleranceHint')}</span>
+            </label>
+
+            <div className="grid grid-cols-2 gap-2">
+              {TOOLS.map(id => (
+                <button
+                  key={id}
+                  onClick={() => setTool(id)}
+                  title={t(`cutout.hint.${id}`)}
+                  className={`px-2 py-2 text-[11px] font-semibold rounded-lg border transition-colors ${
+                    tool === id ? 'border-brand-500 text-brand-300 bg-brand-600/20' : 'border-gray-700 text-gray-300 hover:border-gray-500'
+                  }`}
+                >
+                  {t(`cutout.tool.${id}`)}
+                </button>
+              ))}
+            </div>
+            <p className="text-[11px] text-gray-500">{t(`cutout.hint.${tool}` as MessageKey)}</p>
+
+            <label className="block text-[11px] text-gray-400">
+              {t('cutout.brushSize')}
+              <input
+                type="range"
+                min={0.01}
+                max={0.2}
+                step={0.005}
+                value={brushSize}
+                onChange={(e) => setBrushSize(Number(e.target.value))}
+                className="w-full accent-brand-500"
+              />
+            </label>
+
+            <button
+              onClick={apply}
+              disabled={isSegmenting || isApplying}
+              className="w-full py-2 bg-brand-600 hover:bg-brand-500 disabled:bg-gray-800 disabled:text-gray-500 text-white text-sm font-bold rounded-lg transition-colors"
+            >
+              {t(isApplying ? 'cutout.cutting' : 'cutout.use')}
+            </button>
+
+            {error && <p className="text-[11px] text-red-300">{error}</p>}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,137 @@
+import React, { useState } from 'react';
+import { ExportMetadata, ExportResult, ExportSettings, ImageFormat } from '../types';
+import { EXPORT_PRESETS } from '../constants';
+import { FILE_SIZE_TARGETS, exportCreative } from '../services/exportService';
+import { IMAGE_FORMAT_LABELS, formatBytes } from '../services/imagePreprocessService';
+import { downloadBlob } from '../services/zipService';
+import { useTranslator } from '../services/i18nService';
+
+interface ExportDialogProps {
+  settings: ExportSettings;
+  metadata: ExportMetadata;
+  // Resolves the creative with overlays baked in
+  getImageUrl: () => Promise<string>;
+  onSettingsChange: (settings: ExportSettings) => void;
+  onClose: () => void;
+}
+
+const SELECT_CLASS = 'w-full bg-gray-800 border border-gray-700 rounded-lg px-3 py-2 text-sm text-gray-200 focus:outline-none focus:ring-2 focus:ring-brand-500/50';
+
+export const ExportDialog: React.FC<ExportDialogProps> = ({ settings, metadata, getImageUrl, onSettingsChange, onClose }) => {
+  const t = useTranslator();
+  const [isExporting, setIsExporting] = useState<boolean>(false);
+  const [lastExport, setLastExport] = useState<ExportResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const update = (patch: Partial<ExportSettings>) => onSettingsChange({ ...settings, ...patch });
+  // The retailer limit may not be one of the stock targets; keep it selectable
+  const sizeTargets = FILE_SIZE_TARGETS.some(target => target.bytes === settings.maxBytes)
+    ? FILE_SIZE_TARGETS
+    : [...FILE_SIZE_TARGETS, { label: formatBytes(settings.maxBytes || 0), bytes: settings.maxBytes }];
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    setError(null);
+    try {
+      const result = await exportCreative(await getImageUrl(), settings, metadata, t);
+      downloadBlob(result.blob, result.fileName);
+      setLastExport(result);
+    } catch (e: any) {
+      setError(e.message || t('export.failed'));
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/80 backdrop-blur-sm">
+      <div className="bg-gray-900 border border-gray-800 rounded-2xl w-full max-w-md overflow-hidden shadow-2xl">
+        <div className="p-4 border-b border-gray-800 flex justify-between items-center">
+          <h3 className="text-white font-bold text-lg">{t('export.title')}</h3>
+          <button onClick={onClose} className="text-gray-400 hover:text-white">
+            <svg className="w-6 h-6" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" /></svg>
+          </button>
+        </div>
+
+        <div className="p-4 space-y-4">
+          <label className="block space-y-1 text-xs text-gray-400">
+            {t('export.size')}
+            <select value={settings.presetId || ''} onChange={(e) => update({ presetId: e.target.value || null })} className={SELECT_CLASS}>
+              <option value="">{t('export.original', { ratio: metadata.aspectRatio })}</option>
+              {EXPORT_PRESETS.map(preset => <option key={preset.id} value={preset.id}>{preset.label}</option>)}
+            </select>
+          </label>
+
+          <div className="grid grid-cols-2 gap-3">
+            <label className="block space-y-1 text-xs text-gray-400">
+              {t('export.format')}
+              <select value={settings.format} onChange={(e) => update({ format: e.target.value as ImageFormat })} className={SELECT_CLASS}>
+                {(Object.keys(IMAGE_FORMAT_LABELS) as ImageFormat[]).map(format => (
+                  <option key={format} value={format}>{IMAGE_FORMAT_LABELS[format]}</option>
+                ))}
+              </select>
+            </label>
+            <label className="block space-y-1 text-xs text-gray-400">
+              {t('export.maxSize')}
+              <select
+                value={settings.maxBytes ?? ''}
+                onChange={(e) => update({ maxBytes: e.target.value ? Number(e.target.value) : null })}
+                className={SELECT_CLASS}
+              >
+                {sizeTargets.map(target => <option key={target.label} value={target.bytes ?? ''}>{target.bytes === null ? t('export.noLimit') : target.label}</option>)}
+              </select>
+            </label>
+          </div>
+
+          <label className="block text-xs text-gray-400">
+            {t('export.quality', { percent: Math.round(settings.quality * 100) })}
+            <input
+              type="range"
+              min={0.5}
+              max={1}
+              step={0.01}
+              value={settings.quality}
+              disabled={settings.format === 'image/png'}
+              onChange={(e) => update({ quality: Number(e.target.value) })}
+              className="w-full accent-brand-500 disabled:opacity-40"
+            />
+            <span className="text-[11px] text-gray-500">{t('export.qualityHint')}</span>
+          </label>
+
+          <label className="flex items-start gap-2 text-xs text-gray-300">
+            <input
+              type="checkbox"
+              checked={settings.includeMetadata}
+              onChange={(e) => update({ includeMetadata: e.target.checked })}
+              className="mt-0.5 accent-brand-500"
+            />
+            <span>
+              {t('export.metadata')}
+              <span className="block text-[11px] text-gray-500">
+                {metadata.brand ? t('export.metadataHintBrand', { brand: metadata.brand }) : t('export.metadataHint')}
+              </span>
+            </span>
+          </label>
+
+          {lastExport && (
+            <div className="p-3 rounded-lg border border-gray-800 bg-gray-800/40 text-[11px] space-y-1">
+              <p className="text-gray-300">
+                {lastExport.fileName} • {lastExport.width}×{lastExport.height} • {formatBytes(lastExport.blob.size)}
+                {lastExport.quality !== null ? ` • ${t('export.resultQuality', { percent: Math.round(lastExport.quality * 100) })}` : ''}
+              </p>
+              {lastExport.warnings.map(warning => <p key={warning} className="text-yellow-300">{warning}</p>)}
+            </div>
+          )}
+          {error && <p className="text-[11px] text-red-300">{error}</p>}
+
+          <button
+            onClick={handleExport}
+            disabled={isExporting}
+            className="w-full py-3 bg-white hover:bg-gray-200 disabled:bg-gray-700 disabled:text-gray-400 text-black text-sm font-bold rounded-full transition-colors"
+          >
+            {isExporting ? t('export.exporting') : t('export.download')}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
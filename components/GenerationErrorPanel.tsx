@@ -0,0 +1,93 @@
+import React from 'react';
+import { GenerationDiagnostics, GenerationErrorKind, RecoveryAction } from '../types';
+import { RECOVERY_ACTIONS, formatHarmCategory } from '../services/generationErrors';
+import { MessageKey, useTranslator } from '../services/i18nService';
+
+interface GenerationErrorPanelProps {
+  message: string;
+  kind: GenerationErrorKind;
+  diagnostics?: GenerationDiagnostics | null;
+  // Preview of what "Rephrase Safely" would change in the brief
+  rephraseChanges?: string[];
+  useProModel: boolean;
+  onAction: (action: RecoveryAction) => void;
+}
+
+// Switching names the model it switches to; every other action has one label
+const actionKey = (action: RecoveryAction, useProModel: boolean): MessageKey => {
+  if (action === 'switch-model') return useProModel ? 'error.action.switchToStandard' : 'error.action.switchToPro';
+  return `error.action.${action}`;
+};
+
+// Ratings at these levels are noise; only elevated ones explain a block
+const LOW_PROBABILITIES = ['NEGLIGIBLE', 'LOW', 'HARM_PROBABILITY_UNSPECIFIED', 'UNKNOWN'];
+
+export const GenerationErrorPanel: React.FC<GenerationErrorPanelProps> = ({
+  message,
+  kind,
+  diagnostics,
+  rephraseChanges = [],
+  useProModel,
+  onAction,
+}) => {
+  const t = useTranslator();
+  // "Use Standard" is pointless when Standard is already selected
+  const actions = RECOVERY_ACTIONS[kind].filter(action => action !== 'use-standard' || useProModel);
+  const flaggedRatings = (diagnostics?.safetyRatings || []).filter(rating => rating.blocked || !LOW_PROBABILITIES.includes(rating.probability));
+  const reasons = [diagnostics?.blockReason, diagnostics?.finishReason].filter((reason): reason is string => !!reason && reason !== 'STOP');
+
+  return (
+    <div className="bg-red-500/10 border border-red-500/50 text-red-200 px-6 py-4 rounded-xl mb-6 backdrop-blur-md max-w-lg text-center animate-fade-in">
+      <div className="flex items-center justify-center mb-2">
+         <svg className="w-6 h-6 text-red-400 mr-2" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+           <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-3L13.732 4c-.77-1.333-2.694-1.333-3.464 0L3.34 16c-.77 1.333.192 3 1.732 3z" />
+         </svg>
+         <span className="font-bold">{t(`error.title.${kind}` as MessageKey)}</span>
+      </div>
+      <p className="text-sm opacity-90 leading-relaxed">{message}</p>
+
+      {diagnostics && (reasons.length > 0 || flaggedRatings.length > 0 || diagnostics.modelText || diagnostics.blockMessage) && (
+        <div className="mt-3 text-left text-xs space-y-2 bg-black/20 rounded-lg p-3">
+          {reasons.length > 0 && (
+            <p><span className="text-red-300/70">{t('error.reason')}</span> {reasons.join(' • ')}</p>
+          )}
+          {diagnostics.blockMessage && <p className="opacity-80">{diagnostics.blockMessage}</p>}
+          {flaggedRatings.length > 0 && (
+            <div className="flex flex-wrap gap-1">
+              {flaggedRatings.map(rating => (
+                <span
+                  key={`${rating.category}-${rating.probability}`}
+                  className={`px-2 py-0.5 rounded text-[10px] font-semibold ${rating.blocked ? 'bg-red-500/30 text-red-100' : 'bg-yellow-500/20 text-yellow-200'}`}
+                >
+                  {formatHarmCategory(rating.category)}: {rating.probability.toLowerCase()}
+                </span>
+              ))}
+            </div>
+          )}
+          {diagnostics.modelText && (
+            <blockquote className="border-l-2 border-red-400/40 pl-2 italic opacity-80 max-h-32 overflow-y-auto whitespace-pre-wrap">
+              {diagnostics.modelText}
+            </blockquote>
+          )}
+        </div>
+      )}
+
+      {actions.includes('rephrase') && rephraseChanges.length > 0 && (
+        <p className="mt-3 text-[11px] text-left opacity-70">{t('error.rephrasing', { changes: rephraseChanges.join(', ') })}</p>
+      )}
+      {actions.length > 0 && (
+        <div className="mt-3 flex flex-wrap justify-center gap-2">
+          {actions.map(action => (
+            <button
+              key={action}
+              onClick={() => onAction(action)}
+              className="px-4 py-2 bg-red-500/20 hover:bg-red-500/30 rounded-lg text-xs font-semibold uppercase tracking-wide transition-colors"
+            >
+              {t(actionKey(action, useProModel))}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,64 @@
+import React from 'react';
+import { HistoryEntry } from '../types';
+import { MessageKey, useTranslator } from '../services/i18nService';
+
+interface HistorySidebarProps {
+  entries: HistoryEntry[];
+  activeId: string | null;
+  isBusy: boolean;
+  onOpen: (entry: HistoryEntry) => void;
+  onDuplicate: (entry: HistoryEntry) => void;
+  onRerun: (entry: HistoryEntry) => void;
+  onDelete: (entry: HistoryEntry) => void;
+  onClose: () => void;
+}
+
+export const HistorySidebar: React.FC<HistorySidebarProps> = ({ entries, activeId, isBusy, onOpen, onDuplicate, onRerun, onDelete, onClose }) => {
+  const t = useTranslator();
+  return (
+    <div className="fixed inset-y-0 right-0 z-40 w-full max-w-sm bg-gray-900 border-l border-gray-800 shadow-2xl flex flex-col">
+      <div className="p-4 border-b border-gray-800 flex justify-between items-center">
+        <div>
+          <h3 className="text-white font-bold text-lg">{t('history.title')}</h3>
+          <p className="text-[11px] text-gray-500">{t(entries.length === 1 ? 'history.count.one' : 'history.count.other', { count: entries.length })}</p>
+        </div>
+        <button onClick={onClose} className="text-gray-400 hover:text-white">
+          <svg className="w-6 h-6" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" /></svg>
+        </button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-4 space-y-3">
+        {entries.length === 0 && (
+          <p className="text-sm text-gray-500 text-center mt-10">{t('history.empty')}</p>
+        )}
+        {entries.map(entry => (
+          <div
+            key={entry.id}
+            className={`flex gap-3 p-2 rounded-xl border transition-colors ${
+              entry.id === activeId ? 'border-brand-500 bg-brand-600/10' : 'border-gray-800 bg-gray-800/40 hover:border-gray-700'
+            }`}
+          >
+            <button onClick={() => onOpen(entry)} className="w-20 h-20 flex-shrink-0 bg-gray-800 rounded-lg overflow-hidden">
+              <img src={entry.output.imageUrl} alt={entry.title} className="w-full h-full object-cover" />
+            </button>
+            <div className="flex-1 min-w-0 flex flex-col justify-between">
+              <div>
+                <p className="text-sm font-semibold text-gray-200 truncate">{entry.title}</p>
+                <p className="text-[11px] text-gray-500 truncate">
+                  {t(`format.${entry.output.aspectRatio}` as MessageKey)} • {entry.output.model}
+                </p>
+                <p className="text-[11px] text-gray-500">{new Date(entry.createdAt).toLocaleString()}</p>
+              </div>
+              <div className="flex gap-3 text-[11px] font-semibold">
+                <button onClick={() => onOpen(entry)} className="text-brand-300 hover:text-brand-200">{t('common.open')}</button>
+                <button onClick={() => onDuplicate(entry)} className="text-gray-400 hover:text-white">{t('common.duplicate')}</button>
+                <button onClick={() => onRerun(entry)} disabled={isBusy} className="text-gray-400 hover:text-white disabled:opacity-40">{t('history.rerun')}</button>
+                <button onClick={() => onDelete(entry)} className="text-red-400 hover:text-red-300">{t('common.delete')}</button>
+              </div>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -1,38 +1,85 @@
-import React, { useRef } from 'react';
-import { UploadedImage } from '../types';
+import React, { useRef, useState } from 'react';
+import { ImagePreprocessOptions, UploadedImage } from '../types';
+import { DEFAULT_PREPROCESS_OPTIONS, preprocessImage, revokePreviewUrl, summarizePreprocessReport } from '../services/imagePreprocessService';
+import { CutoutEditor } from './CutoutEditor';
+import { useTranslator } from '../services/i18nService';
 
 interface ImageUploaderProps {
   label: string;
   image: UploadedImage | null;
   onImageChange: (image: UploadedImage | null) => void;
   optional?: boolean;
+  preprocess?: ImagePreprocessOptions;
+  // Offer the background-removal step for this upload
+  allowCutout?: boolean;
 }
 
-export const ImageUploader: React.FC<ImageUploaderProps> = ({ label, image, onImageChange, optional = false }) => {
+// What the pipeline did to an upload, plus anything worth fixing before generating
+const PreprocessReport: React.FC<{ image: UploadedImage }> = ({ image }) => {
+  if (!image.report) return null;
+  const { steps, warnings } = image.report;
+  return (
+    <div className="text-[11px] leading-snug space-y-0.5">
+      <p className="text-gray-500" title={steps.join(' • ')}>{summarizePreprocessReport(image.report)}</p>
+      {warnings.map(warning => <p key={warning} className="text-yellow-300">{warning}</p>)}
+    </div>
+  );
+};
+
+export const ImageUploader: React.FC<ImageUploaderProps> = ({
+  label,
+  image,
+  onImageChange,
+  optional = false,
+  preprocess = DEFAULT_PREPROCESS_OPTIONS,
+  allowCutout = false,
+}) => {
+  const t = useTranslator();
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const [isCutoutOpen, setIsCutoutOpen] = useState<boolean>(false);
+  const [isProcessing, setIsProcessing] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
 
-  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+  // The upload and the photo a cutout came from both go once the image is replaced or removed
+  const releaseImage = () => {
+    revokePreviewUrl(image);
+    revokePreviewUrl(image?.cutoutOf);
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
-    if (file) {
-      const reader = new FileReader();
-      reader.onloadend = () => {
-        onImageChange({
-          file,
-          previewUrl: URL.createObjectURL(file),
-          base64: reader.result as string,
-          mimeType: file.type
-        });
-      };
-      reader.readAsDataURL(file);
+    if (!file) return;
+    setIsProcessing(true);
+    setError(null);
+    try {
+      const next = await preprocessImage(file, preprocess);
+      releaseImage();
+      onImageChange(next);
+    } catch (err: any) {
+      setError(err.message || t('upload.failed'));
+    } finally {
+      setIsProcessing(false);
+      e.target.value = '';
     }
   };
 
   const handleRemove = (e: React.MouseEvent) => {
     e.stopPropagation();
     if (fileInputRef.current) fileInputRef.current.value = '';
+    releaseImage();
     onImageChange(null);
   };
 
+  const openCutout = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    setIsCutoutOpen(true);
+  };
+
+  const restoreOriginal = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    if (image?.cutoutOf) onImageChange(image.cutoutOf);
+  };
+
   const triggerUpload = () => {
     fileInputRef.current?.click();
   };
@@ -41,7 +88,7 @@ export const ImageUploader: React.FC<ImageUploaderProps> = ({ label, image, onIm
     <div className="flex flex-col gap-2">
       <label className="text-sm font-medium text-gray-300 flex justify-between">
         {label}
-        {optional && <span className="text-gray-500 text-xs uppercase tracking-wider">Optional</span>}
+        {optional && <span className="text-gray-500 text-xs uppercase tracking-wider">{t('upload.optional')}</span>}
       </label>
       
       <div 
@@ -62,11 +109,13 @@ export const ImageUploader: React.FC<ImageUploaderProps> = ({ label, image, onIm
           className="hidden" 
         />
         
-        {image ? (
+        {isProcessing ? (
+          <div className="flex items-center justify-center h-full text-xs text-gray-400">{t('upload.optimizing')}</div>
+        ) : image ? (
           <div className="relative h-full w-full group">
             <img 
               src={image.previewUrl} 
-              alt="Preview" 
+              alt={t('upload.preview')}
               className="h-full w-full object-contain p-2" 
             />
             <div className="absolute inset-0 bg-black/60 opacity-0 group-hover:opacity-100 transition-opacity flex items-center justify-center">
@@ -74,12 +123,12 @@ export const ImageUploader: React.FC<ImageUploaderProps> = ({ label, image, onIm
                 onClick={handleRemove}
                 className="bg-red-500/80 hover:bg-red-600 text-white px-3 py-1.5 rounded-full text-sm font-medium backdrop-blur-sm transition-transform hover:scale-105"
               >
-                Remove
+                {t('common.remove')}
               </button>
               <button 
                 className="ml-2 bg-white/20 hover:bg-white/30 text-white px-3 py-1.5 rounded-full text-sm font-medium backdrop-blur-sm transition-transform hover:scale-105"
               >
-                Change
+                {t('upload.change')}
               </button>
             </div>
           </div>
@@ -88,10 +137,138 @@ export const ImageUploader: React.FC<ImageUploaderProps> = ({ label, image, onIm
             <svg xmlns="http://www.w3.org/2000/svg" className="h-8 w-8 text-gray-500" fill="none" viewBox="0 0 24 24" stroke="currentColor">
               <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M4 16l4.586-4.586a2 2 0 012.828 0L16 16m-2-2l1.586-1.586a2 2 0 012.828 0L20 14m-6-6h.01M6 20h12a2 2 0 002-2V6a2 2 0 00-2-2H6a2 2 0 00-2 2v12a2 2 0 002 2z" />
             </svg>
-            <span className="text-xs font-medium">Click to Upload</span>
+            <span className="text-xs font-medium">{t('upload.click')}</span>
+          </div>
+        )}
+      </div>
+      {error && <p className="text-[11px] text-red-300">{error}</p>}
+      {image && !isProcessing && <PreprocessReport image={image} />}
+      {allowCutout && image && !isProcessing && (
+        <div className="flex gap-3 text-[11px] font-semibold">
+          <button onClick={openCutout} className="text-brand-300 hover:text-brand-200">
+            {t(image.cutoutOf ? 'upload.editCutout' : 'upload.removeBackground')}
+          </button>
+          {image.cutoutOf && (
+            <button onClick={restoreOriginal} className="text-gray-400 hover:text-white">{t('upload.restoreOriginal')}</button>
+          )}
+        </div>
+      )}
+
+      {isCutoutOpen && image && (
+        <CutoutEditor
+          image={image.cutoutOf || image}
+          onApply={(cutout) => {
+            setIsCutoutOpen(false);
+            onImageChange(cutout);
+          }}
+          onClose={() => setIsCutoutOpen(false)}
+        />
+      )}
+    </div>
+  );
+};
+
+interface GalleryItem {
+  id: string;
+  image: UploadedImage;
+}
+
+interface ImageGalleryProps {
+  label: string;
+  hint?: string;
+  items: GalleryItem[];
+  maxItems: number;
+  onAdd: (images: UploadedImage[]) => void;
+  onRemove: (id: string) => void;
+  preprocess?: ImagePreprocessOptions;
+  // Per-image settings rendered under each thumbnail
+  renderControls?: (id: string) => React.ReactNode;
+}
+
+// Multi-image variant of ImageUploader for bundle products and mood references
+export const ImageGallery: React.FC<ImageGalleryProps> = ({
+  label,
+  hint,
+  items,
+  maxItems,
+  onAdd,
+  onRemove,
+  preprocess = DEFAULT_PREPROCESS_OPTIONS,
+  renderControls,
+}) => {
+  const t = useTranslator();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [isProcessing, setIsProcessing] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+  const remaining = maxItems - items.length;
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from<File>(e.target.files || []).slice(0, remaining);
+    e.target.value = '';
+    if (files.length === 0) return;
+    setIsProcessing(true);
+    setError(null);
+    // One at a time: decoding several large photos at once can exhaust memory on phones
+    const images: UploadedImage[] = [];
+    for (const file of files) {
+      try {
+        images.push(await preprocessImage(file, preprocess));
+      } catch (err: any) {
+        setError(err.message || t('upload.failedFile', { name: file.name }));
+      }
+    }
+    setIsProcessing(false);
+    if (images.length > 0) onAdd(images);
+  };
+
+  return (
+    <div className="flex flex-col gap-2">
+      <label className="text-sm font-medium text-gray-300 flex justify-between">
+        {label}
+        <span className="text-gray-500 text-xs uppercase tracking-wider">{t('upload.optional')} • {items.length}/{maxItems}</span>
+      </label>
+      {hint && <p className="text-[11px] text-gray-500 -mt-1">{hint}</p>}
+
+      <input
+        type="file"
+        ref={fileInputRef}
+        onChange={handleFileChange}
+        accept="image/*"
+        multiple
+        className="hidden"
+      />
+
+      <div className="grid grid-cols-2 gap-2">
+        {items.map(item => (
+          <div key={item.id} className="rounded-xl border border-gray-700 bg-gray-800 overflow-hidden">
+            <div className="relative h-24 group">
+              <img src={item.image.previewUrl} alt={t('upload.preview')} className="h-full w-full object-contain p-2" />
+              <button
+                onClick={() => { revokePreviewUrl(item.image); onRemove(item.id); }}
+                className="absolute top-1 right-1 bg-red-500/80 hover:bg-red-600 text-white px-2 py-0.5 rounded-full text-[10px] font-medium opacity-0 group-hover:opacity-100 transition-opacity"
+              >
+                {t('common.remove')}
+              </button>
+            </div>
+            {(renderControls || item.image.report) && (
+              <div className="p-2 border-t border-gray-700 space-y-1.5">
+                <PreprocessReport image={item.image} />
+                {renderControls?.(item.id)}
+              </div>
+            )}
           </div>
+        ))}
+        {remaining > 0 && (
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            disabled={isProcessing}
+            className="h-24 rounded-xl border-2 border-dashed border-gray-600 bg-gray-800/50 hover:bg-gray-800 hover:border-gray-500 text-gray-400 text-xs font-medium transition-all"
+          >
+            {t(isProcessing ? 'upload.optimizingShort' : 'upload.addImages')}
+          </button>
         )}
       </div>
+      {error && <p className="text-[11px] text-red-300">{error}</p>}
     </div>
   );
 };
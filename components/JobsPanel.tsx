@@ -0,0 +1,128 @@
+import React, { useEffect, useState } from 'react';
+import { GenerationJob, JobStatus } from '../types';
+import { isJobActive, isJobFinished } from '../services/jobQueueService';
+import { MessageKey, useTranslator } from '../services/i18nService';
+
+interface JobsPanelProps {
+  jobs: GenerationJob[];
+  isPaused: boolean;
+  onPause: () => void;
+  onResume: () => void;
+  onCancel: (job: GenerationJob) => void;
+  onRetry: (job: GenerationJob) => void;
+  onOpen: (job: GenerationJob) => void;
+  onRemove: (job: GenerationJob) => void;
+  onClearFinished: () => void;
+  onClose: () => void;
+}
+
+const STATUS_CLASSES: Record<JobStatus, string> = {
+  queued: 'bg-gray-800 text-gray-400',
+  running: 'bg-brand-500/20 text-brand-300',
+  'backing-off': 'bg-yellow-500/20 text-yellow-300',
+  failed: 'bg-red-500/20 text-red-300',
+  done: 'bg-green-500/20 text-green-300',
+  cancelled: 'bg-gray-800 text-gray-500',
+};
+
+// Live "Retry in Ns" label; ticks only while mounted
+export const RetryCountdown: React.FC<{ retryAt: number | null }> = ({ retryAt }) => {
+  const t = useTranslator();
+  const [now, setNow] = useState<number>(Date.now());
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  const secondsLeft = retryAt ? Math.max(0, Math.ceil((retryAt - now) / 1000)) : 0;
+  return <>{secondsLeft > 0 ? t('jobs.retryIn', { seconds: secondsLeft }) : t('jobs.retrying')}</>;
+};
+
+export const JobsPanel: React.FC<JobsPanelProps> = ({
+  jobs,
+  isPaused,
+  onPause,
+  onResume,
+  onCancel,
+  onRetry,
+  onOpen,
+  onRemove,
+  onClearFinished,
+  onClose,
+}) => {
+  const t = useTranslator();
+  const pending = jobs.filter(job => !isJobFinished(job)).length;
+  const hasFinished = jobs.some(isJobFinished);
+
+  return (
+    <div className="fixed inset-y-0 right-0 z-40 w-full max-w-sm bg-gray-900 border-l border-gray-800 shadow-2xl flex flex-col">
+      <div className="p-4 border-b border-gray-800 flex justify-between items-center">
+        <div>
+          <h3 className="text-white font-bold text-lg">{t('jobs.title')}</h3>
+          <p className="text-[11px] text-gray-500">
+            {t('jobs.pending', { count: pending })}{isPaused ? ` • ${t('jobs.queuePaused')}` : ''}
+          </p>
+        </div>
+        <button onClick={onClose} className="text-gray-400 hover:text-white">
+          <svg className="w-6 h-6" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" /></svg>
+        </button>
+      </div>
+
+      <div className="px-4 py-3 border-b border-gray-800 flex gap-2">
+        <button
+          onClick={isPaused ? onResume : onPause}
+          className="flex-1 px-3 py-1.5 rounded-lg text-xs font-semibold bg-gray-800 hover:bg-gray-700 text-white transition-colors"
+        >
+          {isPaused ? t('jobs.resumeQueue') : t('jobs.pauseQueue')}
+        </button>
+        <button
+          onClick={onClearFinished}
+          disabled={!hasFinished}
+          className="flex-1 px-3 py-1.5 rounded-lg text-xs font-semibold bg-gray-800 hover:bg-gray-700 text-gray-300 disabled:opacity-40 transition-colors"
+        >
+          {t('jobs.clearFinished')}
+        </button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-4 space-y-3">
+        {jobs.length === 0 && (
+          <p className="text-sm text-gray-500 text-center mt-10">{t('jobs.empty')}</p>
+        )}
+        {[...jobs].reverse().map(job => (
+          <div key={job.id} className="p-3 rounded-xl border border-gray-800 bg-gray-800/40 space-y-2">
+            <div className="flex items-start justify-between gap-2">
+              <div className="min-w-0">
+                <p className="text-sm font-semibold text-gray-200 truncate">{job.title}</p>
+                <p className="text-[11px] text-gray-500 truncate">
+                  {t(`format.${job.request.aspectRatio}` as MessageKey)} • {job.request.useProModel ? t('config.pro') : t('common.standard')}
+                  {job.attempts > 1 ? ` • ${t('jobs.attempt', { count: job.attempts })}` : ''}
+                </p>
+              </div>
+              <span className={`flex-shrink-0 px-2 py-0.5 rounded text-[10px] font-semibold ${STATUS_CLASSES[job.status]}`}>
+                {job.status === 'backing-off' ? <RetryCountdown retryAt={job.retryAt} /> : t(`jobs.status.${job.status}` as MessageKey)}
+              </span>
+            </div>
+
+            {job.error && <p className="text-[11px] text-red-300 leading-snug">{job.error}</p>}
+
+            <div className="flex gap-3 text-[11px] font-semibold">
+              {job.status === 'done' && job.historyId && (
+                <button onClick={() => onOpen(job)} className="text-brand-300 hover:text-brand-200">{t('common.open')}</button>
+              )}
+              {(job.status === 'queued' || isJobActive(job)) && (
+                <button onClick={() => onCancel(job)} className="text-red-400 hover:text-red-300">{t('common.cancel')}</button>
+              )}
+              {(job.status === 'failed' || job.status === 'cancelled') && (
+                <button onClick={() => onRetry(job)} className="text-gray-400 hover:text-white">{t('common.retry')}</button>
+              )}
+              {isJobFinished(job) && (
+                <button onClick={() => onRemove(job)} className="text-gray-500 hover:text-gray-300">{t('common.remove')}</button>
+              )}
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,89 @@
+import React from 'react';
+import { AspectRatio, LogoMode, LogoPlacement, LogoPlacements } from '../types';
+import { LOGO_ANCHORS, getLogoPlacement } from '../services/logoCompositorService';
+import { MessageKey, useTranslator } from '../services/i18nService';
+
+interface LogoPlacementControlsProps {
+  mode: LogoMode;
+  placements: LogoPlacements;
+  aspectRatio: AspectRatio;
+  onModeChange: (mode: LogoMode) => void;
+  onPlacementsChange: (placements: LogoPlacements) => void;
+}
+
+const MODES: LogoMode[] = ['ai', 'overlay'];
+
+export const LogoPlacementControls: React.FC<LogoPlacementControlsProps> = ({
+  mode,
+  placements,
+  aspectRatio,
+  onModeChange,
+  onPlacementsChange,
+}) => {
+  const t = useTranslator();
+  const placement = getLogoPlacement(placements, aspectRatio);
+  // Edits apply to the selected format only, so each placement can be tuned separately
+  const update = (patch: Partial<LogoPlacement>) => onPlacementsChange({ ...placements, [aspectRatio]: { ...placement, ...patch } });
+  const resetFormat = () => {
+    const { [aspectRatio]: _removed, ...rest } = placements;
+    onPlacementsChange(rest);
+  };
+
+  return (
+    <div className="space-y-2">
+      <label className="text-sm font-medium text-gray-300">{t('logo.title')}</label>
+      <div className="grid grid-cols-2 gap-2 p-1 bg-gray-800 rounded-lg border border-gray-700">
+        {MODES.map(id => (
+          <button
+            key={id}
+            onClick={() => onModeChange(id)}
+            title={t(`logo.hint.${id}`)}
+            className={`px-3 py-2 text-xs font-semibold rounded-md transition-all ${
+              mode === id ? 'bg-gray-700 text-white shadow-sm ring-1 ring-gray-600' : 'text-gray-400 hover:text-white'
+            }`}
+          >
+            {t(`logo.mode.${id}`)}
+          </button>
+        ))}
+      </div>
+      <p className="text-[11px] text-gray-500">{t(`logo.hint.${mode}` as MessageKey)}</p>
+
+      {mode === 'overlay' && (
+        <div className="flex gap-3 p-3 rounded-lg border border-gray-800 bg-gray-800/30">
+          <div className="grid grid-cols-3 gap-1 w-20 h-20 flex-shrink-0">
+            {LOGO_ANCHORS.map(anchor => (
+              <button
+                key={anchor.id}
+                onClick={() => update({ anchor: anchor.id })}
+                title={t(`logo.anchor.${anchor.id}`)}
+                className={`rounded-sm border transition-colors ${
+                  placement.anchor === anchor.id ? 'bg-brand-500 border-brand-400' : 'bg-gray-800 border-gray-700 hover:border-gray-500'
+                }`}
+              />
+            ))}
+          </div>
+          <div className="flex-1 space-y-1.5 text-[11px] text-gray-400">
+            <div className="flex justify-between">
+              <span className="text-gray-500">{t('logo.forFormat', { format: aspectRatio })}</span>
+              {placements[aspectRatio] && (
+                <button onClick={resetFormat} className="text-gray-500 hover:text-white">{t('logo.reset')}</button>
+              )}
+            </div>
+            <label className="block">
+              {t('logo.size', { percent: Math.round(placement.scale * 100) })}
+              <input type="range" min={0.05} max={0.5} step={0.01} value={placement.scale} onChange={(e) => update({ scale: Number(e.target.value) })} className="w-full accent-brand-500" />
+            </label>
+            <label className="block">
+              {t('logo.opacity', { percent: Math.round(placement.opacity * 100) })}
+              <input type="range" min={0.2} max={1} step={0.05} value={placement.opacity} onChange={(e) => update({ opacity: Number(e.target.value) })} className="w-full accent-brand-500" />
+            </label>
+            <label className="block">
+              {t('logo.margin', { percent: Math.round(placement.margin * 100) })}
+              <input type="range" min={0} max={0.2} step={0.01} value={placement.margin} onChange={(e) => update({ margin: Number(e.target.value) })} className="w-full accent-brand-500" />
+            </label>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,162 @@
+import React, { useState } from 'react';
+import { MarketId, MarketProfile, MarketVariant } from '../types';
+import { MARKET_PROFILES, getMarketProfile } from '../constants';
+import { describeDisclosure } from '../services/complianceService';
+import { formatDiscount, formatPrice } from '../services/localizationService';
+import { MessageKey, useTranslator } from '../services/i18nService';
+
+interface MarketVariantsDialogProps {
+  sourceMarketId: MarketId;
+  // Values of the applied template; prices and discounts can be set per market
+  templateValues: Record<string, string> | null;
+  onLocalize: (market: MarketProfile, values: Record<string, string>) => Promise<MarketVariant>;
+  onOpen: (historyId: string) => void;
+  onClose: () => void;
+}
+
+const INPUT_CLASS = 'w-full bg-gray-800 border border-gray-700 rounded-lg px-2 py-1.5 text-xs text-gray-200 focus:outline-none focus:ring-2 focus:ring-brand-500/50';
+
+const STATUS_CLASSES: Record<MarketVariant['status'], string> = {
+  translating: 'text-brand-300 bg-brand-500/10',
+  done: 'text-green-300 bg-green-500/10',
+  failed: 'text-red-300 bg-red-500/10',
+};
+
+export const MarketVariantsDialog: React.FC<MarketVariantsDialogProps> = ({
+  sourceMarketId,
+  templateValues,
+  onLocalize,
+  onOpen,
+  onClose,
+}) => {
+  const t = useTranslator();
+  const source = getMarketProfile(sourceMarketId);
+  const markets = MARKET_PROFILES.filter(market => market.id !== sourceMarketId);
+  const [selected, setSelected] = useState<MarketId[]>([]);
+  const [values, setValues] = useState<Partial<Record<MarketId, Record<string, string>>>>({});
+  const [variants, setVariants] = useState<MarketVariant[]>([]);
+  const [isRunning, setIsRunning] = useState<boolean>(false);
+  const pricedKeys = (['price', 'discount'] as const).filter(key => templateValues?.[key]);
+
+  const toggle = (id: MarketId) => {
+    setSelected(prev => prev.includes(id) ? prev.filter(item => item !== id) : [...prev, id]);
+  };
+
+  const setValue = (id: MarketId, key: string, value: string) => {
+    setValues(prev => ({ ...prev, [id]: { ...prev[id], [key]: value } }));
+  };
+
+  const upsert = (variant: MarketVariant) => {
+    setVariants(prev => [...prev.filter(v => v.marketId !== variant.marketId), variant]);
+  };
+
+  // One market at a time keeps translation requests inside the rate limits
+  const handleCreate = async () => {
+    setIsRunning(true);
+    for (const id of selected) {
+      const market = getMarketProfile(id);
+      upsert({ marketId: id, status: 'translating', caption: '', issues: [], error: null, historyId: null });
+      try {
+        upsert(await onLocalize(market, values[id] || {}));
+      } catch (e: any) {
+        upsert({ marketId: id, status: 'failed', caption: '', issues: [], error: e.message || t('market.failed'), historyId: null });
+      }
+    }
+    setIsRunning(false);
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/80 backdrop-blur-sm">
+      <div className="bg-gray-900 border border-gray-800 rounded-2xl w-full max-w-2xl max-h-[90vh] overflow-y-auto shadow-2xl">
+        <div className="p-4 border-b border-gray-800 flex justify-between items-center">
+          <div>
+            <h3 className="text-white font-bold text-lg">{t('market.title')}</h3>
+            <p className="text-[11px] text-gray-500">{t('market.subtitle', { market: source.label, language: source.language })}</p>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-white">
+            <svg className="w-6 h-6" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" /></svg>
+          </button>
+        </div>
+
+        <div className="p-4 space-y-2">
+          {markets.map(market => (
+            <div key={market.id} className="p-3 rounded-lg border border-gray-800 bg-gray-800/30 space-y-2">
+              <label className="flex items-start gap-2">
+                <input
+                  type="checkbox"
+                  checked={selected.includes(market.id)}
+                  onChange={() => toggle(market.id)}
+                  className="mt-1 accent-brand-500"
+                />
+                <span className="flex-1 min-w-0">
+                  <span className="block text-sm text-white font-medium">{market.label}</span>
+                  <span className="block text-[11px] text-gray-500">
+                    {market.language} • {market.currency} • {t('market.disclosure', { label: describeDisclosure(market, t) })}
+                  </span>
+                </span>
+              </label>
+              {selected.includes(market.id) && pricedKeys.length > 0 && (
+                <div className="grid grid-cols-2 gap-2 pl-6">
+                  {pricedKeys.map(key => {
+                    const value = values[market.id]?.[key] ?? '';
+                    // Without its own price a market keeps the source price and currency
+                    const keepsSourcePrice = key === 'price' && !value.trim() && market.currency !== source.currency;
+                    const preview = value || templateValues?.[key] || '';
+                    return (
+                      <label key={key} className="block space-y-1 text-[11px] text-gray-400">
+                        {key === 'price' ? t('market.price', { currency: market.currency }) : t('market.discount')}
+                        <input
+                          value={value}
+                          onChange={(e) => setValue(market.id, key, e.target.value)}
+                          placeholder={templateValues?.[key]}
+                          className={INPUT_CLASS}
+                        />
+                        {keepsSourcePrice ? (
+                          <span className="text-yellow-300/80">{t('market.keepsPrice', { price: formatPrice(preview, source), currency: market.currency })}</span>
+                        ) : (
+                          <span className="text-gray-600">
+                            {t('market.shownAs', { value: key === 'price' ? formatPrice(preview, market) : formatDiscount(preview, market) })}
+                          </span>
+                        )}
+                      </label>
+                    );
+                  })}
+                </div>
+              )}
+            </div>
+          ))}
+
+          <button
+            onClick={handleCreate}
+            disabled={selected.length === 0 || isRunning}
+            className="w-full py-3 bg-brand-600 hover:bg-brand-500 disabled:bg-gray-800 disabled:text-gray-500 text-white text-sm font-bold rounded-full transition-colors"
+          >
+            {isRunning ? t('market.translating') : t('market.create', { count: selected.length || '' })}
+          </button>
+          <p className="text-[10px] text-gray-600">{t('market.savedHint')}</p>
+        </div>
+
+        {variants.length > 0 && (
+          <div className="p-4 border-t border-gray-800 space-y-3">
+            {variants.map(variant => (
+              <div key={variant.marketId} className="space-y-1 text-xs">
+                <div className="flex items-center gap-3">
+                  <span className={`px-2 py-0.5 rounded-full text-[10px] font-semibold ${STATUS_CLASSES[variant.status]}`}>
+                    {t(`market.status.${variant.status}` as MessageKey)}
+                  </span>
+                  <span className="text-gray-200 flex-1">{getMarketProfile(variant.marketId).label}</span>
+                  {variant.historyId && (
+                    <button onClick={() => onOpen(variant.historyId!)} className="text-brand-300 hover:text-brand-200">{t('common.open')}</button>
+                  )}
+                </div>
+                {variant.caption && <p className="text-gray-400 whitespace-pre-line line-clamp-3">{variant.caption}</p>}
+                {variant.issues.map(issue => <p key={issue} className="text-[11px] text-yellow-300">{issue}</p>)}
+                {variant.error && <p className="text-[11px] text-red-300">{variant.error}</p>}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
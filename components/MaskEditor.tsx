@@ -0,0 +1,214 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { loadImage } from '../services/canvasUtils';
+import { isMaskEmpty } from '../services/maskService';
+import { MessageKey, useTranslator } from '../services/i18nService';
+
+interface MaskEditorProps {
+  imageUrl: string;
+  isApplying: boolean;
+  error: string | null;
+  onApply: (alphaMaskUrl: string, instruction: string) => void;
+  onClose: () => void;
+}
+
+type MaskTool = 'brush' | 'rectangle' | 'lock';
+
+const TOOLS: MaskTool[] = ['brush', 'rectangle', 'lock'];
+
+// Semi-transparent teal shows painted regions; only alpha matters for the exported mask
+const MASK_COLOR = 'rgba(45, 212, 191, 0.55)';
+
+export const MaskEditor: React.FC<MaskEditorProps> = ({ imageUrl, isApplying, error, onApply, onClose }) => {
+  const t = useTranslator();
+  const maskRef = useRef<HTMLCanvasElement>(null);
+  const previewRef = useRef<HTMLCanvasElement>(null);
+  const dragRef = useRef<{ x: number; y: number } | null>(null);
+  const [size, setSize] = useState<{ width: number; height: number } | null>(null);
+  const [tool, setTool] = useState<MaskTool>('brush');
+  const [brushSize, setBrushSize] = useState<number>(0.05);
+  const [instruction, setInstruction] = useState<string>("");
+  const [hasMask, setHasMask] = useState<boolean>(false);
+
+  useEffect(() => {
+    loadImage(imageUrl)
+      .then(img => setSize({ width: img.naturalWidth, height: img.naturalHeight }))
+      .catch(e => console.error("[Visioncraft] Mask base image failed to load:", e));
+  }, [imageUrl]);
+
+  const toCanvasPoint = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const canvas = e.currentTarget;
+    const rect = canvas.getBoundingClientRect();
+    return {
+      x: ((e.clientX - rect.left) / rect.width) * canvas.width,
+      y: ((e.clientY - rect.top) / rect.height) * canvas.height,
+    };
+  };
+
+  const paintAt = (x: number, y: number) => {
+    const ctx = maskRef.current?.getContext('2d');
+    if (!ctx || !size) return;
+    const radius = (brushSize * Math.min(size.width, size.height)) / 2;
+    ctx.save();
+    ctx.globalCompositeOperation = tool === 'lock' ? 'destination-out' : 'source-over';
+    ctx.fillStyle = MASK_COLOR;
+    ctx.beginPath();
+    ctx.arc(x, y, radius, 0, Math.PI * 2);
+    ctx.fill();
+    ctx.restore();
+  };
+
+  const drawRectPreview = (from: { x: number; y: number }, to: { x: number; y: number }) => {
+    const canvas = previewRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+    ctx.clearRect(0, 0, canvas.width, canvas.height);
+    ctx.strokeStyle = '#2dd4bf';
+    ctx.lineWidth = Math.max(2, canvas.width / 300);
+    ctx.setLineDash([10, 6]);
+    ctx.strokeRect(from.x, from.y, to.x - from.x, to.y - from.y);
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    const point = toCanvasPoint(e);
+    dragRef.current = point;
+    if (tool !== 'rectangle') paintAt(point.x, point.y);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const start = dragRef.current;
+    if (!start) return;
+    const point = toCanvasPoint(e);
+    if (tool === 'rectangle') {
+      drawRectPreview(start, point);
+    } else {
+      paintAt(point.x, point.y);
+    }
+  };
+
+  const handlePointerUp = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const start = dragRef.current;
+    dragRef.current = null;
+    if (!start) return;
+
+    if (tool === 'rectangle') {
+      const end = toCanvasPoint(e);
+      const ctx = maskRef.current?.getContext('2d');
+      if (ctx) {
+        ctx.fillStyle = MASK_COLOR;
+        ctx.fillRect(Math.min(start.x, end.x), Math.min(start.y, end.y), Math.abs(end.x - start.x), Math.abs(end.y - start.y));
+      }
+      const preview = previewRef.current;
+      preview?.getContext('2d')?.clearRect(0, 0, preview.width, preview.height);
+    }
+    if (maskRef.current) setHasMask(!isMaskEmpty(maskRef.current));
+  };
+
+  const clearMask = () => {
+    const canvas = maskRef.current;
+    canvas?.getContext('2d')?.clearRect(0, 0, canvas.width, canvas.height);
+    setHasMask(false);
+  };
+
+  const apply = () => {
+    const canvas = maskRef.current;
+    if (!canvas || !hasMask || !instruction.trim()) return;
+    onApply(canvas.toDataURL('image/png'), instruction.trim());
+  };
+
+  return (
+    <div className="w-full h-full flex gap-6 items-center">
+      <div className="flex-1 h-full flex items-center justify-center min-w-0">
+        {size && (
+          <div className="relative max-w-full max-h-[80vh]" style={{ aspectRatio: `${size.width} / ${size.height}` }}>
+            <img src={imageUrl} alt={t('mask.imageAlt')} className="w-full h-full object-contain rounded-lg ring-1 ring-gray-700" />
+            <canvas
+              ref={maskRef}
+              width={size.width}
+              height={size.height}
+              className="absolute inset-0 w-full h-full pointer-events-none"
+            />
+            <canvas
+              ref={previewRef}
+              width={size.width}
+              height={size.height}
+              onPointerDown={handlePointerDown}
+              onPointerMove={handlePointerMove}
+              onPointerUp={handlePointerUp}
+              className="absolute inset-0 w-full h-full cursor-crosshair touch-none"
+            />
+            {isApplying && (
+              <div className="absolute inset-0 bg-black/50 flex items-center justify-center rounded-lg">
+                <div className="w-10 h-10 border-4 border-brand-500/30 border-t-brand-500 rounded-full animate-spin"></div>
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+
+      <div className="w-72 bg-gray-900/80 border border-gray-800 rounded-xl p-4 space-y-4 backdrop-blur-md">
+        <div className="flex items-center justify-between">
+          <h3 className="text-sm font-bold text-white">{t('mask.title')}</h3>
+          <button onClick={onClose} disabled={isApplying} className="text-[11px] font-semibold text-gray-400 hover:text-white disabled:opacity-40">{t('common.cancel')}</button>
+        </div>
+
+        <div className="grid grid-cols-3 gap-2">
+          {TOOLS.map(id => (
+            <button
+              key={id}
+              onClick={() => setTool(id)}
+              title={t(`mask.hint.${id}`)}
+              className={`px-2 py-2 text-[11px] font-semibold rounded-lg border transition-colors ${
+                tool === id ? 'border-brand-500 text-brand-300 bg-brand-600/20' : 'border-gray-700 text-gray-300 hover:border-gray-500'
+              }`}
+            >
+              {t(`mask.tool.${id}`)}
+            </button>
+          ))}
+        </div>
+        <p className="text-[11px] text-gray-500">{t(`mask.hint.${tool}` as MessageKey)}</p>
+
+        {tool !== 'rectangle' && (
+          <label className="block text-[11px] text-gray-400">
+            {t('mask.brushSize')}
+            <input
+              type="range"
+              min={0.01}
+              max={0.2}
+              step={0.005}
+              value={brushSize}
+              onChange={(e) => setBrushSize(Number(e.target.value))}
+              className="w-full accent-brand-500"
+            />
+          </label>
+        )}
+
+        <textarea
+          value={instruction}
+          onChange={(e) => setInstruction(e.target.value)}
+          placeholder={t('mask.instruction')}
+          className="w-full h-20 bg-gray-800 border border-gray-700 rounded-lg p-2 text-sm text-gray-200 placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-brand-500/50 resize-none"
+        />
+
+        <div className="flex gap-2">
+          <button
+            onClick={clearMask}
+            disabled={isApplying || !hasMask}
+            className="px-3 py-2 text-[11px] font-semibold rounded-lg border border-gray-700 text-gray-300 hover:border-gray-500 disabled:opacity-40 transition-colors"
+          >
+            {t('mask.clear')}
+          </button>
+          <button
+            onClick={apply}
+            disabled={isApplying || !hasMask || !instruction.trim()}
+            className="flex-1 py-2 bg-brand-600 hover:bg-brand-500 disabled:bg-gray-800 disabled:text-gray-500 text-white text-sm font-bold rounded-lg transition-colors"
+          >
+            {t(isApplying ? 'mask.editing' : 'mask.apply')}
+          </button>
+        </div>
+
+        {error && <p className="text-[11px] text-red-300">{error}</p>}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,229 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { OverlayLayer, OverlayLayerKind, UploadedImage } from '../types';
+import { loadImage } from '../services/canvasUtils';
+import { OVERLAY_FONTS, createOverlayLayer, drawOverlayLayers, measureOverlayLayer } from '../services/overlayService';
+import { useTranslator } from '../services/i18nService';
+
+interface OverlayEditorProps {
+  imageUrl: string;
+  logoImage: UploadedImage | null;
+  layers: OverlayLayer[];
+  brandFonts?: string[];
+  onLayersChange: (layers: OverlayLayer[]) => void;
+  onClose: () => void;
+}
+
+const LAYER_KINDS: OverlayLayerKind[] = ['text', 'badge', 'cta', 'logo'];
+
+export const OverlayEditor: React.FC<OverlayEditorProps> = ({ imageUrl, logoImage, layers, brandFonts = [], onLayersChange, onClose }) => {
+  const t = useTranslator();
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const dragRef = useRef<{ id: string; offsetX: number; offsetY: number } | null>(null);
+  const [baseImage, setBaseImage] = useState<HTMLImageElement | null>(null);
+  const [logo, setLogo] = useState<HTMLImageElement | null>(null);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  const selectedLayer = layers.find(layer => layer.id === selectedId) || null;
+  // Brand kit fonts first, then the built-in list
+  const fonts = Array.from(new Set([...brandFonts, ...OVERLAY_FONTS]));
+
+  useEffect(() => {
+    loadImage(imageUrl).then(setBaseImage).catch(e => console.error("[Visioncraft] Overlay base image failed to load:", e));
+  }, [imageUrl]);
+
+  useEffect(() => {
+    if (!logoImage) {
+      setLogo(null);
+      return;
+    }
+    loadImage(logoImage.base64).then(setLogo).catch(e => console.error("[Visioncraft] Logo failed to load:", e));
+  }, [logoImage]);
+
+  // Redraw base image, layers and the selection outline
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx || !baseImage) return;
+
+    canvas.width = baseImage.naturalWidth;
+    canvas.height = baseImage.naturalHeight;
+    ctx.drawImage(baseImage, 0, 0);
+    drawOverlayLayers(ctx, layers, canvas.width, canvas.height, logo);
+
+    if (selectedLayer) {
+      const bounds = measureOverlayLayer(ctx, selectedLayer, canvas.width, canvas.height, logo);
+      ctx.save();
+      ctx.strokeStyle = '#2dd4bf';
+      ctx.lineWidth = Math.max(2, canvas.width / 400);
+      ctx.setLineDash([8, 6]);
+      ctx.strokeRect(bounds.x - 4, bounds.y - 4, bounds.width + 8, bounds.height + 8);
+      ctx.restore();
+    }
+  }, [baseImage, logo, layers, selectedLayer]);
+
+  // Convert a pointer event into canvas pixel coordinates
+  const toCanvasPoint = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const canvas = e.currentTarget;
+    const rect = canvas.getBoundingClientRect();
+    return {
+      x: ((e.clientX - rect.left) / rect.width) * canvas.width,
+      y: ((e.clientY - rect.top) / rect.height) * canvas.height,
+    };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const canvas = e.currentTarget;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+    const point = toCanvasPoint(e);
+
+    // Top-most layer wins, so walk the stack backwards
+    const hit = [...layers].reverse().find(layer => {
+      const b = measureOverlayLayer(ctx, layer, canvas.width, canvas.height, logo);
+      return point.x >= b.x && point.x <= b.x + b.width && point.y >= b.y && point.y <= b.y + b.height;
+    });
+
+    setSelectedId(hit ? hit.id : null);
+    if (hit) {
+      canvas.setPointerCapture(e.pointerId);
+      dragRef.current = {
+        id: hit.id,
+        offsetX: point.x - hit.x * canvas.width,
+        offsetY: point.y - hit.y * canvas.height,
+      };
+    }
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    const canvas = e.currentTarget;
+    const point = toCanvasPoint(e);
+    updateLayer(drag.id, {
+      x: Math.min(1, Math.max(0, (point.x - drag.offsetX) / canvas.width)),
+      y: Math.min(1, Math.max(0, (point.y - drag.offsetY) / canvas.height)),
+    });
+  };
+
+  const handlePointerUp = () => {
+    dragRef.current = null;
+  };
+
+  const updateLayer = (id: string, patch: Partial<OverlayLayer>) => {
+    onLayersChange(layers.map(layer => layer.id === id ? { ...layer, ...patch } : layer));
+  };
+
+  const addLayer = (kind: OverlayLayerKind) => {
+    const layer = createOverlayLayer(kind, t);
+    onLayersChange([...layers, layer]);
+    setSelectedId(layer.id);
+  };
+
+  const removeSelected = () => {
+    if (!selectedId) return;
+    onLayersChange(layers.filter(layer => layer.id !== selectedId));
+    setSelectedId(null);
+  };
+
+  return (
+    <div className="w-full h-full flex gap-6 items-center">
+      <div className="flex-1 h-full flex items-center justify-center min-w-0">
+        <canvas
+          ref={canvasRef}
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          className="max-w-full max-h-[80vh] rounded-lg shadow-2xl ring-1 ring-gray-700 cursor-move touch-none"
+        />
+      </div>
+
+      <div className="w-72 bg-gray-900/80 border border-gray-800 rounded-xl p-4 space-y-4 backdrop-blur-md">
+        <div className="flex items-center justify-between">
+          <h3 className="text-sm font-bold text-white">{t('overlay.title')}</h3>
+          <button onClick={onClose} className="text-[11px] font-semibold text-brand-300 hover:text-brand-200">{t('overlay.done')}</button>
+        </div>
+
+        <div className="grid grid-cols-2 gap-2">
+          {LAYER_KINDS.map(kind => (
+            <button
+              key={kind}
+              onClick={() => addLayer(kind)}
+              disabled={kind === 'logo' && !logoImage}
+              title={kind === 'logo' && !logoImage ? t('overlay.logoFirst') : undefined}
+              className="px-2 py-2 text-[11px] font-semibold rounded-lg border border-gray-700 text-gray-300 hover:border-gray-500 disabled:opacity-40 disabled:cursor-not-allowed transition-colors"
+            >
+              {t(`overlay.add.${kind}`)}
+            </button>
+          ))}
+        </div>
+
+        {selectedLayer ? (
+          <div className="space-y-3 pt-3 border-t border-gray-800">
+            {selectedLayer.kind !== 'logo' && (
+              <>
+                <input
+                  value={selectedLayer.text}
+                  onChange={(e) => updateLayer(selectedLayer.id, { text: e.target.value })}
+                  className="w-full bg-gray-800 border border-gray-700 rounded-lg px-3 py-2 text-sm text-gray-200 focus:outline-none focus:ring-2 focus:ring-brand-500/50"
+                />
+                <select
+                  value={selectedLayer.fontFamily}
+                  onChange={(e) => updateLayer(selectedLayer.id, { fontFamily: e.target.value })}
+                  className="w-full bg-gray-800 border border-gray-700 rounded-lg px-3 py-2 text-sm text-gray-200 focus:outline-none"
+                >
+                  {fonts.map(font => <option key={font} value={font}>{font}</option>)}
+                </select>
+                <label className="block text-[11px] text-gray-400">
+                  {t('overlay.size')}
+                  <input
+                    type="range"
+                    min={0.02}
+                    max={0.2}
+                    step={0.005}
+                    value={selectedLayer.fontSize}
+                    onChange={(e) => updateLayer(selectedLayer.id, { fontSize: Number(e.target.value) })}
+                    className="w-full accent-brand-500"
+                  />
+                </label>
+                <div className="flex gap-3">
+                  <label className="flex items-center gap-2 text-[11px] text-gray-400">
+                    {t('overlay.text')}
+                    <input type="color" value={selectedLayer.color} onChange={(e) => updateLayer(selectedLayer.id, { color: e.target.value })} />
+                  </label>
+                  {selectedLayer.kind !== 'text' && (
+                    <label className="flex items-center gap-2 text-[11px] text-gray-400">
+                      {t('overlay.fill')}
+                      <input type="color" value={selectedLayer.background} onChange={(e) => updateLayer(selectedLayer.id, { background: e.target.value })} />
+                    </label>
+                  )}
+                </div>
+              </>
+            )}
+            {selectedLayer.kind === 'logo' && (
+              <label className="block text-[11px] text-gray-400">
+                {t('overlay.logoWidth')}
+                <input
+                  type="range"
+                  min={0.05}
+                  max={0.5}
+                  step={0.01}
+                  value={selectedLayer.scale}
+                  onChange={(e) => updateLayer(selectedLayer.id, { scale: Number(e.target.value) })}
+                  className="w-full accent-brand-500"
+                />
+              </label>
+            )}
+            <button
+              onClick={removeSelected}
+              className="w-full py-2 text-[11px] font-semibold uppercase tracking-wide rounded-lg bg-red-500/15 text-red-300 hover:bg-red-500/25 transition-colors"
+            >
+              {t('overlay.remove')}
+            </button>
+          </div>
+        ) : (
+          <p className="text-[11px] text-gray-500">{t('overlay.hint')}</p>
+        )}
+      </div>
+    </div>
+  );
+};
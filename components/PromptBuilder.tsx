@@ -0,0 +1,110 @@
+import React, { useState } from 'react';
+import { StructuredBrief } from '../types';
+import { BRIEF_FIELDS, BRIEF_PRESETS, EMPTY_BRIEF, PROMPT_TEMPLATES } from '../services/promptService';
+import { MessageKey, useTranslator } from '../services/i18nService';
+
+interface PromptBuilderProps {
+  brief: StructuredBrief;
+  onBriefChange: (brief: StructuredBrief) => void;
+  description: string;
+  onDescriptionChange: (description: string) => void;
+  templateId: string;
+  onTemplateChange: (templateId: string) => void;
+  previewPrompt: string;
+}
+
+export const PromptBuilder: React.FC<PromptBuilderProps> = ({
+  brief,
+  onBriefChange,
+  description,
+  onDescriptionChange,
+  templateId,
+  onTemplateChange,
+  previewPrompt,
+}) => {
+  const t = useTranslator();
+  const [showPreview, setShowPreview] = useState<boolean>(false);
+
+  const selectClass = "w-full bg-gray-800 border border-gray-700 rounded-lg px-2 py-2 text-xs text-gray-200 focus:outline-none focus:ring-2 focus:ring-brand-500/50";
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <label className="text-sm font-medium text-gray-300">{t('brief.presets')}</label>
+        <div className="flex flex-wrap gap-2">
+          {BRIEF_PRESETS.map(preset => (
+            <button
+              key={preset.id}
+              onClick={() => onBriefChange(preset.brief)}
+              className="px-3 py-1.5 text-[11px] font-semibold rounded-full border border-gray-700 text-gray-300 hover:border-brand-500 hover:text-brand-300 transition-colors"
+            >
+              {t(`brief.preset.${preset.id}` as MessageKey)}
+            </button>
+          ))}
+          <button
+            onClick={() => onBriefChange(EMPTY_BRIEF)}
+            className="px-3 py-1.5 text-[11px] font-semibold rounded-full text-gray-500 hover:text-white transition-colors"
+          >
+            {t('brief.clear')}
+          </button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-3">
+        {BRIEF_FIELDS.map(field => {
+          const value = brief[field.key];
+          // Preset values that aren't in the option list still need to render
+          const options = value && !field.options.includes(value) ? [value, ...field.options] : field.options;
+          return (
+            <label key={field.key} className="space-y-1">
+              <span className="text-[11px] font-medium text-gray-400">{t(`brief.field.${field.key}` as MessageKey)}</span>
+              <select
+                value={value}
+                onChange={(e) => onBriefChange({ ...brief, [field.key]: e.target.value })}
+                className={selectClass}
+              >
+                <option value="">{t('brief.any')}</option>
+                {options.map(option => <option key={option} value={option}>{option}</option>)}
+              </select>
+            </label>
+          );
+        })}
+      </div>
+
+      <div className="space-y-2">
+        <label className="text-sm font-medium text-gray-300 flex justify-between">
+          {t('brief.notes')}
+          <span className="text-gray-500 text-xs uppercase tracking-wider">{t('upload.optional')}</span>
+        </label>
+        <textarea
+          value={description}
+          onChange={(e) => onDescriptionChange(e.target.value)}
+          placeholder={t('brief.notesPlaceholder')}
+          className="w-full h-24 bg-gray-800 border border-gray-700 rounded-xl p-3 text-sm text-gray-200 placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-brand-500/50 focus:border-brand-500 resize-none"
+        />
+      </div>
+
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <label className="text-sm font-medium text-gray-300">{t('brief.promptTemplate')}</label>
+          <button
+            onClick={() => setShowPreview(!showPreview)}
+            className="text-xs font-semibold text-brand-300 hover:text-brand-200"
+          >
+            {t(showPreview ? 'brief.hidePrompt' : 'brief.previewPrompt')}
+          </button>
+        </div>
+        <select value={templateId} onChange={(e) => onTemplateChange(e.target.value)} className={selectClass}>
+          {PROMPT_TEMPLATES.map(template => (
+            <option key={template.id} value={template.id}>{template.name} (v{template.version})</option>
+          ))}
+        </select>
+        {showPreview && (
+          <pre className="max-h-64 overflow-y-auto whitespace-pre-wrap bg-gray-950 border border-gray-800 rounded-lg p-3 text-[11px] text-gray-400 font-mono">
+            {previewPrompt.replace(/^\s+/gm, '').trim()}
+          </pre>
+        )}
+      </div>
+    </div>
+  );
+};
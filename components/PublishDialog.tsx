@@ -0,0 +1,242 @@
+import React, { useState } from 'react';
+import { PublishAccount, PublishConnectorId, PublishRecord } from '../types';
+import {
+  createPublishAccount,
+  getFieldLabel,
+  getMissingFields,
+  getPublishConnector,
+  getScheduleMode,
+  isDueOnPlatform,
+  listPublishConnectors,
+  validatePublication,
+} from '../services/publishService';
+import { MOCK_PUBLISH_ENDPOINT } from '../services/publishConnectors';
+import { MessageKey, useTranslator } from '../services/i18nService';
+
+export interface PublishSubmission {
+  connectorIds: PublishConnectorId[];
+  caption: string;
+  title: string;
+  altText: string;
+  link: string;
+  scheduledAt: number | null;
+}
+
+interface PublishDialogProps {
+  accounts: PublishAccount[];
+  caption: string;
+  defaultTitle: string;
+  defaultAltText: string;
+  // Publications of the creative on screen, newest first
+  publications: PublishRecord[];
+  onCaptionChange: (caption: string) => void;
+  onSaveAccount: (account: PublishAccount) => void;
+  onSubmit: (submission: PublishSubmission) => Promise<void>;
+  onRetry: (record: PublishRecord) => void;
+  onCancel: (record: PublishRecord) => void;
+  onClose: () => void;
+}
+
+const INPUT_CLASS = 'w-full bg-gray-800 border border-gray-700 rounded-lg px-3 py-2 text-sm text-gray-200 focus:outline-none focus:ring-2 focus:ring-brand-500/50';
+
+const STATUS_CLASSES: Record<PublishRecord['status'], string> = {
+  queued: 'text-gray-300 bg-gray-700/60',
+  scheduled: 'text-blue-300 bg-blue-500/10',
+  publishing: 'text-brand-300 bg-brand-500/10',
+  published: 'text-green-300 bg-green-500/10',
+  failed: 'text-red-300 bg-red-500/10',
+  cancelled: 'text-gray-500 bg-gray-800',
+};
+
+// <input type="datetime-local"> works in local time without a zone suffix
+const toLocalInputValue = (time: number): string => {
+  const date = new Date(time - new Date(time).getTimezoneOffset() * 60000);
+  return date.toISOString().slice(0, 16);
+};
+
+export const PublishDialog: React.FC<PublishDialogProps> = ({
+  accounts,
+  caption,
+  defaultTitle,
+  defaultAltText,
+  publications,
+  onCaptionChange,
+  onSaveAccount,
+  onSubmit,
+  onRetry,
+  onCancel,
+  onClose,
+}) => {
+  const t = useTranslator();
+  const connectors = listPublishConnectors();
+  const [selected, setSelected] = useState<PublishConnectorId[]>([]);
+  const [editingId, setEditingId] = useState<PublishConnectorId | null>(null);
+  const [title, setTitle] = useState<string>(defaultTitle);
+  const [altText, setAltText] = useState<string>(defaultAltText);
+  const [link, setLink] = useState<string>('');
+  const [scheduleAt, setScheduleAt] = useState<string>('');
+  const [isSubmitting, setIsSubmitting] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const getAccount = (id: PublishConnectorId) => accounts.find(account => account.id === id) || createPublishAccount(id);
+  const scheduledAt = scheduleAt ? new Date(scheduleAt).getTime() : null;
+  const issues = selected.flatMap(id => validatePublication(getPublishConnector(id), getAccount(id), caption, t));
+  const isPast = scheduledAt !== null && scheduledAt <= Date.now();
+
+  const toggle = (id: PublishConnectorId) => {
+    setSelected(prev => prev.includes(id) ? prev.filter(item => item !== id) : [...prev, id]);
+  };
+
+  const handleSubmit = async () => {
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      await onSubmit({ connectorIds: selected, caption, title, altText, link, scheduledAt });
+      setSelected([]);
+    } catch (e: any) {
+      setError(e.message || t('publish.failed'));
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/80 backdrop-blur-sm">
+      <div className="bg-gray-900 border border-gray-800 rounded-2xl w-full max-w-2xl max-h-[90vh] overflow-y-auto shadow-2xl">
+        <div className="p-4 border-b border-gray-800 flex justify-between items-center">
+          <h3 className="text-white font-bold text-lg">{t('publish.title')}</h3>
+          <button onClick={onClose} className="text-gray-400 hover:text-white">
+            <svg className="w-6 h-6" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" /></svg>
+          </button>
+        </div>
+
+        <div className="p-4 grid md:grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <p className="text-xs font-semibold text-gray-400 uppercase tracking-wide">{t('publish.destinations')}</p>
+            {connectors.map(connector => {
+              const account = getAccount(connector.id);
+              const isReady = getMissingFields(connector, account).length === 0;
+              const mode = getScheduleMode(connector, scheduledAt);
+              return (
+                <div key={connector.id} className="p-3 rounded-lg border border-gray-800 bg-gray-800/30 space-y-2">
+                  <div className="flex items-start gap-2">
+                    <input
+                      type="checkbox"
+                      checked={selected.includes(connector.id)}
+                      onChange={() => toggle(connector.id)}
+                      className="mt-1 accent-brand-500"
+                    />
+                    <div className="flex-1 min-w-0">
+                      <p className="text-sm text-white font-medium">{connector.label}</p>
+                      <p className="text-[11px] text-gray-500">{t(`publish.connector.${connector.id}`, { endpoint: MOCK_PUBLISH_ENDPOINT })}</p>
+                      {selected.includes(connector.id) && mode !== 'now' && (
+                        <p className="text-[11px] text-blue-300">
+                          {t(mode === 'remote' ? 'publish.modeRemote' : 'publish.modeLocal')}
+                        </p>
+                      )}
+                    </div>
+                    <button
+                      onClick={() => setEditingId(editingId === connector.id ? null : connector.id)}
+                      className={`text-[11px] ${isReady ? 'text-gray-400 hover:text-white' : 'text-yellow-300 hover:text-yellow-200'}`}
+                    >
+                      {t(isReady ? 'publish.settings' : 'publish.setUp')}
+                    </button>
+                  </div>
+                  {editingId === connector.id && (
+                    <div className="space-y-2 pl-6">
+                      {[...connector.fields, ...(connector.optionalFields || [])].map(field => (
+                        <label key={field} className="block space-y-1 text-[11px] text-gray-400">
+                          {getFieldLabel(connector, field, t)}{connector.optionalFields?.includes(field) ? ` ${t('publish.optional')}` : ''}
+                          <input
+                            type={field === 'accessToken' ? 'password' : 'text'}
+                            value={account[field]}
+                            onChange={(e) => onSaveAccount({ ...account, [field]: e.target.value })}
+                            className={INPUT_CLASS}
+                          />
+                        </label>
+                      ))}
+                      <p className="text-[10px] text-gray-600">{t('publish.storedLocally')}</p>
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+
+          <div className="space-y-3">
+            <p className="text-xs font-semibold text-gray-400 uppercase tracking-wide">{t('publish.post')}</p>
+            <label className="block space-y-1 text-xs text-gray-400">
+              {t('publish.postTitle')} <span className="text-gray-600">{t('publish.postTitleHint')}</span>
+              <input value={title} onChange={(e) => setTitle(e.target.value)} className={INPUT_CLASS} />
+            </label>
+            <label className="block space-y-1 text-xs text-gray-400">
+              {t('publish.caption')} <span className="text-gray-600">{t('publish.characters', { count: caption.length })}</span>
+              <textarea value={caption} onChange={(e) => onCaptionChange(e.target.value)} className={`${INPUT_CLASS} h-28 resize-none`} />
+            </label>
+            <label className="block space-y-1 text-xs text-gray-400">
+              {t('publish.altText')}
+              <input value={altText} onChange={(e) => setAltText(e.target.value)} className={INPUT_CLASS} />
+            </label>
+            <label className="block space-y-1 text-xs text-gray-400">
+              {t('publish.link')} <span className="text-gray-600">{t('publish.linkHint')}</span>
+              <input type="url" value={link} onChange={(e) => setLink(e.target.value)} placeholder="https://" className={INPUT_CLASS} />
+            </label>
+            <label className="block space-y-1 text-xs text-gray-400">
+              {t('publish.schedule')} <span className="text-gray-600">{t('publish.scheduleHint')}</span>
+              <div className="flex gap-2">
+                <input
+                  type="datetime-local"
+                  value={scheduleAt}
+                  min={toLocalInputValue(Date.now())}
+                  onChange={(e) => setScheduleAt(e.target.value)}
+                  className={INPUT_CLASS}
+                />
+                {scheduleAt && <button onClick={() => setScheduleAt('')} className="text-[11px] text-gray-400 hover:text-white">{t('publish.clear')}</button>}
+              </div>
+            </label>
+
+            {issues.map(issue => <p key={issue} className="text-[11px] text-yellow-300">{issue}</p>)}
+            {isPast && <p className="text-[11px] text-yellow-300">{t('publish.pastTime')}</p>}
+            {error && <p className="text-[11px] text-red-300">{error}</p>}
+
+            <button
+              onClick={handleSubmit}
+              disabled={selected.length === 0 || issues.length > 0 || isSubmitting}
+              className="w-full py-3 bg-brand-600 hover:bg-brand-500 disabled:bg-gray-800 disabled:text-gray-500 text-white text-sm font-bold rounded-full transition-colors"
+            >
+              {t(scheduledAt && !isPast ? 'publish.scheduleAction' : 'publish.publishNow')}{selected.length > 1 ? ` (${selected.length})` : ''}
+            </button>
+          </div>
+        </div>
+
+        {publications.length > 0 && (
+          <div className="p-4 border-t border-gray-800 space-y-2">
+            <p className="text-xs font-semibold text-gray-400 uppercase tracking-wide">{t('publish.thisCreative')}</p>
+            {publications.map(record => (
+              <div key={record.id} className="flex items-center gap-3 text-xs">
+                <span className={`px-2 py-0.5 rounded-full text-[10px] font-semibold ${STATUS_CLASSES[record.status]}`}>
+                  {t(isDueOnPlatform(record) ? 'publish.status.due' : `publish.status.${record.status}` as MessageKey)}
+                </span>
+                <span className="text-gray-200">{getPublishConnector(record.connectorId).label}</span>
+                <span className="flex-1 min-w-0 truncate text-gray-500">
+                  {record.error
+                    || (record.status === 'scheduled' && record.scheduledAt ? `${new Date(record.scheduledAt).toLocaleString()}${record.scheduledRemotely ? ` ${t('publish.onPlatform')}` : ''}` : '')
+                    || (record.publishedAt ? new Date(record.publishedAt).toLocaleString() : '')}
+                </span>
+                {record.remoteUrl && (
+                  <a href={record.remoteUrl} target="_blank" rel="noopener noreferrer" className="text-brand-300 hover:text-brand-200">{t('publish.view')}</a>
+                )}
+                {record.status === 'failed' && (
+                  <button onClick={() => onRetry(record)} className="text-gray-300 hover:text-white">{t('common.retry')}</button>
+                )}
+                {(record.status === 'queued' || (record.status === 'scheduled' && !record.scheduledRemotely)) && (
+                  <button onClick={() => onCancel(record)} className="text-gray-400 hover:text-white">{t('common.cancel')}</button>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,104 @@
+import React, { useState } from 'react';
+import { RefinementHistory } from '../types';
+import { canRedo, canUndo } from '../services/refinementService';
+import { MessageKey, useTranslator } from '../services/i18nService';
+
+interface RefinementPanelProps {
+  history: RefinementHistory;
+  isRefining: boolean;
+  error: string | null;
+  onRefine: (instruction: string) => void;
+  onUndo: () => void;
+  onRedo: () => void;
+  onJump: (index: number) => void;
+}
+
+const SUGGESTIONS: MessageKey[] = ['refine.suggestion.warmer', 'refine.suggestion.left', 'refine.suggestion.morning', 'refine.suggestion.simplify'];
+
+export const RefinementPanel: React.FC<RefinementPanelProps> = ({ history, isRefining, error, onRefine, onUndo, onRedo, onJump }) => {
+  const t = useTranslator();
+  const [instruction, setInstruction] = useState<string>("");
+
+  const submit = () => {
+    const trimmed = instruction.trim();
+    if (!trimmed || isRefining) return;
+    onRefine(trimmed);
+    setInstruction("");
+  };
+
+  return (
+    <div className="w-full max-w-2xl bg-gray-900/80 border border-gray-800 rounded-xl p-3 space-y-3 backdrop-blur-md">
+      <div className="flex gap-2">
+        <input
+          value={instruction}
+          onChange={(e) => setInstruction(e.target.value)}
+          onKeyDown={(e) => { if (e.key === 'Enter') submit(); }}
+          disabled={isRefining}
+          placeholder={t('refine.placeholder')}
+          className="flex-1 bg-gray-800 border border-gray-700 rounded-lg px-3 py-2 text-sm text-gray-200 placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-brand-500/50 disabled:opacity-60"
+        />
+        <button
+          onClick={submit}
+          disabled={isRefining || !instruction.trim()}
+          className="px-4 py-2 bg-brand-600 hover:bg-brand-500 disabled:bg-gray-800 disabled:text-gray-500 text-white text-sm font-bold rounded-lg transition-colors"
+        >
+          {t(isRefining ? 'refine.refining' : 'refine.refine')}
+        </button>
+        <button
+          onClick={onUndo}
+          disabled={isRefining || !canUndo(history)}
+          title={t('refine.undo')}
+          className="px-3 py-2 border border-gray-700 rounded-lg text-gray-300 hover:border-gray-500 disabled:opacity-40 transition-colors"
+        >
+          ↶
+        </button>
+        <button
+          onClick={onRedo}
+          disabled={isRefining || !canRedo(history)}
+          title={t('refine.redo')}
+          className="px-3 py-2 border border-gray-700 rounded-lg text-gray-300 hover:border-gray-500 disabled:opacity-40 transition-colors"
+        >
+          ↷
+        </button>
+      </div>
+
+      {history.steps.length === 1 && (
+        <div className="flex flex-wrap gap-2">
+          {SUGGESTIONS.map(key => t(key)).map(suggestion => (
+            <button
+              key={suggestion}
+              onClick={() => setInstruction(suggestion)}
+              className="px-2.5 py-1 text-[11px] rounded-full border border-gray-700 text-gray-400 hover:text-white hover:border-gray-500 transition-colors"
+            >
+              {suggestion}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {history.steps.length > 1 && (
+        <div className="flex gap-2 overflow-x-auto pb-1">
+          {history.steps.map((step, index) => (
+            <button
+              key={step.id}
+              onClick={() => onJump(index)}
+              disabled={isRefining}
+              title={step.instruction || t('refine.original')}
+              className={`flex-shrink-0 px-2.5 py-1 text-[11px] rounded-full border transition-colors ${
+                index === history.index
+                  ? 'border-brand-500 text-brand-300 bg-brand-600/20'
+                  : index > history.index
+                    ? 'border-gray-800 text-gray-600'
+                    : 'border-gray-700 text-gray-400 hover:text-white'
+              }`}
+            >
+              {index === 0 ? t('refine.original') : `${index}. ${step.instruction!.slice(0, 24)}`}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {error && <p className="text-[11px] text-red-300">{error}</p>}
+    </div>
+  );
+};
@@ -0,0 +1,263 @@
+import React, { useRef, useState } from 'react';
+import { AdTemplate, AspectRatio, BrandKit, TemplateCategory } from '../types';
+import { AD_FORMATS } from '../constants';
+import {
+  BUILT_IN_TEMPLATES,
+  TEMPLATE_CATEGORY_LABELS,
+  TEMPLATE_TOKENS,
+  TemplateValues,
+  duplicateTemplate,
+  exportTemplatesJson,
+  fillTemplateText,
+  getTemplateTokens,
+  parseTemplatesJson,
+} from '../services/templateLibraryService';
+import { summarizeBrief } from '../services/promptService';
+import { safePathSegment } from '../services/catalogService';
+import { downloadBlob } from '../services/zipService';
+import { MessageKey, useTranslator } from '../services/i18nService';
+
+interface TemplateLibraryProps {
+  // Custom templates; built-ins come from the service
+  templates: AdTemplate[];
+  brandKit: BrandKit | null;
+  appliedTemplateId: string | null;
+  onApply: (template: AdTemplate, values: TemplateValues) => void;
+  // Captures the current brief, formats and overlay layers under the given name
+  onSaveCurrent: (name: string) => AdTemplate;
+  onSave: (template: AdTemplate) => void;
+  onDelete: (id: string) => void;
+  onClose: () => void;
+}
+
+const INPUT_CLASS = 'w-full bg-gray-800 border border-gray-700 rounded-lg px-3 py-2 text-sm text-gray-200 focus:outline-none focus:ring-2 focus:ring-brand-500/50';
+
+export const TemplateLibrary: React.FC<TemplateLibraryProps> = ({
+  templates,
+  brandKit,
+  appliedTemplateId,
+  onApply,
+  onSaveCurrent,
+  onSave,
+  onDelete,
+  onClose,
+}) => {
+  const t = useTranslator();
+  const allTemplates = [...BUILT_IN_TEMPLATES, ...templates];
+  const [selectedId, setSelectedId] = useState<string>(appliedTemplateId || allTemplates[0].id);
+  const [values, setValues] = useState<TemplateValues>({});
+  const [newName, setNewName] = useState<string>('');
+  const [notice, setNotice] = useState<string | null>(null);
+  const [errors, setErrors] = useState<string[]>([]);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const template = allTemplates.find(item => item.id === selectedId) || allTemplates[0];
+  const tokens = getTemplateTokens(template);
+  const categories = Object.keys(TEMPLATE_CATEGORY_LABELS) as TemplateCategory[];
+
+  const update = (patch: Partial<AdTemplate>) => {
+    if (!template.builtIn) onSave({ ...template, ...patch });
+  };
+
+  const toggleFormat = (format: AspectRatio) => {
+    const next = template.aspectRatios.includes(format)
+      ? template.aspectRatios.filter(f => f !== format)
+      : AD_FORMATS.filter(f => f === format || template.aspectRatios.includes(f));
+    if (next.length > 0) update({ aspectRatios: next });
+  };
+
+  const handleSaveCurrent = () => {
+    const created = onSaveCurrent(newName.trim() || t('template.untitled'));
+    setSelectedId(created.id);
+    setNewName('');
+  };
+
+  const handleDuplicate = () => {
+    const created = duplicateTemplate(template);
+    onSave(created);
+    setSelectedId(created.id);
+  };
+
+  const handleDelete = () => {
+    onDelete(template.id);
+    setSelectedId(BUILT_IN_TEMPLATES[0].id);
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    const result = parseTemplatesJson(await file.text());
+    result.templates.forEach(onSave);
+    setErrors(result.errors);
+    setNotice(t('template.imported', { count: result.templates.length }));
+    if (result.templates[0]) setSelectedId(result.templates[0].id);
+  };
+
+  const handleExport = (list: AdTemplate[], name: string) => {
+    downloadBlob(new Blob([exportTemplatesJson(list)], { type: 'application/json' }), `${name}.json`);
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/80 backdrop-blur-sm">
+      <div className="bg-gray-900 border border-gray-800 rounded-2xl w-full max-w-4xl max-h-[90vh] overflow-hidden shadow-2xl flex flex-col">
+        <div className="p-4 border-b border-gray-800 flex justify-between items-center">
+          <h3 className="text-white font-bold text-lg">{t('template.title')}</h3>
+          <div className="flex items-center gap-3">
+            <button onClick={() => fileInputRef.current?.click()} className="text-xs text-gray-300 hover:text-white">
+              {t('template.importJson')}
+            </button>
+            <button
+              onClick={() => handleExport(templates, 'visioncraft-templates')}
+              disabled={templates.length === 0}
+              className="text-xs text-gray-300 hover:text-white disabled:opacity-40"
+            >
+              {t('template.exportAll')}
+            </button>
+            <input ref={fileInputRef} type="file" accept=".json,application/json" onChange={handleImport} className="hidden" />
+            <button onClick={onClose} className="text-gray-400 hover:text-white">
+              <svg className="w-6 h-6" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" /></svg>
+            </button>
+          </div>
+        </div>
+
+        <div className="flex-1 flex min-h-0">
+          <div className="w-60 border-r border-gray-800 p-4 space-y-4 overflow-y-auto">
+            {categories.map(category => {
+              const list = allTemplates.filter(item => item.category === category);
+              if (list.length === 0) return null;
+              return (
+                <div key={category} className="space-y-1">
+                  <p className="text-[10px] font-semibold text-gray-500 uppercase tracking-wide">{t(`template.category.${category}` as MessageKey)}</p>
+                  {list.map(item => (
+                    <button
+                      key={item.id}
+                      onClick={() => { setSelectedId(item.id); setNotice(null); }}
+                      className={`w-full flex items-center gap-2 px-2 py-1.5 rounded-lg text-left text-sm ${
+                        item.id === template.id ? 'bg-gray-800 text-white' : 'text-gray-400 hover:text-white'
+                      }`}
+                    >
+                      <span className="truncate flex-1">{item.name}</span>
+                      {item.id === appliedTemplateId && <span className="text-[10px] text-brand-300">{t('template.applied')}</span>}
+                    </button>
+                  ))}
+                </div>
+              );
+            })}
+
+            <div className="space-y-2 pt-3 border-t border-gray-800">
+              <p className="text-[11px] text-gray-400">{t('template.saveHint')}</p>
+              <input value={newName} onChange={(e) => setNewName(e.target.value)} placeholder={t('template.namePlaceholder')} className={INPUT_CLASS} />
+              <button onClick={handleSaveCurrent} className="w-full px-2 py-1.5 text-xs text-brand-300 hover:text-brand-200 border border-gray-700 rounded-lg">
+                {t('template.saveCurrent')}
+              </button>
+            </div>
+          </div>
+
+          <div className="flex-1 p-4 space-y-4 overflow-y-auto">
+            {template.builtIn ? (
+              <div>
+                <p className="text-white font-semibold">{template.name}</p>
+                <p className="text-xs text-gray-400">{template.summary}</p>
+              </div>
+            ) : (
+              <div className="grid grid-cols-2 gap-2">
+                <input value={template.name} onChange={(e) => update({ name: e.target.value })} className={INPUT_CLASS} />
+                <select value={template.category} onChange={(e) => update({ category: e.target.value as TemplateCategory })} className={INPUT_CLASS}>
+                  {categories.map(category => <option key={category} value={category}>{t(`template.category.${category}` as MessageKey)}</option>)}
+                </select>
+                <input value={template.summary} onChange={(e) => update({ summary: e.target.value })} placeholder={t('template.summary')} className={`${INPUT_CLASS} col-span-2`} />
+              </div>
+            )}
+
+            <div className="space-y-1 text-[11px] text-gray-400">
+              {t('template.description')}
+              {template.builtIn ? (
+                <p className="text-sm text-gray-200">{template.description || '—'}</p>
+              ) : (
+                <textarea
+                  value={template.description}
+                  onChange={(e) => update({ description: e.target.value })}
+                  className={`${INPUT_CLASS} h-16 resize-none`}
+                />
+              )}
+              <p className="text-gray-600">{t('template.placeholders', { tokens: TEMPLATE_TOKENS.map(token => `{${token.key}}`).join(', '), brand: '{brand}' })}</p>
+            </div>
+
+            <div className="space-y-1 text-[11px] text-gray-400">
+              {t('template.brief')}
+              <p className="text-sm text-gray-200">{summarizeBrief(template.brief, '') || '—'}</p>
+            </div>
+
+            <div className="space-y-1 text-[11px] text-gray-400">
+              {t('template.formats')}
+              <div className="flex flex-wrap gap-1">
+                {AD_FORMATS.map(format => (
+                  <button
+                    key={format}
+                    onClick={() => toggleFormat(format)}
+                    disabled={template.builtIn}
+                    className={`px-2 py-1 rounded-md border text-[11px] ${
+                      template.aspectRatios.includes(format) ? 'border-brand-500 text-white bg-brand-500/10' : 'border-gray-700 text-gray-500'
+                    } ${template.builtIn ? 'cursor-default' : ''}`}
+                  >
+                    {format}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            <div className="space-y-1 text-[11px] text-gray-400">
+              {t('template.slots')}
+              {template.slots.length === 0 && <p className="text-gray-600">{t('template.noOverlays')}</p>}
+              {template.slots.map((slot, index) => (
+                <div key={index} className="flex items-center gap-2 text-xs">
+                  <span className="w-20 text-gray-300">{slot.label}</span>
+                  <span className="flex-1 truncate text-gray-400">{slot.kind === 'logo' ? t('template.brandLogo') : fillTemplateText(slot.text, values, brandKit) || slot.text}</span>
+                  {slot.brandColor && <span className="text-[10px] text-brand-300">{t('template.brandColor', { role: slot.brandColor })}</span>}
+                  {slot.brandFont && <span className="text-[10px] text-brand-300">{t('template.brandFont')}</span>}
+                </div>
+              ))}
+              {!brandKit && template.slots.some(slot => slot.brandColor || slot.brandFont) && (
+                <p className="text-gray-600">{t('template.selectBrandKit')}</p>
+              )}
+            </div>
+
+            {tokens.length > 0 && (
+              <div className="grid grid-cols-3 gap-2">
+                {TEMPLATE_TOKENS.filter(token => tokens.includes(token.key)).map(token => (
+                  <label key={token.key} className="block space-y-1 text-[11px] text-gray-400">
+                    {t(`template.token.${token.key}` as MessageKey)}
+                    <input
+                      value={values[token.key] || ''}
+                      onChange={(e) => setValues(prev => ({ ...prev, [token.key]: e.target.value }))}
+                      placeholder={token.example}
+                      className={INPUT_CLASS}
+                    />
+                  </label>
+                ))}
+              </div>
+            )}
+
+            {notice && <p className="text-[11px] text-green-300">{notice}</p>}
+            {errors.map(error => <p key={error} className="text-[11px] text-yellow-300">{error}</p>)}
+
+            <div className="flex items-center gap-3 pt-2 border-t border-gray-800">
+              <button
+                onClick={() => onApply(template, values)}
+                className="px-4 py-2 bg-brand-600 hover:bg-brand-500 text-white text-sm font-bold rounded-full transition-colors"
+              >
+                {t('template.apply')}
+              </button>
+              <button onClick={handleDuplicate} className="text-xs text-gray-300 hover:text-white">{t('common.duplicate')}</button>
+              <button onClick={() => handleExport([template], safePathSegment(template.name))} className="text-xs text-gray-300 hover:text-white">{t('template.export')}</button>
+              {!template.builtIn && (
+                <button onClick={handleDelete} className="ml-auto text-xs text-red-300 hover:text-red-200">{t('common.delete')}</button>
+              )}
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,77 @@
+import React, { useState } from 'react';
+import { AspectRatio, ImageFormat, ImagePreprocessOptions } from '../types';
+import { AD_FORMATS } from '../constants';
+import { IMAGE_FORMAT_LABELS, MAX_EDGE_OPTIONS } from '../services/imagePreprocessService';
+import { useTranslator } from '../services/i18nService';
+
+interface UploadSettingsProps {
+  options: ImagePreprocessOptions;
+  onChange: (options: ImagePreprocessOptions) => void;
+}
+
+const SELECT_CLASS = 'w-full bg-gray-900 border border-gray-700 rounded px-2 py-1 text-xs text-gray-200 focus:outline-none';
+
+// Preprocessing applied to new uploads; images already on the form keep their settings
+export const UploadSettings: React.FC<UploadSettingsProps> = ({ options, onChange }) => {
+  const t = useTranslator();
+  const [isOpen, setIsOpen] = useState<boolean>(false);
+  const update = (patch: Partial<ImagePreprocessOptions>) => onChange({ ...options, ...patch });
+
+  return (
+    <div className="rounded-lg border border-gray-800 bg-gray-800/30">
+      <button
+        onClick={() => setIsOpen(prev => !prev)}
+        className="w-full px-3 py-2 flex items-center justify-between text-xs text-gray-400 hover:text-white"
+      >
+        <span>{t('upload.settings')}</span>
+        <span className="text-gray-500">
+          ≤{options.maxEdge}px • {options.format === 'auto' ? t('upload.auto') : IMAGE_FORMAT_LABELS[options.format]}
+          {options.crop ? ` • ${t('upload.crop', { ratio: options.crop })}` : ''}
+        </span>
+      </button>
+      {isOpen && (
+        <div className="px-3 pb-3 grid grid-cols-2 gap-2 text-[11px] text-gray-500">
+          <label className="space-y-1">
+            {t('upload.maxSize')}
+            <select value={options.maxEdge} onChange={(e) => update({ maxEdge: Number(e.target.value) })} className={SELECT_CLASS}>
+              {MAX_EDGE_OPTIONS.map(edge => <option key={edge} value={edge}>{edge}px</option>)}
+            </select>
+          </label>
+          <label className="space-y-1">
+            {t('upload.format')}
+            <select value={options.format} onChange={(e) => update({ format: e.target.value as ImageFormat | 'auto' })} className={SELECT_CLASS}>
+              <option value="auto">{t('upload.autoFormat')}</option>
+              {(Object.keys(IMAGE_FORMAT_LABELS) as ImageFormat[]).map(format => (
+                <option key={format} value={format}>{IMAGE_FORMAT_LABELS[format]}</option>
+              ))}
+            </select>
+          </label>
+          <label className="space-y-1">
+            {t('upload.cropProduct')}
+            <select
+              value={options.crop || ''}
+              onChange={(e) => update({ crop: (e.target.value || null) as AspectRatio | null })}
+              className={SELECT_CLASS}
+            >
+              <option value="">{t('upload.original')}</option>
+              {AD_FORMATS.map(format => <option key={format} value={format}>{format}</option>)}
+            </select>
+          </label>
+          <label className="space-y-1">
+            {t('upload.quality', { percent: Math.round(options.quality * 100) })}
+            <input
+              type="range"
+              min={0.5}
+              max={1}
+              step={0.05}
+              value={options.quality}
+              disabled={options.format === 'image/png'}
+              onChange={(e) => update({ quality: Number(e.target.value) })}
+              className="w-full accent-brand-500 disabled:opacity-40"
+            />
+          </label>
+        </div>
+      )}
+    </div>
+  );
+};
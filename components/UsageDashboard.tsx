@@ -0,0 +1,113 @@
+import React from 'react';
+import { ModelTier, UsageRecord } from '../types';
+import { DAILY_COST_BUDGET, MODEL_TIERS } from '../constants';
+import { getDailyCost, getTierUsage, getUsageDate } from '../services/usageService';
+import { useTranslator } from '../services/i18nService';
+
+interface UsageDashboardProps {
+  records: UsageRecord[];
+  warnings: string[];
+  onClose: () => void;
+}
+
+const TIERS = Object.keys(MODEL_TIERS) as ModelTier[];
+const HISTORY_DAYS = 7;
+
+export const UsageDashboard: React.FC<UsageDashboardProps> = ({ records, warnings, onClose }) => {
+  const t = useTranslator();
+  const tierLabel = (tier: ModelTier) => t(`usage.tier.${tier}`);
+  const today = getUsageDate();
+  const spentToday = getDailyCost(records, today);
+  const days = Array.from(new Set<string>(records.map(record => record.date))).slice(0, HISTORY_DAYS);
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/80 backdrop-blur-sm">
+      <div className="bg-gray-900 border border-gray-800 rounded-2xl w-full max-w-2xl max-h-[90vh] overflow-hidden shadow-2xl flex flex-col">
+        <div className="p-4 border-b border-gray-800 flex justify-between items-center">
+          <div>
+            <h3 className="text-white font-bold text-lg">{t('usage.title')}</h3>
+            <p className="text-xs text-gray-500">{t('usage.subtitle')}</p>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-white">
+            <svg className="w-6 h-6" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" /></svg>
+          </button>
+        </div>
+
+        <div className="p-4 space-y-4 overflow-y-auto">
+          {warnings.length > 0 && (
+            <div className="p-3 rounded-lg border border-yellow-500/30 bg-yellow-500/10 text-xs text-yellow-200 space-y-1">
+              <p className="font-semibold">{t('usage.overBudget')}</p>
+              {warnings.map(warning => <p key={warning}>{warning}</p>)}
+            </div>
+          )}
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+            {TIERS.map(tier => {
+              const config = MODEL_TIERS[tier];
+              const usage = getTierUsage(records, tier, today);
+              const calls = usage?.calls || 0;
+              const ratio = Math.min(1, calls / config.dailyRequestLimit);
+              return (
+                <div key={tier} className="p-3 rounded-xl border border-gray-800 bg-gray-800/40 space-y-2">
+                  <div className="flex items-center justify-between">
+                    <span className="text-sm font-semibold text-gray-200">{tierLabel(tier)}</span>
+                    <span className="text-[11px] text-gray-500">{t('usage.rate', { perMinute: config.requestsPerMinute, burst: config.burst })}</span>
+                  </div>
+                  <div className="w-full h-1.5 bg-gray-800 rounded-full overflow-hidden">
+                    <div
+                      className={`h-full transition-all ${ratio >= 0.9 ? 'bg-red-500' : ratio >= 0.7 ? 'bg-yellow-500' : 'bg-brand-500'}`}
+                      style={{ width: `${ratio * 100}%` }}
+                    />
+                  </div>
+                  <p className="text-xs text-gray-400">{t('usage.callsToday', { calls, limit: config.dailyRequestLimit })}</p>
+                  <p className="text-[11px] text-gray-500">
+                    {t('usage.outcomes', { successes: usage?.successes || 0, failures: usage?.failures || 0 })}
+                    {config.costPerImage > 0 ? ` • ~$${(usage?.estimatedCost || 0).toFixed(2)}` : ''}
+                  </p>
+                </div>
+              );
+            })}
+          </div>
+
+          <div className="p-3 rounded-xl border border-gray-800 bg-gray-800/40 flex items-center justify-between text-sm">
+            <span className="text-gray-300">{t('usage.spentToday')}</span>
+            <span className={spentToday > DAILY_COST_BUDGET ? 'text-red-300 font-semibold' : 'text-gray-200 font-semibold'}>
+              ${spentToday.toFixed(2)} / ${DAILY_COST_BUDGET.toFixed(2)}
+            </span>
+          </div>
+
+          <div>
+            <h4 className="text-xs uppercase tracking-wider text-gray-400 font-semibold mb-2">{t('usage.lastDays', { count: HISTORY_DAYS })}</h4>
+            {days.length === 0 ? (
+              <p className="text-sm text-gray-500">{t('usage.none')}</p>
+            ) : (
+              <table className="w-full text-xs">
+                <thead className="text-gray-500">
+                  <tr>
+                    <th className="text-left py-1">{t('usage.day')}</th>
+                    {TIERS.map(tier => <th key={tier} className="text-right py-1">{t('usage.tierCalls', { tier: tierLabel(tier) })}</th>)}
+                    <th className="text-right py-1">{t('usage.failures')}</th>
+                    <th className="text-right py-1">{t('usage.cost')}</th>
+                  </tr>
+                </thead>
+                <tbody className="text-gray-300">
+                  {days.map(day => {
+                    const dayRecords = records.filter(record => record.date === day);
+                    return (
+                      <tr key={day} className="border-t border-gray-800">
+                        <td className="py-1">{day}</td>
+                        {TIERS.map(tier => <td key={tier} className="text-right py-1">{getTierUsage(records, tier, day)?.calls || 0}</td>)}
+                        <td className="text-right py-1">{dayRecords.reduce((sum, record) => sum + record.failures, 0)}</td>
+                        <td className="text-right py-1">${getDailyCost(records, day).toFixed(2)}</td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,107 @@
+import React, { useState } from 'react';
+import { AspectRatio, VariantItem } from '../types';
+import { ASPECT_RATIO_CLASSES } from '../constants';
+import { useTranslator } from '../services/i18nService';
+
+interface VariantComparisonGridProps {
+  items: VariantItem[];
+  aspectRatio: AspectRatio;
+  isRunning: boolean;
+  onToggleStar: (id: string) => void;
+  onPickWinner: (item: VariantItem) => void;
+  onRetry: (id: string) => void;
+  onStop: () => void;
+  onResume: () => void;
+}
+
+export const VariantComparisonGrid: React.FC<VariantComparisonGridProps> = ({ items, aspectRatio, isRunning, onToggleStar, onPickWinner, onRetry, onStop, onResume }) => {
+  const t = useTranslator();
+  const [starredOnly, setStarredOnly] = useState<boolean>(false);
+  const starredCount = items.filter(item => item.starred).length;
+  const stopped = !isRunning && items.some(item => item.status === 'pending');
+  const visible = starredOnly ? items.filter(item => item.starred) : items;
+
+  return (
+    <div className="w-full h-full flex flex-col gap-4 overflow-y-auto">
+      <div className="flex items-center justify-between">
+        <div>
+          <h3 className="text-lg font-bold text-white">{t('variants.title')}</h3>
+          <p className="text-xs text-gray-400">{t('variants.subtitle')}</p>
+        </div>
+        <div className="flex items-center gap-2">
+          {(isRunning || stopped) && (
+            <button
+              onClick={isRunning ? onStop : onResume}
+              className="text-[11px] font-semibold uppercase tracking-wide px-3 py-1.5 rounded-lg border border-gray-700 text-gray-300 hover:border-gray-500 transition-colors"
+            >
+              {t(isRunning ? 'common.stop' : 'common.resume')}
+            </button>
+          )}
+          <button
+            onClick={() => setStarredOnly(!starredOnly)}
+            disabled={starredCount === 0}
+            className="text-[11px] font-semibold uppercase tracking-wide px-3 py-1.5 rounded-lg border border-gray-700 text-gray-300 hover:border-gray-500 disabled:opacity-40 transition-colors"
+          >
+            {starredOnly ? t('variants.showAll') : t('variants.starredOnly', { count: starredCount })}
+          </button>
+        </div>
+      </div>
+
+      <div className={`grid gap-4 items-start ${visible.length > 2 ? 'grid-cols-2 xl:grid-cols-4' : 'grid-cols-2'}`}>
+        {visible.map(item => (
+          <div
+            key={item.id}
+            className={`bg-gray-900/80 border rounded-xl p-3 flex flex-col gap-2 ${item.starred ? 'border-yellow-500/60' : 'border-gray-800'}`}
+          >
+            <div className={`relative w-full bg-gray-800 rounded-lg overflow-hidden ${ASPECT_RATIO_CLASSES[aspectRatio]}`}>
+              {item.status === 'done' && (
+                <img src={item.imageUrl} alt={t('variants.imageAlt', { id: item.id })} className="w-full h-full object-cover" />
+              )}
+              {item.status === 'running' && (
+                <div className="absolute inset-0 flex items-center justify-center">
+                  <div className="w-8 h-8 border-4 border-brand-500/30 border-t-brand-500 rounded-full animate-spin"></div>
+                </div>
+              )}
+              {item.status === 'pending' && (
+                <div className="absolute inset-0 flex items-center justify-center text-xs text-gray-500">{t('common.queued')}</div>
+              )}
+              {item.status === 'error' && (
+                <div className="absolute inset-0 flex flex-col items-center justify-center gap-2 p-3 text-center">
+                  <p className="text-[11px] text-red-300 leading-snug">{item.error}</p>
+                  <button
+                    onClick={() => onRetry(item.id)}
+                    disabled={isRunning}
+                    className="px-3 py-1 bg-red-500/20 hover:bg-red-500/30 disabled:opacity-40 rounded-md text-[11px] font-semibold text-red-200 transition-colors"
+                  >
+                    {t('common.retry')}
+                  </button>
+                </div>
+              )}
+              {item.status === 'done' && (
+                <button
+                  onClick={() => onToggleStar(item.id)}
+                  title={t(item.starred ? 'variants.unstar' : 'variants.star')}
+                  className={`absolute top-2 right-2 w-8 h-8 rounded-full backdrop-blur-sm flex items-center justify-center text-lg transition-colors ${
+                    item.starred ? 'bg-yellow-500/80 text-white' : 'bg-black/50 text-gray-300 hover:text-yellow-300'
+                  }`}
+                >
+                  ★
+                </button>
+              )}
+            </div>
+
+            <p className="text-[11px] text-gray-400 leading-snug min-h-[2.5em]">{item.variation || t('variants.original')}</p>
+
+            <button
+              onClick={() => onPickWinner(item)}
+              disabled={item.status !== 'done'}
+              className="py-2 text-[11px] font-semibold uppercase tracking-wide rounded-lg bg-brand-600/20 border border-brand-500/40 text-brand-300 hover:bg-brand-600/30 disabled:opacity-40 disabled:cursor-not-allowed transition-colors"
+            >
+              {t('variants.pickWinner')}
+            </button>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,194 @@
+import { AspectRatio, CopyPlatform, ExportPreset, LogoPlacement, MarketProfile, ModelTier, ModelTierConfig, PlatformCopyLimits, RetailerProfile, SafeZone } from "./types";
+
+// Placements offered in the "Format & Size" selector and batch runs
+export const AD_FORMATS: AspectRatio[] = [
+  AspectRatio.Square,
+  AspectRatio.Story,
+  AspectRatio.Widescreen,
+  AspectRatio.Portrait,
+  AspectRatio.Landscape,
+];
+
+// Tailwind aspect classes for grid thumbnails
+export const ASPECT_RATIO_CLASSES: Record<AspectRatio, string> = {
+  [AspectRatio.Square]: 'aspect-square',
+  [AspectRatio.Portrait]: 'aspect-[3/4]',
+  [AspectRatio.Landscape]: 'aspect-[4/3]',
+  [AspectRatio.Story]: 'aspect-[9/16]',
+  [AspectRatio.Widescreen]: 'aspect-video',
+};
+
+const uniformZone = (margin: number): SafeZone => ({ top: margin, right: margin, bottom: margin, left: margin });
+
+// Retailer compliance profiles used by the rule engine in services/complianceService.ts
+export const RETAILER_PROFILES: RetailerProfile[] = [
+  {
+    id: 'marketplace',
+    name: 'Online Marketplace',
+    minWidth: 600,
+    minHeight: 600,
+    safeZones: {
+      [AspectRatio.Square]: uniformZone(0.05),
+      [AspectRatio.Portrait]: uniformZone(0.05),
+      [AspectRatio.Landscape]: uniformZone(0.05),
+      [AspectRatio.Story]: { top: 0.14, right: 0.06, bottom: 0.2, left: 0.06 },
+      [AspectRatio.Widescreen]: uniformZone(0.05),
+    },
+    requireLogo: false,
+    bannedWords: ['guaranteed', 'best ever', 'free money', 'miracle', 'cure'],
+    maxFileSizeKb: 5000,
+  },
+  {
+    id: 'retail-media',
+    name: 'Grocery Retail Media',
+    minWidth: 500,
+    minHeight: 500,
+    safeZones: {
+      [AspectRatio.Square]: uniformZone(0.1),
+      [AspectRatio.Portrait]: uniformZone(0.1),
+      [AspectRatio.Landscape]: uniformZone(0.1),
+      [AspectRatio.Story]: { top: 0.2, right: 0.1, bottom: 0.25, left: 0.1 },
+      [AspectRatio.Widescreen]: { top: 0.1, right: 0.08, bottom: 0.1, left: 0.08 },
+    },
+    requireLogo: true,
+    bannedWords: ['guaranteed', 'cheapest', 'money-back', 'competition', 'prize', 'eco-friendly', 'sustainable', 'healthiest'],
+    maxFileSizeKb: 2000,
+  },
+  {
+    id: 'social',
+    name: 'Social Media Ads',
+    minWidth: 500,
+    minHeight: 500,
+    safeZones: {
+      [AspectRatio.Square]: uniformZone(0.04),
+      [AspectRatio.Portrait]: uniformZone(0.04),
+      [AspectRatio.Landscape]: uniformZone(0.04),
+      [AspectRatio.Story]: { top: 0.14, right: 0.05, bottom: 0.35, left: 0.05 },
+      [AspectRatio.Widescreen]: uniformZone(0.04),
+    },
+    requireLogo: false,
+    bannedWords: ['click here', 'tag a friend', 'like this post'],
+    maxFileSizeKb: 30000,
+  },
+];
+
+export const getRetailerProfile = (id: string): RetailerProfile => {
+  return RETAILER_PROFILES.find(profile => profile.id === id) || RETAILER_PROFILES[0];
+};
+
+// Markets a creative can be localized for. Forbidden words are claims regulators there
+// challenge without substantiation (green claims, cure claims); disclosure words are the
+// labels expected on paid partnership posts.
+export const MARKET_PROFILES: MarketProfile[] = [
+  {
+    id: 'us',
+    label: 'United States',
+    locale: 'en-US',
+    language: 'American English',
+    currency: 'USD',
+    forbiddenWords: ['risk-free', 'miracle', 'clinically proven'],
+    disclosureWords: ['#ad', 'sponsored', 'paid partnership'],
+  },
+  {
+    id: 'uk',
+    label: 'United Kingdom',
+    locale: 'en-GB',
+    language: 'British English',
+    currency: 'GBP',
+    forbiddenWords: ['risk-free', 'miracle', 'eco-friendly', 'carbon neutral'],
+    disclosureWords: ['#ad', 'advert'],
+  },
+  {
+    id: 'de',
+    label: 'Germany',
+    locale: 'de-DE',
+    language: 'German',
+    currency: 'EUR',
+    forbiddenWords: ['klimaneutral', 'Testsieger', 'Wundermittel', 'umweltfreundlich'],
+    disclosureWords: ['Anzeige', 'Werbung'],
+  },
+  {
+    id: 'fr',
+    label: 'France',
+    locale: 'fr-FR',
+    language: 'French',
+    currency: 'EUR',
+    forbiddenWords: ['biodégradable', "respectueux de l'environnement", 'neutre en carbone', 'miracle'],
+    disclosureWords: ['publicité', 'collaboration commerciale'],
+  },
+  {
+    id: 'es',
+    label: 'Spain',
+    locale: 'es-ES',
+    language: 'Spanish (Spain)',
+    currency: 'EUR',
+    forbiddenWords: ['milagroso', 'sin riesgo', 'ecológico'],
+    disclosureWords: ['publicidad', '#publi'],
+  },
+];
+
+export const getMarketProfile = (id: string): MarketProfile => {
+  return MARKET_PROFILES.find(market => market.id === id) || MARKET_PROFILES[0];
+};
+
+// Client-side limits applied before any Gemini call; keep below the project's real quota
+export const MODEL_TIERS: Record<ModelTier, ModelTierConfig> = {
+  standard: {
+    label: 'Standard',
+    requestsPerMinute: 10,
+    burst: 2,
+    dailyRequestLimit: 100,
+    costPerImage: 0,
+  },
+  pro: {
+    label: 'Pro',
+    requestsPerMinute: 5,
+    burst: 1,
+    dailyRequestLimit: 50,
+    costPerImage: 0.134,
+  },
+  // Copy and translation calls; kept apart so text work neither drains nor hides in the image quota
+  text: {
+    label: 'Text',
+    requestsPerMinute: 10,
+    burst: 2,
+    dailyRequestLimit: 250,
+    costPerImage: 0,
+  },
+};
+
+// Daily spend ceiling for billable (Pro) generations, in USD
+export const DAILY_COST_BUDGET = 5;
+
+// Input images beyond the main product; Standard accepts few reference images reliably
+export const MAX_EXTRA_PRODUCTS = 3;
+export const MAX_REFERENCE_IMAGES = 2;
+
+// Exact logo overlay defaults per format; Story keeps clear of the app's header and reply bar
+export const DEFAULT_LOGO_PLACEMENTS: Record<AspectRatio, LogoPlacement> = {
+  [AspectRatio.Square]: { anchor: 'bottom-right', scale: 0.18, opacity: 1, margin: 0.05 },
+  [AspectRatio.Portrait]: { anchor: 'bottom-right', scale: 0.2, opacity: 1, margin: 0.05 },
+  [AspectRatio.Landscape]: { anchor: 'top-right', scale: 0.15, opacity: 1, margin: 0.05 },
+  [AspectRatio.Story]: { anchor: 'top-center', scale: 0.28, opacity: 1, margin: 0.14 },
+  [AspectRatio.Widescreen]: { anchor: 'top-right', scale: 0.12, opacity: 1, margin: 0.05 },
+};
+
+// Platform sizes offered on export, per each network's current recommended upload size
+export const EXPORT_PRESETS: ExportPreset[] = [
+  { id: 'instagram-square', label: 'Instagram Post (1080×1080)', width: 1080, height: 1080 },
+  { id: 'instagram-portrait', label: 'Instagram Portrait (1080×1350)', width: 1080, height: 1350 },
+  { id: 'instagram-story', label: 'Instagram / TikTok Story (1080×1920)', width: 1080, height: 1920 },
+  { id: 'facebook-feed', label: 'Facebook Link Post (1200×630)', width: 1200, height: 630 },
+  { id: 'pinterest-pin', label: 'Pinterest Pin (1000×1500)', width: 1000, height: 1500 },
+  { id: 'x-post', label: 'X Post (1600×900)', width: 1600, height: 900 },
+  { id: 'linkedin-post', label: 'LinkedIn Post (1200×627)', width: 1200, height: 627 },
+];
+
+// Copy limits per placement. Instagram truncates captions after ~125 characters in feed and
+// allows 30 hashtags; Facebook shows ~125 characters of primary text and a 40-character headline;
+// Story text sits on the image, so it has to stay short.
+export const PLATFORM_COPY_LIMITS: Record<CopyPlatform, PlatformCopyLimits> = {
+  'instagram-post': { label: 'Instagram Post', headline: 60, body: 300, hashtags: 30, altText: 100, caption: 2200 },
+  'instagram-story': { label: 'Instagram Story', headline: 40, body: 90, hashtags: 3, altText: 100, caption: 250 },
+  'facebook': { label: 'Facebook', headline: 40, body: 125, hashtags: 3, altText: 125, caption: 63206 },
+};
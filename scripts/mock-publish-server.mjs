@@ -0,0 +1,60 @@
+// Local stand-in for a publishing endpoint. Accepts the multipart POST sent by the webhook and
+// mock connectors, logs it, and answers like a real platform would: { id, url }.
+import { createServer } from 'node:http';
+
+const PORT = Number(process.env.MOCK_PUBLISH_PORT || 8787);
+const received = [];
+
+const CORS_HEADERS = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+  'Access-Control-Allow-Headers': 'Authorization, Content-Type',
+};
+
+const send = (res, status, body) => {
+  res.writeHead(status, { ...CORS_HEADERS, 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+};
+
+// Pulls the JSON "post" field out of the multipart body without a parser dependency
+const readPostField = (raw) => {
+  const match = raw.match(/name="post"\r\n\r\n([\s\S]*?)\r\n--/);
+  try {
+    return match ? JSON.parse(match[1]) : null;
+  } catch {
+    return null;
+  }
+};
+
+createServer((req, res) => {
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204, CORS_HEADERS);
+    res.end();
+    return;
+  }
+  if (req.method === 'GET') {
+    send(res, 200, received);
+    return;
+  }
+  if (req.method !== 'POST') {
+    send(res, 405, { message: 'Method not allowed' });
+    return;
+  }
+
+  const chunks = [];
+  req.on('data', chunk => chunks.push(chunk));
+  req.on('end', () => {
+    const buffer = Buffer.concat(chunks);
+    const post = readPostField(buffer.toString('latin1'));
+    if (!post) {
+      send(res, 400, { message: 'Expected a multipart body with a "post" field' });
+      return;
+    }
+    const id = `mock-${Date.now().toString(36)}`;
+    received.push({ id, receivedAt: new Date().toISOString(), bytes: buffer.length, ...post });
+    console.log(`[mock-publish] ${id}: ${buffer.length} bytes, caption "${String(post.caption || '').slice(0, 60)}"${post.scheduledAt ? `, scheduled ${new Date(post.scheduledAt).toISOString()}` : ''}`);
+    send(res, 200, { id, url: `http://localhost:${PORT}/#${id}` });
+  });
+}).listen(PORT, () => {
+  console.log(`[mock-publish] Listening on http://localhost:${PORT}/publish (GET / lists received posts)`);
+});
@@ -0,0 +1,43 @@
+import { AspectRatio, BatchItem, ImageGenerationRequest } from "../types";
+import { isAbortError } from "./asyncUtils";
+import { generateAdvertisementImage } from "./imageService";
+
+export const createBatchItems = (aspectRatios: AspectRatio[]): BatchItem[] => {
+  return aspectRatios.map(aspectRatio => ({
+    aspectRatio,
+    status: 'pending',
+    imageUrl: "",
+    error: null,
+    meta: null,
+    attempts: 0,
+  }));
+};
+
+// Runs one generation per format, strictly one after another, so the
+// provider's own retry/backoff handles rate limits without parallel bursts.
+// Aborting the signal stops the run; the format in flight goes back to pending.
+export const runBatchGeneration = async (
+  request: Omit<ImageGenerationRequest, 'aspectRatio'>,
+  items: BatchItem[],
+  onItemUpdate: (aspectRatio: AspectRatio, patch: Partial<BatchItem>) => void,
+  signal?: AbortSignal
+): Promise<void> => {
+  const queue = items.filter(item => item.status !== 'done');
+  console.log(`[Visioncraft] Starting batch of ${queue.length} format(s)...`);
+
+  for (const item of queue) {
+    if (signal?.aborted) break;
+    onItemUpdate(item.aspectRatio, { status: 'running', error: null, attempts: item.attempts + 1 });
+    try {
+      const { imageUrl, ...meta } = await generateAdvertisementImage({ ...request, aspectRatio: item.aspectRatio, signal });
+      onItemUpdate(item.aspectRatio, { status: 'done', imageUrl, meta });
+    } catch (error: any) {
+      if (isAbortError(error) || signal?.aborted) {
+        onItemUpdate(item.aspectRatio, { status: 'pending', error: null });
+        break;
+      }
+      console.error(`[Visioncraft] Batch item ${item.aspectRatio} failed:`, error);
+      onItemUpdate(item.aspectRatio, { status: 'error', error: error.message || "Failed to generate this format." });
+    }
+  }
+};
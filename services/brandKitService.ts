@@ -0,0 +1,43 @@
+import { BrandKit } from "../types";
+import { STORES, createId, deleteRecord, getAllRecords, putRecord } from "./db";
+
+export const createEmptyBrandKit = (): BrandKit => ({
+  id: createId('brand'),
+  name: 'New Brand',
+  logos: [],
+  palette: ['#14b8a6', '#0f172a', '#ffffff'],
+  fonts: [],
+  tone: '',
+  forbiddenStyles: [],
+  updatedAt: Date.now(),
+});
+
+export const listBrandKits = async (): Promise<BrandKit[]> => {
+  const kits = await getAllRecords<BrandKit>(STORES.brandKits);
+  return kits.sort((a, b) => a.name.localeCompare(b.name));
+};
+
+export const saveBrandKit = async (kit: BrandKit): Promise<BrandKit> => {
+  return putRecord<BrandKit>(STORES.brandKits, { ...kit, updatedAt: Date.now() });
+};
+
+export const deleteBrandKit = async (id: string): Promise<void> => {
+  return deleteRecord(STORES.brandKits, id);
+};
+
+// Prompt directives derived from a kit; shared by every provider that builds prompts
+export const buildBrandDirectives = (kit: BrandKit | null | undefined): string[] => {
+  if (!kit) return [];
+
+  const directives = [`Brand: ${kit.name}.`];
+  if (kit.palette.length > 0) {
+    directives.push(`Use the brand color palette (${kit.palette.join(', ')}) for backgrounds, props and accents.`);
+  }
+  if (kit.tone.trim()) {
+    directives.push(`Visual tone should reflect the brand voice: ${kit.tone.trim()}.`);
+  }
+  if (kit.forbiddenStyles.length > 0) {
+    directives.push(`Avoid these styles: ${kit.forbiddenStyles.join(', ')}.`);
+  }
+  return directives;
+};
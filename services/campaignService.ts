@@ -0,0 +1,219 @@
+import { AspectRatio, Campaign, CampaignItem, ExportMetadata, HistoryEntry, PublishRecord, PublishStatus } from "../types";
+import { STORES, createId, deleteRecord, getAllRecords, putRecord } from "./db";
+import { getCurrentStep } from "./refinementService";
+import { flattenCreative } from "./overlayService";
+import { getPublishConnector, isDueOnPlatform } from "./publishService";
+import { EMPTY_BRIEF, summarizeBrief } from "./promptService";
+import { csvCell, extensionFor, safePathSegment } from "./catalogService";
+import { createZip, dataUrlToBytes, ZipEntry } from "./zipService";
+
+export const CAMPAIGN_COLORS = ['#14b8a6', '#6366f1', '#f59e0b', '#ec4899', '#22c55e', '#0ea5e9'];
+
+// Minutes before a post; null for no reminder
+export const REMINDER_OPTIONS: (number | null)[] = [null, 15, 60, 24 * 60];
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+// Calendar placeholder length; posts are instant but calendars need a block to show
+const EVENT_DURATION_MINUTES = 15;
+
+export type CampaignItemStatus = 'planned' | 'ready' | 'due' | PublishStatus;
+
+export const startOfDay = (time: number): number => {
+  const date = new Date(time);
+  date.setHours(0, 0, 0, 0);
+  return date.getTime();
+};
+
+export const isSameDay = (a: number, b: number): boolean => startOfDay(a) === startOfDay(b);
+
+// Moves a post to another day, keeping its time of day
+export const moveToDay = (time: number, day: number): number => {
+  return startOfDay(day) + (time - startOfDay(time));
+};
+
+// Six Monday-first weeks covering the month, so the grid never changes height
+export const getMonthGrid = (month: number): number[] => {
+  const first = new Date(month);
+  first.setDate(1);
+  first.setHours(0, 0, 0, 0);
+  const offset = (first.getDay() + 6) % 7;
+  return Array.from({ length: 42 }, (_, index) => new Date(first.getFullYear(), first.getMonth(), 1 - offset + index).getTime());
+};
+
+export const createCampaign = (index: number = 0): Campaign => {
+  const now = Date.now();
+  // Default launch: tomorrow at 9:00
+  const launch = new Date(startOfDay(now + DAY_MS));
+  launch.setHours(9);
+  return {
+    id: createId('campaign'),
+    name: 'New Campaign',
+    color: CAMPAIGN_COLORS[index % CAMPAIGN_COLORS.length],
+    launchDate: launch.getTime(),
+    channels: ['instagram'],
+    formats: [AspectRatio.Square],
+    notes: '',
+    items: [],
+    createdAt: now,
+    updatedAt: now,
+  };
+};
+
+// New posts take the campaign's first channel/format and the launch time of day
+export const createCampaignItem = (campaign: Campaign, day: number): CampaignItem => ({
+  id: createId('post'),
+  historyId: null,
+  channel: campaign.channels[0] || 'instagram',
+  aspectRatio: campaign.formats[0] || AspectRatio.Square,
+  scheduledAt: moveToDay(campaign.launchDate, day),
+  caption: '',
+  notes: '',
+  reminderMinutes: 60,
+  publicationId: null,
+});
+
+export const getCampaignItemStatus = (item: CampaignItem, publications: PublishRecord[], now: number = Date.now()): CampaignItemStatus => {
+  const publication = item.publicationId ? publications.find(record => record.id === item.publicationId) : null;
+  if (publication) return isDueOnPlatform(publication, now) ? 'due' : publication.status;
+  return item.historyId ? 'ready' : 'planned';
+};
+
+export const listCampaigns = async (): Promise<Campaign[]> => {
+  const campaigns = await getAllRecords<Campaign>(STORES.campaigns);
+  return campaigns.sort((a, b) => a.launchDate - b.launchDate);
+};
+
+export const saveCampaign = async (campaign: Campaign): Promise<Campaign> => {
+  return putRecord<Campaign>(STORES.campaigns, { ...campaign, updatedAt: Date.now() });
+};
+
+export const deleteCampaign = async (id: string): Promise<void> => {
+  return deleteRecord(STORES.campaigns, id);
+};
+
+export interface CampaignReminder {
+  campaign: Campaign;
+  item: CampaignItem;
+}
+
+// Reminders whose time fell in (since, now]; callers advance `since` after each check
+export const getDueReminders = (campaigns: Campaign[], since: number, now: number): CampaignReminder[] => {
+  return campaigns.flatMap(campaign => campaign.items
+    .filter(item => {
+      if (item.reminderMinutes === null) return false;
+      const remindAt = item.scheduledAt - item.reminderMinutes * MINUTE_MS;
+      return remindAt > since && remindAt <= now;
+    })
+    .map(item => ({ campaign, item })));
+};
+
+export const describeCampaignItem = (item: CampaignItem): string => {
+  return `${getPublishConnector(item.channel).label} ${item.aspectRatio}`;
+};
+
+// The creative as last edited: current refinement step with overlays baked in
+export const renderHistoryCreative = async (entry: HistoryEntry): Promise<{ imageUrl: string; mimeType: string }> => {
+  const output = entry.refinements ? getCurrentStep(entry.refinements).output : entry.output;
+  if (entry.overlays.length === 0) return { imageUrl: output.imageUrl, mimeType: output.mimeType };
+  const imageUrl = await flattenCreative(output.imageUrl, entry.overlays, entry.request.logoImage?.base64 || null);
+  return { imageUrl, mimeType: 'image/png' };
+};
+
+export const getHistoryExportMetadata = (entry: HistoryEntry, brand: string | null = null): ExportMetadata => ({
+  title: entry.title,
+  description: summarizeBrief(entry.request.brief || EMPTY_BRIEF, entry.request.description),
+  provider: entry.output.provider,
+  model: entry.output.model,
+  promptTemplateId: entry.output.promptTemplateId || null,
+  brand,
+  aspectRatio: entry.output.aspectRatio,
+  createdAt: entry.output.createdAt,
+});
+
+// RFC 5545 text: escape separators and fold lines at 75 octets
+const escapeIcsText = (value: string): string => {
+  return value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+};
+
+const foldIcsLine = (line: string): string => {
+  const encoder = new TextEncoder();
+  const parts: string[] = [];
+  let current = '';
+  for (const char of line) {
+    const limit = parts.length === 0 ? 75 : 74;
+    if (encoder.encode(current + char).length > limit) {
+      parts.push(current);
+      current = char;
+    } else {
+      current += char;
+    }
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+};
+
+const formatIcsDate = (time: number): string => new Date(time).toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+export const buildCampaignIcs = (campaigns: Campaign[]): string => {
+  const stamp = formatIcsDate(Date.now());
+  const events = campaigns.flatMap(campaign => campaign.items.flatMap(item => {
+    const description = [item.caption, item.notes && `Notes: ${item.notes}`].filter(Boolean).join('\n\n');
+    return [
+      'BEGIN:VEVENT',
+      `UID:${item.id}@visioncraft`,
+      `DTSTAMP:${stamp}`,
+      `DTSTART:${formatIcsDate(item.scheduledAt)}`,
+      `DURATION:PT${EVENT_DURATION_MINUTES}M`,
+      `SUMMARY:${escapeIcsText(`${campaign.name}: ${describeCampaignItem(item)}`)}`,
+      description ? `DESCRIPTION:${escapeIcsText(description)}` : null,
+      `CATEGORIES:${escapeIcsText(campaign.name)}`,
+      ...(item.reminderMinutes !== null ? [
+        'BEGIN:VALARM',
+        'ACTION:DISPLAY',
+        `DESCRIPTION:${escapeIcsText(`Post ${describeCampaignItem(item)} for ${campaign.name}`)}`,
+        `TRIGGER:-PT${item.reminderMinutes}M`,
+        'END:VALARM',
+      ] : []),
+      'END:VEVENT',
+    ].filter((line): line is string => line !== null);
+  }));
+
+  return [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//Visioncraft//Campaign Calendar//EN',
+    'CALSCALE:GREGORIAN',
+    ...events,
+    'END:VCALENDAR',
+  ].map(foldIcsLine).join('\r\n') + '\r\n';
+};
+
+// One folder per post (date, channel, format) with the image and caption, plus a manifest
+// and the calendar file
+export const buildCampaignZip = async (campaign: Campaign, entries: HistoryEntry[]): Promise<Blob> => {
+  const zipEntries: ZipEntry[] = [];
+  const items = [...campaign.items].sort((a, b) => a.scheduledAt - b.scheduledAt);
+  const manifest: string[][] = [];
+
+  for (const item of items) {
+    const date = new Date(item.scheduledAt);
+    const stamp = `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}_${String(date.getHours()).padStart(2, '0')}${String(date.getMinutes()).padStart(2, '0')}`;
+    const folder = safePathSegment(`${stamp}_${item.channel}_${item.aspectRatio.replace(':', 'x')}`);
+    const entry = item.historyId ? entries.find(e => e.id === item.historyId) : null;
+    let file = '';
+    if (entry) {
+      const creative = await renderHistoryCreative(entry);
+      file = `${folder}/creative.${extensionFor(creative.mimeType)}`;
+      zipEntries.push({ path: file, data: dataUrlToBytes(creative.imageUrl) });
+    }
+    if (item.caption) zipEntries.push({ path: `${folder}/caption.txt`, data: item.caption });
+    manifest.push([date.toISOString(), getPublishConnector(item.channel).label, item.aspectRatio, file, item.caption, item.notes]);
+  }
+
+  const header = ['scheduledAt', 'channel', 'format', 'file', 'caption', 'notes'];
+  zipEntries.push({ path: 'manifest.csv', data: [header, ...manifest].map(row => row.map(csvCell).join(',')).join('\n') });
+  zipEntries.push({ path: `${safePathSegment(campaign.name)}.ics`, data: buildCampaignIcs([campaign]) });
+  return createZip(zipEntries);
+};
@@ -0,0 +1,51 @@
+import { AspectRatio } from "../types";
+
+// Pixel size of the long edge used for locally rendered canvases
+const BASE_EDGE = 1024;
+
+// Resolve the canvas dimensions for an aspect ratio (long edge = BASE_EDGE)
+export const getCanvasSize = (aspectRatio: AspectRatio, longEdge: number = BASE_EDGE): { width: number; height: number } => {
+  const [w, h] = aspectRatio.split(':').map(Number);
+  if (w >= h) {
+    return { width: longEdge, height: Math.round(longEdge * (h / w)) };
+  }
+  return { width: Math.round(longEdge * (w / h)), height: longEdge };
+};
+
+// Load an image from a data URL / object URL so it can be drawn on a canvas
+export const loadImage = (src: string): Promise<HTMLImageElement> => {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error("Failed to load image for canvas rendering."));
+    img.src = src;
+  });
+};
+
+// Make sure raw base64 has a data URL prefix before handing it to an <img>
+export const toDataUrl = (base64: string, mimeType: string): string => {
+  return base64.startsWith('data:') ? base64 : `data:${mimeType};base64,${base64}`;
+};
+
+// Fit a source rectangle inside a target box, preserving aspect ratio
+export const fitContain = (srcWidth: number, srcHeight: number, boxWidth: number, boxHeight: number) => {
+  const scale = Math.min(boxWidth / srcWidth, boxHeight / srcHeight);
+  return { width: srcWidth * scale, height: srcHeight * scale };
+};
+
+// Decoded byte size of a base64 data URL (without fetching it)
+export const getDataUrlSize = (dataUrl: string): number => {
+  const base64 = dataUrl.includes(',') ? dataUrl.split(',')[1] : dataUrl;
+  const padding = base64.endsWith('==') ? 2 : base64.endsWith('=') ? 1 : 0;
+  return Math.floor((base64.length * 3) / 4) - padding;
+};
+
+// Read a user-selected file as a base64 data URL
+export const readFileAsDataUrl = (file: File): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onloadend = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error || new Error("Failed to read file."));
+    reader.readAsDataURL(file);
+  });
+};
@@ -0,0 +1,262 @@
+import { AspectRatio, CatalogJob, CatalogParseResult, CatalogRow, ImageGenerationRequest } from "../types";
+import { generateAdvertisementImage } from "./imageService";
+import { createZip, dataUrlToBytes, ZipEntry } from "./zipService";
+import { delay, isAbortError } from "./asyncUtils";
+
+// Accepted header spellings for each catalog column (compared lower-cased, without spaces/underscores)
+const COLUMN_ALIASES: Record<keyof Omit<CatalogRow, 'id'>, string[]> = {
+  sku: ['sku', 'id', 'productid', 'itemid'],
+  name: ['name', 'title', 'product', 'productname'],
+  price: ['price', 'cost'],
+  imageFile: ['image', 'imagefile', 'file', 'filename', 'photo'],
+  brief: ['brief', 'description', 'prompt'],
+  formats: ['formats', 'format', 'aspectratios', 'ratios'],
+};
+
+// Gap between two catalog requests, on top of the provider's own backoff
+export const CATALOG_THROTTLE_MS = 4000;
+
+const normalizeKey = (key: string) => key.toLowerCase().replace(/[\s_-]/g, '');
+
+// RFC 4180 style CSV: quoted fields, doubled quotes and newlines inside quotes
+const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter(cells => cells.some(cell => cell.trim() !== ''));
+};
+
+const parseFormats = (value: unknown): AspectRatio[] => {
+  const raw = Array.isArray(value) ? value.map(String) : String(value ?? '').split(/[|;,\s]+/);
+  const known = Object.values(AspectRatio) as string[];
+  return raw
+    .map(item => item.trim().replace('x', ':'))
+    .filter(item => known.includes(item)) as AspectRatio[];
+};
+
+const toRow = (record: Record<string, unknown>, index: number): CatalogRow => {
+  const normalized: Record<string, unknown> = {};
+  Object.entries(record).forEach(([key, value]) => {
+    normalized[normalizeKey(key)] = value;
+  });
+  const pick = (column: keyof typeof COLUMN_ALIASES): unknown => {
+    const alias = COLUMN_ALIASES[column].find(name => normalized[name] !== undefined);
+    return alias ? normalized[alias] : undefined;
+  };
+  const text = (column: keyof typeof COLUMN_ALIASES) => String(pick(column) ?? '').trim();
+
+  return {
+    id: `row-${index + 1}`,
+    sku: text('sku'),
+    name: text('name'),
+    price: text('price'),
+    imageFile: text('imageFile'),
+    brief: text('brief'),
+    formats: parseFormats(pick('formats')),
+  };
+};
+
+const readRecords = (text: string, fileName: string): Record<string, unknown>[] => {
+  if (fileName.toLowerCase().endsWith('.json') || text.trim().startsWith('[')) {
+    const parsed = JSON.parse(text);
+    const list = Array.isArray(parsed) ? parsed : parsed?.products;
+    if (!Array.isArray(list)) {
+      throw new Error("JSON catalogs must be an array of products or an object with a \"products\" array.");
+    }
+    return list;
+  }
+
+  const [header, ...lines] = parseCsv(text);
+  if (!header) return [];
+  return lines.map(cells => Object.fromEntries(header.map((column, i) => [column, cells[i] ?? ''])));
+};
+
+export const parseCatalog = (text: string, fileName: string): CatalogParseResult => {
+  const records = readRecords(text, fileName);
+  const rows: CatalogRow[] = [];
+  const warnings: string[] = [];
+  const seenSkus = new Set<string>();
+
+  records.forEach((record, index) => {
+    const row = toRow(record, index);
+    const line = `Row ${index + 1}`;
+    if (!row.sku) {
+      warnings.push(`${line}: missing SKU, skipped.`);
+      return;
+    }
+    if (seenSkus.has(row.sku)) {
+      warnings.push(`${line}: duplicate SKU "${row.sku}", skipped.`);
+      return;
+    }
+    if (!row.name && !row.brief) {
+      warnings.push(`${line} (${row.sku}): no name or brief, the model will only see the product image.`);
+    }
+    seenSkus.add(row.sku);
+    rows.push(row);
+  });
+
+  if (records.length > 0 && rows.length === 0) {
+    throw new Error("No usable rows found. The catalog needs at least a SKU column.");
+  }
+  return { rows, warnings };
+};
+
+const stripExtension = (name: string) => name.replace(/\.[^.]+$/, '');
+
+// Pairs each row with a dropped file: exact file name first, then the name without
+// extension, then the SKU itself. Matching is case-insensitive and ignores folders.
+export const matchCatalogImages = (rows: CatalogRow[], files: File[]): Record<string, File> => {
+  const byName = new Map<string, File>();
+  const byStem = new Map<string, File>();
+  files.forEach(file => {
+    const name = file.name.toLowerCase();
+    byName.set(name, file);
+    byStem.set(stripExtension(name), file);
+  });
+
+  const matches: Record<string, File> = {};
+  rows.forEach(row => {
+    const requested = row.imageFile.split(/[\\/]/).pop()?.toLowerCase() || '';
+    const file =
+      (requested && (byName.get(requested) || byStem.get(stripExtension(requested)))) ||
+      byStem.get(row.sku.toLowerCase());
+    if (file) matches[row.id] = file;
+  });
+  return matches;
+};
+
+export const createCatalogJobs = (
+  rows: CatalogRow[],
+  matches: Record<string, File>,
+  fallbackFormats: AspectRatio[]
+): CatalogJob[] => {
+  return rows
+    .filter(row => matches[row.id])
+    .flatMap(row => (row.formats.length > 0 ? row.formats : fallbackFormats).map(aspectRatio => ({
+      id: `${row.id}-${aspectRatio}`,
+      rowId: row.id,
+      sku: row.sku,
+      aspectRatio,
+      status: 'pending' as const,
+      imageUrl: "",
+      error: null,
+      meta: null,
+      attempts: 0,
+    })));
+};
+
+export const describeCatalogRow = (row: CatalogRow): string => {
+  return [row.name, row.brief].filter(Boolean).join('. ');
+};
+
+// Works through the jobs one at a time with a fixed gap between calls. Retries and
+// rate limits are left to the provider and the shared limiter, so a row never
+// multiplies the provider's own attempts. Aborting the signal stops the run: the job in
+// flight goes back to pending and finished jobs keep their images.
+export const runCatalogGeneration = async (
+  jobs: CatalogJob[],
+  buildRequest: (job: CatalogJob) => Promise<ImageGenerationRequest>,
+  onJobUpdate: (id: string, patch: Partial<CatalogJob>) => void,
+  throttleMs: number = CATALOG_THROTTLE_MS,
+  signal?: AbortSignal
+): Promise<void> => {
+  const queue = jobs.filter(job => job.status !== 'done');
+  console.log(`[Visioncraft] Starting catalog run of ${queue.length} creative(s)...`);
+
+  for (let i = 0; i < queue.length; i++) {
+    const job = queue[i];
+    try {
+      if (i > 0) await delay(throttleMs, signal);
+    } catch {
+      break;
+    }
+    onJobUpdate(job.id, { status: 'running', error: null, attempts: job.attempts + 1 });
+    try {
+      const request = await buildRequest(job);
+      const { imageUrl, ...meta } = await generateAdvertisementImage({ ...request, signal });
+      onJobUpdate(job.id, { status: 'done', imageUrl, meta });
+    } catch (error: any) {
+      if (isAbortError(error) || signal?.aborted) {
+        onJobUpdate(job.id, { status: 'pending', error: null });
+        break;
+      }
+      console.error(`[Visioncraft] Catalog job ${job.id} failed:`, error);
+      onJobUpdate(job.id, { status: 'error', error: error.message || "Failed to generate this creative." });
+    }
+  }
+};
+
+export const csvCell = (value: string) => (/[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value);
+
+export const extensionFor = (mimeType: string) => mimeType.split('/')[1]?.replace('jpeg', 'jpg') || 'png';
+
+// Makes user text (SKUs, campaign names) safe to use as archive paths
+export const safePathSegment = (value: string) => value.replace(/[^\w.-]+/g, '_');
+
+// Images go under one folder per SKU; the manifest lists every job, including failures
+export const buildCatalogZip = (rows: CatalogRow[], jobs: CatalogJob[]): Blob => {
+  const rowsById = new Map(rows.map(row => [row.id, row]));
+  const entries: ZipEntry[] = [];
+  const manifest = jobs.map(job => {
+    const row = rowsById.get(job.rowId);
+    const folder = safePathSegment(job.sku);
+    const file = job.status === 'done' && job.meta
+      ? `${folder}/${folder}-${job.aspectRatio.replace(':', 'x')}.${extensionFor(job.meta.mimeType)}`
+      : null;
+    if (file) entries.push({ path: file, data: dataUrlToBytes(job.imageUrl) });
+    return {
+      sku: job.sku,
+      name: row?.name || '',
+      price: row?.price || '',
+      aspectRatio: job.aspectRatio,
+      status: job.status,
+      file,
+      error: job.error,
+      provider: job.meta?.provider || null,
+      model: job.meta?.model || null,
+      createdAt: job.meta ? new Date(job.meta.createdAt).toISOString() : null,
+    };
+  });
+
+  const header = ['sku', 'name', 'price', 'aspectRatio', 'status', 'file', 'error'];
+  const csv = [
+    header.join(','),
+    ...manifest.map(item => [item.sku, item.name, item.price, item.aspectRatio, item.status, item.file || '', item.error || ''].map(csvCell).join(',')),
+  ].join('\n');
+
+  entries.push({ path: 'manifest.json', data: JSON.stringify({ exportedAt: new Date().toISOString(), items: manifest }, null, 2) });
+  entries.push({ path: 'manifest.csv', data: csv });
+  return createZip(entries);
+};
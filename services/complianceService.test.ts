@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'vitest';
+import { getMarketProfile, getRetailerProfile } from '../constants';
+import { AspectRatio, ComplianceContext } from '../types';
+import { checkMarketWording, evaluateCompliance } from './complianceService';
+import { createTranslator } from './i18nService';
+
+// A creative that passes every rule except the wording under test
+const contextWith = (wording: Partial<ComplianceContext>): ComplianceContext => ({
+  width: 1080,
+  height: 1080,
+  fileSizeBytes: 200 * 1024,
+  aspectRatio: AspectRatio.Square,
+  description: '',
+  caption: '',
+  hasLogo: true,
+  overlayBounds: [],
+  overlayText: '',
+  market: getMarketProfile('us'),
+  ...wording,
+});
+
+const checkFor = (profileId: string, ruleId: string, wording: Partial<ComplianceContext>) => {
+  const report = evaluateCompliance(getRetailerProfile(profileId), contextWith(wording));
+  return report.checks.find(check => check.ruleId === ruleId)!;
+};
+
+describe('restricted wording', () => {
+  it.each([
+    ['marketplace', 'Secure checkout for every manicure kit'],
+    ['marketplace', 'We procure the finest beans'],
+    ['retail-media', 'Our prized family recipe'],
+  ])('ignores banned words inside longer words (%s: %s)', (profileId, caption) => {
+    expect(checkFor(profileId, 'banned-words', { caption }).status).toBe('pass');
+  });
+
+  it('flags a banned word regardless of case and punctuation', () => {
+    const check = checkFor('marketplace', 'banned-words', { caption: 'The CURE for dry skin!' });
+    expect(check.status).toBe('fail');
+    expect(check.message).toContain('"cure"');
+  });
+
+  it('flags a banned phrase across line breaks', () => {
+    const check = checkFor('social', 'banned-words', { caption: 'Love it? Tag a\nfriend' });
+    expect(check.status).toBe('fail');
+  });
+
+  it('only warns when the wording is in the brief', () => {
+    const check = checkFor('retail-media', 'banned-words', { description: 'Win a prize with every pack' });
+    expect(check.status).toBe('warn');
+  });
+
+  it('words the report in the interface language', () => {
+    const report = evaluateCompliance(getRetailerProfile('marketplace'), contextWith({ caption: 'The cure' }), createTranslator('de'));
+    const check = report.checks.find(check => check.ruleId === 'banned-words')!;
+    expect(check.label).toBe('Eingeschränkte Formulierungen');
+    expect(check.message).toBe('Die Bildunterschrift enthält eingeschränkte Formulierungen: "cure".');
+  });
+});
+
+describe('checkMarketWording', () => {
+  it.each([
+    ['uk', 'New drop from #adidas', ''],
+    ['uk', 'Ready for #adventure', ''],
+    ['uk', 'As seen in our advertisement', ''],
+    ['us', 'Sponsorship deals inside', ''],
+  ])('does not read a longer word as a disclosure (%s: %s)', (marketId, caption, overlayText) => {
+    expect(checkMarketWording(getMarketProfile(marketId), caption, overlayText).hasDisclosure).toBe(false);
+  });
+
+  it.each([
+    ['uk', 'Summer styles #ad', ''],
+    ['uk', 'Summer styles', 'ADVERT'],
+    ['de', 'Neue Kollektion (Anzeige)', ''],
+    ['fr', 'Publicité : nouvelle collection', ''],
+  ])('finds the disclosure label in caption or overlay (%s: %s)', (marketId, caption, overlayText) => {
+    expect(checkMarketWording(getMarketProfile(marketId), caption, overlayText).hasDisclosure).toBe(true);
+  });
+
+  it('flags forbidden claims only as whole words', () => {
+    const market = getMarketProfile('de');
+    expect(checkMarketWording(market, 'Der Testsieger 2024', '').forbidden).toEqual(['Testsieger']);
+    expect(checkMarketWording(market, 'Unsere Testsiegerin', '').forbidden).toEqual([]);
+  });
+
+  it('matches accented and multi-word claims', () => {
+    const market = getMarketProfile('fr');
+    expect(checkMarketWording(market, 'Emballage BIODÉGRADABLE', '').forbidden).toEqual(['biodégradable']);
+    expect(checkMarketWording(market, '', "Respectueux de\nl'environnement").forbidden).toEqual(["respectueux de l'environnement"]);
+  });
+});
@@ -0,0 +1,183 @@
+import { AspectRatio, ComplianceCheck, ComplianceContext, ComplianceReport, ComplianceStatus, MarketProfile, OverlayLayer, RetailerProfile } from "../types";
+import { getDataUrlSize, loadImage } from "./canvasUtils";
+import { DEFAULT_TRANSLATOR, MessageKey, Translator } from "./i18nService";
+import { getOverlayBounds } from "./overlayService";
+
+// Each rule's name is the compliance.rule.<id> catalog key
+interface ComplianceRule {
+  id: string;
+  evaluate: (profile: RetailerProfile, context: ComplianceContext, t: Translator) => Omit<ComplianceCheck, 'ruleId' | 'label'>;
+}
+
+// Allowed deviation between the image's real ratio and the requested placement
+const RATIO_TOLERANCE = 0.02;
+
+const percent = (value: number) => `${Math.round(value * 100)}%`;
+
+// Whole words or phrases only, so 'cure' doesn't flag "secure" and 'prize' doesn't flag "prized"
+const containsPhrase = (text: string, phrase: string): boolean => {
+  const pattern = phrase.trim().replace(/[.*+?^${}()|[\]\\]/g, '\\$&').replace(/\s+/g, '\\s+');
+  return new RegExp(`(?<![\\p{L}\\p{N}])${pattern}(?![\\p{L}\\p{N}])`, 'iu').test(text);
+};
+
+const findBannedWords = (text: string, bannedWords: string[]): string[] => {
+  return bannedWords.filter(word => containsPhrase(text, word));
+};
+
+export interface MarketWordingResult {
+  forbidden: string[];
+  hasDisclosure: boolean;
+}
+
+// Caption and overlay text together: both ship with the ad
+export const checkMarketWording = (market: MarketProfile, caption: string, overlayText: string): MarketWordingResult => {
+  const text = `${caption}\n${overlayText}`;
+  return {
+    forbidden: findBannedWords(text, market.forbiddenWords),
+    hasDisclosure: findBannedWords(text, market.disclosureWords).length > 0,
+  };
+};
+
+export const describeDisclosure = (market: MarketProfile, t: Translator = DEFAULT_TRANSLATOR): string => {
+  return market.disclosureWords.map(word => `"${word}"`).join(` ${t('common.or')} `);
+};
+
+export const getOverlayText = (overlays: OverlayLayer[]): string => {
+  return overlays.map(layer => layer.text).filter(Boolean).join('\n');
+};
+
+const rules: ComplianceRule[] = [
+  {
+    id: 'min-dimensions',
+    evaluate: (profile, { width, height }, t) => {
+      const params = { width, height, minWidth: profile.minWidth, minHeight: profile.minHeight };
+      if (width >= profile.minWidth && height >= profile.minHeight) {
+        return { status: 'pass', message: t('compliance.dimensions.pass', params) };
+      }
+      return { status: 'fail', message: t('compliance.dimensions.fail', params) };
+    },
+  },
+  {
+    id: 'aspect-ratio',
+    evaluate: (_profile, { width, height, aspectRatio }, t) => {
+      const [w, h] = aspectRatio.split(':').map(Number);
+      const deviation = Math.abs(width / height - w / h) / (w / h);
+      if (deviation <= RATIO_TOLERANCE) {
+        return { status: 'pass', message: t('compliance.ratio.pass', { ratio: aspectRatio }) };
+      }
+      return { status: 'fail', message: t('compliance.ratio.fail', { width, height, ratio: aspectRatio }) };
+    },
+  },
+  {
+    id: 'safe-zone',
+    evaluate: (profile, { aspectRatio, overlayBounds }, t) => {
+      const zone = profile.safeZones[aspectRatio];
+      const outside = overlayBounds.filter(b =>
+        b.x < zone.left || b.y < zone.top || b.x + b.width > 1 - zone.right || b.y + b.height > 1 - zone.bottom
+      );
+      if (outside.length > 0) {
+        return { status: 'fail', message: t('compliance.safeZone.fail', { layers: outside.map(b => b.label).join(', ') }) };
+      }
+      return {
+        status: 'warn',
+        message: t('compliance.safeZone.warn', { top: percent(zone.top), right: percent(zone.right), bottom: percent(zone.bottom), left: percent(zone.left) }),
+      };
+    },
+  },
+  {
+    id: 'logo-required',
+    evaluate: (profile, { hasLogo }, t) => {
+      if (hasLogo) {
+        return { status: 'pass', message: t('compliance.logo.pass') };
+      }
+      return profile.requireLogo
+        ? { status: 'fail', message: t('compliance.logo.fail', { retailer: profile.name }) }
+        : { status: 'pass', message: t('compliance.logo.optional') };
+    },
+  },
+  {
+    id: 'banned-words',
+    evaluate: (profile, { description, caption }, t) => {
+      const inBrief = findBannedWords(description, profile.bannedWords);
+      const inCaption = findBannedWords(caption, profile.bannedWords);
+      if (inBrief.length === 0 && inCaption.length === 0) {
+        return { status: 'pass', message: t('compliance.wording.pass') };
+      }
+      const found = Array.from(new Set([...inBrief, ...inCaption])).map(word => `"${word}"`).join(', ');
+      // Caption text ships with the ad; the brief only steers the image
+      return inCaption.length > 0
+        ? { status: 'fail', message: t('compliance.wording.caption', { words: found }) }
+        : { status: 'warn', message: t('compliance.wording.brief', { words: found }) };
+    },
+  },
+  {
+    id: 'market-wording',
+    evaluate: (_profile, { caption, overlayText, market }, t) => {
+      const { forbidden, hasDisclosure } = checkMarketWording(market, caption, overlayText);
+      if (forbidden.length > 0) {
+        return { status: 'fail', message: t('compliance.market.fail', { words: forbidden.map(word => `"${word}"`).join(', '), market: market.label }) };
+      }
+      // Brand-owned posts don't need the label, so a missing one only warns
+      return hasDisclosure
+        ? { status: 'pass', message: t('compliance.market.pass', { market: market.label }) }
+        : { status: 'warn', message: t('compliance.market.warn', { market: market.label, labels: describeDisclosure(market, t) }) };
+    },
+  },
+  {
+    id: 'file-size',
+    evaluate: (profile, { fileSizeBytes }, t) => {
+      const params = { size: Math.round(fileSizeBytes / 1024), limit: profile.maxFileSizeKb };
+      if (params.size <= profile.maxFileSizeKb) {
+        return { status: 'pass', message: t('compliance.fileSize.pass', params) };
+      }
+      // Export compresses to this limit by default, so an oversized original must not block it
+      return { status: 'warn', message: t('compliance.fileSize.warn', params) };
+    },
+  },
+];
+
+const worstStatus = (statuses: ComplianceStatus[]): ComplianceStatus => {
+  if (statuses.includes('fail')) return 'fail';
+  if (statuses.includes('warn')) return 'warn';
+  return 'pass';
+};
+
+export const evaluateCompliance = (profile: RetailerProfile, context: ComplianceContext, t: Translator = DEFAULT_TRANSLATOR): ComplianceReport => {
+  const checks = rules.map(rule => ({
+    ruleId: rule.id,
+    label: t(`compliance.rule.${rule.id}` as MessageKey),
+    ...rule.evaluate(profile, context, t),
+  }));
+  return {
+    profileId: profile.id,
+    status: worstStatus(checks.map(check => check.status)),
+    checks,
+    evaluatedAt: Date.now(),
+  };
+};
+
+// Measures the generated image and collects everything the rules need
+export const buildComplianceContext = async (
+  imageUrl: string,
+  details: {
+    aspectRatio: AspectRatio;
+    description: string;
+    caption: string;
+    hasLogo: boolean;
+    overlays: OverlayLayer[];
+    logoUrl: string | null;
+    market: MarketProfile;
+  },
+  t: Translator = DEFAULT_TRANSLATOR
+): Promise<ComplianceContext> => {
+  const { overlays, logoUrl, ...rest } = details;
+  const image = await loadImage(imageUrl);
+  return {
+    width: image.naturalWidth,
+    height: image.naturalHeight,
+    fileSizeBytes: getDataUrlSize(imageUrl),
+    overlayBounds: await getOverlayBounds(overlays, image.naturalWidth, image.naturalHeight, logoUrl, t),
+    overlayText: getOverlayText(overlays),
+    ...rest,
+  };
+};
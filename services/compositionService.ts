@@ -0,0 +1,31 @@
+import { ProductRole, ProductShot, UploadedImage } from "../types";
+import { createId } from "./db";
+
+export const PRODUCT_ROLES: ProductRole[] = ['hero', 'secondary'];
+
+// Slider bounds for an extra product's size relative to the main product
+export const PRODUCT_SCALE_RANGE = { min: 0.3, max: 1.2, step: 0.05 };
+
+export const createProductShot = (image: UploadedImage): ProductShot => ({
+  id: createId('product'),
+  image,
+  role: 'secondary',
+  scale: 0.6,
+  label: '',
+});
+
+// Labels shared by the request parts and the prompt so the model can match them up.
+// The main product is always "Product Image"; extras are numbered from 2.
+export const getProductPartLabel = (index: number, label: string = ''): string => {
+  return `Product ${index + 2}${label.trim() ? ` (${label.trim()})` : ''}`;
+};
+
+export const getReferencePartLabel = (index: number): string => `Reference Image ${index + 1}`;
+
+export const describeProductShot = (shot: Omit<ProductShot<unknown>, 'id' | 'image'>, index: number): string => {
+  const size = `about ${Math.round(shot.scale * 100)}% the size of the main product`;
+  const role = shot.role === 'hero'
+    ? 'shares the focus with the main product'
+    : 'supporting item beside or behind the main product, never covering it';
+  return `${getProductPartLabel(index, shot.label)}: ${role}, ${size}.`;
+};
@@ -0,0 +1,192 @@
+import { AdCopy, BrandKit, CopyGenerationRequest, CopyIssue, CopyLength, CopyPlatform, CopyTone, StructuredBrief } from "../types";
+import { PLATFORM_COPY_LIMITS } from "../constants";
+import { summarizeBrief } from "./promptService";
+import { DEFAULT_TRANSLATOR, Translator } from "./i18nService";
+
+export const COPY_TONES: { id: CopyTone; label: string; directive: string }[] = [
+  { id: 'friendly', label: 'Friendly', directive: 'warm, conversational and approachable' },
+  { id: 'bold', label: 'Bold', directive: 'confident, punchy and direct, with short sentences' },
+  { id: 'premium', label: 'Premium', directive: 'understated, elegant and refined; no exclamation marks' },
+  { id: 'playful', label: 'Playful', directive: 'light-hearted and witty, one emoji at most' },
+];
+
+export const COPY_LENGTHS: { id: CopyLength; label: string }[] = [
+  { id: 'short', label: 'Short' },
+  { id: 'long', label: 'Long' },
+];
+
+export const COPY_PLATFORMS = Object.keys(PLATFORM_COPY_LIMITS) as CopyPlatform[];
+
+// How much of the body budget each length aims for, leaving headroom for the model to overshoot
+const LENGTH_SHARE: Record<CopyLength, number> = { short: 0.4, long: 0.9 };
+
+const PLATFORM_GUIDANCE: Record<CopyPlatform, string> = {
+  'instagram-post': 'Feed caption: the first line must hook before the "more" cut-off. Hashtags go in their own list.',
+  'instagram-story': 'Text overlaid on a full-screen story: a few words per line, no hashtag walls.',
+  'facebook': 'Primary text above a link ad: lead with the benefit, keep hashtags minimal.',
+};
+
+const getToneDirective = (tone: CopyTone): string => {
+  return COPY_TONES.find(item => item.id === tone)?.directive || tone;
+};
+
+export const getBodyTarget = (platform: CopyPlatform, length: CopyLength): number => {
+  return Math.round(PLATFORM_COPY_LIMITS[platform].body * LENGTH_SHARE[length]);
+};
+
+export const buildCopyPrompt = (request: CopyGenerationRequest): string => {
+  const { description, brief, platform, tone, length, count, brandKit, image, language } = request;
+  const limits = PLATFORM_COPY_LIMITS[platform];
+  const hashtagCount = Math.min(limits.hashtags, length === 'short' ? 3 : 8);
+
+  return `
+    Write ${count} alternative pieces of advertising copy for the product ${image ? 'shown in the attached advertisement' : 'described below'}.
+
+    Placement: ${limits.label}. ${PLATFORM_GUIDANCE[platform]}
+    Product and brief: "${summarizeBrief(brief, description) || 'No brief given; infer it from the image.'}"
+    ${brandKit ? `Brand: ${brandKit.name}.${brandKit.tone ? ` Brand voice: ${brandKit.tone}.` : ''}` : ''}
+    Tone: ${getToneDirective(tone)}.
+    ${language ? `Language: write everything, including hashtags and alt text, in natural ${language} as a native copywriter would; do not translate English idioms literally.` : ''}
+
+    Each alternative has:
+    - headline: at most ${limits.headline} characters.
+    - body: about ${getBodyTarget(platform, length)} characters, never more than ${limits.body}.
+    - hashtags: ${hashtagCount} relevant hashtags without the '#' sign.
+    - altText: a literal description of the image for screen readers, at most ${limits.altText} characters, no marketing language.
+
+    Rules:
+    - Make the alternatives clearly different in angle, not just wording.
+    - Only claim what the brief or image supports; no prices, discounts or guarantees that were not given.
+    - Do not use engagement bait such as "tag a friend" or "click here".
+  `;
+};
+
+const normalizeHashtag = (tag: string): string => tag.replace(/^#+/, '').replace(/[^\p{L}\p{N}_]/gu, '');
+
+// Trims fields and cleans hashtags so provider output and hand edits look the same
+export const normalizeAdCopy = (copy: Partial<AdCopy>): AdCopy => {
+  const hashtags = (copy.hashtags || []).map(normalizeHashtag).filter(Boolean);
+  return {
+    headline: (copy.headline || '').trim(),
+    body: (copy.body || '').trim(),
+    hashtags: hashtags.filter((tag, index) => hashtags.findIndex(other => other.toLowerCase() === tag.toLowerCase()) === index),
+    altText: (copy.altText || '').trim(),
+  };
+};
+
+// Accepts the JSON the model returns: an array of copies, or an object wrapping one
+export const parseAdCopy = (text: string): AdCopy[] => {
+  try {
+    const parsed = JSON.parse(text);
+    const list = Array.isArray(parsed) ? parsed : Array.isArray(parsed?.variants) ? parsed.variants : [parsed];
+    return list
+      .filter((item: any) => item && typeof item === 'object')
+      .map((item: any) => normalizeAdCopy({
+        headline: String(item.headline || ''),
+        body: String(item.body || ''),
+        hashtags: Array.isArray(item.hashtags) ? item.hashtags.map(String) : [],
+        altText: String(item.altText || ''),
+      }))
+      .filter((copy: AdCopy) => copy.headline || copy.body);
+  } catch {
+    return [];
+  }
+};
+
+const toHashtag = (value: string): string => {
+  return value
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(Boolean)
+    .map(word => word[0].toUpperCase() + word.slice(1).toLowerCase())
+    .join('');
+};
+
+const cutAtWord = (value: string, max: number): string => {
+  if (value.length <= max) return value;
+  const cut = value.slice(0, max - 1);
+  return `${cut.slice(0, Math.max(cut.lastIndexOf(' '), 1)).trim()}…`;
+};
+
+const HEADLINES: Record<CopyTone, ((subject: string) => string)[]> = {
+  friendly: [s => `Meet your new favorite ${s}`, s => `Say hello to ${s}`, s => `${s}, made for you`],
+  bold: [s => `${s}. No compromises.`, s => `This is ${s}.`, s => `${s}. Done right.`],
+  premium: [s => `${s}, refined`, s => `The art of ${s}`, s => `Considered: ${s}`],
+  playful: [s => `Psst… ${s} is here ✨`, s => `Plot twist: ${s}`, s => `${s}? Yes please`],
+};
+
+const CALLS_TO_ACTION: Record<CopyTone, string> = {
+  friendly: 'Find yours today.',
+  bold: 'Get it now.',
+  premium: 'Discover the collection.',
+  playful: 'Go on, treat yourself.',
+};
+
+interface CopyDraftInput {
+  description: string;
+  brief: StructuredBrief;
+  platform: CopyPlatform;
+  tone: CopyTone;
+  length: CopyLength;
+  brandKit?: BrandKit | null;
+}
+
+// Template copy built from the brief alone. Used by the offline provider and to pre-fill
+// the caption before any copy has been requested.
+export const draftAdCopy = (input: CopyDraftInput, index: number = 0): AdCopy => {
+  const { description, brief, platform, tone, length, brandKit } = input;
+  const limits = PLATFORM_COPY_LIMITS[platform];
+  const firstSentence = description.trim().split(/(?<=[.!?])\s/)[0].replace(/[.!?]+$/, '');
+  const subject = cutAtWord(firstSentence || brandKit?.name || 'our latest find', 28);
+  const templates = HEADLINES[tone];
+  const headline = cutAtWord(templates[index % templates.length](subject), limits.headline);
+
+  const setting = [brief.scene, brief.mood && `${brief.mood} mood`, brief.season].filter(Boolean).join(', ');
+  const sentences = [
+    setting ? `Styled for ${setting}.` : null,
+    length === 'long' && description.trim() ? description.trim() : null,
+    CALLS_TO_ACTION[tone],
+  ].filter(Boolean) as string[];
+  const body = cutAtWord(sentences.join(' '), getBodyTarget(platform, length));
+
+  const hashtags = normalizeAdCopy({
+    hashtags: [brandKit?.name, brief.season, brief.mood, ...firstSentence.split(/\s+/).filter(word => word.length > 4)]
+      .filter((value): value is string => Boolean(value))
+      .map(toHashtag),
+  }).hashtags.slice(0, Math.min(limits.hashtags, length === 'short' ? 3 : 8));
+
+  const altText = cutAtWord(
+    `Advertisement photo of ${firstSentence || 'a product'}${brief.scene ? ` in a ${brief.scene} setting` : ''}${brief.lighting ? ` with ${brief.lighting} lighting` : ''}.`,
+    limits.altText
+  );
+
+  return { headline, body, hashtags, altText };
+};
+
+// Post text as it will be pasted: headline, body, then the hashtag line
+export const formatCaption = (copy: AdCopy): string => {
+  const hashtagLine = copy.hashtags.map(tag => `#${tag}`).join(' ');
+  return [copy.headline, copy.body, hashtagLine].filter(Boolean).join('\n\n');
+};
+
+export const validateAdCopy = (copy: AdCopy, platform: CopyPlatform, t: Translator = DEFAULT_TRANSLATOR): CopyIssue[] => {
+  const limits = PLATFORM_COPY_LIMITS[platform];
+  const placement = t(`copy.platform.${platform}`);
+  const issues: CopyIssue[] = [];
+  const checkLength = (field: 'headline' | 'body' | 'altText' | 'caption', value: string, max: number) => {
+    if (value.length > max) {
+      issues.push({ field, message: t('copy.issue.length', { field: t(`copy.issue.field.${field}`), length: value.length, placement, max }) });
+    }
+  };
+
+  if (!copy.headline && !copy.body) {
+    issues.push({ field: 'headline', message: t('copy.issue.empty') });
+  }
+  checkLength('headline', copy.headline, limits.headline);
+  checkLength('body', copy.body, limits.body);
+  if (copy.hashtags.length > limits.hashtags) {
+    issues.push({ field: 'hashtags', message: t('copy.issue.hashtags', { count: copy.hashtags.length, placement, max: limits.hashtags }) });
+  }
+  checkLength('altText', copy.altText, limits.altText);
+  checkLength('caption', formatCaption(copy), limits.caption);
+  return issues;
+};
@@ -0,0 +1,174 @@
+import { UploadedImage } from "../types";
+import { loadImage } from "./canvasUtils";
+
+// Segmentation runs on a reduced copy; the mask is scaled back up, which also softens it
+const SEGMENT_EDGE = 512;
+// Transparent padding kept around the trimmed cutout, as a fraction of its long edge
+const TRIM_PADDING = 0.04;
+
+export const DEFAULT_CUTOUT_TOLERANCE = 0.18;
+export const CUTOUT_FEATHER_PX = 2;
+
+const createCanvas = (width: number, height: number) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new Error("Canvas rendering is not supported in this browser.");
+  }
+  return { canvas, ctx };
+};
+
+// Euclidean RGB distance normalized to 0-1
+const colorDistance = (data: Uint8ClampedArray, a: number, b: number): number => {
+  const dr = data[a] - data[b];
+  const dg = data[a + 1] - data[b + 1];
+  const db = data[a + 2] - data[b + 2];
+  return Math.sqrt(dr * dr + dg * dg + db * db) / 441.7;
+};
+
+// Local, CPU-only segmentation for product shots on a reasonably plain backdrop.
+// Background is flood-filled inward from the image border: a pixel joins it when it
+// is close to its already-filled neighbour (follows gradients and soft shadows) and
+// not too far from the border's own colors. Anything the fill can't reach is kept.
+// Returns a mask the size of the image: opaque white = product, transparent = background.
+export const segmentProduct = async (imageUrl: string, tolerance: number = DEFAULT_CUTOUT_TOLERANCE): Promise<string> => {
+  const image = await loadImage(imageUrl);
+  const scale = Math.min(1, SEGMENT_EDGE / Math.max(image.naturalWidth, image.naturalHeight));
+  const width = Math.max(1, Math.round(image.naturalWidth * scale));
+  const height = Math.max(1, Math.round(image.naturalHeight * scale));
+  const small = createCanvas(width, height);
+  small.ctx.drawImage(image, 0, 0, width, height);
+  const { data } = small.ctx.getImageData(0, 0, width, height);
+
+  const background = new Uint8Array(width * height);
+  const queue = new Int32Array(width * height);
+  let head = 0;
+  let tail = 0;
+  const seed = (pixel: number) => {
+    if (background[pixel]) return;
+    background[pixel] = 1;
+    queue[tail++] = pixel;
+  };
+  for (let x = 0; x < width; x++) {
+    seed(x);
+    seed((height - 1) * width + x);
+  }
+  for (let y = 0; y < height; y++) {
+    seed(y * width);
+    seed(y * width + width - 1);
+  }
+  const borderCount = tail;
+
+  // Mean border color anchors the fill so it can't creep across a low-contrast product
+  let r = 0, g = 0, b = 0;
+  for (let i = 0; i < borderCount; i++) {
+    const offset = queue[i] * 4;
+    r += data[offset];
+    g += data[offset + 1];
+    b += data[offset + 2];
+  }
+  const mean = [r / borderCount, g / borderCount, b / borderCount];
+  const distanceToMean = (offset: number): number => {
+    const dr = data[offset] - mean[0];
+    const dg = data[offset + 1] - mean[1];
+    const db = data[offset + 2] - mean[2];
+    return Math.sqrt(dr * dr + dg * dg + db * db) / 441.7;
+  };
+
+  const stepTolerance = tolerance / 3;
+  const globalTolerance = tolerance * 2.5;
+  while (head < tail) {
+    const pixel = queue[head++];
+    const x = pixel % width;
+    const y = (pixel - x) / width;
+    const neighbours = [
+      x > 0 ? pixel - 1 : -1,
+      x < width - 1 ? pixel + 1 : -1,
+      y > 0 ? pixel - width : -1,
+      y < height - 1 ? pixel + width : -1,
+    ];
+    for (const next of neighbours) {
+      if (next < 0 || background[next]) continue;
+      const offset = next * 4;
+      // Already-transparent pixels are background regardless of color
+      const transparent = data[offset + 3] < 16;
+      if (transparent || (colorDistance(data, pixel * 4, offset) <= stepTolerance && distanceToMean(offset) <= globalTolerance)) {
+        background[next] = 1;
+        queue[tail++] = next;
+      }
+    }
+  }
+
+  const mask = small.ctx.createImageData(width, height);
+  for (let i = 0; i < background.length; i++) {
+    const offset = i * 4;
+    mask.data[offset] = mask.data[offset + 1] = mask.data[offset + 2] = 255;
+    mask.data[offset + 3] = background[i] ? 0 : 255;
+  }
+  small.ctx.putImageData(mask, 0, 0);
+
+  const full = createCanvas(image.naturalWidth, image.naturalHeight);
+  full.ctx.imageSmoothingQuality = 'high';
+  full.ctx.drawImage(small.canvas, 0, 0, image.naturalWidth, image.naturalHeight);
+  return full.canvas.toDataURL('image/png');
+};
+
+// Bounding box of everything the mask keeps, or null when it keeps nothing
+const getMaskBounds = (ctx: CanvasRenderingContext2D, width: number, height: number) => {
+  const { data } = ctx.getImageData(0, 0, width, height);
+  let minX = width, minY = height, maxX = -1, maxY = -1;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (data[(y * width + x) * 4 + 3] > 8) {
+        if (x < minX) minX = x;
+        if (x > maxX) maxX = x;
+        if (y < minY) minY = y;
+        if (y > maxY) maxY = y;
+      }
+    }
+  }
+  return maxX < 0 ? null : { x: minX, y: minY, width: maxX - minX + 1, height: maxY - minY + 1 };
+};
+
+// Applies a keep-mask to the photo and trims the result to the product with a little
+// padding. Returns a transparent PNG data URL.
+export const applyCutoutMask = async (imageUrl: string, maskUrl: string): Promise<string> => {
+  const [image, mask] = await Promise.all([loadImage(imageUrl), loadImage(maskUrl)]);
+  const width = image.naturalWidth;
+  const height = image.naturalHeight;
+
+  const cut = createCanvas(width, height);
+  cut.ctx.filter = `blur(${CUTOUT_FEATHER_PX}px)`;
+  cut.ctx.drawImage(mask, 0, 0, width, height);
+  cut.ctx.filter = 'none';
+  cut.ctx.globalCompositeOperation = 'source-in';
+  cut.ctx.drawImage(image, 0, 0, width, height);
+
+  const bounds = getMaskBounds(cut.ctx, width, height);
+  if (!bounds) {
+    throw new Error("The mask removes the whole image. Paint back the product and try again.");
+  }
+  const padding = Math.round(Math.max(bounds.width, bounds.height) * TRIM_PADDING);
+  const x = Math.max(0, bounds.x - padding);
+  const y = Math.max(0, bounds.y - padding);
+  const trimmed = createCanvas(Math.min(width, bounds.x + bounds.width + padding) - x, Math.min(height, bounds.y + bounds.height + padding) - y);
+  trimmed.ctx.drawImage(cut.canvas, -x, -y);
+  return trimmed.canvas.toDataURL('image/png');
+};
+
+// Wraps a cutout as an upload, remembering the photo it came from so it can be undone. The
+// data URL doubles as the preview, so re-cutting or restoring the original leaves no blob URL behind.
+export const createCutoutImage = async (cutoutUrl: string, source: UploadedImage): Promise<UploadedImage> => {
+  const blob = await (await fetch(cutoutUrl)).blob();
+  const stem = source.file.name.includes('.') ? source.file.name.slice(0, source.file.name.lastIndexOf('.')) : source.file.name;
+  const file = new File([blob], `${stem}-cutout.png`, { type: 'image/png' });
+  return {
+    file,
+    previewUrl: cutoutUrl,
+    base64: cutoutUrl,
+    mimeType: 'image/png',
+    cutoutOf: source.cutoutOf || source,
+  };
+};
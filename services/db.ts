@@ -0,0 +1,96 @@
+// Thin promise wrapper around IndexedDB shared by all local stores
+
+const DB_NAME = 'visioncraft';
+const DB_VERSION = 7;
+
+export const STORES = {
+  history: 'history',
+  drafts: 'drafts',
+  brandKits: 'brandKits',
+  jobs: 'jobs',
+  usage: 'usage',
+  publications: 'publications',
+  publishAccounts: 'publishAccounts',
+  campaigns: 'campaigns',
+  templates: 'templates',
+} as const;
+
+export type StoreName = typeof STORES[keyof typeof STORES];
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      for (const name of Object.values(STORES)) {
+        if (!db.objectStoreNames.contains(name)) {
+          db.createObjectStore(name, { keyPath: 'id' });
+        }
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error || new Error("Failed to open local database."));
+    };
+  });
+  return dbPromise;
+};
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> => {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+export const putRecord = async <T extends { id: string }>(store: StoreName, record: T): Promise<T> => {
+  const db = await openDatabase();
+  await requestToPromise(db.transaction(store, 'readwrite').objectStore(store).put(record));
+  return record;
+};
+
+export const getRecord = async <T>(store: StoreName, id: string): Promise<T | null> => {
+  const db = await openDatabase();
+  const record = await requestToPromise(db.transaction(store, 'readonly').objectStore(store).get(id));
+  return (record as T) || null;
+};
+
+export const getAllRecords = async <T>(store: StoreName): Promise<T[]> => {
+  const db = await openDatabase();
+  return requestToPromise(db.transaction(store, 'readonly').objectStore(store).getAll()) as Promise<T[]>;
+};
+
+// Read-modify-write inside one transaction so concurrent updates can't drop each other
+export const updateRecord = async <T extends { id: string }>(
+  store: StoreName,
+  id: string,
+  update: (current: T | null) => T | null
+): Promise<T | null> => {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(store, 'readwrite');
+    const objectStore = transaction.objectStore(store);
+    let next: T | null = null;
+    const request = objectStore.get(id);
+    request.onsuccess = () => {
+      next = update((request.result as T) || null);
+      if (next) objectStore.put(next);
+    };
+    transaction.oncomplete = () => resolve(next);
+    transaction.onerror = () => reject(transaction.error);
+  });
+};
+
+export const deleteRecord = async (store: StoreName, id: string): Promise<void> => {
+  const db = await openDatabase();
+  await requestToPromise(db.transaction(store, 'readwrite').objectStore(store).delete(id));
+};
+
+export const createId = (prefix: string): string => {
+  return `${prefix}-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+};
@@ -0,0 +1,261 @@
+import { ExportMetadata, ExportPreset, ExportResult, ExportSettings, ImageFormat, RetailerProfile } from "../types";
+import { EXPORT_PRESETS } from "../constants";
+import { loadImage } from "./canvasUtils";
+import { crc32 } from "./zipService";
+import { IMAGE_FORMAT_LABELS, formatBytes } from "./imagePreprocessService";
+import { DEFAULT_TRANSLATOR, Translator } from "./i18nService";
+
+// Lowest encoder quality tried before the image is scaled down instead
+const MIN_QUALITY = 0.5;
+const QUALITY_STEP = 0.1;
+// Each downscale pass when quality alone can't meet the size target
+const DOWNSCALE_STEP = 0.85;
+// Never shrink the short edge below this to hit a size target
+const MIN_EXPORT_EDGE = 320;
+
+export const FILE_SIZE_TARGETS: { label: string; bytes: number | null }[] = [
+  { label: 'No limit', bytes: null },
+  { label: '300 KB', bytes: 300 * 1024 },
+  { label: '1 MB', bytes: 1024 * 1024 },
+  { label: '2 MB', bytes: 2 * 1024 * 1024 },
+  { label: '5 MB', bytes: 5 * 1024 * 1024 },
+];
+
+const EXTENSIONS: Record<ImageFormat, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/webp': 'webp',
+};
+
+const isLossy = (format: ImageFormat): boolean => format !== 'image/png';
+
+export const getExportPreset = (id: string | null): ExportPreset | null => {
+  return EXPORT_PRESETS.find(preset => preset.id === id) || null;
+};
+
+// JPEG by default; the retailer's file-size cap becomes the size target
+export const getDefaultExportSettings = (profile: RetailerProfile): ExportSettings => ({
+  format: 'image/jpeg',
+  quality: 0.92,
+  maxBytes: profile.maxFileSizeKb * 1024,
+  presetId: null,
+  includeMetadata: true,
+});
+
+const createCanvas = (width: number, height: number) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new Error("Canvas rendering is not supported in this browser.");
+  }
+  ctx.imageSmoothingQuality = 'high';
+  return { canvas, ctx };
+};
+
+// Draws the source scaled to cover width×height, center-cropping the overflow
+const renderCover = (source: CanvasImageSource, sourceWidth: number, sourceHeight: number, width: number, height: number, opaque: boolean) => {
+  const { canvas, ctx } = createCanvas(width, height);
+  if (opaque) {
+    // JPEG has no alpha; flatten onto white instead of the default black
+    ctx.fillStyle = '#ffffff';
+    ctx.fillRect(0, 0, width, height);
+  }
+  const scale = Math.max(width / sourceWidth, height / sourceHeight);
+  const drawWidth = sourceWidth * scale;
+  const drawHeight = sourceHeight * scale;
+  ctx.drawImage(source, (width - drawWidth) / 2, (height - drawHeight) / 2, drawWidth, drawHeight);
+  return canvas;
+};
+
+const encodeCanvas = (canvas: HTMLCanvasElement, format: ImageFormat, quality: number): Promise<Blob> => {
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error("Failed to encode the export.")), format, quality);
+  });
+};
+
+const escapeXml = (value: string): string => {
+  return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+};
+
+// Dublin Core for fields every viewer understands, plus a small namespace for the rest
+export const buildXmpPacket = (metadata: ExportMetadata): string => {
+  const createdAt = new Date(metadata.createdAt).toISOString();
+  const field = (tag: string, value: string | null) => value ? `\n      <${tag}>${escapeXml(value)}</${tag}>` : '';
+  const altText = (tag: string, value: string) => value
+    ? `\n      <${tag}><rdf:Alt><rdf:li xml:lang="x-default">${escapeXml(value)}</rdf:li></rdf:Alt></${tag}>`
+    : '';
+  return `<?xpacket begin="\uFEFF" id="W5M0MpCehiHzreSzNTczkc9d"?>
+<x:xmpmeta xmlns:x="adobe:ns:meta/">
+  <rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#">
+    <rdf:Description rdf:about=""
+      xmlns:dc="http://purl.org/dc/elements/1.1/"
+      xmlns:xmp="http://ns.adobe.com/xap/1.0/"
+      xmlns:vc="https://visioncraft.app/ns/1.0/">${altText('dc:title', metadata.title)}${altText('dc:description', metadata.description)}${
+        metadata.brand ? `\n      <dc:creator><rdf:Seq><rdf:li>${escapeXml(metadata.brand)}</rdf:li></rdf:Seq></dc:creator>` : ''
+      }${field('xmp:CreatorTool', `VisionCraft (${metadata.model})`)}${field('xmp:CreateDate', createdAt)}${field('vc:provider', metadata.provider)}${
+        field('vc:model', metadata.model)}${field('vc:promptTemplate', metadata.promptTemplateId)}${field('vc:aspectRatio', metadata.aspectRatio)}
+    </rdf:Description>
+  </rdf:RDF>
+</x:xmpmeta>
+<?xpacket end="r"?>`;
+};
+
+const concatBytes = (...parts: Uint8Array[]): Uint8Array => {
+  const output = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    output.set(part, offset);
+    offset += part.length;
+  }
+  return output;
+};
+
+const ascii = (value: string): Uint8Array => new Uint8Array([...value].map(char => char.charCodeAt(0)));
+
+// PNG: an iTXt chunk with the standard XMP keyword, right after IHDR
+const embedPngXmp = (bytes: Uint8Array, xmp: Uint8Array): Uint8Array => {
+  const type = ascii('iTXt');
+  // keyword \0, compression flag, compression method, language \0, translated keyword \0
+  const data = concatBytes(ascii('XML:com.adobe.xmp'), new Uint8Array([0, 0, 0, 0, 0]), xmp);
+  const chunk = new Uint8Array(12 + data.length);
+  const view = new DataView(chunk.buffer);
+  view.setUint32(0, data.length);
+  chunk.set(type, 4);
+  chunk.set(data, 8);
+  view.setUint32(8 + data.length, crc32(concatBytes(type, data)));
+  // 8-byte signature + IHDR (4 length + 4 type + 13 data + 4 CRC)
+  const afterHeader = 33;
+  return concatBytes(bytes.subarray(0, afterHeader), chunk, bytes.subarray(afterHeader));
+};
+
+// JPEG: an APP1 segment with the XMP namespace header, after SOI and any JFIF APP0
+const embedJpegXmp = (bytes: Uint8Array, xmp: Uint8Array): Uint8Array | null => {
+  const payload = concatBytes(ascii('http://ns.adobe.com/xap/1.0/\0'), xmp);
+  if (payload.length + 2 > 0xffff) return null;
+  const segment = new Uint8Array(4 + payload.length);
+  const view = new DataView(segment.buffer);
+  view.setUint16(0, 0xffe1);
+  view.setUint16(2, payload.length + 2);
+  segment.set(payload, 4);
+  let offset = 2;
+  if (bytes[2] === 0xff && bytes[3] === 0xe0) {
+    offset = 4 + ((bytes[4] << 8) | bytes[5]);
+  }
+  return concatBytes(bytes.subarray(0, offset), segment, bytes.subarray(offset));
+};
+
+const riffChunk = (fourcc: string, data: Uint8Array): Uint8Array => {
+  const padded = data.length % 2;
+  const chunk = new Uint8Array(8 + data.length + padded);
+  chunk.set(ascii(fourcc), 0);
+  new DataView(chunk.buffer).setUint32(4, data.length, true);
+  chunk.set(data, 8);
+  return chunk;
+};
+
+// WebP: XMP needs the extended format, so simple VP8/VP8L files get a VP8X header first
+const embedWebpXmp = (bytes: Uint8Array, xmp: Uint8Array, width: number, height: number): Uint8Array => {
+  const XMP_FLAG = 0x04;
+  const ALPHA_FLAG = 0x10;
+  const firstChunk = String.fromCharCode(...bytes.subarray(12, 16));
+  let body: Uint8Array;
+
+  if (firstChunk === 'VP8X') {
+    body = bytes.slice(12);
+    body[8] |= XMP_FLAG;
+  } else {
+    const header = new Uint8Array(10);
+    // VP8L stores "alpha is used" as bit 28 after its 1-byte signature
+    const hasAlpha = firstChunk === 'VP8L' && ((bytes[21] | (bytes[22] << 8) | (bytes[23] << 16) | (bytes[24] << 24)) >>> 28 & 1) === 1;
+    header[0] = XMP_FLAG | (hasAlpha ? ALPHA_FLAG : 0);
+    const view = new DataView(header.buffer);
+    view.setUint16(4, (width - 1) & 0xffff, true);
+    header[6] = ((width - 1) >> 16) & 0xff;
+    view.setUint16(7, (height - 1) & 0xffff, true);
+    header[9] = ((height - 1) >> 16) & 0xff;
+    body = concatBytes(riffChunk('VP8X', header), bytes.subarray(12));
+  }
+
+  const output = concatBytes(ascii('RIFF'), new Uint8Array(4), ascii('WEBP'), body, riffChunk('XMP ', xmp));
+  new DataView(output.buffer).setUint32(4, output.length - 8, true);
+  return output;
+};
+
+const embedXmp = async (blob: Blob, xmp: string, width: number, height: number): Promise<Blob | null> => {
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  const packet = new TextEncoder().encode(xmp);
+  let output: Uint8Array | null = null;
+  if (blob.type === 'image/png') output = embedPngXmp(bytes, packet);
+  if (blob.type === 'image/jpeg') output = embedJpegXmp(bytes, packet);
+  if (blob.type === 'image/webp') output = embedWebpXmp(bytes, packet, width, height);
+  return output ? new Blob([output as BlobPart], { type: blob.type }) : null;
+};
+
+// Renders the creative for the chosen preset and format, then steps quality and size
+// down until it fits maxBytes. Metadata bytes count toward the target.
+export const exportCreative = async (
+  imageUrl: string,
+  settings: ExportSettings,
+  metadata: ExportMetadata,
+  t: Translator = DEFAULT_TRANSLATOR,
+  baseName: string = 'visioncraft'
+): Promise<ExportResult> => {
+  const source = await loadImage(imageUrl);
+  const preset = getExportPreset(settings.presetId);
+  const targetWidth = preset?.width || source.naturalWidth;
+  const targetHeight = preset?.height || source.naturalHeight;
+  const opaque = settings.format === 'image/jpeg';
+  const xmp = settings.includeMetadata ? buildXmpPacket(metadata) : null;
+  const budget = settings.maxBytes ? settings.maxBytes - (xmp ? new TextEncoder().encode(xmp).length + 64 : 0) : null;
+  const warnings: string[] = [];
+
+  const base = renderCover(source, source.naturalWidth, source.naturalHeight, targetWidth, targetHeight, opaque);
+  let canvas = base;
+  let quality = isLossy(settings.format) ? settings.quality : 1;
+  let blob = await encodeCanvas(canvas, settings.format, quality);
+
+  while (budget && blob.size > budget) {
+    if (isLossy(settings.format) && quality - QUALITY_STEP >= MIN_QUALITY - 1e-6) {
+      quality = Math.round((quality - QUALITY_STEP) * 100) / 100;
+    } else {
+      const width = Math.round(canvas.width * DOWNSCALE_STEP);
+      const height = Math.round(canvas.height * DOWNSCALE_STEP);
+      if (Math.min(width, height) < MIN_EXPORT_EDGE) {
+        warnings.push(t('export.warning.tooLarge', { target: formatBytes(settings.maxBytes!), size: formatBytes(blob.size) }));
+        break;
+      }
+      canvas = renderCover(base, base.width, base.height, width, height, opaque);
+    }
+    blob = await encodeCanvas(canvas, settings.format, quality);
+  }
+
+  if (canvas !== base) {
+    warnings.push(t('export.warning.scaled', { width: canvas.width, height: canvas.height }));
+  }
+  // Safari can't encode WebP and silently hands back PNG
+  if (blob.type !== settings.format) {
+    warnings.push(t('export.warning.format', { requested: IMAGE_FORMAT_LABELS[settings.format], actual: IMAGE_FORMAT_LABELS[blob.type as ImageFormat] || blob.type }));
+  }
+
+  if (xmp) {
+    const withMetadata = await embedXmp(blob, xmp, canvas.width, canvas.height);
+    if (withMetadata) {
+      blob = withMetadata;
+    } else {
+      warnings.push(t('export.warning.metadata'));
+    }
+  }
+
+  const format = (blob.type in EXTENSIONS ? blob.type : 'image/png') as ImageFormat;
+  const sizeSuffix = preset ? `-${preset.id}` : '';
+  return {
+    blob,
+    fileName: `${baseName}${sizeSuffix}.${EXTENSIONS[format]}`,
+    width: canvas.width,
+    height: canvas.height,
+    quality: isLossy(format) ? quality : null,
+    warnings,
+  };
+};
@@ -1,8 +1,16 @@
-import { GoogleGenAI, HarmCategory, HarmBlockThreshold } from "@google/genai";
-import { AspectRatio } from "../types";
+import { GenerateContentResponse, GoogleGenAI, HarmCategory, HarmBlockThreshold, Type } from "@google/genai";
+import { AspectRatio, CopyGenerationRequest, CopyGenerationResponse, GenerationDiagnostics, ImageEditRequest, ImageGenerationRequest, ImageGenerationResponse, ImageProvider, ModelTier, RequestControl, TranslationRequest, TranslationResponse } from "../types";
+import { buildAdPrompt } from "./promptService";
+import { buildCopyPrompt, parseAdCopy } from "./copyService";
+import { buildTranslationPrompt, parseTranslations } from "./localizationService";
+import { getProductPartLabel, getReferencePartLabel } from "./compositionService";
+import { describeLogoAnchor, getLogoPlacement } from "./logoCompositorService";
+import { delay, isAbortError, throwIfAborted } from "./asyncUtils";
+import { acquireRateLimitToken, recordUsage, UsageOutcome } from "./usageService";
+import { GenerationError, SafetyBlockedError, TextOnlyResponseError, classifyError } from "./generationErrors";
 
 // Helper to clean base64 string (remove data URL prefix if present)
-const cleanBase64 = (base64: string): string => {
+export const cleanBase64 = (base64: string): string => {
   if (base64.includes(',')) {
     return base64.split(',')[1];
   }
@@ -10,110 +18,131 @@ const cleanBase64 = (base64: string): string => {
 };
 
 // Retry logic wrapper with increased delays for Free Tier limits
-const retryOperation = async <T>(operation: () => Promise<T>, maxRetries: number = 3, baseDelay: number = 10000): Promise<T> => {
+export const retryOperation = async <T>(
+  operation: () => Promise<T>,
+  maxRetries: number = 3,
+  baseDelay: number = 10000,
+  control: RequestControl = {}
+): Promise<T> => {
   let lastError: any;
   
   for (let i = 0; i < maxRetries; i++) {
+    throwIfAborted(control.signal);
     try {
       return await operation();
     } catch (error: any) {
-      lastError = error;
-      
-      const errString = JSON.stringify(error, Object.getOwnPropertyNames(error));
-      
-      // CRITICAL CHECK: If limit is 0, retrying won't help. It means the feature is disabled for this account/region.
-      if (errString.includes("limit: 0") || errString.includes("limit:0")) {
-         console.error("[Visioncraft] Quota is 0. Access denied by configuration.");
-         throw new Error("QUOTA_ZERO");
-      }
+      if (isAbortError(error) || control.signal?.aborted) throw error;
+      lastError = classifyError(error);
 
-      // Check for rate limit (429) or server overload (503)
-      const isRateLimit = 
-        errString.includes("429") || 
-        errString.includes("RESOURCE_EXHAUSTED") || 
-        errString.includes("quota") ||
-        (error.status === 429);
-        
-      const isServerOverload = 
-        errString.includes("503") || 
-        (error.status === 503);
-
-      if (isRateLimit || isServerOverload) {
-        console.warn(`[Visioncraft] Attempt ${i + 1} failed (Rate Limit/Overload). Retrying in ${baseDelay * Math.pow(2, i)}ms...`);
+      // Only rate limits and transient network/overload failures are worth waiting for.
+      // Quota 0, permissions, safety blocks etc. fail immediately.
+      // The last attempt has nothing to wait for, so it fails without announcing a retry
+      if (lastError instanceof GenerationError && lastError.retryable && i < maxRetries - 1) {
+        const backoff = baseDelay * Math.pow(2, i);
+        console.warn(`[Visioncraft] Attempt ${i + 1} failed (${lastError.kind}). Retrying in ${backoff}ms...`);
         // Exponential backoff: 10s, 20s, 40s (Slower backoff for free tier stability)
-        const delay = baseDelay * Math.pow(2, i);
-        await new Promise(resolve => setTimeout(resolve, delay));
+        control.onBackoff?.(Date.now() + backoff);
+        await delay(backoff, control.signal);
+        control.onBackoff?.(null);
         continue;
       }
       
-      // If it's a different error, fail immediately
-      throw error;
+      throw lastError;
     }
   }
   
   throw lastError;
 };
 
-export const generateAdvertisementImage = async (
-  apiKey: string,
-  description: string,
-  productBase64: string,
-  productMimeType: string,
-  logoBase64: string | null,
-  logoMimeType: string | null,
-  aspectRatio: AspectRatio,
-  useProModel: boolean = false
-): Promise<string> => {
-  
-  console.log("[Visioncraft] Initializing generation...");
-  console.log("[Visioncraft] Mode:", useProModel ? "Pro (Billable)" : "Standard (Free Tier)");
+const STANDARD_MODEL = 'gemini-2.5-flash-image';
+const PRO_MODEL = 'gemini-3-pro-image-preview';
 
-  const ai = new GoogleGenAI({ apiKey });
+// Finish reasons that mean the output was withheld rather than never produced
+const SAFETY_FINISH_REASONS = ['SAFETY', 'IMAGE_SAFETY', 'PROHIBITED_CONTENT', 'BLOCKLIST', 'SPII', 'RECITATION'];
 
-  // Prompt Engineering
-  const prompt = `
-    Create a high-end, aesthetic advertisement image.
-    
-    Inputs:
-    1. Product Image (Focus).
-    ${logoBase64 ? "2. Brand Logo (Apply to product)." : ""}
-    3. Brief: "${description}"
+// Collects finish/block reasons, safety ratings and any text the model sent instead of an image
+const getDiagnostics = (response: GenerateContentResponse): GenerationDiagnostics => {
+  const candidate = response.candidates?.[0];
+  const ratings = [...(response.promptFeedback?.safetyRatings || []), ...(candidate?.safetyRatings || [])];
+  const modelText = (candidate?.content?.parts || [])
+    .map(part => part.text || '')
+    .join('\n')
+    .trim();
 
-    Directives:
-    - Integrate the product naturally into a generated background matching the brief.
-    - Photorealistic lighting and composition.
-    ${logoBase64 ? "- COMPOSITE the logo onto the product surface naturally (respect geometry/lighting). Do not float it." : ""}
-    - No text overlays.
-  `;
+  return {
+    finishReason: candidate?.finishReason ? String(candidate.finishReason) : null,
+    blockReason: response.promptFeedback?.blockReason ? String(response.promptFeedback.blockReason) : null,
+    blockMessage: response.promptFeedback?.blockReasonMessage || null,
+    safetyRatings: ratings.map(rating => ({
+      category: String(rating.category || 'UNKNOWN'),
+      probability: String(rating.probability || 'UNKNOWN'),
+      blocked: rating.blocked === true,
+    })),
+    modelText: modelText || null,
+  };
+};
 
-  const parts = [];
+// The first image in a response, or the typed error explaining why there is none
+export const readImageResponse = (response: GenerateContentResponse): { imageUrl: string; mimeType: string } => {
+  const candidate = response.candidates?.[0];
+  for (const part of candidate?.content?.parts || []) {
+    if (part.inlineData) {
+      // The API reports the real encoding (often JPEG); older responses may omit it
+      const mimeType = part.inlineData.mimeType || 'image/png';
+      return { imageUrl: `data:${mimeType};base64,${part.inlineData.data}`, mimeType };
+    }
+  }
 
-  // Add Product Image
-  parts.push({
-    inlineData: {
-      data: cleanBase64(productBase64),
-      mimeType: productMimeType,
-    },
-  });
-  parts.push({ text: "Product Image" });
+  const diagnostics = getDiagnostics(response);
+  console.warn("[Visioncraft] Response contained no image:", diagnostics);
+  const isBlocked =
+    diagnostics.blockReason !== null ||
+    SAFETY_FINISH_REASONS.includes(diagnostics.finishReason || '') ||
+    diagnostics.safetyRatings.some(rating => rating.blocked);
+  if (isBlocked) {
+    throw new SafetyBlockedError(diagnostics, response);
+  }
+  throw new TextOnlyResponseError(diagnostics, response);
+};
 
-  // Add Logo Image if provided
-  if (logoBase64 && logoMimeType) {
-    parts.push({
-      inlineData: {
-        data: cleanBase64(logoBase64),
-        mimeType: logoMimeType,
-      },
-    });
-    parts.push({ text: "Brand Logo" });
+// Wraps one API request so every attempt (including retries) takes a limiter token and is
+// written to the usage ledger. Ledger writes must never break a request.
+const meteredCall = <T>(
+  tier: ModelTier,
+  modelName: string,
+  control: RequestControl,
+  request: () => Promise<T>,
+  useProModel: boolean = false
+) => async (): Promise<T> => {
+  const track = (outcome: UsageOutcome) => {
+    recordUsage(tier, modelName, outcome).catch(e => console.error("[Visioncraft] Failed to record usage:", e));
+  };
+  await acquireRateLimitToken(tier, control);
+  track('call');
+  try {
+    const result = await request();
+    track('success');
+    return result;
+  } catch (error) {
+    if (!control.signal?.aborted) track('failure');
+    throw classifyError(error, { useProModel });
   }
+};
 
-  // Add Text Prompt
-  parts.push({ text: prompt });
+// Shared model call: model selection, retries and user-facing error mapping
+const runImageModel = async (
+  apiKey: string,
+  parts: any[],
+  aspectRatio: AspectRatio,
+  useProModel: boolean,
+  control: RequestControl = {}
+): Promise<ImageGenerationResponse> => {
+  const ai = new GoogleGenAI({ apiKey });
 
   // FORCE Free model if not explicitly Pro
-  const modelName = useProModel ? 'gemini-3-pro-image-preview' : 'gemini-2.5-flash-image';
-  
+  const modelName = useProModel ? PRO_MODEL : STANDARD_MODEL;
+  const tier: ModelTier = useProModel ? 'pro' : 'standard';
+
   const imageConfig: any = {
     aspectRatio: aspectRatio,
   };
@@ -121,12 +150,13 @@ export const generateAdvertisementImage = async (
     imageConfig.imageSize = "1K";
   }
 
-  const apiCall = async () => {
+  const requestImage = async () => {
     console.log(`[Visioncraft] Calling generateContent with model: ${modelName}`);
     const response = await ai.models.generateContent({
       model: modelName,
       contents: { parts: parts },
       config: { 
+        abortSignal: control.signal,
         imageConfig: imageConfig,
         // Permissive safety settings to prevent false positives on product photos
         safetySettings: [
@@ -138,42 +168,253 @@ export const generateAdvertisementImage = async (
       },
     });
 
-    for (const part of response.candidates?.[0]?.content?.parts || []) {
-      if (part.inlineData) {
-        return `data:image/png;base64,${part.inlineData.data}`;
-      }
-    }
-    
-    throw new Error("No image was generated. The model might have returned only text.");
+    return readImageResponse(response);
   };
 
   try {
-    return await retryOperation(apiCall);
+    const { imageUrl, mimeType } = await retryOperation(meteredCall(tier, modelName, control, requestImage, useProModel), 3, 10000, control);
+    return {
+      imageUrl,
+      mimeType,
+      provider: geminiImageProvider.id,
+      model: modelName,
+      aspectRatio,
+      createdAt: Date.now(),
+    };
   } catch (error: any) {
+    if (isAbortError(error) || control.signal?.aborted) throw error;
     console.error("[Visioncraft] Gemini API Error Details:", error);
-    
-    const errString = JSON.stringify(error, Object.getOwnPropertyNames(error));
+    throw classifyError(error, { useProModel });
+  }
+};
 
-    // 0. Handle Zero Quota (Limit: 0)
-    if (error.message === "QUOTA_ZERO" || errString.includes("limit: 0") || errString.includes("limit:0")) {
-      throw new Error("Access Restricted: Your Google Cloud project has a quota of 0 for this model. Ensure the 'Generative Language API' is enabled in your Google Cloud Console, or try a different region (US is recommended).");
-    }
-    
-    // 1. Handle Permission/Billing specifically for Pro
-    if (useProModel && (errString.includes("403") || errString.includes("PERMISSION_DENIED"))) {
-      throw new Error("Permission Denied: The 'Pro' model requires a Google Cloud project with billing enabled. Please switch back to 'Standard' for free generation.");
-    }
-    
-    // 2. Handle 404 Model Not Found
-    if (errString.includes("404") || errString.includes("NOT_FOUND")) {
-      throw new Error(`Model not available. The ${useProModel ? 'Pro' : 'Standard'} model is not accessible with your current API key.`);
+const generateWithGemini = async (request: ImageGenerationRequest): Promise<ImageGenerationResponse> => {
+  const { apiKey, description, brief, promptTemplateId, productImage, logoImage, aspectRatio, useProModel, variation, brandKit, signal, onBackoff } = request;
+  const extraProducts = request.extraProducts || [];
+  const referenceImages = request.referenceImages || [];
+  
+  console.log("[Visioncraft] Initializing generation...");
+  console.log("[Visioncraft] Mode:", useProModel ? "Pro (Billable)" : "Standard (Free Tier)");
+
+  // Prompt Engineering (versioned templates live in promptService)
+  const prompt = buildAdPrompt(promptTemplateId, {
+    description,
+    brief,
+    hasLogo: logoImage !== null,
+    extraProducts: extraProducts.map(({ role, scale, label }) => ({ role, scale, label })),
+    referenceCount: referenceImages.length,
+    logoClearSpace: request.logoMode === 'overlay'
+      ? describeLogoAnchor(getLogoPlacement(request.logoPlacements, aspectRatio).anchor)
+      : null,
+    variation,
+    brandKit,
+  });
+
+  const parts = [];
+
+  // Add Product Image
+  parts.push({
+    inlineData: {
+      data: cleanBase64(productImage.base64),
+      mimeType: productImage.mimeType,
+    },
+  });
+  parts.push({ text: "Product Image" });
+
+  // Add Logo Image if provided
+  if (logoImage) {
+    parts.push({
+      inlineData: {
+        data: cleanBase64(logoImage.base64),
+        mimeType: logoImage.mimeType,
+      },
+    });
+    parts.push({ text: "Brand Logo" });
+  }
+
+  // Add bundle products, each labeled to match its line in the prompt
+  extraProducts.forEach((shot, index) => {
+    parts.push({
+      inlineData: {
+        data: cleanBase64(shot.image.base64),
+        mimeType: shot.image.mimeType,
+      },
+    });
+    parts.push({ text: getProductPartLabel(index, shot.label) });
+  });
+
+  // Add style/mood references last so they read as context, not subjects
+  referenceImages.forEach((image, index) => {
+    parts.push({
+      inlineData: {
+        data: cleanBase64(image.base64),
+        mimeType: image.mimeType,
+      },
+    });
+    parts.push({ text: `${getReferencePartLabel(index)} (style and mood only)` });
+  });
+
+  // Add Text Prompt
+  parts.push({ text: prompt });
+
+  return runImageModel(apiKey, parts, aspectRatio, useProModel, { signal, onBackoff });
+};
+
+const refineWithGemini = async (request: ImageEditRequest): Promise<ImageGenerationResponse> => {
+  const { apiKey, image, instruction, aspectRatio, useProModel, mask, signal, onBackoff } = request;
+  console.log("[Visioncraft] Refining creative:", instruction, mask ? "(masked region)" : "");
+
+  const prompt = `
+    Edit the supplied advertisement image according to this instruction: "${instruction}"
+
+    Directives:
+    ${mask ? "- Only modify the area that is WHITE in the Edit Mask. Black areas must stay pixel-identical." : ""}
+    - Change only what the instruction asks for; keep everything else identical.
+    - Preserve the product's shape, colors, label and any brand logo exactly.
+    - Keep the same framing and aspect ratio.
+    - No text overlays.
+  `;
+
+  const parts: any[] = [
+    {
+      inlineData: {
+        data: cleanBase64(image.base64),
+        mimeType: image.mimeType,
+      },
+    },
+    { text: "Current Advertisement" },
+  ];
+
+  if (mask) {
+    parts.push(
+      {
+        inlineData: {
+          data: cleanBase64(mask.base64),
+          mimeType: mask.mimeType,
+        },
+      },
+      { text: "Edit Mask" }
+    );
+  }
+
+  parts.push({ text: prompt });
+
+  return runImageModel(apiKey, parts, aspectRatio, useProModel, { signal, onBackoff });
+};
+
+// Copy is plain text, so it runs on the fast text model rather than an image tier. It has its
+// own limiter and ledger row so the dashboard shows text calls apart from image generations.
+const COPY_MODEL = 'gemini-2.5-flash';
+const COPY_TIER: ModelTier = 'text';
+
+const COPY_SCHEMA = {
+  type: Type.ARRAY,
+  items: {
+    type: Type.OBJECT,
+    properties: {
+      headline: { type: Type.STRING },
+      body: { type: Type.STRING },
+      hashtags: { type: Type.ARRAY, items: { type: Type.STRING } },
+      altText: { type: Type.STRING },
+    },
+    required: ['headline', 'body', 'hashtags', 'altText'],
+  },
+};
+
+const writeCopyWithGemini = async (request: CopyGenerationRequest): Promise<CopyGenerationResponse> => {
+  const { apiKey, image, signal, onBackoff } = request;
+  const ai = new GoogleGenAI({ apiKey });
+  console.log(`[Visioncraft] Writing ${request.platform} copy with model: ${COPY_MODEL}`);
+
+  const parts: any[] = [];
+  if (image) {
+    parts.push(
+      {
+        inlineData: {
+          data: cleanBase64(image.base64),
+          mimeType: image.mimeType,
+        },
+      },
+      { text: "Finished Advertisement" }
+    );
+  }
+  parts.push({ text: buildCopyPrompt(request) });
+
+  const requestCopy = async () => {
+    try {
+      const response = await ai.models.generateContent({
+        model: COPY_MODEL,
+        contents: { parts },
+        config: {
+          abortSignal: signal,
+          responseMimeType: 'application/json',
+          responseSchema: COPY_SCHEMA,
+        },
+      });
+      const copies = parseAdCopy(response.text || '');
+      if (copies.length > 0) return copies;
+
+      const diagnostics = getDiagnostics(response);
+      if (diagnostics.blockReason !== null || SAFETY_FINISH_REASONS.includes(diagnostics.finishReason || '')) {
+        throw new SafetyBlockedError(diagnostics, response);
+      }
+      throw new GenerationError('text-only', "The model returned no usable copy. Try again or adjust the brief.", { diagnostics, cause: response });
+    } catch (error) {
+      throw classifyError(error);
     }
+  };
+
+  const control = { signal, onBackoff };
+  const copies = await retryOperation(meteredCall(COPY_TIER, COPY_MODEL, control, requestCopy), 3, 10000, control);
+  return { copies, model: COPY_MODEL };
+};
+
+const TRANSLATION_SCHEMA = {
+  type: Type.ARRAY,
+  items: { type: Type.STRING },
+};
+
+const translateWithGemini = async (request: TranslationRequest): Promise<TranslationResponse> => {
+  const { apiKey, texts, signal, onBackoff } = request;
+  if (texts.length === 0) return { texts: [], model: COPY_MODEL };
+  const ai = new GoogleGenAI({ apiKey });
+  console.log(`[Visioncraft] Translating ${texts.length} texts into ${request.language} with model: ${COPY_MODEL}`);
 
-    // 3. Handle Rate Limits / Quotas (The "Billing" error often appears here confusingly)
-    if (errString.includes("429") || errString.includes("RESOURCE_EXHAUSTED") || errString.includes("quota") || errString.includes("limit")) {
-      throw new Error("Free Tier Limit Reached: You are generating images too fast or have hit the daily limit. Please wait 1-2 minutes and try again.");
+  const requestTranslation = async () => {
+    try {
+      const response = await ai.models.generateContent({
+        model: COPY_MODEL,
+        contents: { parts: [{ text: buildTranslationPrompt(request) }] },
+        config: {
+          abortSignal: signal,
+          responseMimeType: 'application/json',
+          responseSchema: TRANSLATION_SCHEMA,
+        },
+      });
+      const translated = parseTranslations(response.text || '', texts.length);
+      if (translated) return translated;
+
+      const diagnostics = getDiagnostics(response);
+      if (diagnostics.blockReason !== null || SAFETY_FINISH_REASONS.includes(diagnostics.finishReason || '')) {
+        throw new SafetyBlockedError(diagnostics, response);
+      }
+      throw new GenerationError('text-only', "The model returned an incomplete translation. Try again.", { diagnostics, cause: response });
+    } catch (error) {
+      throw classifyError(error);
     }
+  };
 
-    throw new Error(error.message || "Failed to generate advertisement.");
-  }
-};
\ No newline at end of file
+  const control = { signal, onBackoff };
+  const translated = await retryOperation(meteredCall(COPY_TIER, COPY_MODEL, control, requestTranslation), 3, 10000, control);
+  return { texts: translated, model: COPY_MODEL };
+};
+
+export const geminiImageProvider: ImageProvider = {
+  id: "gemini",
+  label: "Google Gemini",
+  requiresApiKey: true,
+  generate: generateWithGemini,
+  refine: refineWithGemini,
+  writeCopy: writeCopyWithGemini,
+  translate: translateWithGemini,
+};
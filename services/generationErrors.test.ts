@@ -0,0 +1,74 @@
+import { readFileSync } from 'node:fs';
+import { ApiError, GenerateContentResponse } from '@google/genai';
+import { describe, expect, it, vi } from 'vitest';
+import {
+  AuthError,
+  GenerationError,
+  ModelNotFoundError,
+  NetworkError,
+  PermissionError,
+  QuotaZeroError,
+  RateLimitError,
+  SafetyBlockedError,
+  TextOnlyResponseError,
+  classifyError,
+} from './generationErrors';
+import { readImageResponse } from './geminiService';
+
+// Recorded @google/genai failures: HTTP errors as status + JSON body, responses as returned
+const loadFixture = (name: string) => {
+  return JSON.parse(readFileSync(new URL(`./__fixtures__/genai/${name}.json`, import.meta.url), 'utf8'));
+};
+
+// Rebuilds the error the SDK throws for a non-2xx response
+const apiErrorFrom = (name: string): ApiError => {
+  const { status, body } = loadFixture(name);
+  return new ApiError({ message: JSON.stringify(body), status });
+};
+
+// Runs a recorded response through the same reader the provider uses
+const responseErrorFrom = (name: string): unknown => {
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+  try {
+    readImageResponse(loadFixture(name) as GenerateContentResponse);
+  } catch (error) {
+    return error;
+  }
+  throw new Error(`${name} unexpectedly contained an image`);
+};
+
+describe('classifyError', () => {
+  it.each([
+    ['rate-limited', RateLimitError, 'rate-limited', true],
+    ['quota-zero', QuotaZeroError, 'quota-zero', false],
+    ['permission-denied', PermissionError, 'permission', false],
+    ['model-not-found', ModelNotFoundError, 'model-not-found', false],
+    ['entity-not-found', AuthError, 'auth', false],
+    ['unavailable', NetworkError, 'network', true],
+  ] as const)('maps the %s API error', (name, type, kind, retryable) => {
+    const error = classifyError(apiErrorFrom(name));
+    expect(error).toBeInstanceOf(type);
+    expect(error).toMatchObject({ kind, retryable });
+  });
+
+  it('maps a failed fetch to a retryable network error', () => {
+    const { message } = loadFixture('failed-to-fetch');
+    const error = classifyError(new TypeError(message));
+    expect(error).toBeInstanceOf(NetworkError);
+    expect(error).toMatchObject({ kind: 'network', retryable: true });
+  });
+
+  it('keeps a safety-blocked response as a non-retryable safety error', () => {
+    const error = classifyError(responseErrorFrom('safety-blocked'));
+    expect(error).toBeInstanceOf(SafetyBlockedError);
+    expect(error).toMatchObject({ kind: 'safety-blocked', retryable: false });
+    expect((error as GenerationError).diagnostics?.finishReason).toBe('IMAGE_SAFETY');
+  });
+
+  it('keeps a text-only response with the model text', () => {
+    const error = classifyError(responseErrorFrom('text-only'));
+    expect(error).toBeInstanceOf(TextOnlyResponseError);
+    expect(error).toMatchObject({ kind: 'text-only', retryable: false });
+    expect((error as GenerationError).diagnostics?.modelText).toMatch(/marble counter/);
+  });
+});
@@ -0,0 +1,147 @@
+import { GenerationDiagnostics, GenerationErrorKind, RecoveryAction } from "../types";
+import { isAbortError } from "./asyncUtils";
+
+// Base class for every failure the providers surface; `kind` drives retries and UI recovery
+export class GenerationError extends Error {
+  readonly kind: GenerationErrorKind;
+  readonly retryable: boolean;
+  readonly cause?: unknown;
+  // Present when the model answered but withheld the image
+  readonly diagnostics: GenerationDiagnostics | null;
+
+  constructor(
+    kind: GenerationErrorKind,
+    message: string,
+    options: { retryable?: boolean; cause?: unknown; diagnostics?: GenerationDiagnostics | null } = {}
+  ) {
+    super(message);
+    this.name = 'GenerationError';
+    this.kind = kind;
+    this.retryable = options.retryable ?? false;
+    this.cause = options.cause;
+    this.diagnostics = options.diagnostics ?? null;
+  }
+}
+
+export class QuotaZeroError extends GenerationError {
+  constructor(cause?: unknown) {
+    super('quota-zero', "Access Restricted: Your Google Cloud project has a quota of 0 for this model. Ensure the 'Generative Language API' is enabled in your Google Cloud Console, or try a different region (US is recommended).", { cause });
+  }
+}
+
+export class RateLimitError extends GenerationError {
+  constructor(cause?: unknown) {
+    super('rate-limited', "Free Tier Limit Reached: You are generating images too fast or have hit the daily limit. Please wait 1-2 minutes and try again.", { retryable: true, cause });
+  }
+}
+
+export class PermissionError extends GenerationError {
+  constructor(useProModel: boolean, cause?: unknown) {
+    super('permission', useProModel
+      ? "Permission Denied: The 'Pro' model requires a Google Cloud project with billing enabled. Please switch back to 'Standard' for free generation."
+      : "Permission Denied: Your API key is not allowed to use this model.", { cause });
+  }
+}
+
+export class ModelNotFoundError extends GenerationError {
+  constructor(useProModel: boolean, cause?: unknown) {
+    super('model-not-found', `Model not available. The ${useProModel ? 'Pro' : 'Standard'} model is not accessible with your current API key.`, { cause });
+  }
+}
+
+export class AuthError extends GenerationError {
+  constructor(message: string = "Session expired or API Key invalid. Please reconnect.", cause?: unknown) {
+    super('auth', message, { cause });
+  }
+}
+
+// Human-readable harm category, e.g. HARM_CATEGORY_DANGEROUS_CONTENT -> dangerous content
+export const formatHarmCategory = (category: string): string => {
+  return category.replace(/^HARM_CATEGORY_/, '').replace(/_/g, ' ').toLowerCase();
+};
+
+export class SafetyBlockedError extends GenerationError {
+  constructor(diagnostics: GenerationDiagnostics, cause?: unknown) {
+    const flagged = diagnostics.safetyRatings.filter(rating => rating.blocked).map(rating => formatHarmCategory(rating.category));
+    const reason = flagged.length > 0 ? flagged.join(', ') : (diagnostics.blockReason || diagnostics.finishReason || 'unspecified').toLowerCase();
+    super('safety-blocked', `Blocked by safety filters (${reason}). Try rewording the brief or using a different product photo.`, { cause, diagnostics });
+  }
+}
+
+export class TextOnlyResponseError extends GenerationError {
+  constructor(diagnostics: GenerationDiagnostics, cause?: unknown) {
+    super('text-only', diagnostics.modelText
+      ? "No image was generated. The model replied with text instead (shown below)."
+      : "No image was generated. The model might have returned only text.", { cause, diagnostics });
+  }
+}
+
+export class NetworkError extends GenerationError {
+  constructor(message: string = "Network problem or the service is overloaded. Check your connection and try again.", cause?: unknown) {
+    super('network', message, { retryable: true, cause });
+  }
+}
+
+// What the UI offers for each kind, most useful first
+export const RECOVERY_ACTIONS: Record<GenerationErrorKind, RecoveryAction[]> = {
+  'quota-zero': ['reconnect', 'use-standard'],
+  'rate-limited': ['retry', 'open-usage'],
+  permission: ['use-standard', 'reconnect'],
+  'model-not-found': ['switch-model', 'reconnect'],
+  auth: ['reconnect'],
+  'safety-blocked': ['rephrase', 'edit-brief'],
+  'text-only': ['retry', 'rephrase'],
+  network: ['retry'],
+  unknown: ['retry'],
+};
+
+interface ErrorContext {
+  useProModel?: boolean;
+}
+
+// HTTP status from the SDK's ApiError, or from a nested `error` payload
+const getStatusCode = (error: any): number | null => {
+  const status = error?.status ?? error?.code ?? error?.error?.code;
+  return typeof status === 'number' ? status : null;
+};
+
+// The SDK folds the JSON error body into the message; pull out the RPC status string
+const getRpcStatus = (message: string): string | null => {
+  const match = message.match(/"status"\s*:\s*"([A-Z_]+)"/) || message.match(/\b(RESOURCE_EXHAUSTED|PERMISSION_DENIED|NOT_FOUND|UNAVAILABLE|UNAUTHENTICATED|INVALID_ARGUMENT)\b/);
+  return match ? match[1] : null;
+};
+
+// Maps anything thrown by a provider call onto the hierarchy above. Abort errors pass
+// through untouched so cancellation never looks like a failure.
+export const classifyError = (error: unknown, context: ErrorContext = {}): Error => {
+  if (error instanceof GenerationError || isAbortError(error)) return error as Error;
+
+  const useProModel = context.useProModel ?? false;
+  const message = (error as any)?.message ? String((error as any).message) : String(error ?? '');
+  const status = getStatusCode(error);
+  const rpcStatus = getRpcStatus(message);
+
+  // A quota of 0 means the feature is disabled for this project/region; retrying won't help
+  if (/limit:\s*0\b/.test(message)) return new QuotaZeroError(error);
+  if (status === 429 || rpcStatus === 'RESOURCE_EXHAUSTED') return new RateLimitError(error);
+  if (status === 401 || rpcStatus === 'UNAUTHENTICATED' || /API[_ ]KEY[_ ]INVALID|API key not valid/i.test(message)) {
+    return new AuthError(undefined, error);
+  }
+  if (status === 403 || rpcStatus === 'PERMISSION_DENIED') return new PermissionError(useProModel, error);
+  if (status === 404 || rpcStatus === 'NOT_FOUND') {
+    // AI Studio reports a revoked key selection as a missing entity
+    return message.includes("Requested entity was not found")
+      ? new AuthError(undefined, error)
+      : new ModelNotFoundError(useProModel, error);
+  }
+  if ((status !== null && status >= 500) || rpcStatus === 'UNAVAILABLE' || (error instanceof TypeError && /fetch|network/i.test(message))) {
+    return new NetworkError(undefined, error);
+  }
+
+  return new GenerationError('unknown', message || "Failed to generate advertisement.", { cause: error });
+};
+
+export const getErrorKind = (error: unknown): GenerationErrorKind => {
+  const classified = classifyError(error);
+  return classified instanceof GenerationError ? classified.kind : 'unknown';
+};
@@ -0,0 +1,110 @@
+import { AdRequest, DraftState, HistoryEntry, ImageGenerationResponse, OverlayLayer, ProductShot, StoredAdRequest, StoredImage, UploadedImage } from "../types";
+import { STORES, createId, deleteRecord, getAllRecords, getRecord, putRecord } from "./db";
+import { EMPTY_BRIEF, summarizeBrief } from "./promptService";
+
+const DRAFT_ID = 'current';
+
+export const toStoredImage = (image: UploadedImage): StoredImage => ({
+  name: image.file.name,
+  base64: image.base64,
+  mimeType: image.mimeType,
+});
+
+// Rebuild an UploadedImage from storage; the data URL doubles as the preview
+export const fromStoredImage = (image: StoredImage): UploadedImage => {
+  const [header, data] = image.base64.split(',');
+  const bytes = atob(data || header);
+  const buffer = new Uint8Array(bytes.length);
+  for (let i = 0; i < bytes.length; i++) {
+    buffer[i] = bytes.charCodeAt(i);
+  }
+  return {
+    file: new File([buffer], image.name, { type: image.mimeType }),
+    previewUrl: image.base64,
+    base64: image.base64,
+    mimeType: image.mimeType,
+  };
+};
+
+const toStoredShot = (shot: ProductShot): ProductShot<StoredImage> => ({ ...shot, image: toStoredImage(shot.image) });
+
+const fromStoredShot = (shot: ProductShot<StoredImage>): ProductShot => ({ ...shot, image: fromStoredImage(shot.image) });
+
+export const toStoredProducts = (shots: ProductShot[]): ProductShot<StoredImage>[] => shots.map(toStoredShot);
+
+export const fromStoredProducts = (shots: ProductShot<StoredImage>[] | undefined): ProductShot[] => (shots || []).map(fromStoredShot);
+
+export const toStoredRequest = (request: AdRequest & { productImage: UploadedImage }): StoredAdRequest => ({
+  productImage: toStoredImage(request.productImage),
+  extraProducts: toStoredProducts(request.extraProducts),
+  referenceImages: request.referenceImages.map(toStoredImage),
+  logoImage: request.logoImage ? toStoredImage(request.logoImage) : null,
+  logoMode: request.logoMode,
+  logoPlacements: request.logoPlacements,
+  description: request.description,
+  brief: request.brief,
+  promptTemplateId: request.promptTemplateId,
+  aspectRatio: request.aspectRatio,
+  useProModel: request.useProModel,
+});
+
+export const fromStoredRequest = (request: StoredAdRequest): AdRequest & { productImage: UploadedImage } => ({
+  productImage: fromStoredImage(request.productImage),
+  extraProducts: fromStoredProducts(request.extraProducts),
+  referenceImages: (request.referenceImages || []).map(fromStoredImage),
+  logoImage: request.logoImage ? fromStoredImage(request.logoImage) : null,
+  logoMode: request.logoMode || 'ai',
+  logoPlacements: request.logoPlacements || {},
+  description: request.description,
+  aspectRatio: request.aspectRatio,
+  useProModel: request.useProModel,
+  brief: request.brief || EMPTY_BRIEF,
+  // Requests without a template id predate versioning and used the classic prompt
+  promptTemplateId: request.promptTemplateId || 'classic-v1',
+});
+
+export const listHistory = async (): Promise<HistoryEntry[]> => {
+  const entries = await getAllRecords<HistoryEntry>(STORES.history);
+  return entries.sort((a, b) => b.createdAt - a.createdAt);
+};
+
+export const saveGeneration = async (
+  request: StoredAdRequest,
+  output: ImageGenerationResponse,
+  overlays: OverlayLayer[] = []
+): Promise<HistoryEntry> => {
+  const title = summarizeBrief(request.brief || EMPTY_BRIEF, request.description).slice(0, 40) || 'Untitled creative';
+  return putRecord<HistoryEntry>(STORES.history, {
+    id: createId('gen'),
+    title,
+    createdAt: Date.now(),
+    request,
+    output,
+    overlays,
+  });
+};
+
+export const updateHistoryEntry = async (entry: HistoryEntry): Promise<HistoryEntry> => {
+  return putRecord<HistoryEntry>(STORES.history, entry);
+};
+
+export const duplicateHistoryEntry = async (entry: HistoryEntry): Promise<HistoryEntry> => {
+  return putRecord<HistoryEntry>(STORES.history, {
+    ...entry,
+    id: createId('gen'),
+    title: `${entry.title} (copy)`,
+    createdAt: Date.now(),
+  });
+};
+
+export const deleteHistoryEntry = async (id: string): Promise<void> => {
+  return deleteRecord(STORES.history, id);
+};
+
+export const saveDraft = async (draft: DraftState): Promise<void> => {
+  await putRecord(STORES.drafts, { id: DRAFT_ID, ...draft });
+};
+
+export const loadDraft = async (): Promise<DraftState | null> => {
+  return getRecord<DraftState>(STORES.drafts, DRAFT_ID);
+};
@@ -0,0 +1,40 @@
+import { createContext, useContext } from "react";
+import { UiLocale } from "../types";
+import { Catalog, EN, MessageKey } from "./locales/en";
+import { DE } from "./locales/de";
+import { FR } from "./locales/fr";
+import { ES } from "./locales/es";
+
+export type { MessageKey } from "./locales/en";
+
+export const UI_LOCALES: { id: UiLocale; label: string }[] = [
+  { id: 'en', label: 'English' },
+  { id: 'de', label: 'Deutsch' },
+  { id: 'fr', label: 'Français' },
+  { id: 'es', label: 'Español' },
+];
+
+// English (locales/en.ts) is the source catalog; the others fall back to it key by key
+const CATALOGS: Record<Exclude<UiLocale, 'en'>, Catalog> = { de: DE, fr: FR, es: ES };
+
+export type Translator = (key: MessageKey, params?: Record<string, string | number>) => string;
+
+export const createTranslator = (locale: UiLocale): Translator => (key, params) => {
+  const message = (locale === 'en' ? undefined : CATALOGS[locale][key]) ?? EN[key];
+  if (!params) return message;
+  return message.replace(/\{(\w+)\}/g, (match, name: string) => (name in params ? String(params[name]) : match));
+};
+
+// Services that word messages fall back to this when the caller passes no translator
+export const DEFAULT_TRANSLATOR = createTranslator('en');
+
+// App provides the translator for the chosen interface language; English outside a provider
+export const TranslatorContext = createContext<Translator>(DEFAULT_TRANSLATOR);
+
+export const useTranslator = (): Translator => useContext(TranslatorContext);
+
+// The browser's language when the UI has it, English otherwise
+export const detectUiLocale = (): UiLocale => {
+  const language = (typeof navigator === 'undefined' ? '' : navigator.language || '').slice(0, 2).toLowerCase();
+  return UI_LOCALES.find(locale => locale.id === language)?.id || 'en';
+};
@@ -0,0 +1,218 @@
+import { AspectRatio, ImageFormat, ImagePreprocessOptions, ImagePreprocessReport, UploadedImage } from "../types";
+import { loadImage, readFileAsDataUrl } from "./canvasUtils";
+
+export const DEFAULT_PREPROCESS_OPTIONS: ImagePreprocessOptions = {
+  maxEdge: 2048,
+  format: 'auto',
+  quality: 0.9,
+  crop: null,
+};
+
+// Long-edge choices offered in the upload settings; the models gain little above 2048px
+export const MAX_EDGE_OPTIONS = [1024, 1536, 2048, 3072];
+
+export const IMAGE_FORMAT_LABELS: Record<ImageFormat, string> = {
+  'image/png': 'PNG',
+  'image/jpeg': 'JPEG',
+  'image/webp': 'WebP',
+};
+
+// Inline request payloads above this start to slow uploads noticeably
+const LARGE_OUTPUT_BYTES = 4 * 1024 * 1024;
+// Below this the model tends to lose label text and fine detail
+const SMALL_OUTPUT_EDGE = 512;
+
+export const formatBytes = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+// Reads the EXIF orientation tag (1-8) from a JPEG's APP1 segment; 1 when absent
+export const readExifOrientation = (buffer: ArrayBuffer): number => {
+  const view = new DataView(buffer);
+  try {
+    if (view.getUint16(0) !== 0xFFD8) return 1;
+    let offset = 2;
+    while (offset + 4 <= view.byteLength) {
+      const marker = view.getUint16(offset);
+      // Start of scan: image data follows, no more metadata segments
+      if ((marker & 0xFF00) !== 0xFF00 || marker === 0xFFDA) return 1;
+      if (marker === 0xFFE1 && view.getUint32(offset + 4) === 0x45786966) {
+        const tiff = offset + 10;
+        const littleEndian = view.getUint16(tiff) === 0x4949;
+        const ifd = tiff + view.getUint32(tiff + 4, littleEndian);
+        const entries = view.getUint16(ifd, littleEndian);
+        for (let i = 0; i < entries; i++) {
+          const entry = ifd + 2 + i * 12;
+          if (view.getUint16(entry, littleEndian) === 0x0112) {
+            const orientation = view.getUint16(entry + 8, littleEndian);
+            return orientation >= 1 && orientation <= 8 ? orientation : 1;
+          }
+        }
+        return 1;
+      }
+      offset += 2 + view.getUint16(offset + 2);
+    }
+  } catch {
+    // Truncated or malformed metadata; treat as upright
+  }
+  return 1;
+};
+
+const isHeic = (file: File): boolean => /image\/hei[cf]/i.test(file.type) || /\.hei[cf]$/i.test(file.name);
+
+// Decodes with EXIF orientation applied. createImageBitmap is asked for it explicitly;
+// the <img> fallback relies on the browser default (image-orientation: from-image).
+const decodeImage = async (file: File): Promise<ImageBitmap | HTMLImageElement> => {
+  if (typeof createImageBitmap === 'function') {
+    try {
+      return await createImageBitmap(file, { imageOrientation: 'from-image' });
+    } catch {
+      // Older engines reject the option value; fall through to <img>
+    }
+  }
+  const objectUrl = URL.createObjectURL(file);
+  try {
+    return await loadImage(objectUrl);
+  } catch {
+    throw new Error(isHeic(file)
+      ? `${file.name} is a HEIC photo, which this browser can't read. Export it as JPEG or PNG and try again.`
+      : `Could not read ${file.name}. Make sure it is a PNG, JPEG or WebP image.`);
+  } finally {
+    URL.revokeObjectURL(objectUrl);
+  }
+};
+
+// Centered crop of the source to the requested ratio
+const getCropRect = (width: number, height: number, crop: AspectRatio | null) => {
+  if (!crop) return { x: 0, y: 0, width, height };
+  const [w, h] = crop.split(':').map(Number);
+  const target = w / h;
+  if (width / height > target) {
+    const cropWidth = Math.round(height * target);
+    return { x: Math.round((width - cropWidth) / 2), y: 0, width: cropWidth, height };
+  }
+  const cropHeight = Math.round(width / target);
+  return { x: 0, y: Math.round((height - cropHeight) / 2), width, height: cropHeight };
+};
+
+const hasTransparency = (ctx: CanvasRenderingContext2D, width: number, height: number): boolean => {
+  const { data } = ctx.getImageData(0, 0, width, height);
+  for (let i = 3; i < data.length; i += 4) {
+    if (data[i] < 255) return true;
+  }
+  return false;
+};
+
+const canvasToBlob = (canvas: HTMLCanvasElement, type: ImageFormat, quality: number): Promise<Blob> => {
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error("Failed to encode the processed image.")), type, quality);
+  });
+};
+
+const EXTENSIONS: Record<string, string> = { 'image/png': 'png', 'image/jpeg': 'jpg', 'image/webp': 'webp' };
+
+const renameForType = (name: string, mimeType: string): string => {
+  const extension = EXTENSIONS[mimeType];
+  if (!extension) return name;
+  const stem = name.includes('.') ? name.slice(0, name.lastIndexOf('.')) : name;
+  return `${stem}.${extension}`;
+};
+
+// Orientation fix, crop, downscale and format normalization for an uploaded file.
+// Files that need none of these pass through untouched so they aren't re-encoded.
+export const preprocessImage = async (
+  file: File,
+  options: ImagePreprocessOptions = DEFAULT_PREPROCESS_OPTIONS
+): Promise<UploadedImage> => {
+  const buffer = await file.arrayBuffer();
+  const orientation = readExifOrientation(buffer);
+  const source = await decodeImage(file);
+  const sourceWidth = source.width;
+  const sourceHeight = source.height;
+
+  const rect = getCropRect(sourceWidth, sourceHeight, options.crop);
+  const cropped = rect.width !== sourceWidth || rect.height !== sourceHeight;
+  const scale = Math.min(1, options.maxEdge / Math.max(rect.width, rect.height));
+  const width = Math.max(1, Math.round(rect.width * scale));
+  const height = Math.max(1, Math.round(rect.height * scale));
+  const resized = scale < 1;
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    if ('close' in source) source.close();
+    throw new Error("Canvas rendering is not supported in this browser.");
+  }
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(source, rect.x, rect.y, rect.width, rect.height, 0, 0, width, height);
+  if ('close' in source) source.close();
+
+  const format: ImageFormat = options.format !== 'auto'
+    ? options.format
+    : hasTransparency(ctx, width, height) ? 'image/png' : 'image/jpeg';
+
+  const original = { width: sourceWidth, height: sourceHeight, bytes: file.size, mimeType: file.type || 'unknown' };
+  const steps: string[] = [];
+  const warnings: string[] = [];
+  let output: File;
+
+  const untouched = !cropped && !resized && orientation === 1 && file.type === format;
+  if (untouched) {
+    output = file;
+  } else {
+    if (format === 'image/jpeg') {
+      // JPEG has no alpha; flatten onto white instead of the default black
+      ctx.globalCompositeOperation = 'destination-over';
+      ctx.fillStyle = '#ffffff';
+      ctx.fillRect(0, 0, width, height);
+      ctx.globalCompositeOperation = 'source-over';
+    }
+    const blob = await canvasToBlob(canvas, format, options.quality);
+    output = new File([blob], renameForType(file.name, blob.type), { type: blob.type });
+
+    if (orientation !== 1) steps.push(`Rotated upright (EXIF orientation ${orientation})`);
+    if (cropped) steps.push(`Cropped to ${options.crop}`);
+    if (resized) steps.push(`Downscaled to ${width}×${height}`);
+    if (blob.type !== file.type) steps.push(`Converted to ${IMAGE_FORMAT_LABELS[blob.type as ImageFormat] || blob.type}`);
+    // Safari can't encode WebP and silently hands back PNG
+    if (blob.type !== format) warnings.push(`This browser can't encode ${IMAGE_FORMAT_LABELS[format]}; saved as ${IMAGE_FORMAT_LABELS[blob.type as ImageFormat] || blob.type}.`);
+  }
+
+  if (output.size > LARGE_OUTPUT_BYTES) warnings.push(`Still ${formatBytes(output.size)}; lower the max size or quality for faster requests.`);
+  if (Math.max(width, height) < SMALL_OUTPUT_EDGE) warnings.push(`Only ${width}×${height}px; the model may lose label text and fine detail.`);
+
+  const report: ImagePreprocessReport = {
+    original,
+    output: { width, height, bytes: output.size, mimeType: output.type },
+    orientation,
+    steps,
+    warnings,
+  };
+
+  return {
+    file: output,
+    previewUrl: URL.createObjectURL(output),
+    base64: await readFileAsDataUrl(output),
+    mimeType: output.type,
+    report,
+  };
+};
+
+// Frees an upload's blob preview once nothing shows it. Images rebuilt from storage preview
+// through their data URL, which needs no cleanup.
+export const revokePreviewUrl = (image: UploadedImage | null | undefined) => {
+  if (image?.previewUrl.startsWith('blob:')) URL.revokeObjectURL(image.previewUrl);
+};
+
+// One-line "before → after" summary for the uploader
+export const summarizePreprocessReport = (report: ImagePreprocessReport): string => {
+  const { original, output } = report;
+  const before = `${original.width}×${original.height} • ${formatBytes(original.bytes)}`;
+  if (report.steps.length === 0) return `${before} • unchanged`;
+  const after = `${output.width}×${output.height} • ${formatBytes(output.bytes)} ${IMAGE_FORMAT_LABELS[output.mimeType as ImageFormat] || ''}`.trim();
+  return `${before} → ${after}`;
+};
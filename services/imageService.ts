@@ -0,0 +1,104 @@
+import { AdCopyVariant, CopyGenerationRequest, ImageEditRequest, ImageGenerationRequest, ImageGenerationResponse, ImageProvider, TranslationRequest, TranslationResponse } from "../types";
+import { geminiImageProvider } from "./geminiService";
+import { mockImageProvider } from "./mockImageProvider";
+import { compositeMaskedRegion, toBinaryMask } from "./maskService";
+import { toDataUrl } from "./canvasUtils";
+import { classifyError } from "./generationErrors";
+import { compositeLogo, getLogoPlacement } from "./logoCompositorService";
+import { createId } from "./db";
+
+const providers: Record<string, ImageProvider> = {
+  [geminiImageProvider.id]: geminiImageProvider,
+  [mockImageProvider.id]: mockImageProvider,
+};
+
+const DEFAULT_PROVIDER_ID = geminiImageProvider.id;
+
+export const listImageProviders = (): ImageProvider[] => Object.values(providers);
+
+// Provider is selected with VITE_IMAGE_PROVIDER (e.g. "mock" for offline demos)
+export const getActiveImageProvider = (): ImageProvider => {
+  const configured = (import.meta as any).env?.VITE_IMAGE_PROVIDER as string | undefined;
+  if (configured && providers[configured]) {
+    return providers[configured];
+  }
+  if (configured) {
+    console.warn(`[Visioncraft] Unknown image provider "${configured}". Falling back to ${DEFAULT_PROVIDER_ID}.`);
+  }
+  return providers[DEFAULT_PROVIDER_ID];
+};
+
+export const generateAdvertisementImage = async (request: ImageGenerationRequest): Promise<ImageGenerationResponse> => {
+  const provider = getActiveImageProvider();
+  console.log(`[Visioncraft] Using image provider: ${provider.label}`);
+  // In overlay mode the model never sees the logo; the exact file is stamped on afterwards
+  const overlayLogo = request.logoMode === 'overlay' ? request.logoImage : null;
+  try {
+    const response = await provider.generate(overlayLogo ? { ...request, logoImage: null } : request);
+    if (!overlayLogo) return { ...response, promptTemplateId: request.promptTemplateId };
+    const imageUrl = await compositeLogo(response.imageUrl, overlayLogo, getLogoPlacement(request.logoPlacements, response.aspectRatio));
+    return { ...response, imageUrl, mimeType: 'image/png', promptTemplateId: request.promptTemplateId };
+  } catch (error) {
+    // Every provider failure reaches callers as a typed GenerationError
+    throw classifyError(error, { useProModel: request.useProModel });
+  }
+};
+
+export const refineAdvertisementImage = async (request: ImageEditRequest): Promise<ImageGenerationResponse> => {
+  const provider = getActiveImageProvider();
+  console.log(`[Visioncraft] Refining with image provider: ${provider.label}`);
+  try {
+    return await provider.refine(request);
+  } catch (error) {
+    throw classifyError(error, { useProModel: request.useProModel });
+  }
+};
+
+// Masked edit: the model sees the whole image plus a mask, but only the masked
+// pixels of its answer are kept, so locked areas (product, logo) never change.
+export const inpaintAdvertisementImage = async (
+  request: Omit<ImageEditRequest, 'mask'>,
+  alphaMaskUrl: string
+): Promise<ImageGenerationResponse> => {
+  const binaryMask = await toBinaryMask(alphaMaskUrl);
+  const edited = await refineAdvertisementImage({
+    ...request,
+    mask: { base64: binaryMask, mimeType: 'image/png' },
+  });
+  const imageUrl = await compositeMaskedRegion(toDataUrl(request.image.base64, request.image.mimeType), edited.imageUrl, alphaMaskUrl);
+  return { ...edited, imageUrl, mimeType: 'image/png' };
+};
+
+// Headlines, body copy, hashtags and alt text for one placement, tagged so the UI can
+// keep variants for several platforms and tones side by side
+export const generateAdCopy = async (request: CopyGenerationRequest): Promise<AdCopyVariant[]> => {
+  const provider = getActiveImageProvider();
+  console.log(`[Visioncraft] Writing ad copy with provider: ${provider.label}`);
+  try {
+    const { copies, model } = await provider.writeCopy(request);
+    const createdAt = Date.now();
+    return copies.slice(0, request.count).map(copy => ({
+      ...copy,
+      id: createId('copy'),
+      platform: request.platform,
+      tone: request.tone,
+      length: request.length,
+      provider: provider.id,
+      model,
+      createdAt,
+    }));
+  } catch (error) {
+    throw classifyError(error);
+  }
+};
+
+// Overlay and caption text for another market, in the order given
+export const translateAdTexts = async (request: TranslationRequest): Promise<TranslationResponse> => {
+  const provider = getActiveImageProvider();
+  console.log(`[Visioncraft] Translating ad texts with provider: ${provider.label}`);
+  try {
+    return await provider.translate(request);
+  } catch (error) {
+    throw classifyError(error);
+  }
+};
@@ -0,0 +1,62 @@
+import { GenerationJob, StoredAdRequest } from "../types";
+import { STORES, createId, deleteRecord, getAllRecords, putRecord, updateRecord } from "./db";
+import { EMPTY_BRIEF, summarizeBrief } from "./promptService";
+
+// Jobs in these states still hold (or are waiting for) the single queue slot
+export const isJobActive = (job: GenerationJob): boolean => {
+  return job.status === 'running' || job.status === 'backing-off';
+};
+
+export const isJobFinished = (job: GenerationJob): boolean => {
+  return job.status === 'done' || job.status === 'failed' || job.status === 'cancelled';
+};
+
+export const createGenerationJob = (request: StoredAdRequest, brandKitId: string | null): GenerationJob => {
+  const now = Date.now();
+  return {
+    id: createId('job'),
+    title: summarizeBrief(request.brief || EMPTY_BRIEF, request.description).slice(0, 40) || 'Untitled creative',
+    status: 'queued',
+    request,
+    brandKitId,
+    attempts: 0,
+    error: null,
+    retryAt: null,
+    historyId: null,
+    createdAt: now,
+    updatedAt: now,
+  };
+};
+
+// Oldest queued job first
+export const getNextQueuedJob = (jobs: GenerationJob[]): GenerationJob | null => {
+  return jobs
+    .filter(job => job.status === 'queued')
+    .sort((a, b) => a.createdAt - b.createdAt)[0] || null;
+};
+
+export const listJobs = async (): Promise<GenerationJob[]> => {
+  const jobs = await getAllRecords<GenerationJob>(STORES.jobs);
+  return jobs.sort((a, b) => a.createdAt - b.createdAt);
+};
+
+export const saveJob = async (job: GenerationJob): Promise<GenerationJob> => {
+  return putRecord<GenerationJob>(STORES.jobs, job);
+};
+
+export const updateJob = async (id: string, patch: Partial<GenerationJob>): Promise<GenerationJob | null> => {
+  return updateRecord<GenerationJob>(STORES.jobs, id, job => job ? { ...job, ...patch, updatedAt: Date.now() } : null);
+};
+
+export const deleteJob = async (id: string): Promise<void> => {
+  return deleteRecord(STORES.jobs, id);
+};
+
+// A reload kills whatever was in flight; put those jobs back in line
+export const restoreJobs = async (): Promise<GenerationJob[]> => {
+  const jobs = await listJobs();
+  return Promise.all(jobs.map(job => isJobActive(job)
+    ? saveJob({ ...job, status: 'queued', retryAt: null, updatedAt: Date.now() })
+    : job
+  ));
+};
@@ -0,0 +1,548 @@
+import { Catalog } from "./en";
+
+export const DE: Catalog = {
+  'header.catalog': 'Katalog',
+  'header.campaigns': 'Kampagnen',
+  'header.usage': 'Verbrauch',
+  'header.jobs': 'Aufträge',
+  'header.history': 'Verlauf ({count})',
+  'header.tagline': 'KI-Marketing-Tool',
+  'header.language': 'Sprache der Oberfläche',
+  'assets.title': '1. Marken-Assets',
+  'assets.brandKit': 'Brand Kit',
+  'assets.manage': 'Verwalten',
+  'assets.noBrandKit': 'Kein Brand Kit',
+  'assets.product': 'Produktfoto',
+  'assets.bundle': 'Bundle-Produkte',
+  'assets.bundleHint': 'Zusätzliche Artikel neben dem Hauptprodukt, z. B. ein Geschenkset.',
+  'assets.references': 'Stimmungsreferenzen',
+  'assets.referencesHint': 'Nur für Farbpalette, Licht und Atmosphäre.',
+  'assets.logo': 'Markenlogo',
+  'config.title': '2. Einstellungen',
+  'config.model': 'Modellqualität',
+  'config.standard': 'Standard (dauerhaft kostenlos)',
+  'config.pro': 'Pro',
+  'config.paid': 'KOSTENPFLICHTIG',
+  'config.proHint': '⚠️ Pro erfordert ein Google-Cloud-Projekt mit aktivierter Abrechnung.',
+  'config.standardHint': 'Standard ist komplett kostenlos, mit großzügigen Tageslimits.',
+  'config.format': 'Format & Größe',
+  'config.allFormatsOn': 'Alle Formate: An',
+  'config.allFormatsOff': 'Alle Formate: Aus',
+  'config.batchHint': 'Formate werden nacheinander erzeugt, um die Ratenlimits einzuhalten.',
+  'config.variants': 'Varianten',
+  'config.variantsOff': 'Aus',
+  'config.variantsBatchHint': 'Varianten sind nicht verfügbar, während alle Formate erzeugt werden.',
+  'config.retailer': 'Händlerprofil',
+  'config.retailerHint': 'Jedes Motiv wird vor dem Download gegen die Regeln dieses Händlers geprüft.',
+  'config.market': 'Markt',
+  'config.marketHint': 'Preise, Textsprache und eingeschränkte Formulierungen richten sich nach diesem Markt.',
+  'template.start': 'Mit einer Vorlage beginnen',
+  'template.change': 'Vorlage wechseln',
+  'template.clear': 'Overlays dieser Vorlage nicht mehr hinzufügen',
+  'generate.busy': 'Assets werden erzeugt...',
+  'generate.formats': '{count} FORMATE ERZEUGEN',
+  'generate.variants': '{count} VARIANTEN ERZEUGEN',
+  'generate.single': 'ANZEIGE ERZEUGEN',
+  'empty.title': 'Bereit zum Gestalten',
+  'empty.body': 'Lade Produkt und Logo hoch, beschreibe deine Idee und lass die KI deine Kampagne bauen.',
+  'loading.title': 'Deine Anzeige entsteht...',
+  'loading.rateLimited': 'Ratenlimit erreicht',
+  'loading.paused': 'Warteschlange pausiert',
+  'loading.waiting': 'Wartet auf frühere Aufträge',
+  'loading.steps': 'Produkt analysieren • Layout komponieren • Licht setzen',
+  'result.download': 'Bild herunterladen',
+  'result.downloadBlocked': 'Behebe fehlgeschlagene Compliance-Prüfungen, um herunterzuladen',
+  'result.editRegion': 'Bereich bearbeiten',
+  'result.editOverlays': 'Overlays bearbeiten ({count})',
+  'result.addOverlays': 'Text & CTA hinzufügen',
+  'result.instagram': 'Auf Instagram posten',
+  'result.publish': 'Veröffentlichen',
+  'result.publishBlocked': 'Behebe fehlgeschlagene Compliance-Prüfungen, um zu veröffentlichen',
+  'result.shareBlocked': 'Behebe fehlgeschlagene Compliance-Prüfungen, um zu teilen',
+  'result.markets': 'Märkte',
+  'result.backToFormats': 'Zurück zu allen Formaten',
+  'result.backToVariants': 'Zurück zu den Varianten',
+  'result.newDesign': 'Neues Design',
+  'common.open': 'Öffnen',
+  'common.duplicate': 'Duplizieren',
+  'common.delete': 'Löschen',
+  'common.retry': 'Erneut versuchen',
+  'common.cancel': 'Abbrechen',
+  'common.close': 'Schließen',
+  'common.save': 'Speichern',
+  'common.apply': 'Anwenden',
+  'common.remove': 'Entfernen',
+  'common.queued': 'In Warteschlange',
+  'common.stop': 'Stopp',
+  'common.resume': 'Fortsetzen',
+  'history.title': 'Verlauf',
+  'history.count.one': '{count} gespeichertes Motiv',
+  'history.count.other': '{count} gespeicherte Motive',
+  'history.empty': 'Erzeugte Motive werden hier automatisch gespeichert.',
+  'history.rerun': 'Neu erzeugen',
+  'batch.title': 'Alle Formate',
+  'batch.progress': '{done}/{total} fertig',
+  'batch.failed': '{count} fehlgeschlagen',
+  'batch.attempt': 'Versuch {count}',
+  'batch.imageAlt': 'Erzeugte Anzeige {format}',
+  'batch.review': 'Prüfen & herunterladen',
+  'compliance.title': 'Compliance',
+  'compliance.pass': 'Bestanden',
+  'compliance.warn': 'Prüfen',
+  'compliance.fail': 'Nicht bestanden',
+  'compliance.checking': 'Wird geprüft...',
+  'compliance.hideSafeZone': 'Sicherheitszone ausblenden',
+  'compliance.showSafeZone': 'Sicherheitszone einblenden',
+  'compliance.blocked': 'Der Download ist gesperrt, bis alle fehlgeschlagenen Prüfungen behoben sind.',
+  'compliance.rule.min-dimensions': 'Mindestmaße',
+  'compliance.rule.aspect-ratio': 'Seitenverhältnis der Platzierung',
+  'compliance.rule.safe-zone': 'Ränder der Sicherheitszone',
+  'compliance.rule.logo-required': 'Markenlogo',
+  'compliance.rule.banned-words': 'Eingeschränkte Formulierungen',
+  'compliance.rule.market-wording': 'Formulierungen für den Markt',
+  'compliance.rule.file-size': 'Dateigröße',
+  'compliance.dimensions.pass': '{width}×{height} px erfüllt {minWidth}×{minHeight} px.',
+  'compliance.dimensions.fail': '{width}×{height} px liegt unter den geforderten {minWidth}×{minHeight} px.',
+  'compliance.ratio.pass': 'Entspricht {ratio}.',
+  'compliance.ratio.fail': 'Das Bild hat {width}×{height} px und entspricht nicht {ratio}.',
+  'compliance.safeZone.fail': '{layers} ragen über die Sicherheitszone hinaus.',
+  'compliance.safeZone.warn': 'Halte wichtige Inhalte innerhalb der Ränder: oben {top}, rechts {right}, unten {bottom}, links {left}. Prüfe sie mit der eingeblendeten Sicherheitszone.',
+  'compliance.logo.pass': 'Für dieses Motiv wurde ein Markenlogo hinterlegt.',
+  'compliance.logo.fail': '{retailer} verlangt ein Markenlogo. Lade eines hoch und generiere neu.',
+  'compliance.logo.optional': 'Für diesen Händler ist das Logo optional.',
+  'compliance.logoLayer': 'Logo',
+  'compliance.wording.pass': 'Keine eingeschränkten Begriffe in Briefing oder Bildunterschrift gefunden.',
+  'compliance.wording.caption': 'Die Bildunterschrift enthält eingeschränkte Formulierungen: {words}.',
+  'compliance.wording.brief': 'Das Briefing enthält eingeschränkte Formulierungen: {words}.',
+  'compliance.market.fail': '{words} ist in {market} ohne Nachweis nicht zulässig.',
+  'compliance.market.pass': 'Keine unzulässigen Aussagen für {market}; Werbekennzeichnung vorhanden.',
+  'compliance.market.warn': 'Keine unzulässigen Aussagen für {market}. Bezahlte Partnerschaften müssen mit {labels} gekennzeichnet werden.',
+  'compliance.fileSize.pass': '{size} KB liegen innerhalb des Limits von {limit} KB.',
+  'compliance.fileSize.warn': '{size} KB überschreiten das Limit von {limit} KB. Der Export komprimiert die Datei passend.',
+  'format.1:1': 'Instagram-Beitrag (1:1)',
+  'format.9:16': 'Instagram-Story (9:16)',
+  'format.16:9': 'Facebook-Beitrag (16:9)',
+  'format.3:4': 'Feed Hochformat (3:4)',
+  'format.4:3': 'Display Querformat (4:3)',
+  'copy.platform.instagram-post': 'Instagram-Beitrag',
+  'copy.platform.instagram-story': 'Instagram-Story',
+  'copy.platform.facebook': 'Facebook',
+  'copy.tone.friendly': 'Freundlich',
+  'copy.tone.bold': 'Selbstbewusst',
+  'copy.tone.premium': 'Premium',
+  'copy.tone.playful': 'Verspielt',
+  'copy.length.short': 'Kurz',
+  'copy.length.long': 'Lang',
+  'copy.writing': 'Wird geschrieben...',
+  'copy.write': 'Text schreiben',
+  'copy.failed': 'Der Text konnte nicht geschrieben werden.',
+  'copy.caption': 'Bildunterschrift',
+  'copy.limits': 'Überschrift {headline}, Text {body}, max. {hashtags} Hashtags',
+  'copy.altText': 'Alternativtext:',
+  'copy.copyAltText': 'Alternativtext kopieren',
+  'copy.useCaption': 'Als Bildunterschrift verwenden',
+  'copy.issue.empty': 'Füge eine Überschrift oder einen Text hinzu.',
+  'copy.issue.length': '{field} hat {length} Zeichen; {placement} erlaubt {max}.',
+  'copy.issue.hashtags': '{count} Hashtags; {placement} erlaubt {max}.',
+  'copy.issue.field.headline': 'Die Überschrift',
+  'copy.issue.field.body': 'Der Text',
+  'copy.issue.field.altText': 'Der Alternativtext',
+  'copy.issue.field.caption': 'Die gesamte Bildunterschrift',
+  'jobs.title': 'Aufträge',
+  'jobs.pending': '{count} ausstehend',
+  'jobs.queuePaused': 'Warteschlange pausiert',
+  'jobs.resumeQueue': 'Warteschlange fortsetzen',
+  'jobs.pauseQueue': 'Warteschlange pausieren',
+  'jobs.clearFinished': 'Abgeschlossene entfernen',
+  'jobs.empty': 'Erzeugungen warten hier und überstehen ein Neuladen der Seite.',
+  'jobs.attempt': 'Versuch {count}',
+  'jobs.retryIn': 'Neuer Versuch in {seconds} s',
+  'jobs.retrying': 'Neuer Versuch…',
+  'jobs.status.queued': 'In Warteschlange',
+  'jobs.status.running': 'Läuft',
+  'jobs.status.backing-off': 'Pausiert kurz',
+  'jobs.status.failed': 'Fehlgeschlagen',
+  'jobs.status.done': 'Fertig',
+  'jobs.status.cancelled': 'Abgebrochen',
+  'common.standard': 'Standard',
+  'common.or': 'oder',
+  'export.title': 'Motiv exportieren',
+  'export.size': 'Größe',
+  'export.original': 'Original ({ratio})',
+  'export.format': 'Format',
+  'export.maxSize': 'Max. Dateigröße',
+  'export.noLimit': 'Keine Begrenzung',
+  'export.quality': 'Qualität: {percent} %',
+  'export.qualityHint': 'Wird bei Bedarf automatisch gesenkt, um die Größengrenze einzuhalten.',
+  'export.metadata': 'Metadaten einbetten',
+  'export.metadataHint': 'Briefing, Modell und Zeitstempel als XMP.',
+  'export.metadataHintBrand': 'Briefing, Modell, Zeitstempel und Marke ({brand}) als XMP.',
+  'export.resultQuality': 'Qualität {percent} %',
+  'export.failed': 'Export fehlgeschlagen.',
+  'export.exporting': 'Wird exportiert...',
+  'export.download': 'Herunterladen',
+  'export.warning.tooLarge': 'Unter {target} war nicht möglich; die Datei hat {size}. Versuche JPEG oder WebP.',
+  'export.warning.scaled': 'Auf {width}×{height} verkleinert, um die Größenbegrenzung einzuhalten.',
+  'export.warning.format': 'Dieser Browser kann kein {requested} erzeugen; als {actual} exportiert.',
+  'export.warning.metadata': 'Die Metadaten waren zu groß zum Einbetten und wurden weggelassen.',
+  'publish.title': 'Veröffentlichen',
+  'publish.destinations': 'Ziele',
+  'publish.connector.instagram': 'Business- oder Creator-Konto über die Instagram Graph API.',
+  'publish.connector.facebook': 'Fotobeitrag auf einer Seite, die du verwaltest.',
+  'publish.connector.pinterest': 'Pin auf einer Pinnwand über die Pinterest API v5.',
+  'publish.connector.webhook': 'Sendet Bild und Beitragsdaten per POST an deinen eigenen Endpunkt (Zapier, Make, ein CMS...).',
+  'publish.connector.mock': 'Testziel; starte es mit "npm run mock:publish" ({endpoint}).',
+  'publish.field.accessToken': 'Zugriffstoken',
+  'publish.field.targetId': 'Konto-ID',
+  'publish.field.pageId': 'ID der verknüpften Facebook-Seite',
+  'publish.field.endpoint': 'Endpunkt-URL',
+  'publish.target.instagram': 'Instagram-Konto-ID',
+  'publish.target.facebook': 'Seiten-ID',
+  'publish.target.pinterest': 'Pinnwand-ID',
+  'publish.optional': '(optional)',
+  'publish.modeRemote': 'Wird auf der Plattform geplant.',
+  'publish.modeLocal': 'Wird in diesem Browser gehalten; lass Visioncraft zur geplanten Zeit geöffnet.',
+  'publish.settings': 'Einstellungen',
+  'publish.setUp': 'Einrichten',
+  'publish.storedLocally': 'Nur in diesem Browser gespeichert.',
+  'publish.post': 'Beitrag',
+  'publish.postTitle': 'Titel',
+  'publish.postTitleHint': '(Pinterest, Webhook)',
+  'publish.caption': 'Bildunterschrift',
+  'publish.characters': '({count} Zeichen)',
+  'publish.altText': 'Alternativtext',
+  'publish.link': 'Link',
+  'publish.linkHint': '(Pinterest-Ziel)',
+  'publish.schedule': 'Zeitplan',
+  'publish.scheduleHint': '(leer lassen, um sofort zu posten)',
+  'publish.clear': 'Leeren',
+  'publish.pastTime': 'Die geplante Zeit ist vorbei; die Beiträge gehen sofort raus.',
+  'publish.failed': 'Der Beitrag konnte nicht eingereiht werden.',
+  'publish.scheduleAction': 'Planen',
+  'publish.publishNow': 'Jetzt veröffentlichen',
+  'publish.thisCreative': 'Dieses Motiv',
+  'publish.onPlatform': '(auf der Plattform)',
+  'publish.view': 'Ansehen',
+  'publish.status.queued': 'In Warteschlange',
+  'publish.status.scheduled': 'Geplant',
+  'publish.status.publishing': 'Wird veröffentlicht',
+  'publish.status.published': 'Veröffentlicht',
+  'publish.status.failed': 'Fehlgeschlagen',
+  'publish.status.cancelled': 'Abgebrochen',
+  'publish.status.due': 'Auf der Plattform geplant — fällig',
+  'publish.issue.missing': '{connector}: {fields} ergänzen.',
+  'publish.issue.caption': '{connector}: Die Bildunterschrift hat {length} Zeichen; erlaubt sind {limit}.',
+  'publish.issue.hashtags': '{connector}: {count} Hashtags; erlaubt sind {limit}.',
+  'campaign.title': 'Kampagnen',
+  'campaign.today': 'Heute',
+  'campaign.enableReminders': 'Desktop-Erinnerungen aktivieren',
+  'campaign.exportIcs': '.ics exportieren',
+  'campaign.packing': 'Wird gepackt...',
+  'campaign.downloadZip': 'ZIP herunterladen',
+  'campaign.new': '+ Neue Kampagne',
+  'campaign.launch': 'Start',
+  'campaign.channels': 'Kanäle',
+  'campaign.formats': 'Formate',
+  'campaign.notesPlaceholder': 'Ziele, Zielgruppe, Angebot...',
+  'campaign.delete': 'Kampagne löschen',
+  'campaign.planHint': 'Doppelklicke auf einen Tag, um einen Beitrag für {name} zu planen. Ziehe Beiträge, um sie zu verschieben.',
+  'campaign.createHint': 'Lege eine Kampagne an, um mit der Planung zu beginnen.',
+  'campaign.post': 'Beitrag',
+  'campaign.creative': 'Motiv',
+  'campaign.notChosen': 'Noch nicht gewählt',
+  'campaign.useCreative': 'Motiv auf dem Bildschirm verwenden',
+  'campaign.caption': 'Bildunterschrift',
+  'campaign.useCaption': 'Aktuelle Bildunterschrift verwenden',
+  'campaign.notesForTeam': 'Notizen fürs Team',
+  'campaign.reminder.none': 'Keine Erinnerung',
+  'campaign.reminder.15': '15 Minuten vorher',
+  'campaign.reminder.60': '1 Stunde vorher',
+  'campaign.reminder.1440': '1 Tag vorher',
+  'campaign.schedule': 'Veröffentlichung planen',
+  'campaign.removePost': 'Beitrag entfernen',
+  'campaign.zipFailed': 'Das Kampagnenarchiv konnte nicht erstellt werden.',
+  'campaign.planPost': 'Beitrag planen',
+  'campaign.status.planned': 'Motiv fehlt',
+  'campaign.status.ready': 'Bereit',
+  'template.title': 'Vorlagen',
+  'template.importJson': 'JSON importieren',
+  'template.exportAll': 'Alle exportieren',
+  'template.export': 'Exportieren',
+  'template.category.seasonal': 'Saisonal',
+  'template.category.promotional': 'Aktionen',
+  'template.category.launch': 'Produktstart',
+  'template.category.custom': 'Eigene',
+  'template.applied': 'Angewendet',
+  'template.saveHint': 'Speichere das aktuelle Briefing, die Formate und Overlays als Vorlage.',
+  'template.namePlaceholder': 'Name der Vorlage',
+  'template.untitled': 'Unbenannte Vorlage',
+  'template.saveCurrent': 'Aktuelles Setup speichern',
+  'template.summary': 'Zusammenfassung',
+  'template.description': 'Beschreibung',
+  'template.placeholders': 'Verwende {tokens} oder {brand} als Platzhalter.',
+  'template.brief': 'Briefing',
+  'template.formats': 'Empfohlene Formate',
+  'template.slots': 'Overlay-Plätze',
+  'template.noOverlays': 'Keine Overlays.',
+  'template.brandLogo': 'Markenlogo',
+  'template.brandColor': 'Farbe {role}',
+  'template.brandFont': 'Markenschrift',
+  'template.selectBrandKit': 'Wähle ein Brand-Kit, um seine Farben und Schriften zu verwenden.',
+  'template.token.price': 'Preis',
+  'template.token.discount': 'Rabatt',
+  'template.token.code': 'Gutscheincode',
+  'template.apply': 'Vorlage anwenden',
+  'template.imported': '{count} Vorlage(n) importiert.',
+  'market.title': 'Marktvarianten',
+  'market.subtitle': 'Übersetzt die Overlays und die Bildunterschrift dieses Motivs aus {market} ({language}).',
+  'market.disclosure': 'Bezahlte Partnerschaften gekennzeichnet als {label}',
+  'market.price': 'Preis ({currency})',
+  'market.discount': 'Rabatt',
+  'market.keepsPrice': 'Bleibt bei {price}, bis du einen Preis in {currency} eingibst',
+  'market.shownAs': 'Angezeigt als {value}',
+  'market.translating': 'Wird übersetzt...',
+  'market.create': '{count} Variante(n) erstellen',
+  'market.savedHint': 'Varianten werden mit ihrer Bildunterschrift im Verlauf gespeichert, bereit zum Exportieren, Veröffentlichen oder Planen.',
+  'market.status.translating': 'Wird übersetzt',
+  'market.status.done': 'Fertig',
+  'market.status.failed': 'Fehlgeschlagen',
+  'market.failed': 'Übersetzung fehlgeschlagen.',
+  'market.issue.restricted': '„{word}“ ist in {market} nicht zulässig.',
+  'market.issue.price': 'Der Preis bleibt bei {price}; gib einen Preis in {currency} ein, um einen für {market} anzuzeigen.',
+  'upload.optional': 'Optional',
+  'upload.optimizing': 'Bild wird optimiert…',
+  'upload.optimizingShort': 'Wird optimiert…',
+  'upload.preview': 'Vorschau',
+  'upload.change': 'Ändern',
+  'upload.click': 'Zum Hochladen klicken',
+  'upload.editCutout': 'Freisteller bearbeiten',
+  'upload.removeBackground': 'Hintergrund entfernen',
+  'upload.restoreOriginal': 'Original wiederherstellen',
+  'upload.addImages': '+ Bilder hinzufügen',
+  'upload.failed': 'Dieses Bild konnte nicht verarbeitet werden.',
+  'upload.failedFile': '{name} konnte nicht verarbeitet werden.',
+  'upload.settings': 'Upload-Einstellungen',
+  'upload.auto': 'Auto',
+  'upload.crop': 'Zuschnitt {ratio}',
+  'upload.maxSize': 'Maximale Größe',
+  'upload.format': 'Format',
+  'upload.autoFormat': 'Auto (PNG bei Transparenz)',
+  'upload.cropProduct': 'Produkt zuschneiden',
+  'upload.original': 'Original',
+  'upload.quality': 'Qualität: {percent} %',
+  'catalog.title': 'Katalogimport',
+  'catalog.subtitle': 'CSV oder JSON mit den Spalten SKU, Name, Preis, Bilddatei, Briefing und Formate.',
+  'catalog.closeAndStop': 'Schließen und Lauf stoppen',
+  'catalog.file': '1. Katalogdatei',
+  'catalog.chooseFile': 'Wähle eine .csv- oder .json-Datei',
+  'catalog.images': '2. Produktbilder',
+  'catalog.imagesMatched': '{count} Bild(er) • {matched}/{total} Zeilen zugeordnet',
+  'catalog.dropImages': 'Bilder hier ablegen oder einen Ordner wählen',
+  'catalog.pickFolder': 'Ordner wählen',
+  'catalog.pickFiles': 'Dateien wählen',
+  'catalog.empty': 'Importiere einen Katalog, um seine Produkte hier zu sehen.',
+  'catalog.sku': 'SKU',
+  'catalog.product': 'Produkt',
+  'catalog.image': 'Bild',
+  'catalog.formats': 'Formate',
+  'catalog.notFound': '{file} nicht gefunden',
+  'catalog.progress': '{completed}/{total} Motive fertig',
+  'catalog.progressFailed': '{failed} fehlgeschlagen',
+  'catalog.readyToGenerate': '{count} Produkt(e) bereit zum Generieren',
+  'catalog.retryFailed': 'Fehlgeschlagene wiederholen',
+  'catalog.exportZip': 'ZIP exportieren',
+  'catalog.stop': 'Stopp',
+  'catalog.generating': 'Wird generiert…',
+  'catalog.resume': 'Fortsetzen',
+  'catalog.generateAll': 'Alle generieren',
+  'catalog.readFailed': 'Diese Katalogdatei konnte nicht gelesen werden.',
+  'brandKit.title': 'Brand-Kits',
+  'brandKit.new': '+ Neue Marke',
+  'brandKit.name': 'Name',
+  'brandKit.logos': 'Logos',
+  'brandKit.palette': 'Palette',
+  'brandKit.addColor': '+ Farbe',
+  'brandKit.fonts': 'Schriften (durch Kommas getrennt)',
+  'brandKit.tone': 'Tonalität',
+  'brandKit.tonePlaceholder': 'Warm, hochwertig, zurückhaltend...',
+  'brandKit.forbidden': 'Verbotene Stile (durch Kommas getrennt)',
+  'brandKit.forbiddenPlaceholder': 'Neon, Comic, Grunge',
+  'brandKit.save': 'Brand-Kit speichern',
+  'brandKit.empty': 'Lege ein Brand-Kit an, um Logos, Farben und Tonalität sitzungsübergreifend wiederzuverwenden.',
+  'cutout.title': 'Hintergrund entfernen',
+  'cutout.subtitle': 'Läuft lokal in deinem Browser. Funktioniert am besten vor schlichten oder Studio-Hintergründen.',
+  'cutout.tolerance': 'Hintergrundtoleranz',
+  'cutout.toleranceHint': 'Höher entfernt mehr. Eine Änderung verwirft Pinselkorrekturen.',
+  'cutout.tool.keep': 'Behalten',
+  'cutout.tool.remove': 'Entfernen',
+  'cutout.hint.keep': 'Übermale Teile des Produkts, die entfernt wurden',
+  'cutout.hint.remove': 'Übermale Hintergrund, der stehen geblieben ist',
+  'cutout.brushSize': 'Pinselgröße',
+  'cutout.cutting': 'Wird freigestellt...',
+  'cutout.use': 'Freisteller verwenden',
+  'cutout.loadFailed': 'Das Produktfoto konnte nicht geladen werden.',
+  'cutout.segmentFailed': 'Die automatische Hintergrundentfernung ist fehlgeschlagen.',
+  'cutout.failed': 'Der Freisteller konnte nicht erstellt werden.',
+  'error.title.quota-zero': 'Modell für dieses Projekt deaktiviert',
+  'error.title.rate-limited': 'Ratenlimit erreicht',
+  'error.title.permission': 'Zugriff verweigert',
+  'error.title.model-not-found': 'Modell nicht verfügbar',
+  'error.title.auth': 'Problem mit dem API-Schlüssel',
+  'error.title.safety-blocked': 'Von Sicherheitsfiltern blockiert',
+  'error.title.text-only': 'Kein Bild zurückgegeben',
+  'error.title.network': 'Verbindungsproblem',
+  'error.title.unknown': 'Generierung fehlgeschlagen',
+  'error.action.retry': 'Erneut versuchen',
+  'error.action.reconnect': 'Konto neu verbinden',
+  'error.action.use-standard': 'Standardmodell verwenden',
+  'error.action.switchToStandard': 'Zu Standard wechseln',
+  'error.action.switchToPro': 'Zu Pro wechseln',
+  'error.action.open-usage': 'Nutzung ansehen',
+  'error.action.edit-brief': 'Briefing bearbeiten',
+  'error.action.rephrase': 'Sicher umformulieren & erneut versuchen',
+  'error.reason': 'Grund:',
+  'error.rephrasing': 'Beim Umformulieren wird angewendet: {changes}',
+  'logo.title': 'Logo-Platzierung',
+  'logo.mode.ai': 'KI-Komposition',
+  'logo.mode.overlay': 'Exaktes Overlay',
+  'logo.hint.ai': 'Das Modell malt das Logo auf das Produkt. Wirkt natürlich, kann es aber verzerren.',
+  'logo.hint.overlay': 'Die Szene wird ohne Logo generiert, dann wird deine Datei pixelgenau platziert.',
+  'logo.anchor.top-left': 'obere linke Ecke',
+  'logo.anchor.top-center': 'oberer Rand',
+  'logo.anchor.top-right': 'obere rechte Ecke',
+  'logo.anchor.middle-left': 'linker Rand',
+  'logo.anchor.center': 'Mitte',
+  'logo.anchor.middle-right': 'rechter Rand',
+  'logo.anchor.bottom-left': 'untere linke Ecke',
+  'logo.anchor.bottom-center': 'unterer Rand',
+  'logo.anchor.bottom-right': 'untere rechte Ecke',
+  'logo.forFormat': 'Für {format}',
+  'logo.reset': 'Zurücksetzen',
+  'logo.size': 'Größe: {percent} % der Breite',
+  'logo.opacity': 'Deckkraft: {percent} %',
+  'logo.margin': 'Sicherheitsabstand: {percent} %',
+  'mask.title': 'Bereich bearbeiten',
+  'mask.tool.brush': 'Pinsel',
+  'mask.tool.rectangle': 'Rechteck',
+  'mask.tool.lock': 'Schützen',
+  'mask.hint.brush': 'Male den Bereich, der sich ändern soll',
+  'mask.hint.rectangle': 'Ziehen, um einen Rahmen auszuwählen',
+  'mask.hint.lock': 'Maske radieren, um Produkt oder Logo zu schützen',
+  'mask.brushSize': 'Pinselgröße',
+  'mask.instruction': 'Was soll sich hier ändern? z. B. durch einen unscharfen Garten ersetzen',
+  'mask.clear': 'Leeren',
+  'mask.editing': 'Wird bearbeitet...',
+  'mask.apply': 'Auf Bereich anwenden',
+  'mask.imageAlt': 'Zu bearbeitendes Motiv',
+  'overlay.title': 'Overlay-Ebenen',
+  'overlay.done': 'Fertig',
+  'overlay.add.text': '+ Text',
+  'overlay.add.badge': '+ Preis-Badge',
+  'overlay.add.cta': '+ CTA-Button',
+  'overlay.add.logo': '+ Logo',
+  'overlay.logoFirst': 'Lade zuerst ein Markenlogo hoch',
+  'overlay.size': 'Größe',
+  'overlay.text': 'Text',
+  'overlay.fill': 'Füllung',
+  'overlay.logoWidth': 'Logobreite',
+  'overlay.remove': 'Ebene entfernen',
+  'overlay.hint': 'Füge eine Ebene hinzu und ziehe sie auf dem Bild. Klicke auf eine Ebene, um sie zu bearbeiten.',
+  'overlay.default.text': 'Deine Überschrift',
+  'overlay.default.cta': 'Jetzt kaufen',
+  'brief.presets': 'Voreinstellungen',
+  'brief.preset.summer-lifestyle': 'Sommer-Lifestyle',
+  'brief.preset.minimal-studio': 'Minimalistisches Studio',
+  'brief.preset.festive-cozy': 'Festlich gemütlich',
+  'brief.preset.luxury-dark': 'Dunkler Luxus',
+  'brief.preset.flat-lay': 'Flat Lay',
+  'brief.clear': 'Leeren',
+  'brief.field.scene': 'Szene / Hintergrund',
+  'brief.field.lighting': 'Licht',
+  'brief.field.mood': 'Stimmung',
+  'brief.field.season': 'Jahreszeit',
+  'brief.field.cameraAngle': 'Kamerawinkel',
+  'brief.field.productPlacement': 'Produktplatzierung',
+  'brief.field.logoPlacement': 'Logo-Platzierung',
+  'brief.any': 'Beliebig',
+  'brief.notes': 'Zusätzliche Hinweise',
+  'brief.notesPlaceholder': 'Z. B. ein paar Zitronenscheiben um die Flasche und leichter Nebel in der Luft...',
+  'brief.promptTemplate': 'Prompt-Vorlage',
+  'brief.hidePrompt': 'Prompt ausblenden',
+  'brief.previewPrompt': 'Prompt-Vorschau',
+  'refine.placeholder': 'Beschreibe eine Änderung, z. B. den Hintergrund wärmer machen',
+  'refine.refining': 'Wird verfeinert...',
+  'refine.refine': 'Verfeinern',
+  'refine.undo': 'Rückgängig',
+  'refine.redo': 'Wiederholen',
+  'refine.original': 'Original',
+  'refine.suggestion.warmer': 'Mach den Hintergrund wärmer',
+  'refine.suggestion.left': 'Schieb das Produkt nach links',
+  'refine.suggestion.morning': 'Füge weiches Morgenlicht hinzu',
+  'refine.suggestion.simplify': 'Vereinfache den Hintergrund',
+  'usage.title': 'Nutzung & Budget',
+  'usage.subtitle': 'Lokal in diesem Browser gezählt; das Kontingent der API kann abweichen.',
+  'usage.overBudget': 'Der nächste Lauf könnte dein Budget überschreiten',
+  'usage.rate': '{perMinute}/Min. • Burst {burst}',
+  'usage.callsToday': '{calls} / {limit} Aufrufe heute',
+  'usage.outcomes': '{successes} erfolgreich • {failures} fehlgeschlagen',
+  'usage.spentToday': 'Geschätzte Kosten heute',
+  'usage.lastDays': 'Letzte {count} Tage',
+  'usage.none': 'Noch keine Gemini-Aufrufe erfasst.',
+  'usage.day': 'Tag',
+  'usage.tierCalls': '{tier}-Aufrufe',
+  'usage.failures': 'Fehler',
+  'usage.cost': 'Gesch. Kosten',
+  'usage.tier.standard': 'Standard',
+  'usage.tier.pro': 'Pro',
+  'usage.tier.text': 'Text',
+  'usage.warning.calls': '{tier}: {planned} Aufruf(e) geplant, aber heute sind nur noch {remaining} von {limit} übrig.',
+  'usage.warning.cost': 'Die geschätzten Kosten von {cost} $ würden das heutige Budget von {budget} $ überschreiten.',
+  'variants.title': 'Varianten vergleichen',
+  'variants.subtitle': 'Markiere deine Favoriten und wähle dann einen Gewinner zum Weiterbearbeiten.',
+  'variants.showAll': 'Alle anzeigen',
+  'variants.starredOnly': 'Nur markierte ({count})',
+  'variants.imageAlt': 'Variante {id}',
+  'variants.unstar': 'Aus Favoriten entfernen',
+  'variants.star': 'Zu Favoriten hinzufügen',
+  'variants.original': 'Ursprüngliches Briefing',
+  'variants.pickWinner': 'Als Gewinner wählen',
+  'variants.mode.none': 'Gleiches Briefing',
+  'variants.mode.lighting': 'Licht variieren',
+  'variants.mode.background': 'Hintergrund variieren',
+  'variants.mode.both': 'Beides variieren',
+  'assets.partLabel': 'Bezeichnung, z. B. passender Deckel',
+  'assets.role.hero': 'Gleichrangig',
+  'assets.role.secondary': 'Nebenrolle',
+  'assets.partScale': 'Größe ggü. Hauptprodukt: {percent} %',
+  'errors.refine': 'Diese Änderung konnte nicht angewendet werden.',
+  'errors.region': 'Der ausgewählte Bereich konnte nicht bearbeitet werden.',
+  'errors.generation': 'Bei der Generierung ist etwas schiefgelaufen.',
+  'errors.publish': 'Veröffentlichung fehlgeschlagen.',
+  'errors.creativeGone': 'Das gewählte Motiv ist nicht mehr im Verlauf.',
+  'errors.queueBlocked': 'Dieses Motiv besteht die Compliance-Prüfungen für {profile} nicht. Behebe sie, bevor du es einplanst.',
+  'errors.saveFirst': 'Speichere das Motiv zuerst im Verlauf.',
+  'errors.queueIssues': '{issues} Richte die Konten unter „Veröffentlichen“ ein.',
+  'reminder.scheduledFor': 'Geplant für {time}',
+  'reminder.at': '{post} um {time}',
+  'reminder.openCalendar': 'Kalender öffnen',
+  'welcome.initializing': 'Visioncraft wird gestartet...',
+  'welcome.tagline': 'Professionelle KI-Marketingmotive',
+  'welcome.freeTitle': 'Für immer kostenlos',
+  'welcome.freeBody': 'Nutze das Standardmodell, um ansprechende Anzeigen ganz ohne Kosten zu erstellen.',
+  'welcome.secureTitle': 'Sicherer Zugang',
+  'welcome.secureBody': 'Verbinde dein Google-Konto, um API-Schlüssel sicher zu erzeugen.',
+  'welcome.connect': 'API-Schlüssel verbinden',
+  'welcome.missingTitle': 'API-Schlüssel fehlt',
+  'welcome.missingBody': 'Lege im Projektstamm eine {file}-Datei mit {line} an und starte neu.',
+  'loading.resumeQueue': 'Warteschlange fortsetzen',
+  'result.imageAlt': 'Generierte Anzeige',
+  'share.complete': 'Beitrag fertigstellen',
+  'share.new': 'Neuer Beitrag',
+  'share.downloaded': 'Bild auf das Gerät heruntergeladen',
+  'share.copied': 'Bildunterschrift in die Zwischenablage kopiert',
+  'share.openHint': 'Du kannst jetzt Instagram öffnen und deinen Beitrag erstellen.',
+  'share.openInstagram': 'Instagram.com öffnen',
+  'share.captionPlaceholder': 'Bildunterschrift schreiben...',
+  'share.now': 'Jetzt teilen',
+  'share.hint': 'Öffnet das Teilen-Menü oder lädt zum manuellen Posten herunter.',
+};
@@ -0,0 +1,552 @@
+// English is the source catalog and the fallback for keys a locale hasn't translated yet.
+// Placeholders in braces are filled by the translator.
+export const EN = {
+  'header.catalog': 'Catalog',
+  'header.campaigns': 'Campaigns',
+  'header.usage': 'Usage',
+  'header.jobs': 'Jobs',
+  'header.history': 'History ({count})',
+  'header.tagline': 'AI Marketing tool',
+  'header.language': 'Interface language',
+  'assets.title': '1. Brand Assets',
+  'assets.brandKit': 'Brand Kit',
+  'assets.manage': 'Manage',
+  'assets.noBrandKit': 'No brand kit',
+  'assets.product': 'Product Photo',
+  'assets.bundle': 'Bundle Products',
+  'assets.bundleHint': 'Extra items shown with the main product, e.g. a gift set.',
+  'assets.references': 'Mood References',
+  'assets.referencesHint': 'Used for palette, lighting and atmosphere only.',
+  'assets.logo': 'Brand Logo',
+  'config.title': '2. Configuration',
+  'config.model': 'Model Quality',
+  'config.standard': 'Standard (Free Forever)',
+  'config.pro': 'Pro',
+  'config.paid': 'PAID',
+  'config.proHint': '⚠️ Pro requires a Google Cloud project with billing enabled.',
+  'config.standardHint': 'Standard is 100% free with generous daily limits.',
+  'config.format': 'Format & Size',
+  'config.allFormatsOn': 'All Formats: On',
+  'config.allFormatsOff': 'All Formats: Off',
+  'config.batchHint': 'Formats are generated one at a time to stay within rate limits.',
+  'config.variants': 'Variants',
+  'config.variantsOff': 'Off',
+  'config.variantsBatchHint': 'Variants are unavailable while generating all formats.',
+  'config.retailer': 'Retailer Profile',
+  'config.retailerHint': "Every creative is checked against this retailer's rules before download.",
+  'config.market': 'Market',
+  'config.marketHint': 'Prices, copy language and restricted wording follow this market.',
+  'template.start': 'Start from a Template',
+  'template.change': 'Change Template',
+  'template.clear': "Stop adding this template's overlays",
+  'generate.busy': 'Generating Assets...',
+  'generate.formats': 'GENERATE {count} FORMATS',
+  'generate.variants': 'GENERATE {count} VARIANTS',
+  'generate.single': 'GENERATE ADVERTISEMENT',
+  'empty.title': 'Ready to Create',
+  'empty.body': 'Upload your product and logo, describe your vision, and let AI build your campaign.',
+  'loading.title': 'Designing your Ad...',
+  'loading.rateLimited': 'Rate limited',
+  'loading.paused': 'Queue paused',
+  'loading.waiting': 'Waiting for earlier jobs',
+  'loading.steps': 'Analyzing product • Composing layout • Applying lighting',
+  'result.download': 'Download Image',
+  'result.downloadBlocked': 'Resolve failing compliance checks to download',
+  'result.editRegion': 'Edit Region',
+  'result.editOverlays': 'Edit Overlays ({count})',
+  'result.addOverlays': 'Add Text & CTA',
+  'result.instagram': 'Post to Instagram',
+  'result.publish': 'Publish',
+  'result.publishBlocked': 'Resolve failing compliance checks to publish',
+  'result.shareBlocked': 'Resolve failing compliance checks to share',
+  'result.markets': 'Markets',
+  'result.backToFormats': 'Back to All Formats',
+  'result.backToVariants': 'Back to Variants',
+  'result.newDesign': 'New Design',
+  'common.open': 'Open',
+  'common.duplicate': 'Duplicate',
+  'common.delete': 'Delete',
+  'common.retry': 'Retry',
+  'common.cancel': 'Cancel',
+  'common.close': 'Close',
+  'common.save': 'Save',
+  'common.apply': 'Apply',
+  'common.remove': 'Remove',
+  'common.queued': 'Queued',
+  'common.stop': 'Stop',
+  'common.resume': 'Resume',
+  'history.title': 'History',
+  'history.count.one': '{count} saved generation',
+  'history.count.other': '{count} saved generations',
+  'history.empty': 'Generated creatives are saved here automatically.',
+  'history.rerun': 'Re-run',
+  'batch.title': 'All Formats',
+  'batch.progress': '{done}/{total} ready',
+  'batch.failed': '{count} failed',
+  'batch.attempt': 'Attempt {count}',
+  'batch.imageAlt': 'Generated ad {format}',
+  'batch.review': 'Review & Download',
+  'compliance.title': 'Compliance',
+  'compliance.pass': 'Pass',
+  'compliance.warn': 'Review',
+  'compliance.fail': 'Fail',
+  'compliance.checking': 'Checking...',
+  'compliance.hideSafeZone': 'Hide Safe Zone',
+  'compliance.showSafeZone': 'Show Safe Zone',
+  'compliance.blocked': 'Download is disabled until all failing checks are resolved.',
+  'compliance.rule.min-dimensions': 'Minimum dimensions',
+  'compliance.rule.aspect-ratio': 'Placement aspect ratio',
+  'compliance.rule.safe-zone': 'Safe-zone margins',
+  'compliance.rule.logo-required': 'Brand logo',
+  'compliance.rule.banned-words': 'Restricted wording',
+  'compliance.rule.market-wording': 'Market wording',
+  'compliance.rule.file-size': 'File size',
+  'compliance.dimensions.pass': '{width}×{height}px meets {minWidth}×{minHeight}px.',
+  'compliance.dimensions.fail': '{width}×{height}px is below the required {minWidth}×{minHeight}px.',
+  'compliance.ratio.pass': 'Matches {ratio}.',
+  'compliance.ratio.fail': 'Image is {width}×{height}px, which does not match {ratio}.',
+  'compliance.safeZone.fail': '{layers} extend outside the safe zone.',
+  'compliance.safeZone.warn': 'Keep key content inside top {top}, right {right}, bottom {bottom}, left {left} margins. Review with the safe-zone overlay.',
+  'compliance.logo.pass': 'Brand logo supplied for this creative.',
+  'compliance.logo.fail': '{retailer} requires a brand logo. Upload one and regenerate.',
+  'compliance.logo.optional': 'Logo is optional for this retailer.',
+  'compliance.logoLayer': 'Logo',
+  'compliance.wording.pass': 'No restricted words found in brief or caption.',
+  'compliance.wording.caption': 'Caption contains restricted wording: {words}.',
+  'compliance.wording.brief': 'Brief contains restricted wording: {words}.',
+  'compliance.market.fail': '{words} is restricted in {market} without substantiation.',
+  'compliance.market.pass': 'No restricted claims for {market}; disclosure label present.',
+  'compliance.market.warn': 'No restricted claims for {market}. Paid partnership posts must be labelled {labels}.',
+  'compliance.fileSize.pass': '{size} KB is within the {limit} KB limit.',
+  'compliance.fileSize.warn': '{size} KB exceeds the {limit} KB limit. Export compresses it to fit.',
+  'format.1:1': 'Instagram Post (1:1)',
+  'format.9:16': 'Instagram Story (9:16)',
+  'format.16:9': 'Facebook Post (16:9)',
+  'format.3:4': 'Feed Portrait (3:4)',
+  'format.4:3': 'Display Landscape (4:3)',
+  'copy.platform.instagram-post': 'Instagram Post',
+  'copy.platform.instagram-story': 'Instagram Story',
+  'copy.platform.facebook': 'Facebook',
+  'copy.tone.friendly': 'Friendly',
+  'copy.tone.bold': 'Bold',
+  'copy.tone.premium': 'Premium',
+  'copy.tone.playful': 'Playful',
+  'copy.length.short': 'Short',
+  'copy.length.long': 'Long',
+  'copy.writing': 'Writing...',
+  'copy.write': 'Write Copy',
+  'copy.failed': 'Failed to write copy.',
+  'copy.caption': 'Caption',
+  'copy.limits': 'headline {headline}, body {body}, {hashtags} hashtags max',
+  'copy.altText': 'Alt text:',
+  'copy.copyAltText': 'Copy Alt Text',
+  'copy.useCaption': 'Use as Caption',
+  'copy.issue.empty': 'Add a headline or body text.',
+  'copy.issue.length': '{field} is {length} characters; {placement} allows {max}.',
+  'copy.issue.hashtags': '{count} hashtags; {placement} allows {max}.',
+  'copy.issue.field.headline': 'Headline',
+  'copy.issue.field.body': 'Body',
+  'copy.issue.field.altText': 'Alt text',
+  'copy.issue.field.caption': 'Full caption',
+  'jobs.title': 'Jobs',
+  'jobs.pending': '{count} pending',
+  'jobs.queuePaused': 'queue paused',
+  'jobs.resumeQueue': 'Resume Queue',
+  'jobs.pauseQueue': 'Pause Queue',
+  'jobs.clearFinished': 'Clear Finished',
+  'jobs.empty': 'Generations are queued here and survive page reloads.',
+  'jobs.attempt': 'attempt {count}',
+  'jobs.retryIn': 'Retry in {seconds}s',
+  'jobs.retrying': 'Retrying…',
+  'jobs.status.queued': 'Queued',
+  'jobs.status.running': 'Running',
+  'jobs.status.backing-off': 'Backing off',
+  'jobs.status.failed': 'Failed',
+  'jobs.status.done': 'Done',
+  'jobs.status.cancelled': 'Cancelled',
+  'common.standard': 'Standard',
+  'common.or': 'or',
+  'export.title': 'Export Creative',
+  'export.size': 'Size',
+  'export.original': 'Original ({ratio})',
+  'export.format': 'Format',
+  'export.maxSize': 'Max file size',
+  'export.noLimit': 'No limit',
+  'export.quality': 'Quality: {percent}%',
+  'export.qualityHint': 'Lowered automatically if needed to meet the size limit.',
+  'export.metadata': 'Embed metadata',
+  'export.metadataHint': 'Brief, model, timestamp as XMP.',
+  'export.metadataHintBrand': 'Brief, model, timestamp and brand ({brand}) as XMP.',
+  'export.resultQuality': 'quality {percent}%',
+  'export.failed': 'Export failed.',
+  'export.exporting': 'Exporting...',
+  'export.download': 'Download',
+  'export.warning.tooLarge': 'Could not get below {target}; the file is {size}. Try JPEG or WebP.',
+  'export.warning.scaled': 'Scaled down to {width}×{height} to meet the size limit.',
+  'export.warning.format': "This browser can't encode {requested}; exported as {actual}.",
+  'export.warning.metadata': 'Metadata was too large to embed and was left out.',
+  'publish.title': 'Publish',
+  'publish.destinations': 'Destinations',
+  'publish.connector.instagram': 'Business or creator account via the Instagram Graph API.',
+  'publish.connector.facebook': 'Photo post on a page you manage.',
+  'publish.connector.pinterest': 'Pin to a board with the Pinterest API v5.',
+  'publish.connector.webhook': 'POSTs the image and post details to your own endpoint (Zapier, Make, a CMS...).',
+  'publish.connector.mock': 'Test target; start it with "npm run mock:publish" ({endpoint}).',
+  'publish.field.accessToken': 'Access token',
+  'publish.field.targetId': 'Account ID',
+  'publish.field.pageId': 'Linked Facebook page ID',
+  'publish.field.endpoint': 'Endpoint URL',
+  'publish.target.instagram': 'Instagram account ID',
+  'publish.target.facebook': 'Page ID',
+  'publish.target.pinterest': 'Board ID',
+  'publish.optional': '(optional)',
+  'publish.modeRemote': 'Scheduled on the platform.',
+  'publish.modeLocal': 'Held in this browser; keep Visioncraft open at the scheduled time.',
+  'publish.settings': 'Settings',
+  'publish.setUp': 'Set up',
+  'publish.storedLocally': 'Stored only in this browser.',
+  'publish.post': 'Post',
+  'publish.postTitle': 'Title',
+  'publish.postTitleHint': '(Pinterest, webhook)',
+  'publish.caption': 'Caption',
+  'publish.characters': '({count} characters)',
+  'publish.altText': 'Alt text',
+  'publish.link': 'Link',
+  'publish.linkHint': '(Pinterest destination)',
+  'publish.schedule': 'Schedule',
+  'publish.scheduleHint': '(leave empty to post now)',
+  'publish.clear': 'Clear',
+  'publish.pastTime': 'The scheduled time has passed; posts will go out now.',
+  'publish.failed': 'Failed to queue the post.',
+  'publish.scheduleAction': 'Schedule',
+  'publish.publishNow': 'Publish Now',
+  'publish.thisCreative': 'This Creative',
+  'publish.onPlatform': '(on platform)',
+  'publish.view': 'View',
+  'publish.status.queued': 'Queued',
+  'publish.status.scheduled': 'Scheduled',
+  'publish.status.publishing': 'Publishing',
+  'publish.status.published': 'Published',
+  'publish.status.failed': 'Failed',
+  'publish.status.cancelled': 'Cancelled',
+  'publish.status.due': 'Scheduled on platform — due',
+  'publish.issue.missing': '{connector}: add {fields}.',
+  'publish.issue.caption': '{connector}: caption is {length} characters; the limit is {limit}.',
+  'publish.issue.hashtags': '{connector}: {count} hashtags; the limit is {limit}.',
+  'campaign.title': 'Campaigns',
+  'campaign.today': 'Today',
+  'campaign.enableReminders': 'Enable desktop reminders',
+  'campaign.exportIcs': 'Export .ics',
+  'campaign.packing': 'Packing...',
+  'campaign.downloadZip': 'Download ZIP',
+  'campaign.new': '+ New campaign',
+  'campaign.launch': 'Launch',
+  'campaign.channels': 'Channels',
+  'campaign.formats': 'Formats',
+  'campaign.notesPlaceholder': 'Goals, audience, offer...',
+  'campaign.delete': 'Delete campaign',
+  'campaign.planHint': 'Double-click a day to plan a post for {name}. Drag posts to reschedule.',
+  'campaign.createHint': 'Create a campaign to start planning.',
+  'campaign.post': 'Post',
+  'campaign.creative': 'Creative',
+  'campaign.notChosen': 'Not chosen yet',
+  'campaign.useCreative': 'Use the creative on screen',
+  'campaign.caption': 'Caption',
+  'campaign.useCaption': 'Use the current caption',
+  'campaign.notesForTeam': 'Notes for the team',
+  'campaign.reminder.none': 'No reminder',
+  'campaign.reminder.15': '15 minutes before',
+  'campaign.reminder.60': '1 hour before',
+  'campaign.reminder.1440': '1 day before',
+  'campaign.schedule': 'Schedule Publishing',
+  'campaign.removePost': 'Remove post',
+  'campaign.zipFailed': 'Failed to build the campaign archive.',
+  'campaign.planPost': 'Plan a post',
+  'campaign.status.planned': 'Needs creative',
+  'campaign.status.ready': 'Ready',
+  'template.title': 'Templates',
+  'template.importJson': 'Import JSON',
+  'template.exportAll': 'Export All',
+  'template.export': 'Export',
+  'template.category.seasonal': 'Seasonal',
+  'template.category.promotional': 'Promotional',
+  'template.category.launch': 'Launch',
+  'template.category.custom': 'Custom',
+  'template.applied': 'Applied',
+  'template.saveHint': 'Save the current brief, formats and overlays as a template.',
+  'template.namePlaceholder': 'Template name',
+  'template.untitled': 'Untitled template',
+  'template.saveCurrent': 'Save current setup',
+  'template.summary': 'Summary',
+  'template.description': 'Description',
+  'template.placeholders': 'Use {tokens} or {brand} as placeholders.',
+  'template.brief': 'Brief',
+  'template.formats': 'Recommended formats',
+  'template.slots': 'Overlay slots',
+  'template.noOverlays': 'No overlays.',
+  'template.brandLogo': 'Brand logo',
+  'template.brandColor': '{role} color',
+  'template.brandFont': 'brand font',
+  'template.selectBrandKit': 'Select a brand kit to use its colors and fonts.',
+  'template.token.price': 'Price',
+  'template.token.discount': 'Discount',
+  'template.token.code': 'Promo code',
+  'template.apply': 'Apply Template',
+  'template.imported': 'Imported {count} template(s).',
+  'market.title': 'Market Variants',
+  'market.subtitle': 'Translates the overlays and caption of this creative from {market} ({language}).',
+  'market.disclosure': 'Paid partnerships labelled {label}',
+  'market.price': 'Price ({currency})',
+  'market.discount': 'Discount',
+  'market.keepsPrice': 'Stays {price} until you enter a {currency} price',
+  'market.shownAs': 'Shown as {value}',
+  'market.translating': 'Translating...',
+  'market.create': 'Create {count} Variant(s)',
+  'market.savedHint': 'Variants are saved to history with their caption, ready to export, publish or plan.',
+  'market.status.translating': 'Translating',
+  'market.status.done': 'Ready',
+  'market.status.failed': 'Failed',
+  'market.failed': 'Translation failed.',
+  'market.issue.restricted': '"{word}" is restricted in {market}.',
+  'market.issue.price': 'The price stays at {price}; enter a {currency} price to show one in {market}.',
+  'upload.optional': 'Optional',
+  'upload.optimizing': 'Optimizing image…',
+  'upload.optimizingShort': 'Optimizing…',
+  'upload.preview': 'Preview',
+  'upload.change': 'Change',
+  'upload.click': 'Click to Upload',
+  'upload.editCutout': 'Edit Cutout',
+  'upload.removeBackground': 'Remove Background',
+  'upload.restoreOriginal': 'Restore Original',
+  'upload.addImages': '+ Add Images',
+  'upload.failed': 'Could not process this image.',
+  'upload.failedFile': 'Could not process {name}.',
+  'upload.settings': 'Upload settings',
+  'upload.auto': 'Auto',
+  'upload.crop': 'crop {ratio}',
+  'upload.maxSize': 'Max size',
+  'upload.format': 'Format',
+  'upload.autoFormat': 'Auto (PNG if transparent)',
+  'upload.cropProduct': 'Crop product',
+  'upload.original': 'Original',
+  'upload.quality': 'Quality: {percent}%',
+  'catalog.title': 'Catalog Import',
+  'catalog.subtitle': 'CSV or JSON with SKU, name, price, image file, brief and formats columns.',
+  'catalog.closeAndStop': 'Close and stop the run',
+  'catalog.file': '1. Catalog file',
+  'catalog.chooseFile': 'Choose a .csv or .json file',
+  'catalog.images': '2. Product images',
+  'catalog.imagesMatched': '{count} image(s) • {matched}/{total} rows matched',
+  'catalog.dropImages': 'Drop images here or pick a folder',
+  'catalog.pickFolder': 'Pick Folder',
+  'catalog.pickFiles': 'Pick Files',
+  'catalog.empty': 'Import a catalog to see its products here.',
+  'catalog.sku': 'SKU',
+  'catalog.product': 'Product',
+  'catalog.image': 'Image',
+  'catalog.formats': 'Formats',
+  'catalog.notFound': '{file} not found',
+  'catalog.progress': '{completed}/{total} creatives ready',
+  'catalog.progressFailed': '{failed} failed',
+  'catalog.readyToGenerate': '{count} product(s) ready to generate',
+  'catalog.retryFailed': 'Retry Failed',
+  'catalog.exportZip': 'Export ZIP',
+  'catalog.stop': 'Stop',
+  'catalog.generating': 'Generating…',
+  'catalog.resume': 'Resume',
+  'catalog.generateAll': 'Generate All',
+  'catalog.readFailed': 'Could not read this catalog file.',
+  'brandKit.title': 'Brand Kits',
+  'brandKit.new': '+ New Brand',
+  'brandKit.name': 'Name',
+  'brandKit.logos': 'Logos',
+  'brandKit.palette': 'Palette',
+  'brandKit.addColor': '+ Color',
+  'brandKit.fonts': 'Fonts (comma separated)',
+  'brandKit.tone': 'Tone of voice',
+  'brandKit.tonePlaceholder': 'Warm, premium, understated...',
+  'brandKit.forbidden': 'Forbidden styles (comma separated)',
+  'brandKit.forbiddenPlaceholder': 'neon, cartoon, grunge',
+  'brandKit.save': 'Save Brand Kit',
+  'brandKit.empty': 'Create a brand kit to reuse logos, colors and tone across sessions.',
+  'cutout.title': 'Remove Background',
+  'cutout.subtitle': 'Runs locally in your browser. Works best on plain or studio backdrops.',
+  'cutout.tolerance': 'Background tolerance',
+  'cutout.toleranceHint': 'Higher removes more. Changing it discards brush edits.',
+  'cutout.tool.keep': 'Keep',
+  'cutout.tool.remove': 'Remove',
+  'cutout.hint.keep': 'Paint over parts of the product that were removed',
+  'cutout.hint.remove': 'Paint over background that was left behind',
+  'cutout.brushSize': 'Brush size',
+  'cutout.cutting': 'Cutting out...',
+  'cutout.use': 'Use Cutout',
+  'cutout.loadFailed': 'Failed to load the product photo.',
+  'cutout.segmentFailed': 'Automatic background removal failed.',
+  'cutout.failed': 'Failed to create the cutout.',
+  'error.title.quota-zero': 'Model Disabled For This Project',
+  'error.title.rate-limited': 'Rate Limit Reached',
+  'error.title.permission': 'Permission Denied',
+  'error.title.model-not-found': 'Model Not Available',
+  'error.title.auth': 'API Key Problem',
+  'error.title.safety-blocked': 'Blocked By Safety Filters',
+  'error.title.text-only': 'No Image Returned',
+  'error.title.network': 'Connection Problem',
+  'error.title.unknown': 'Generation Failed',
+  'error.action.retry': 'Try Again',
+  'error.action.reconnect': 'Reconnect Account',
+  'error.action.use-standard': 'Use Standard Model',
+  'error.action.switchToStandard': 'Switch to Standard',
+  'error.action.switchToPro': 'Switch to Pro',
+  'error.action.open-usage': 'View Usage',
+  'error.action.edit-brief': 'Edit Brief',
+  'error.action.rephrase': 'Rephrase Safely & Retry',
+  'error.reason': 'Reason:',
+  'error.rephrasing': 'Rephrasing will apply: {changes}',
+  'logo.title': 'Logo Placement',
+  'logo.mode.ai': 'AI Composite',
+  'logo.mode.overlay': 'Exact Overlay',
+  'logo.hint.ai': 'The model paints the logo onto the product. Looks natural, but may distort it.',
+  'logo.hint.overlay': 'The scene is generated without the logo, then your file is placed pixel-exact.',
+  'logo.anchor.top-left': 'top-left corner',
+  'logo.anchor.top-center': 'top edge',
+  'logo.anchor.top-right': 'top-right corner',
+  'logo.anchor.middle-left': 'left edge',
+  'logo.anchor.center': 'center',
+  'logo.anchor.middle-right': 'right edge',
+  'logo.anchor.bottom-left': 'bottom-left corner',
+  'logo.anchor.bottom-center': 'bottom edge',
+  'logo.anchor.bottom-right': 'bottom-right corner',
+  'logo.forFormat': 'For {format}',
+  'logo.reset': 'Reset',
+  'logo.size': 'Size: {percent}% of width',
+  'logo.opacity': 'Opacity: {percent}%',
+  'logo.margin': 'Safe margin: {percent}%',
+  'mask.title': 'Edit Region',
+  'mask.tool.brush': 'Brush',
+  'mask.tool.rectangle': 'Rectangle',
+  'mask.tool.lock': 'Lock',
+  'mask.hint.brush': 'Paint the area to change',
+  'mask.hint.rectangle': 'Drag to select a box',
+  'mask.hint.lock': 'Erase mask to protect product or logo',
+  'mask.brushSize': 'Brush size',
+  'mask.instruction': 'What should change here? e.g. replace with a blurred garden',
+  'mask.clear': 'Clear',
+  'mask.editing': 'Editing...',
+  'mask.apply': 'Apply to Region',
+  'mask.imageAlt': 'Creative to edit',
+  'overlay.title': 'Overlay Layers',
+  'overlay.done': 'Done',
+  'overlay.add.text': '+ Text',
+  'overlay.add.badge': '+ Price Badge',
+  'overlay.add.cta': '+ CTA Button',
+  'overlay.add.logo': '+ Logo',
+  'overlay.logoFirst': 'Upload a brand logo first',
+  'overlay.size': 'Size',
+  'overlay.text': 'Text',
+  'overlay.fill': 'Fill',
+  'overlay.logoWidth': 'Logo width',
+  'overlay.remove': 'Remove Layer',
+  'overlay.hint': 'Add a layer, then drag it on the image. Click a layer to edit it.',
+  'overlay.default.text': 'Your Headline',
+  'overlay.default.cta': 'Shop Now',
+  'brief.presets': 'Presets',
+  'brief.preset.summer-lifestyle': 'Summer Lifestyle',
+  'brief.preset.minimal-studio': 'Minimal Studio',
+  'brief.preset.festive-cozy': 'Festive Cozy',
+  'brief.preset.luxury-dark': 'Luxury Dark',
+  'brief.preset.flat-lay': 'Flat Lay',
+  'brief.clear': 'Clear',
+  'brief.field.scene': 'Scene / Background',
+  'brief.field.lighting': 'Lighting',
+  'brief.field.mood': 'Mood',
+  'brief.field.season': 'Season',
+  'brief.field.cameraAngle': 'Camera Angle',
+  'brief.field.productPlacement': 'Product Placement',
+  'brief.field.logoPlacement': 'Logo Placement',
+  'brief.any': 'Any',
+  'brief.notes': 'Extra Notes',
+  'brief.notesPlaceholder': 'E.g., Add a few sliced lemons around the bottle and a light mist in the air...',
+  'brief.promptTemplate': 'Prompt Template',
+  'brief.hidePrompt': 'Hide Prompt',
+  'brief.previewPrompt': 'Preview Prompt',
+  'refine.placeholder': 'Describe an edit, e.g. make the background warmer',
+  'refine.refining': 'Refining...',
+  'refine.refine': 'Refine',
+  'refine.undo': 'Undo',
+  'refine.redo': 'Redo',
+  'refine.original': 'Original',
+  'refine.suggestion.warmer': 'Make the background warmer',
+  'refine.suggestion.left': 'Move the product to the left',
+  'refine.suggestion.morning': 'Add soft morning light',
+  'refine.suggestion.simplify': 'Simplify the background',
+  'usage.title': 'Usage & Budget',
+  'usage.subtitle': "Counted locally in this browser; the API's own quota may differ.",
+  'usage.overBudget': 'The next run may exceed your budget',
+  'usage.rate': '{perMinute}/min • burst {burst}',
+  'usage.callsToday': '{calls} / {limit} calls today',
+  'usage.outcomes': '{successes} succeeded • {failures} failed',
+  'usage.spentToday': 'Estimated spend today',
+  'usage.lastDays': 'Last {count} days',
+  'usage.none': 'No Gemini calls recorded yet.',
+  'usage.day': 'Day',
+  'usage.tierCalls': '{tier} calls',
+  'usage.failures': 'Failures',
+  'usage.cost': 'Est. cost',
+  'usage.tier.standard': 'Standard',
+  'usage.tier.pro': 'Pro',
+  'usage.tier.text': 'Text',
+  'usage.warning.calls': '{tier}: {planned} call(s) planned but only {remaining} of {limit} left today.',
+  'usage.warning.cost': "Estimated cost ${cost} would exceed today's ${budget} budget.",
+  'variants.title': 'Compare Variants',
+  'variants.subtitle': 'Star your favourites, then pick a winner to continue editing.',
+  'variants.showAll': 'Show All',
+  'variants.starredOnly': 'Starred Only ({count})',
+  'variants.imageAlt': 'Variant {id}',
+  'variants.unstar': 'Remove from favourites',
+  'variants.star': 'Add to favourites',
+  'variants.original': 'Original brief',
+  'variants.pickWinner': 'Pick Winner',
+  'variants.mode.none': 'Same brief',
+  'variants.mode.lighting': 'Vary lighting',
+  'variants.mode.background': 'Vary background',
+  'variants.mode.both': 'Vary both',
+  'assets.partLabel': 'Label, e.g. matching lid',
+  'assets.role.hero': 'Co-hero',
+  'assets.role.secondary': 'Secondary',
+  'assets.partScale': 'Size vs. main product: {percent}%',
+  'errors.refine': 'Failed to apply this edit.',
+  'errors.region': 'Failed to edit the selected region.',
+  'errors.generation': 'Something went wrong during generation.',
+  'errors.publish': 'Publishing failed.',
+  'errors.creativeGone': 'The chosen creative is no longer in history.',
+  'errors.queueBlocked': 'This creative fails {profile} compliance checks. Fix them before queueing it.',
+  'errors.saveFirst': 'Save the creative to history first.',
+  'errors.queueIssues': '{issues} Set up accounts under Publish.',
+  'reminder.scheduledFor': 'Scheduled for {time}',
+  'reminder.at': '{post} at {time}',
+  'reminder.openCalendar': 'Open calendar',
+  'welcome.initializing': 'Initializing Visioncraft...',
+  'welcome.tagline': 'Professional AI Marketing Assets',
+  'welcome.freeTitle': 'Free Forever',
+  'welcome.freeBody': 'Use the Standard model to generate aesthetic ads without any cost.',
+  'welcome.secureTitle': 'Secure Access',
+  'welcome.secureBody': 'Connect with your Google account to generate API keys securely.',
+  'welcome.connect': 'Connect API Key',
+  'welcome.missingTitle': 'API Key Missing',
+  'welcome.missingBody': 'Create a {file} file in your project root with {line} and restart.',
+  'loading.resumeQueue': 'Resume Queue',
+  'result.imageAlt': 'Generated Ad',
+  'share.complete': 'Complete Your Post',
+  'share.new': 'New Post',
+  'share.downloaded': 'Image downloaded to device',
+  'share.copied': 'Caption copied to clipboard',
+  'share.openHint': 'You can now open Instagram and create your post.',
+  'share.openInstagram': 'Open Instagram.com',
+  'share.captionPlaceholder': 'Write a caption...',
+  'share.now': 'Share Now',
+  'share.hint': 'Opens native sharing or downloads for manual posting.',
+};
+
+export type MessageKey = keyof typeof EN;
+
+export type Catalog = Partial<Record<MessageKey, string>>;
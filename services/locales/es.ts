@@ -0,0 +1,548 @@
+import { Catalog } from "./en";
+
+export const ES: Catalog = {
+  'header.catalog': 'Catálogo',
+  'header.campaigns': 'Campañas',
+  'header.usage': 'Consumo',
+  'header.jobs': 'Tareas',
+  'header.history': 'Historial ({count})',
+  'header.tagline': 'Herramienta de marketing con IA',
+  'header.language': 'Idioma de la interfaz',
+  'assets.title': '1. Recursos de marca',
+  'assets.brandKit': 'Kit de marca',
+  'assets.manage': 'Gestionar',
+  'assets.noBrandKit': 'Sin kit de marca',
+  'assets.product': 'Foto del producto',
+  'assets.bundle': 'Productos del pack',
+  'assets.bundleHint': 'Artículos que acompañan al producto principal, p. ej. un set de regalo.',
+  'assets.references': 'Referencias de ambiente',
+  'assets.referencesHint': 'Solo para paleta, iluminación y ambiente.',
+  'assets.logo': 'Logotipo de la marca',
+  'config.title': '2. Configuración',
+  'config.model': 'Calidad del modelo',
+  'config.standard': 'Estándar (gratis)',
+  'config.pro': 'Pro',
+  'config.paid': 'DE PAGO',
+  'config.proHint': '⚠️ Pro requiere un proyecto de Google Cloud con la facturación activada.',
+  'config.standardHint': 'Estándar es totalmente gratis, con límites diarios generosos.',
+  'config.format': 'Formato y tamaño',
+  'config.allFormatsOn': 'Todos los formatos: sí',
+  'config.allFormatsOff': 'Todos los formatos: no',
+  'config.batchHint': 'Los formatos se generan de uno en uno para respetar los límites de uso.',
+  'config.variants': 'Variantes',
+  'config.variantsOff': 'No',
+  'config.variantsBatchHint': 'Las variantes no están disponibles al generar todos los formatos.',
+  'config.retailer': 'Perfil de minorista',
+  'config.retailerHint': 'Cada creatividad se revisa con las reglas de este minorista antes de descargarla.',
+  'config.market': 'Mercado',
+  'config.marketHint': 'Los precios, el idioma de los textos y las expresiones restringidas siguen este mercado.',
+  'template.start': 'Empezar con una plantilla',
+  'template.change': 'Cambiar plantilla',
+  'template.clear': 'Dejar de añadir las capas de esta plantilla',
+  'generate.busy': 'Generando recursos...',
+  'generate.formats': 'GENERAR {count} FORMATOS',
+  'generate.variants': 'GENERAR {count} VARIANTES',
+  'generate.single': 'GENERAR ANUNCIO',
+  'empty.title': 'Listo para crear',
+  'empty.body': 'Sube tu producto y tu logotipo, describe tu idea y deja que la IA construya tu campaña.',
+  'loading.title': 'Diseñando tu anuncio...',
+  'loading.rateLimited': 'Límite de uso alcanzado',
+  'loading.paused': 'Cola en pausa',
+  'loading.waiting': 'Esperando tareas anteriores',
+  'loading.steps': 'Analizando el producto • Componiendo • Aplicando iluminación',
+  'result.download': 'Descargar imagen',
+  'result.downloadBlocked': 'Resuelve las comprobaciones de cumplimiento fallidas para descargar',
+  'result.editRegion': 'Editar zona',
+  'result.editOverlays': 'Editar capas ({count})',
+  'result.addOverlays': 'Añadir texto y CTA',
+  'result.instagram': 'Publicar en Instagram',
+  'result.publish': 'Publicar',
+  'result.publishBlocked': 'Resuelve las comprobaciones de cumplimiento fallidas para publicar',
+  'result.shareBlocked': 'Resuelve las comprobaciones de cumplimiento fallidas para compartir',
+  'result.markets': 'Mercados',
+  'result.backToFormats': 'Volver a todos los formatos',
+  'result.backToVariants': 'Volver a las variantes',
+  'result.newDesign': 'Nuevo diseño',
+  'common.open': 'Abrir',
+  'common.duplicate': 'Duplicar',
+  'common.delete': 'Eliminar',
+  'common.retry': 'Reintentar',
+  'common.cancel': 'Cancelar',
+  'common.close': 'Cerrar',
+  'common.save': 'Guardar',
+  'common.apply': 'Aplicar',
+  'common.remove': 'Quitar',
+  'common.queued': 'En cola',
+  'common.stop': 'Detener',
+  'common.resume': 'Reanudar',
+  'history.title': 'Historial',
+  'history.count.one': '{count} generación guardada',
+  'history.count.other': '{count} generaciones guardadas',
+  'history.empty': 'Las creatividades generadas se guardan aquí automáticamente.',
+  'history.rerun': 'Volver a generar',
+  'batch.title': 'Todos los formatos',
+  'batch.progress': '{done}/{total} listos',
+  'batch.failed': '{count} fallidos',
+  'batch.attempt': 'Intento {count}',
+  'batch.imageAlt': 'Anuncio generado {format}',
+  'batch.review': 'Revisar y descargar',
+  'compliance.title': 'Cumplimiento',
+  'compliance.pass': 'Correcto',
+  'compliance.warn': 'Revisar',
+  'compliance.fail': 'Fallido',
+  'compliance.checking': 'Comprobando...',
+  'compliance.hideSafeZone': 'Ocultar zona segura',
+  'compliance.showSafeZone': 'Mostrar zona segura',
+  'compliance.blocked': 'La descarga está desactivada hasta que se resuelvan todas las comprobaciones fallidas.',
+  'compliance.rule.min-dimensions': 'Dimensiones mínimas',
+  'compliance.rule.aspect-ratio': 'Relación de aspecto de la ubicación',
+  'compliance.rule.safe-zone': 'Márgenes de la zona segura',
+  'compliance.rule.logo-required': 'Logotipo de marca',
+  'compliance.rule.banned-words': 'Expresiones restringidas',
+  'compliance.rule.market-wording': 'Expresiones del mercado',
+  'compliance.rule.file-size': 'Tamaño del archivo',
+  'compliance.dimensions.pass': '{width}×{height} px cumple {minWidth}×{minHeight} px.',
+  'compliance.dimensions.fail': '{width}×{height} px está por debajo de los {minWidth}×{minHeight} px requeridos.',
+  'compliance.ratio.pass': 'Coincide con {ratio}.',
+  'compliance.ratio.fail': 'La imagen mide {width}×{height} px y no coincide con {ratio}.',
+  'compliance.safeZone.fail': '{layers} se salen de la zona segura.',
+  'compliance.safeZone.warn': 'Mantén el contenido clave dentro de los márgenes: arriba {top}, derecha {right}, abajo {bottom}, izquierda {left}. Revísalo con la zona segura superpuesta.',
+  'compliance.logo.pass': 'Logotipo de marca incluido en esta creatividad.',
+  'compliance.logo.fail': '{retailer} exige un logotipo de marca. Sube uno y vuelve a generar.',
+  'compliance.logo.optional': 'El logotipo es opcional para este minorista.',
+  'compliance.logoLayer': 'Logotipo',
+  'compliance.wording.pass': 'No hay términos restringidos en el briefing ni en el texto del post.',
+  'compliance.wording.caption': 'El texto del post contiene expresiones restringidas: {words}.',
+  'compliance.wording.brief': 'El briefing contiene expresiones restringidas: {words}.',
+  'compliance.market.fail': '{words} está restringido en {market} sin justificación.',
+  'compliance.market.pass': 'Sin afirmaciones restringidas para {market}; etiqueta publicitaria presente.',
+  'compliance.market.warn': 'Sin afirmaciones restringidas para {market}. Las colaboraciones pagadas deben etiquetarse con {labels}.',
+  'compliance.fileSize.pass': '{size} KB está dentro del límite de {limit} KB.',
+  'compliance.fileSize.warn': '{size} KB supera el límite de {limit} KB. La exportación lo comprime para que quepa.',
+  'format.1:1': 'Publicación de Instagram (1:1)',
+  'format.9:16': 'Historia de Instagram (9:16)',
+  'format.16:9': 'Publicación de Facebook (16:9)',
+  'format.3:4': 'Vertical para feed (3:4)',
+  'format.4:3': 'Display horizontal (4:3)',
+  'copy.platform.instagram-post': 'Publicación de Instagram',
+  'copy.platform.instagram-story': 'Historia de Instagram',
+  'copy.platform.facebook': 'Facebook',
+  'copy.tone.friendly': 'Cercano',
+  'copy.tone.bold': 'Atrevido',
+  'copy.tone.premium': 'Premium',
+  'copy.tone.playful': 'Divertido',
+  'copy.length.short': 'Corto',
+  'copy.length.long': 'Largo',
+  'copy.writing': 'Escribiendo...',
+  'copy.write': 'Escribir texto',
+  'copy.failed': 'No se pudo escribir el texto.',
+  'copy.caption': 'Texto del post',
+  'copy.limits': 'titular {headline}, cuerpo {body}, máx. {hashtags} hashtags',
+  'copy.altText': 'Texto alternativo:',
+  'copy.copyAltText': 'Copiar texto alternativo',
+  'copy.useCaption': 'Usar como texto del post',
+  'copy.issue.empty': 'Añade un titular o un texto.',
+  'copy.issue.length': '{field} tiene {length} caracteres; {placement} permite {max}.',
+  'copy.issue.hashtags': '{count} hashtags; {placement} permite {max}.',
+  'copy.issue.field.headline': 'El titular',
+  'copy.issue.field.body': 'El texto',
+  'copy.issue.field.altText': 'El texto alternativo',
+  'copy.issue.field.caption': 'El texto completo del post',
+  'jobs.title': 'Tareas',
+  'jobs.pending': '{count} pendientes',
+  'jobs.queuePaused': 'cola en pausa',
+  'jobs.resumeQueue': 'Reanudar cola',
+  'jobs.pauseQueue': 'Pausar cola',
+  'jobs.clearFinished': 'Borrar terminadas',
+  'jobs.empty': 'Las generaciones esperan aquí y se conservan al recargar la página.',
+  'jobs.attempt': 'intento {count}',
+  'jobs.retryIn': 'Reintento en {seconds} s',
+  'jobs.retrying': 'Reintentando…',
+  'jobs.status.queued': 'En cola',
+  'jobs.status.running': 'En curso',
+  'jobs.status.backing-off': 'En espera',
+  'jobs.status.failed': 'Fallida',
+  'jobs.status.done': 'Terminada',
+  'jobs.status.cancelled': 'Cancelada',
+  'common.standard': 'Estándar',
+  'common.or': 'o',
+  'export.title': 'Exportar creatividad',
+  'export.size': 'Tamaño',
+  'export.original': 'Original ({ratio})',
+  'export.format': 'Formato',
+  'export.maxSize': 'Tamaño máximo de archivo',
+  'export.noLimit': 'Sin límite',
+  'export.quality': 'Calidad: {percent} %',
+  'export.qualityHint': 'Se reduce automáticamente si hace falta para cumplir el límite de tamaño.',
+  'export.metadata': 'Incrustar metadatos',
+  'export.metadataHint': 'Briefing, modelo y fecha como XMP.',
+  'export.metadataHintBrand': 'Briefing, modelo, fecha y marca ({brand}) como XMP.',
+  'export.resultQuality': 'calidad {percent} %',
+  'export.failed': 'La exportación ha fallado.',
+  'export.exporting': 'Exportando...',
+  'export.download': 'Descargar',
+  'export.warning.tooLarge': 'No se pudo bajar de {target}; el archivo ocupa {size}. Prueba con JPEG o WebP.',
+  'export.warning.scaled': 'Reducido a {width}×{height} para cumplir el límite de tamaño.',
+  'export.warning.format': 'Este navegador no puede codificar {requested}; se exportó como {actual}.',
+  'export.warning.metadata': 'Los metadatos eran demasiado grandes para incrustarlos y se omitieron.',
+  'publish.title': 'Publicar',
+  'publish.destinations': 'Destinos',
+  'publish.connector.instagram': 'Cuenta de empresa o de creador mediante la API Graph de Instagram.',
+  'publish.connector.facebook': 'Publicación con foto en una página que gestionas.',
+  'publish.connector.pinterest': 'Pin en un tablero con la API v5 de Pinterest.',
+  'publish.connector.webhook': 'Envía la imagen y los datos del post por POST a tu propio endpoint (Zapier, Make, un CMS...).',
+  'publish.connector.mock': 'Destino de prueba; inícialo con "npm run mock:publish" ({endpoint}).',
+  'publish.field.accessToken': 'Token de acceso',
+  'publish.field.targetId': 'ID de la cuenta',
+  'publish.field.pageId': 'ID de la página de Facebook vinculada',
+  'publish.field.endpoint': 'URL del endpoint',
+  'publish.target.instagram': 'ID de la cuenta de Instagram',
+  'publish.target.facebook': 'ID de la página',
+  'publish.target.pinterest': 'ID del tablero',
+  'publish.optional': '(opcional)',
+  'publish.modeRemote': 'Se programa en la plataforma.',
+  'publish.modeLocal': 'Se guarda en este navegador; mantén Visioncraft abierto a la hora programada.',
+  'publish.settings': 'Ajustes',
+  'publish.setUp': 'Configurar',
+  'publish.storedLocally': 'Solo se guarda en este navegador.',
+  'publish.post': 'Publicación',
+  'publish.postTitle': 'Título',
+  'publish.postTitleHint': '(Pinterest, webhook)',
+  'publish.caption': 'Texto del post',
+  'publish.characters': '({count} caracteres)',
+  'publish.altText': 'Texto alternativo',
+  'publish.link': 'Enlace',
+  'publish.linkHint': '(destino en Pinterest)',
+  'publish.schedule': 'Programación',
+  'publish.scheduleHint': '(déjalo vacío para publicar ahora)',
+  'publish.clear': 'Borrar',
+  'publish.pastTime': 'La hora programada ya ha pasado; las publicaciones saldrán ahora.',
+  'publish.failed': 'No se pudo poner la publicación en cola.',
+  'publish.scheduleAction': 'Programar',
+  'publish.publishNow': 'Publicar ahora',
+  'publish.thisCreative': 'Esta creatividad',
+  'publish.onPlatform': '(en la plataforma)',
+  'publish.view': 'Ver',
+  'publish.status.queued': 'En cola',
+  'publish.status.scheduled': 'Programada',
+  'publish.status.publishing': 'Publicando',
+  'publish.status.published': 'Publicada',
+  'publish.status.failed': 'Fallida',
+  'publish.status.cancelled': 'Cancelada',
+  'publish.status.due': 'Programada en la plataforma — vencida',
+  'publish.issue.missing': '{connector}: añade {fields}.',
+  'publish.issue.caption': '{connector}: el texto del post tiene {length} caracteres; el límite es {limit}.',
+  'publish.issue.hashtags': '{connector}: {count} hashtags; el límite es {limit}.',
+  'campaign.title': 'Campañas',
+  'campaign.today': 'Hoy',
+  'campaign.enableReminders': 'Activar recordatorios de escritorio',
+  'campaign.exportIcs': 'Exportar .ics',
+  'campaign.packing': 'Empaquetando...',
+  'campaign.downloadZip': 'Descargar ZIP',
+  'campaign.new': '+ Nueva campaña',
+  'campaign.launch': 'Lanzamiento',
+  'campaign.channels': 'Canales',
+  'campaign.formats': 'Formatos',
+  'campaign.notesPlaceholder': 'Objetivos, público, oferta...',
+  'campaign.delete': 'Eliminar campaña',
+  'campaign.planHint': 'Haz doble clic en un día para planificar una publicación para {name}. Arrastra las publicaciones para reprogramarlas.',
+  'campaign.createHint': 'Crea una campaña para empezar a planificar.',
+  'campaign.post': 'Publicación',
+  'campaign.creative': 'Creatividad',
+  'campaign.notChosen': 'Aún sin elegir',
+  'campaign.useCreative': 'Usar la creatividad en pantalla',
+  'campaign.caption': 'Texto del post',
+  'campaign.useCaption': 'Usar el texto actual',
+  'campaign.notesForTeam': 'Notas para el equipo',
+  'campaign.reminder.none': 'Sin recordatorio',
+  'campaign.reminder.15': '15 minutos antes',
+  'campaign.reminder.60': '1 hora antes',
+  'campaign.reminder.1440': '1 día antes',
+  'campaign.schedule': 'Programar publicación',
+  'campaign.removePost': 'Quitar publicación',
+  'campaign.zipFailed': 'No se pudo crear el archivo de la campaña.',
+  'campaign.planPost': 'Planificar una publicación',
+  'campaign.status.planned': 'Falta la creatividad',
+  'campaign.status.ready': 'Lista',
+  'template.title': 'Plantillas',
+  'template.importJson': 'Importar JSON',
+  'template.exportAll': 'Exportar todo',
+  'template.export': 'Exportar',
+  'template.category.seasonal': 'De temporada',
+  'template.category.promotional': 'Promocional',
+  'template.category.launch': 'Lanzamiento',
+  'template.category.custom': 'Personalizada',
+  'template.applied': 'Aplicada',
+  'template.saveHint': 'Guarda el brief, los formatos y las capas actuales como plantilla.',
+  'template.namePlaceholder': 'Nombre de la plantilla',
+  'template.untitled': 'Plantilla sin título',
+  'template.saveCurrent': 'Guardar la configuración actual',
+  'template.summary': 'Resumen',
+  'template.description': 'Descripción',
+  'template.placeholders': 'Usa {tokens} o {brand} como marcadores.',
+  'template.brief': 'Brief',
+  'template.formats': 'Formatos recomendados',
+  'template.slots': 'Huecos de capas',
+  'template.noOverlays': 'Sin capas.',
+  'template.brandLogo': 'Logo de la marca',
+  'template.brandColor': 'color {role}',
+  'template.brandFont': 'fuente de la marca',
+  'template.selectBrandKit': 'Selecciona un kit de marca para usar sus colores y fuentes.',
+  'template.token.price': 'Precio',
+  'template.token.discount': 'Descuento',
+  'template.token.code': 'Código promocional',
+  'template.apply': 'Aplicar plantilla',
+  'template.imported': '{count} plantilla(s) importada(s).',
+  'market.title': 'Variantes por mercado',
+  'market.subtitle': 'Traduce las capas y el texto de esta creatividad desde {market} ({language}).',
+  'market.disclosure': 'Colaboraciones pagadas etiquetadas como {label}',
+  'market.price': 'Precio ({currency})',
+  'market.discount': 'Descuento',
+  'market.keepsPrice': 'Se queda en {price} hasta que introduzcas un precio en {currency}',
+  'market.shownAs': 'Se muestra como {value}',
+  'market.translating': 'Traduciendo...',
+  'market.create': 'Crear {count} variante(s)',
+  'market.savedHint': 'Las variantes se guardan en el historial con su texto, listas para exportar, publicar o planificar.',
+  'market.status.translating': 'Traduciendo',
+  'market.status.done': 'Lista',
+  'market.status.failed': 'Fallida',
+  'market.failed': 'La traducción ha fallado.',
+  'market.issue.restricted': '«{word}» está restringido en {market}.',
+  'market.issue.price': 'El precio se queda en {price}; introduce un precio en {currency} para mostrarlo en {market}.',
+  'upload.optional': 'Opcional',
+  'upload.optimizing': 'Optimizando imagen…',
+  'upload.optimizingShort': 'Optimizando…',
+  'upload.preview': 'Vista previa',
+  'upload.change': 'Cambiar',
+  'upload.click': 'Haz clic para subir',
+  'upload.editCutout': 'Editar recorte',
+  'upload.removeBackground': 'Quitar fondo',
+  'upload.restoreOriginal': 'Restaurar original',
+  'upload.addImages': '+ Añadir imágenes',
+  'upload.failed': 'No se pudo procesar esta imagen.',
+  'upload.failedFile': 'No se pudo procesar {name}.',
+  'upload.settings': 'Ajustes de subida',
+  'upload.auto': 'Auto',
+  'upload.crop': 'recorte {ratio}',
+  'upload.maxSize': 'Tamaño máximo',
+  'upload.format': 'Formato',
+  'upload.autoFormat': 'Auto (PNG si es transparente)',
+  'upload.cropProduct': 'Recortar producto',
+  'upload.original': 'Original',
+  'upload.quality': 'Calidad: {percent} %',
+  'catalog.title': 'Importar catálogo',
+  'catalog.subtitle': 'CSV o JSON con las columnas SKU, nombre, precio, archivo de imagen, brief y formatos.',
+  'catalog.closeAndStop': 'Cerrar y detener la ejecución',
+  'catalog.file': '1. Archivo de catálogo',
+  'catalog.chooseFile': 'Elige un archivo .csv o .json',
+  'catalog.images': '2. Imágenes de producto',
+  'catalog.imagesMatched': '{count} imagen(es) • {matched}/{total} filas emparejadas',
+  'catalog.dropImages': 'Suelta imágenes aquí o elige una carpeta',
+  'catalog.pickFolder': 'Elegir carpeta',
+  'catalog.pickFiles': 'Elegir archivos',
+  'catalog.empty': 'Importa un catálogo para ver sus productos aquí.',
+  'catalog.sku': 'SKU',
+  'catalog.product': 'Producto',
+  'catalog.image': 'Imagen',
+  'catalog.formats': 'Formatos',
+  'catalog.notFound': '{file} no encontrado',
+  'catalog.progress': '{completed}/{total} creatividades listas',
+  'catalog.progressFailed': '{failed} fallidas',
+  'catalog.readyToGenerate': '{count} producto(s) listo(s) para generar',
+  'catalog.retryFailed': 'Reintentar fallidas',
+  'catalog.exportZip': 'Exportar ZIP',
+  'catalog.stop': 'Detener',
+  'catalog.generating': 'Generando…',
+  'catalog.resume': 'Reanudar',
+  'catalog.generateAll': 'Generar todo',
+  'catalog.readFailed': 'No se pudo leer este archivo de catálogo.',
+  'brandKit.title': 'Kits de marca',
+  'brandKit.new': '+ Nueva marca',
+  'brandKit.name': 'Nombre',
+  'brandKit.logos': 'Logos',
+  'brandKit.palette': 'Paleta',
+  'brandKit.addColor': '+ Color',
+  'brandKit.fonts': 'Fuentes (separadas por comas)',
+  'brandKit.tone': 'Tono de voz',
+  'brandKit.tonePlaceholder': 'Cercano, premium, discreto...',
+  'brandKit.forbidden': 'Estilos prohibidos (separados por comas)',
+  'brandKit.forbiddenPlaceholder': 'neón, dibujos animados, grunge',
+  'brandKit.save': 'Guardar kit de marca',
+  'brandKit.empty': 'Crea un kit de marca para reutilizar logos, colores y tono entre sesiones.',
+  'cutout.title': 'Quitar fondo',
+  'cutout.subtitle': 'Se ejecuta en tu navegador. Funciona mejor con fondos lisos o de estudio.',
+  'cutout.tolerance': 'Tolerancia del fondo',
+  'cutout.toleranceHint': 'Más alta elimina más. Cambiarla descarta los retoques con pincel.',
+  'cutout.tool.keep': 'Conservar',
+  'cutout.tool.remove': 'Quitar',
+  'cutout.hint.keep': 'Pinta sobre las partes del producto que se eliminaron',
+  'cutout.hint.remove': 'Pinta sobre el fondo que quedó',
+  'cutout.brushSize': 'Tamaño del pincel',
+  'cutout.cutting': 'Recortando...',
+  'cutout.use': 'Usar recorte',
+  'cutout.loadFailed': 'No se pudo cargar la foto del producto.',
+  'cutout.segmentFailed': 'La eliminación automática del fondo ha fallado.',
+  'cutout.failed': 'No se pudo crear el recorte.',
+  'error.title.quota-zero': 'Modelo desactivado para este proyecto',
+  'error.title.rate-limited': 'Límite de solicitudes alcanzado',
+  'error.title.permission': 'Permiso denegado',
+  'error.title.model-not-found': 'Modelo no disponible',
+  'error.title.auth': 'Problema con la clave de API',
+  'error.title.safety-blocked': 'Bloqueado por los filtros de seguridad',
+  'error.title.text-only': 'No se devolvió ninguna imagen',
+  'error.title.network': 'Problema de conexión',
+  'error.title.unknown': 'La generación ha fallado',
+  'error.action.retry': 'Reintentar',
+  'error.action.reconnect': 'Volver a conectar la cuenta',
+  'error.action.use-standard': 'Usar el modelo estándar',
+  'error.action.switchToStandard': 'Cambiar a estándar',
+  'error.action.switchToPro': 'Cambiar a Pro',
+  'error.action.open-usage': 'Ver uso',
+  'error.action.edit-brief': 'Editar brief',
+  'error.action.rephrase': 'Reformular con seguridad y reintentar',
+  'error.reason': 'Motivo:',
+  'error.rephrasing': 'Al reformular se aplicará: {changes}',
+  'logo.title': 'Posición del logo',
+  'logo.mode.ai': 'Composición con IA',
+  'logo.mode.overlay': 'Superposición exacta',
+  'logo.hint.ai': 'El modelo pinta el logo sobre el producto. Queda natural, pero puede deformarlo.',
+  'logo.hint.overlay': 'La escena se genera sin el logo y luego tu archivo se coloca con precisión de píxel.',
+  'logo.anchor.top-left': 'esquina superior izquierda',
+  'logo.anchor.top-center': 'borde superior',
+  'logo.anchor.top-right': 'esquina superior derecha',
+  'logo.anchor.middle-left': 'borde izquierdo',
+  'logo.anchor.center': 'centro',
+  'logo.anchor.middle-right': 'borde derecho',
+  'logo.anchor.bottom-left': 'esquina inferior izquierda',
+  'logo.anchor.bottom-center': 'borde inferior',
+  'logo.anchor.bottom-right': 'esquina inferior derecha',
+  'logo.forFormat': 'Para {format}',
+  'logo.reset': 'Restablecer',
+  'logo.size': 'Tamaño: {percent} % del ancho',
+  'logo.opacity': 'Opacidad: {percent} %',
+  'logo.margin': 'Margen de seguridad: {percent} %',
+  'mask.title': 'Editar zona',
+  'mask.tool.brush': 'Pincel',
+  'mask.tool.rectangle': 'Rectángulo',
+  'mask.tool.lock': 'Proteger',
+  'mask.hint.brush': 'Pinta la zona que quieres cambiar',
+  'mask.hint.rectangle': 'Arrastra para seleccionar un recuadro',
+  'mask.hint.lock': 'Borra la máscara para proteger el producto o el logo',
+  'mask.brushSize': 'Tamaño del pincel',
+  'mask.instruction': '¿Qué debe cambiar aquí? p. ej., sustituir por un jardín desenfocado',
+  'mask.clear': 'Borrar',
+  'mask.editing': 'Editando...',
+  'mask.apply': 'Aplicar a la zona',
+  'mask.imageAlt': 'Creatividad que editar',
+  'overlay.title': 'Capas',
+  'overlay.done': 'Listo',
+  'overlay.add.text': '+ Texto',
+  'overlay.add.badge': '+ Etiqueta de precio',
+  'overlay.add.cta': '+ Botón CTA',
+  'overlay.add.logo': '+ Logo',
+  'overlay.logoFirst': 'Sube primero un logo de marca',
+  'overlay.size': 'Tamaño',
+  'overlay.text': 'Texto',
+  'overlay.fill': 'Relleno',
+  'overlay.logoWidth': 'Ancho del logo',
+  'overlay.remove': 'Quitar capa',
+  'overlay.hint': 'Añade una capa y arrástrala sobre la imagen. Haz clic en una capa para editarla.',
+  'overlay.default.text': 'Tu titular',
+  'overlay.default.cta': 'Comprar ahora',
+  'brief.presets': 'Ajustes predefinidos',
+  'brief.preset.summer-lifestyle': 'Estilo de vida veraniego',
+  'brief.preset.minimal-studio': 'Estudio minimalista',
+  'brief.preset.festive-cozy': 'Festivo acogedor',
+  'brief.preset.luxury-dark': 'Lujo oscuro',
+  'brief.preset.flat-lay': 'Flat lay',
+  'brief.clear': 'Borrar',
+  'brief.field.scene': 'Escena / fondo',
+  'brief.field.lighting': 'Iluminación',
+  'brief.field.mood': 'Ambiente',
+  'brief.field.season': 'Temporada',
+  'brief.field.cameraAngle': 'Ángulo de cámara',
+  'brief.field.productPlacement': 'Posición del producto',
+  'brief.field.logoPlacement': 'Posición del logo',
+  'brief.any': 'Cualquiera',
+  'brief.notes': 'Notas adicionales',
+  'brief.notesPlaceholder': 'P. ej.: añade unas rodajas de limón alrededor de la botella y una ligera bruma en el aire...',
+  'brief.promptTemplate': 'Plantilla de prompt',
+  'brief.hidePrompt': 'Ocultar prompt',
+  'brief.previewPrompt': 'Vista previa del prompt',
+  'refine.placeholder': 'Describe un cambio, p. ej., haz el fondo más cálido',
+  'refine.refining': 'Refinando...',
+  'refine.refine': 'Refinar',
+  'refine.undo': 'Deshacer',
+  'refine.redo': 'Rehacer',
+  'refine.original': 'Original',
+  'refine.suggestion.warmer': 'Haz el fondo más cálido',
+  'refine.suggestion.left': 'Mueve el producto a la izquierda',
+  'refine.suggestion.morning': 'Añade una luz suave de mañana',
+  'refine.suggestion.simplify': 'Simplifica el fondo',
+  'usage.title': 'Uso y presupuesto',
+  'usage.subtitle': 'Se cuenta localmente en este navegador; la cuota de la API puede variar.',
+  'usage.overBudget': 'La próxima ejecución podría superar tu presupuesto',
+  'usage.rate': '{perMinute}/min • ráfaga {burst}',
+  'usage.callsToday': '{calls} / {limit} llamadas hoy',
+  'usage.outcomes': '{successes} correctas • {failures} fallidas',
+  'usage.spentToday': 'Gasto estimado hoy',
+  'usage.lastDays': 'Últimos {count} días',
+  'usage.none': 'Aún no hay llamadas a Gemini registradas.',
+  'usage.day': 'Día',
+  'usage.tierCalls': 'Llamadas {tier}',
+  'usage.failures': 'Fallos',
+  'usage.cost': 'Coste est.',
+  'usage.tier.standard': 'Estándar',
+  'usage.tier.pro': 'Pro',
+  'usage.tier.text': 'Texto',
+  'usage.warning.calls': '{tier}: {planned} llamada(s) previstas, pero hoy solo quedan {remaining} de {limit}.',
+  'usage.warning.cost': 'El coste estimado de {cost} $ superaría el presupuesto de hoy de {budget} $.',
+  'variants.title': 'Comparar variantes',
+  'variants.subtitle': 'Marca tus favoritas y elige una ganadora para seguir editando.',
+  'variants.showAll': 'Mostrar todas',
+  'variants.starredOnly': 'Solo favoritas ({count})',
+  'variants.imageAlt': 'Variante {id}',
+  'variants.unstar': 'Quitar de favoritas',
+  'variants.star': 'Añadir a favoritas',
+  'variants.original': 'Brief original',
+  'variants.pickWinner': 'Elegir ganadora',
+  'variants.mode.none': 'Mismo briefing',
+  'variants.mode.lighting': 'Variar la iluminación',
+  'variants.mode.background': 'Variar el fondo',
+  'variants.mode.both': 'Variar ambos',
+  'assets.partLabel': 'Etiqueta, p. ej., tapa a juego',
+  'assets.role.hero': 'Coprotagonista',
+  'assets.role.secondary': 'Secundario',
+  'assets.partScale': 'Tamaño frente al producto principal: {percent} %',
+  'errors.refine': 'No se pudo aplicar este cambio.',
+  'errors.region': 'No se pudo editar la zona seleccionada.',
+  'errors.generation': 'Algo ha fallado durante la generación.',
+  'errors.publish': 'La publicación ha fallado.',
+  'errors.creativeGone': 'La creatividad elegida ya no está en el historial.',
+  'errors.queueBlocked': 'Esta creatividad no supera las comprobaciones de cumplimiento de {profile}. Corrígelas antes de ponerla en cola.',
+  'errors.saveFirst': 'Guarda primero la creatividad en el historial.',
+  'errors.queueIssues': '{issues} Configura las cuentas en «Publicar».',
+  'reminder.scheduledFor': 'Programada para el {time}',
+  'reminder.at': '{post} el {time}',
+  'reminder.openCalendar': 'Abrir calendario',
+  'welcome.initializing': 'Iniciando Visioncraft...',
+  'welcome.tagline': 'Recursos de marketing profesionales con IA',
+  'welcome.freeTitle': 'Gratis para siempre',
+  'welcome.freeBody': 'Usa el modelo Estándar para crear anuncios atractivos sin ningún coste.',
+  'welcome.secureTitle': 'Acceso seguro',
+  'welcome.secureBody': 'Conecta tu cuenta de Google para generar claves de API de forma segura.',
+  'welcome.connect': 'Conectar clave de API',
+  'welcome.missingTitle': 'Falta la clave de API',
+  'welcome.missingBody': 'Crea un archivo {file} en la raíz del proyecto con {line} y reinicia.',
+  'loading.resumeQueue': 'Reanudar la cola',
+  'result.imageAlt': 'Anuncio generado',
+  'share.complete': 'Completa tu publicación',
+  'share.new': 'Nueva publicación',
+  'share.downloaded': 'Imagen descargada en el dispositivo',
+  'share.copied': 'Texto copiado al portapapeles',
+  'share.openHint': 'Ya puedes abrir Instagram y crear tu publicación.',
+  'share.openInstagram': 'Abrir Instagram.com',
+  'share.captionPlaceholder': 'Escribe un texto...',
+  'share.now': 'Compartir ahora',
+  'share.hint': 'Abre el menú de compartir o descarga para publicar a mano.',
+};
@@ -0,0 +1,548 @@
+import { Catalog } from "./en";
+
+export const FR: Catalog = {
+  'header.catalog': 'Catalogue',
+  'header.campaigns': 'Campagnes',
+  'header.usage': 'Consommation',
+  'header.jobs': 'Tâches',
+  'header.history': 'Historique ({count})',
+  'header.tagline': 'Outil marketing IA',
+  'header.language': "Langue de l'interface",
+  'assets.title': '1. Éléments de marque',
+  'assets.brandKit': 'Kit de marque',
+  'assets.manage': 'Gérer',
+  'assets.noBrandKit': 'Aucun kit de marque',
+  'assets.product': 'Photo du produit',
+  'assets.bundle': 'Produits du lot',
+  'assets.bundleHint': 'Articles affichés avec le produit principal, par ex. un coffret cadeau.',
+  'assets.references': "Références d'ambiance",
+  'assets.referencesHint': "Utilisées uniquement pour la palette, la lumière et l'ambiance.",
+  'assets.logo': 'Logo de la marque',
+  'config.title': '2. Configuration',
+  'config.model': 'Qualité du modèle',
+  'config.standard': 'Standard (gratuit)',
+  'config.pro': 'Pro',
+  'config.paid': 'PAYANT',
+  'config.proHint': '⚠️ Pro nécessite un projet Google Cloud avec la facturation activée.',
+  'config.standardHint': 'Standard est entièrement gratuit, avec des limites quotidiennes généreuses.',
+  'config.format': 'Format et taille',
+  'config.allFormatsOn': 'Tous les formats : oui',
+  'config.allFormatsOff': 'Tous les formats : non',
+  'config.batchHint': 'Les formats sont générés un par un pour respecter les limites de débit.',
+  'config.variants': 'Variantes',
+  'config.variantsOff': 'Non',
+  'config.variantsBatchHint': 'Variantes indisponibles pendant la génération de tous les formats.',
+  'config.retailer': 'Profil revendeur',
+  'config.retailerHint': 'Chaque visuel est vérifié selon les règles de ce revendeur avant le téléchargement.',
+  'config.market': 'Marché',
+  'config.marketHint': 'Les prix, la langue des textes et les formulations interdites suivent ce marché.',
+  'template.start': 'Partir d’un modèle',
+  'template.change': 'Changer de modèle',
+  'template.clear': 'Ne plus ajouter les calques de ce modèle',
+  'generate.busy': 'Génération en cours...',
+  'generate.formats': 'GÉNÉRER {count} FORMATS',
+  'generate.variants': 'GÉNÉRER {count} VARIANTES',
+  'generate.single': 'GÉNÉRER LA PUBLICITÉ',
+  'empty.title': 'Prêt à créer',
+  'empty.body': "Ajoutez votre produit et votre logo, décrivez votre idée et laissez l'IA construire votre campagne.",
+  'loading.title': 'Création de votre publicité...',
+  'loading.rateLimited': 'Limite de débit atteinte',
+  'loading.paused': "File d'attente en pause",
+  'loading.waiting': 'En attente des tâches précédentes',
+  'loading.steps': 'Analyse du produit • Composition • Éclairage',
+  'result.download': "Télécharger l'image",
+  'result.downloadBlocked': 'Corrigez les contrôles de conformité en échec pour télécharger',
+  'result.editRegion': 'Modifier une zone',
+  'result.editOverlays': 'Modifier les calques ({count})',
+  'result.addOverlays': 'Ajouter texte et CTA',
+  'result.instagram': 'Publier sur Instagram',
+  'result.publish': 'Publier',
+  'result.publishBlocked': 'Corrigez les contrôles de conformité en échec pour publier',
+  'result.shareBlocked': 'Corrigez les contrôles de conformité en échec pour partager',
+  'result.markets': 'Marchés',
+  'result.backToFormats': 'Retour à tous les formats',
+  'result.backToVariants': 'Retour aux variantes',
+  'result.newDesign': 'Nouveau visuel',
+  'common.open': 'Ouvrir',
+  'common.duplicate': 'Dupliquer',
+  'common.delete': 'Supprimer',
+  'common.retry': 'Réessayer',
+  'common.cancel': 'Annuler',
+  'common.close': 'Fermer',
+  'common.save': 'Enregistrer',
+  'common.apply': 'Appliquer',
+  'common.remove': 'Retirer',
+  'common.queued': 'En attente',
+  'common.stop': 'Arrêter',
+  'common.resume': 'Reprendre',
+  'history.title': 'Historique',
+  'history.count.one': '{count} génération enregistrée',
+  'history.count.other': '{count} générations enregistrées',
+  'history.empty': 'Les visuels générés sont enregistrés ici automatiquement.',
+  'history.rerun': 'Relancer',
+  'batch.title': 'Tous les formats',
+  'batch.progress': '{done}/{total} prêts',
+  'batch.failed': '{count} en échec',
+  'batch.attempt': 'Tentative {count}',
+  'batch.imageAlt': 'Publicité générée {format}',
+  'batch.review': 'Vérifier et télécharger',
+  'compliance.title': 'Conformité',
+  'compliance.pass': 'Conforme',
+  'compliance.warn': 'À vérifier',
+  'compliance.fail': 'Non conforme',
+  'compliance.checking': 'Vérification...',
+  'compliance.hideSafeZone': 'Masquer la zone de sécurité',
+  'compliance.showSafeZone': 'Afficher la zone de sécurité',
+  'compliance.blocked': 'Le téléchargement est désactivé tant que les contrôles en échec ne sont pas corrigés.',
+  'compliance.rule.min-dimensions': 'Dimensions minimales',
+  'compliance.rule.aspect-ratio': "Format de l'emplacement",
+  'compliance.rule.safe-zone': 'Marges de la zone de sécurité',
+  'compliance.rule.logo-required': 'Logo de marque',
+  'compliance.rule.banned-words': 'Formulations restreintes',
+  'compliance.rule.market-wording': 'Formulations du marché',
+  'compliance.rule.file-size': 'Taille du fichier',
+  'compliance.dimensions.pass': '{width}×{height} px respecte {minWidth}×{minHeight} px.',
+  'compliance.dimensions.fail': '{width}×{height} px est inférieur aux {minWidth}×{minHeight} px requis.',
+  'compliance.ratio.pass': 'Correspond à {ratio}.',
+  'compliance.ratio.fail': "L'image fait {width}×{height} px, ce qui ne correspond pas à {ratio}.",
+  'compliance.safeZone.fail': '{layers} dépassent de la zone de sécurité.',
+  'compliance.safeZone.warn': "Gardez l'essentiel à l'intérieur des marges : haut {top}, droite {right}, bas {bottom}, gauche {left}. Vérifiez avec la zone de sécurité affichée.",
+  'compliance.logo.pass': 'Logo de marque fourni pour ce visuel.',
+  'compliance.logo.fail': '{retailer} exige un logo de marque. Importez-en un et régénérez.',
+  'compliance.logo.optional': 'Le logo est facultatif pour ce distributeur.',
+  'compliance.logoLayer': 'Logo',
+  'compliance.wording.pass': 'Aucun terme restreint dans le brief ou la légende.',
+  'compliance.wording.caption': 'La légende contient des formulations restreintes : {words}.',
+  'compliance.wording.brief': 'Le brief contient des formulations restreintes : {words}.',
+  'compliance.market.fail': '{words} est restreint en {market} sans justification.',
+  'compliance.market.pass': 'Aucune allégation restreinte pour {market} ; mention publicitaire présente.',
+  'compliance.market.warn': 'Aucune allégation restreinte pour {market}. Les partenariats rémunérés doivent porter la mention {labels}.',
+  'compliance.fileSize.pass': '{size} Ko respecte la limite de {limit} Ko.',
+  'compliance.fileSize.warn': "{size} Ko dépasse la limite de {limit} Ko. L'export le compresse pour respecter la limite.",
+  'format.1:1': 'Publication Instagram (1:1)',
+  'format.9:16': 'Story Instagram (9:16)',
+  'format.16:9': 'Publication Facebook (16:9)',
+  'format.3:4': 'Portrait fil (3:4)',
+  'format.4:3': 'Display paysage (4:3)',
+  'copy.platform.instagram-post': 'Publication Instagram',
+  'copy.platform.instagram-story': 'Story Instagram',
+  'copy.platform.facebook': 'Facebook',
+  'copy.tone.friendly': 'Chaleureux',
+  'copy.tone.bold': 'Audacieux',
+  'copy.tone.premium': 'Premium',
+  'copy.tone.playful': 'Ludique',
+  'copy.length.short': 'Court',
+  'copy.length.long': 'Long',
+  'copy.writing': 'Rédaction...',
+  'copy.write': 'Rédiger le texte',
+  'copy.failed': 'Impossible de rédiger le texte.',
+  'copy.caption': 'Légende',
+  'copy.limits': 'titre {headline}, corps {body}, {hashtags} hashtags max.',
+  'copy.altText': 'Texte alternatif :',
+  'copy.copyAltText': 'Copier le texte alternatif',
+  'copy.useCaption': 'Utiliser comme légende',
+  'copy.issue.empty': 'Ajoutez un titre ou un texte.',
+  'copy.issue.length': '{field} fait {length} caractères ; {placement} en autorise {max}.',
+  'copy.issue.hashtags': '{count} hashtags ; {placement} en autorise {max}.',
+  'copy.issue.field.headline': 'Le titre',
+  'copy.issue.field.body': 'Le texte',
+  'copy.issue.field.altText': 'Le texte alternatif',
+  'copy.issue.field.caption': 'La légende complète',
+  'jobs.title': 'Tâches',
+  'jobs.pending': '{count} en attente',
+  'jobs.queuePaused': "file d'attente en pause",
+  'jobs.resumeQueue': 'Reprendre la file',
+  'jobs.pauseQueue': 'Mettre la file en pause',
+  'jobs.clearFinished': 'Effacer les terminées',
+  'jobs.empty': 'Les générations attendent ici et survivent au rechargement de la page.',
+  'jobs.attempt': 'tentative {count}',
+  'jobs.retryIn': 'Nouvel essai dans {seconds} s',
+  'jobs.retrying': 'Nouvel essai…',
+  'jobs.status.queued': 'En attente',
+  'jobs.status.running': 'En cours',
+  'jobs.status.backing-off': 'En pause',
+  'jobs.status.failed': 'Échec',
+  'jobs.status.done': 'Terminée',
+  'jobs.status.cancelled': 'Annulée',
+  'common.standard': 'Standard',
+  'common.or': 'ou',
+  'export.title': 'Exporter le visuel',
+  'export.size': 'Taille',
+  'export.original': 'Original ({ratio})',
+  'export.format': 'Format',
+  'export.maxSize': 'Taille de fichier max.',
+  'export.noLimit': 'Sans limite',
+  'export.quality': 'Qualité : {percent} %',
+  'export.qualityHint': 'Réduite automatiquement si nécessaire pour respecter la limite de taille.',
+  'export.metadata': 'Intégrer les métadonnées',
+  'export.metadataHint': 'Brief, modèle et horodatage en XMP.',
+  'export.metadataHintBrand': 'Brief, modèle, horodatage et marque ({brand}) en XMP.',
+  'export.resultQuality': 'qualité {percent} %',
+  'export.failed': "L'export a échoué.",
+  'export.exporting': 'Export en cours...',
+  'export.download': 'Télécharger',
+  'export.warning.tooLarge': 'Impossible de descendre sous {target} ; le fichier fait {size}. Essayez JPEG ou WebP.',
+  'export.warning.scaled': 'Réduit à {width}×{height} pour respecter la limite de taille.',
+  'export.warning.format': 'Ce navigateur ne sait pas encoder en {requested} ; exporté en {actual}.',
+  'export.warning.metadata': 'Les métadonnées étaient trop volumineuses et ont été omises.',
+  'publish.title': 'Publier',
+  'publish.destinations': 'Destinations',
+  'publish.connector.instagram': "Compte professionnel ou créateur via l'API Instagram Graph.",
+  'publish.connector.facebook': 'Publication photo sur une page que vous gérez.',
+  'publish.connector.pinterest': "Épingle sur un tableau via l'API Pinterest v5.",
+  'publish.connector.webhook': "Envoie l'image et les détails du post en POST à votre propre endpoint (Zapier, Make, un CMS...).",
+  'publish.connector.mock': 'Cible de test ; lancez-la avec "npm run mock:publish" ({endpoint}).',
+  'publish.field.accessToken': "Jeton d'accès",
+  'publish.field.targetId': 'ID du compte',
+  'publish.field.pageId': 'ID de la page Facebook associée',
+  'publish.field.endpoint': "URL de l'endpoint",
+  'publish.target.instagram': 'ID du compte Instagram',
+  'publish.target.facebook': 'ID de la page',
+  'publish.target.pinterest': 'ID du tableau',
+  'publish.optional': '(facultatif)',
+  'publish.modeRemote': 'Programmé sur la plateforme.',
+  'publish.modeLocal': "Conservé dans ce navigateur ; gardez Visioncraft ouvert à l'heure prévue.",
+  'publish.settings': 'Paramètres',
+  'publish.setUp': 'Configurer',
+  'publish.storedLocally': 'Stocké uniquement dans ce navigateur.',
+  'publish.post': 'Publication',
+  'publish.postTitle': 'Titre',
+  'publish.postTitleHint': '(Pinterest, webhook)',
+  'publish.caption': 'Légende',
+  'publish.characters': '({count} caractères)',
+  'publish.altText': 'Texte alternatif',
+  'publish.link': 'Lien',
+  'publish.linkHint': '(destination Pinterest)',
+  'publish.schedule': 'Programmation',
+  'publish.scheduleHint': '(laisser vide pour publier maintenant)',
+  'publish.clear': 'Effacer',
+  'publish.pastTime': "L'heure prévue est passée ; les posts partiront maintenant.",
+  'publish.failed': "Impossible de mettre le post en file d'attente.",
+  'publish.scheduleAction': 'Programmer',
+  'publish.publishNow': 'Publier maintenant',
+  'publish.thisCreative': 'Ce visuel',
+  'publish.onPlatform': '(sur la plateforme)',
+  'publish.view': 'Voir',
+  'publish.status.queued': 'En attente',
+  'publish.status.scheduled': 'Programmé',
+  'publish.status.publishing': 'Publication',
+  'publish.status.published': 'Publié',
+  'publish.status.failed': 'Échec',
+  'publish.status.cancelled': 'Annulé',
+  'publish.status.due': 'Programmé sur la plateforme — échu',
+  'publish.issue.missing': '{connector} : ajoutez {fields}.',
+  'publish.issue.caption': '{connector} : la légende fait {length} caractères ; la limite est de {limit}.',
+  'publish.issue.hashtags': '{connector} : {count} hashtags ; la limite est de {limit}.',
+  'campaign.title': 'Campagnes',
+  'campaign.today': "Aujourd'hui",
+  'campaign.enableReminders': 'Activer les rappels sur le bureau',
+  'campaign.exportIcs': 'Exporter .ics',
+  'campaign.packing': 'Compression...',
+  'campaign.downloadZip': 'Télécharger le ZIP',
+  'campaign.new': '+ Nouvelle campagne',
+  'campaign.launch': 'Lancement',
+  'campaign.channels': 'Canaux',
+  'campaign.formats': 'Formats',
+  'campaign.notesPlaceholder': 'Objectifs, audience, offre...',
+  'campaign.delete': 'Supprimer la campagne',
+  'campaign.planHint': 'Double-cliquez sur un jour pour planifier un post pour {name}. Faites glisser les posts pour les reprogrammer.',
+  'campaign.createHint': 'Créez une campagne pour commencer à planifier.',
+  'campaign.post': 'Publication',
+  'campaign.creative': 'Visuel',
+  'campaign.notChosen': 'Pas encore choisi',
+  'campaign.useCreative': "Utiliser le visuel à l'écran",
+  'campaign.caption': 'Légende',
+  'campaign.useCaption': 'Utiliser la légende actuelle',
+  'campaign.notesForTeam': "Notes pour l'équipe",
+  'campaign.reminder.none': 'Aucun rappel',
+  'campaign.reminder.15': '15 minutes avant',
+  'campaign.reminder.60': '1 heure avant',
+  'campaign.reminder.1440': '1 jour avant',
+  'campaign.schedule': 'Programmer la publication',
+  'campaign.removePost': 'Retirer la publication',
+  'campaign.zipFailed': "Impossible de créer l'archive de la campagne.",
+  'campaign.planPost': 'Planifier une publication',
+  'campaign.status.planned': 'Visuel manquant',
+  'campaign.status.ready': 'Prêt',
+  'template.title': 'Modèles',
+  'template.importJson': 'Importer un JSON',
+  'template.exportAll': 'Tout exporter',
+  'template.export': 'Exporter',
+  'template.category.seasonal': 'Saisonnier',
+  'template.category.promotional': 'Promotionnel',
+  'template.category.launch': 'Lancement',
+  'template.category.custom': 'Personnalisé',
+  'template.applied': 'Appliqué',
+  'template.saveHint': 'Enregistrez le brief, les formats et les calques actuels comme modèle.',
+  'template.namePlaceholder': 'Nom du modèle',
+  'template.untitled': 'Modèle sans titre',
+  'template.saveCurrent': 'Enregistrer la configuration actuelle',
+  'template.summary': 'Résumé',
+  'template.description': 'Description',
+  'template.placeholders': 'Utilisez {tokens} ou {brand} comme variables.',
+  'template.brief': 'Brief',
+  'template.formats': 'Formats recommandés',
+  'template.slots': 'Emplacements de calques',
+  'template.noOverlays': 'Aucun calque.',
+  'template.brandLogo': 'Logo de la marque',
+  'template.brandColor': 'couleur {role}',
+  'template.brandFont': 'police de la marque',
+  'template.selectBrandKit': 'Sélectionnez un kit de marque pour utiliser ses couleurs et polices.',
+  'template.token.price': 'Prix',
+  'template.token.discount': 'Remise',
+  'template.token.code': 'Code promo',
+  'template.apply': 'Appliquer le modèle',
+  'template.imported': '{count} modèle(s) importé(s).',
+  'market.title': 'Variantes par marché',
+  'market.subtitle': 'Traduit les calques et la légende de ce visuel depuis {market} ({language}).',
+  'market.disclosure': 'Partenariats rémunérés signalés par {label}',
+  'market.price': 'Prix ({currency})',
+  'market.discount': 'Remise',
+  'market.keepsPrice': "Reste à {price} jusqu'à ce que vous saisissiez un prix en {currency}",
+  'market.shownAs': 'Affiché comme {value}',
+  'market.translating': 'Traduction...',
+  'market.create': 'Créer {count} variante(s)',
+  'market.savedHint': "Les variantes sont enregistrées dans l'historique avec leur légende, prêtes à être exportées, publiées ou planifiées.",
+  'market.status.translating': 'Traduction',
+  'market.status.done': 'Prête',
+  'market.status.failed': 'Échec',
+  'market.failed': 'La traduction a échoué.',
+  'market.issue.restricted': '« {word} » est restreint en {market}.',
+  'market.issue.price': 'Le prix reste à {price} ; saisissez un prix en {currency} pour en afficher un en {market}.',
+  'upload.optional': 'Facultatif',
+  'upload.optimizing': "Optimisation de l'image…",
+  'upload.optimizingShort': 'Optimisation…',
+  'upload.preview': 'Aperçu',
+  'upload.change': 'Changer',
+  'upload.click': 'Cliquer pour importer',
+  'upload.editCutout': 'Modifier le détourage',
+  'upload.removeBackground': "Supprimer l'arrière-plan",
+  'upload.restoreOriginal': "Restaurer l'original",
+  'upload.addImages': '+ Ajouter des images',
+  'upload.failed': 'Impossible de traiter cette image.',
+  'upload.failedFile': 'Impossible de traiter {name}.',
+  'upload.settings': "Paramètres d'import",
+  'upload.auto': 'Auto',
+  'upload.crop': 'recadrage {ratio}',
+  'upload.maxSize': 'Taille max.',
+  'upload.format': 'Format',
+  'upload.autoFormat': 'Auto (PNG si transparent)',
+  'upload.cropProduct': 'Recadrer le produit',
+  'upload.original': 'Original',
+  'upload.quality': 'Qualité : {percent} %',
+  'catalog.title': 'Import de catalogue',
+  'catalog.subtitle': 'CSV ou JSON avec les colonnes SKU, nom, prix, fichier image, brief et formats.',
+  'catalog.closeAndStop': "Fermer et arrêter l'exécution",
+  'catalog.file': '1. Fichier catalogue',
+  'catalog.chooseFile': 'Choisissez un fichier .csv ou .json',
+  'catalog.images': '2. Images produit',
+  'catalog.imagesMatched': '{count} image(s) • {matched}/{total} lignes associées',
+  'catalog.dropImages': 'Déposez des images ici ou choisissez un dossier',
+  'catalog.pickFolder': 'Choisir un dossier',
+  'catalog.pickFiles': 'Choisir des fichiers',
+  'catalog.empty': 'Importez un catalogue pour voir ses produits ici.',
+  'catalog.sku': 'SKU',
+  'catalog.product': 'Produit',
+  'catalog.image': 'Image',
+  'catalog.formats': 'Formats',
+  'catalog.notFound': '{file} introuvable',
+  'catalog.progress': '{completed}/{total} visuels prêts',
+  'catalog.progressFailed': '{failed} en échec',
+  'catalog.readyToGenerate': '{count} produit(s) prêt(s) à générer',
+  'catalog.retryFailed': 'Relancer les échecs',
+  'catalog.exportZip': 'Exporter le ZIP',
+  'catalog.stop': 'Arrêter',
+  'catalog.generating': 'Génération…',
+  'catalog.resume': 'Reprendre',
+  'catalog.generateAll': 'Tout générer',
+  'catalog.readFailed': 'Impossible de lire ce fichier catalogue.',
+  'brandKit.title': 'Kits de marque',
+  'brandKit.new': '+ Nouvelle marque',
+  'brandKit.name': 'Nom',
+  'brandKit.logos': 'Logos',
+  'brandKit.palette': 'Palette',
+  'brandKit.addColor': '+ Couleur',
+  'brandKit.fonts': 'Polices (séparées par des virgules)',
+  'brandKit.tone': 'Ton de la marque',
+  'brandKit.tonePlaceholder': 'Chaleureux, premium, sobre...',
+  'brandKit.forbidden': 'Styles interdits (séparés par des virgules)',
+  'brandKit.forbiddenPlaceholder': 'néon, cartoon, grunge',
+  'brandKit.save': 'Enregistrer le kit de marque',
+  'brandKit.empty': "Créez un kit de marque pour réutiliser logos, couleurs et ton d'une session à l'autre.",
+  'cutout.title': "Supprimer l'arrière-plan",
+  'cutout.subtitle': 'Fonctionne localement dans votre navigateur. Idéal sur fonds unis ou de studio.',
+  'cutout.tolerance': "Tolérance de l'arrière-plan",
+  'cutout.toleranceHint': 'Plus élevée, elle retire davantage. La modifier annule les retouches au pinceau.',
+  'cutout.tool.keep': 'Conserver',
+  'cutout.tool.remove': 'Retirer',
+  'cutout.hint.keep': 'Peignez sur les parties du produit qui ont été retirées',
+  'cutout.hint.remove': "Peignez sur l'arrière-plan resté visible",
+  'cutout.brushSize': 'Taille du pinceau',
+  'cutout.cutting': 'Détourage...',
+  'cutout.use': 'Utiliser le détourage',
+  'cutout.loadFailed': 'Impossible de charger la photo du produit.',
+  'cutout.segmentFailed': "La suppression automatique de l'arrière-plan a échoué.",
+  'cutout.failed': 'Impossible de créer le détourage.',
+  'error.title.quota-zero': 'Modèle désactivé pour ce projet',
+  'error.title.rate-limited': 'Limite de débit atteinte',
+  'error.title.permission': 'Autorisation refusée',
+  'error.title.model-not-found': 'Modèle indisponible',
+  'error.title.auth': 'Problème de clé API',
+  'error.title.safety-blocked': 'Bloqué par les filtres de sécurité',
+  'error.title.text-only': 'Aucune image renvoyée',
+  'error.title.network': 'Problème de connexion',
+  'error.title.unknown': 'La génération a échoué',
+  'error.action.retry': 'Réessayer',
+  'error.action.reconnect': 'Reconnecter le compte',
+  'error.action.use-standard': 'Utiliser le modèle standard',
+  'error.action.switchToStandard': 'Passer au standard',
+  'error.action.switchToPro': 'Passer à Pro',
+  'error.action.open-usage': "Voir l'utilisation",
+  'error.action.edit-brief': 'Modifier le brief',
+  'error.action.rephrase': 'Reformuler prudemment et réessayer',
+  'error.reason': 'Raison :',
+  'error.rephrasing': 'La reformulation appliquera : {changes}',
+  'logo.title': 'Placement du logo',
+  'logo.mode.ai': 'Composition IA',
+  'logo.mode.overlay': 'Superposition exacte',
+  'logo.hint.ai': 'Le modèle peint le logo sur le produit. Rendu naturel, mais il peut le déformer.',
+  'logo.hint.overlay': 'La scène est générée sans le logo, puis votre fichier est placé au pixel près.',
+  'logo.anchor.top-left': 'coin supérieur gauche',
+  'logo.anchor.top-center': 'bord supérieur',
+  'logo.anchor.top-right': 'coin supérieur droit',
+  'logo.anchor.middle-left': 'bord gauche',
+  'logo.anchor.center': 'centre',
+  'logo.anchor.middle-right': 'bord droit',
+  'logo.anchor.bottom-left': 'coin inférieur gauche',
+  'logo.anchor.bottom-center': 'bord inférieur',
+  'logo.anchor.bottom-right': 'coin inférieur droit',
+  'logo.forFormat': 'Pour {format}',
+  'logo.reset': 'Réinitialiser',
+  'logo.size': 'Taille : {percent} % de la largeur',
+  'logo.opacity': 'Opacité : {percent} %',
+  'logo.margin': 'Marge de sécurité : {percent} %',
+  'mask.title': 'Modifier une zone',
+  'mask.tool.brush': 'Pinceau',
+  'mask.tool.rectangle': 'Rectangle',
+  'mask.tool.lock': 'Protéger',
+  'mask.hint.brush': 'Peignez la zone à modifier',
+  'mask.hint.rectangle': 'Faites glisser pour sélectionner un cadre',
+  'mask.hint.lock': 'Effacez le masque pour protéger le produit ou le logo',
+  'mask.brushSize': 'Taille du pinceau',
+  'mask.instruction': 'Que faut-il changer ici ? ex. remplacer par un jardin flou',
+  'mask.clear': 'Effacer',
+  'mask.editing': 'Modification...',
+  'mask.apply': 'Appliquer à la zone',
+  'mask.imageAlt': 'Visuel à modifier',
+  'overlay.title': 'Calques',
+  'overlay.done': 'Terminé',
+  'overlay.add.text': '+ Texte',
+  'overlay.add.badge': '+ Badge prix',
+  'overlay.add.cta': '+ Bouton CTA',
+  'overlay.add.logo': '+ Logo',
+  'overlay.logoFirst': "Importez d'abord un logo de marque",
+  'overlay.size': 'Taille',
+  'overlay.text': 'Texte',
+  'overlay.fill': 'Fond',
+  'overlay.logoWidth': 'Largeur du logo',
+  'overlay.remove': 'Supprimer le calque',
+  'overlay.hint': "Ajoutez un calque, puis faites-le glisser sur l'image. Cliquez sur un calque pour le modifier.",
+  'overlay.default.text': 'Votre titre',
+  'overlay.default.cta': 'Acheter',
+  'brief.presets': 'Préréglages',
+  'brief.preset.summer-lifestyle': 'Lifestyle estival',
+  'brief.preset.minimal-studio': 'Studio minimaliste',
+  'brief.preset.festive-cozy': 'Fêtes cosy',
+  'brief.preset.luxury-dark': 'Luxe sombre',
+  'brief.preset.flat-lay': 'Flat lay',
+  'brief.clear': 'Effacer',
+  'brief.field.scene': 'Scène / arrière-plan',
+  'brief.field.lighting': 'Éclairage',
+  'brief.field.mood': 'Ambiance',
+  'brief.field.season': 'Saison',
+  'brief.field.cameraAngle': 'Angle de vue',
+  'brief.field.productPlacement': 'Position du produit',
+  'brief.field.logoPlacement': 'Position du logo',
+  'brief.any': 'Indifférent',
+  'brief.notes': 'Notes supplémentaires',
+  'brief.notesPlaceholder': "Ex. : ajoutez quelques rondelles de citron autour de la bouteille et une légère brume dans l'air...",
+  'brief.promptTemplate': 'Modèle de prompt',
+  'brief.hidePrompt': 'Masquer le prompt',
+  'brief.previewPrompt': 'Aperçu du prompt',
+  'refine.placeholder': "Décrivez une retouche, ex. rendre l'arrière-plan plus chaud",
+  'refine.refining': 'Retouche...',
+  'refine.refine': 'Retoucher',
+  'refine.undo': 'Annuler',
+  'refine.redo': 'Rétablir',
+  'refine.original': 'Original',
+  'refine.suggestion.warmer': "Rends l'arrière-plan plus chaud",
+  'refine.suggestion.left': 'Déplace le produit vers la gauche',
+  'refine.suggestion.morning': 'Ajoute une douce lumière matinale',
+  'refine.suggestion.simplify': "Simplifie l'arrière-plan",
+  'usage.title': 'Utilisation et budget',
+  'usage.subtitle': "Compté localement dans ce navigateur ; le quota de l'API peut différer.",
+  'usage.overBudget': 'La prochaine exécution pourrait dépasser votre budget',
+  'usage.rate': '{perMinute}/min • pic {burst}',
+  'usage.callsToday': "{calls} / {limit} appels aujourd'hui",
+  'usage.outcomes': '{successes} réussis • {failures} en échec',
+  'usage.spentToday': "Dépense estimée aujourd'hui",
+  'usage.lastDays': 'Les {count} derniers jours',
+  'usage.none': 'Aucun appel Gemini enregistré pour le moment.',
+  'usage.day': 'Jour',
+  'usage.tierCalls': 'Appels {tier}',
+  'usage.failures': 'Échecs',
+  'usage.cost': 'Coût estimé',
+  'usage.tier.standard': 'Standard',
+  'usage.tier.pro': 'Pro',
+  'usage.tier.text': 'Texte',
+  'usage.warning.calls': "{tier} : {planned} appel(s) prévu(s) mais il n'en reste que {remaining} sur {limit} aujourd'hui.",
+  'usage.warning.cost': 'Le coût estimé de {cost} $ dépasserait le budget du jour de {budget} $.',
+  'variants.title': 'Comparer les variantes',
+  'variants.subtitle': 'Marquez vos favoris, puis choisissez un gagnant pour continuer la retouche.',
+  'variants.showAll': 'Tout afficher',
+  'variants.starredOnly': 'Favoris uniquement ({count})',
+  'variants.imageAlt': 'Variante {id}',
+  'variants.unstar': 'Retirer des favoris',
+  'variants.star': 'Ajouter aux favoris',
+  'variants.original': 'Brief initial',
+  'variants.pickWinner': 'Choisir comme gagnant',
+  'variants.mode.none': 'Même brief',
+  'variants.mode.lighting': 'Varier la lumière',
+  'variants.mode.background': "Varier l'arrière-plan",
+  'variants.mode.both': 'Varier les deux',
+  'assets.partLabel': 'Libellé, ex. couvercle assorti',
+  'assets.role.hero': 'Co-vedette',
+  'assets.role.secondary': 'Secondaire',
+  'assets.partScale': 'Taille par rapport au produit principal : {percent} %',
+  'errors.refine': "Impossible d'appliquer cette retouche.",
+  'errors.region': 'Impossible de modifier la zone sélectionnée.',
+  'errors.generation': 'Un problème est survenu pendant la génération.',
+  'errors.publish': 'La publication a échoué.',
+  'errors.creativeGone': "Le visuel choisi n'est plus dans l'historique.",
+  'errors.queueBlocked': 'Ce visuel échoue aux contrôles de conformité {profile}. Corrigez-les avant de le mettre en file.',
+  'errors.saveFirst': "Enregistrez d'abord le visuel dans l'historique.",
+  'errors.queueIssues': '{issues} Configurez les comptes sous « Publier ».',
+  'reminder.scheduledFor': 'Programmé le {time}',
+  'reminder.at': '{post} le {time}',
+  'reminder.openCalendar': 'Ouvrir le calendrier',
+  'welcome.initializing': 'Initialisation de Visioncraft...',
+  'welcome.tagline': 'Visuels marketing professionnels par IA',
+  'welcome.freeTitle': 'Gratuit pour toujours',
+  'welcome.freeBody': 'Utilisez le modèle Standard pour créer de belles publicités sans aucun coût.',
+  'welcome.secureTitle': 'Accès sécurisé',
+  'welcome.secureBody': 'Connectez votre compte Google pour générer des clés API en toute sécurité.',
+  'welcome.connect': 'Connecter une clé API',
+  'welcome.missingTitle': 'Clé API manquante',
+  'welcome.missingBody': 'Créez un fichier {file} à la racine du projet avec {line} puis redémarrez.',
+  'loading.resumeQueue': "Reprendre la file d'attente",
+  'result.imageAlt': 'Publicité générée',
+  'share.complete': 'Finalisez votre publication',
+  'share.new': 'Nouvelle publication',
+  'share.downloaded': "Image téléchargée sur l'appareil",
+  'share.copied': 'Légende copiée dans le presse-papiers',
+  'share.openHint': 'Vous pouvez maintenant ouvrir Instagram et créer votre publication.',
+  'share.openInstagram': 'Ouvrir Instagram.com',
+  'share.captionPlaceholder': 'Écrivez une légende...',
+  'share.now': 'Partager maintenant',
+  'share.hint': 'Ouvre le partage natif ou télécharge pour une publication manuelle.',
+};
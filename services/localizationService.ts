@@ -0,0 +1,90 @@
+import { MarketProfile, TranslationRequest } from "../types";
+
+// Reads "49", "49.90", "49,90", "1.299", "1.299,00" or "$1,299" as a number; null when it isn't one
+export const parseAmount = (value: string): number | null => {
+  // Words ("from 49", "2 for 1") are left to the user; only currency codes may accompany the number
+  if (/\p{L}/u.test(value.replace(/\b[A-Z]{3}\b/g, ''))) return null;
+  const cleaned = value.replace(/[^\d.,-]/g, '');
+  if (!/\d/.test(cleaned)) return null;
+  const lastComma = cleaned.lastIndexOf(',');
+  const lastDot = cleaned.lastIndexOf('.');
+  let normalized: string;
+  if (lastComma > -1 && lastDot > -1) {
+    // Whichever separator comes last is the decimal one
+    normalized = lastComma > lastDot ? cleaned.replace(/\./g, '').replace(',', '.') : cleaned.replace(/,/g, '');
+  } else if (lastComma > -1) {
+    // A lone comma with one or two digits after it is a decimal comma, otherwise thousands
+    normalized = /,\d{1,2}$/.test(cleaned) && cleaned.indexOf(',') === lastComma ? cleaned.replace(',', '.') : cleaned.replace(/,/g, '');
+  } else if (lastDot > -1) {
+    // Likewise a lone dot with exactly three digits after it ("1.299") or repeated dots mark thousands
+    normalized = /\.\d{3}$/.test(cleaned) || cleaned.indexOf('.') !== lastDot ? cleaned.replace(/\./g, '') : cleaned;
+  } else {
+    normalized = cleaned;
+  }
+  const amount = Number(normalized);
+  return Number.isFinite(amount) ? amount : null;
+};
+
+// "49" becomes "$49" in the US and "49 €" in Germany; text that isn't a number is kept as typed
+export const formatPrice = (value: string, market: MarketProfile): string => {
+  const amount = parseAmount(value);
+  if (amount === null) return value;
+  return new Intl.NumberFormat(market.locale, {
+    style: 'currency',
+    currency: market.currency,
+    minimumFractionDigits: Number.isInteger(amount) ? 0 : 2,
+    maximumFractionDigits: 2,
+  }).format(amount);
+};
+
+// "30", "30%" and "-30%" all mean 30% off: "-30%" in the US, "-30 %" in Germany and France
+export const formatDiscount = (value: string, market: MarketProfile): string => {
+  const amount = parseAmount(value);
+  if (amount === null || amount === 0) return value;
+  return new Intl.NumberFormat(market.locale, { style: 'percent', maximumFractionDigits: 1 }).format(-Math.abs(amount) / 100);
+};
+
+// Template token values with prices and discounts written the market's way
+export const localizeTemplateValues = <T extends Record<string, string>>(values: T, market: MarketProfile): T => ({
+  ...values,
+  ...(values.price ? { price: formatPrice(values.price, market) } : {}),
+  ...(values.discount ? { discount: formatDiscount(values.discount, market) } : {}),
+});
+
+// Swaps prices and discounts formatted for one market for another market's, leaving the rest of the text alone
+export const replaceLocalizedValues = (text: string, from: Record<string, string>, to: Record<string, string>): string => {
+  return Object.keys(from).reduce((result, key) => {
+    return from[key] && to[key] && from[key] !== to[key] ? result.split(from[key]).join(to[key]) : result;
+  }, text);
+};
+
+export const buildTranslationPrompt = (request: TranslationRequest): string => {
+  const { texts, language, marketLabel, brandKit } = request;
+  return `
+    Translate the following advertising texts into ${language} for shoppers in ${marketLabel}.
+    ${brandKit ? `Brand: ${brandKit.name}.${brandKit.tone ? ` Brand voice: ${brandKit.tone}.` : ''}` : ''}
+
+    Texts (JSON array):
+    ${JSON.stringify(texts)}
+
+    Rules:
+    - Return a JSON array with exactly ${texts.length} strings, in the same order.
+    - Adapt slogans and idioms the way a local copywriter would; keep the meaning and tone.
+    - Keep each translation about as long as its source: short texts sit on the image.
+    - Keep brand names, product names, promo codes, prices, percentages and numbers exactly as written.
+    - Keep line breaks. Translate hashtags into natural local hashtags, without spaces.
+    - Do not add claims, prices or disclaimers that are not in the source.
+  `;
+};
+
+// The model's reply, or null when it doesn't line up with the source texts
+export const parseTranslations = (text: string, expected: number): string[] | null => {
+  try {
+    const parsed = JSON.parse(text);
+    const list = Array.isArray(parsed) ? parsed : Array.isArray(parsed?.texts) ? parsed.texts : null;
+    if (!list || list.length !== expected) return null;
+    return list.map((item: unknown) => String(item ?? ''));
+  } catch {
+    return null;
+  }
+};
@@ -0,0 +1,62 @@
+import { AspectRatio, ImageInput, LayerBounds, LogoAnchor, LogoPlacement, LogoPlacements } from "../types";
+import { DEFAULT_LOGO_PLACEMENTS } from "../constants";
+import { loadImage, toDataUrl } from "./canvasUtils";
+
+// Row-major so the anchor picker can render them as a 3×3 grid
+export const LOGO_ANCHORS: { id: LogoAnchor; label: string }[] = [
+  { id: 'top-left', label: 'top-left corner' },
+  { id: 'top-center', label: 'top edge' },
+  { id: 'top-right', label: 'top-right corner' },
+  { id: 'middle-left', label: 'left edge' },
+  { id: 'center', label: 'center' },
+  { id: 'middle-right', label: 'right edge' },
+  { id: 'bottom-left', label: 'bottom-left corner' },
+  { id: 'bottom-center', label: 'bottom edge' },
+  { id: 'bottom-right', label: 'bottom-right corner' },
+];
+
+export const getLogoPlacement = (placements: LogoPlacements | undefined, aspectRatio: AspectRatio): LogoPlacement => {
+  return placements?.[aspectRatio] || DEFAULT_LOGO_PLACEMENTS[aspectRatio];
+};
+
+export const describeLogoAnchor = (anchor: LogoAnchor): string => {
+  return LOGO_ANCHORS.find(item => item.id === anchor)?.label || anchor;
+};
+
+// Pixel box for the logo on a canvas of the given size. The margin is measured from
+// whichever edges the anchor touches; centered axes ignore it.
+export const measureLogoPlacement = (
+  placement: LogoPlacement,
+  logoWidth: number,
+  logoHeight: number,
+  width: number,
+  height: number
+): LayerBounds => {
+  const boxWidth = placement.scale * width;
+  const boxHeight = boxWidth * (logoHeight / logoWidth);
+  const margin = placement.margin * Math.min(width, height);
+  const [vertical, horizontal] = placement.anchor === 'center' ? ['middle', 'center'] : placement.anchor.split('-');
+
+  const x = horizontal === 'left' ? margin : horizontal === 'right' ? width - boxWidth - margin : (width - boxWidth) / 2;
+  const y = vertical === 'top' ? margin : vertical === 'bottom' ? height - boxHeight - margin : (height - boxHeight) / 2;
+  return { x, y, width: boxWidth, height: boxHeight };
+};
+
+// Stamps the uploaded logo, untouched, onto a generated image. Returns a PNG data URL.
+export const compositeLogo = async (imageUrl: string, logo: ImageInput, placement: LogoPlacement): Promise<string> => {
+  const [base, mark] = await Promise.all([loadImage(imageUrl), loadImage(toDataUrl(logo.base64, logo.mimeType))]);
+  const canvas = document.createElement('canvas');
+  canvas.width = base.naturalWidth;
+  canvas.height = base.naturalHeight;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new Error("Canvas rendering is not supported in this browser.");
+  }
+
+  ctx.drawImage(base, 0, 0);
+  const bounds = measureLogoPlacement(placement, mark.naturalWidth, mark.naturalHeight, canvas.width, canvas.height);
+  ctx.globalAlpha = placement.opacity;
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(mark, bounds.x, bounds.y, bounds.width, bounds.height);
+  return canvas.toDataURL('image/png');
+};
@@ -0,0 +1,88 @@
+import { BrandKit, HistoryEntry, MarketProfile, OverlayLayer } from "../types";
+import { translateAdTexts } from "./imageService";
+import { localizeTemplateValues, replaceLocalizedValues } from "./localizationService";
+import { checkMarketWording, getOverlayText } from "./complianceService";
+import { STORES, createId, putRecord } from "./db";
+import { DEFAULT_TRANSLATOR, Translator } from "./i18nService";
+
+export interface LocalizeCreativeInput {
+  apiKey: string;
+  overlays: OverlayLayer[];
+  caption: string;
+  source: MarketProfile;
+  target: MarketProfile;
+  brandKit: BrandKit | null;
+  // Template values as typed for the source market and for the target (e.g. a price in EUR)
+  sourceValues: Record<string, string>;
+  targetValues: Record<string, string>;
+  signal?: AbortSignal;
+}
+
+export interface LocalizedCreative {
+  overlays: OverlayLayer[];
+  caption: string;
+  // Source price kept as written because the target market uses another currency and got no price
+  unconvertedPrice: string | null;
+}
+
+// Translates overlay text and the caption in one request, then swaps in the target market's
+// prices and discounts. A price is never relabelled with another currency: without a price
+// for the target market it stays in the source currency. Positions, fonts and colors stay as designed.
+export const localizeCreative = async (input: LocalizeCreativeInput): Promise<LocalizedCreative> => {
+  const { overlays, caption, source, target } = input;
+  const translatable = overlays.filter(layer => layer.kind !== 'logo' && layer.text.trim());
+  const texts = [...translatable.map(layer => layer.text), caption];
+
+  const translated = source.language === target.language
+    ? texts
+    : (await translateAdTexts({
+        apiKey: input.apiKey,
+        texts,
+        language: target.language,
+        marketLabel: target.label,
+        brandKit: input.brandKit,
+        signal: input.signal,
+      })).texts;
+
+  const from = localizeTemplateValues(input.sourceValues, source);
+  const unconvertedPrice = from.price && !input.targetValues.price?.trim() && source.currency !== target.currency
+    ? from.price
+    : null;
+  const to = {
+    ...localizeTemplateValues({ ...input.sourceValues, ...input.targetValues }, target),
+    ...(unconvertedPrice ? { price: unconvertedPrice } : {}),
+  };
+  const localize = (text: string) => replaceLocalizedValues(text, from, to);
+
+  return {
+    overlays: overlays.map(layer => {
+      const index = translatable.indexOf(layer);
+      return index === -1 ? layer : { ...layer, text: localize(translated[index]) };
+    }),
+    caption: localize(translated[translated.length - 1]),
+    unconvertedPrice,
+  };
+};
+
+// Restricted claims and prices still in the source currency; the full compliance check runs when the variant is opened
+export const getMarketIssues = (market: MarketProfile, creative: LocalizedCreative, t: Translator = DEFAULT_TRANSLATOR): string[] => {
+  const { forbidden } = checkMarketWording(market, creative.caption, getOverlayText(creative.overlays));
+  const issues = forbidden.map(word => t('market.issue.restricted', { word, market: market.label }));
+  if (creative.unconvertedPrice) {
+    issues.push(t('market.issue.price', { price: creative.unconvertedPrice, currency: market.currency, market: market.label }));
+  }
+  return issues;
+};
+
+// Stored next to the original so it can be exported, published or planned like any creative
+export const saveMarketVariant = async (entry: HistoryEntry, market: MarketProfile, creative: LocalizedCreative): Promise<HistoryEntry> => {
+  return putRecord<HistoryEntry>(STORES.history, {
+    ...entry,
+    id: createId('gen'),
+    title: `${entry.title.replace(/ \([A-Z]{2}\)$/, '')} (${market.id.toUpperCase()})`,
+    createdAt: Date.now(),
+    overlays: creative.overlays,
+    marketId: market.id,
+    caption: creative.caption,
+  });
+};
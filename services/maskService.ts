@@ -0,0 +1,76 @@
+import { loadImage } from "./canvasUtils";
+
+// Soft edge so the edited region blends into the untouched pixels
+const FEATHER_PX = 6;
+
+// Masks are painted as translucent strokes on a transparent canvas (any alpha = editable).
+// Redraw at a target size with every painted pixel fully opaque white.
+const normalizeMask = (mask: HTMLImageElement, width: number, height: number, background: string | null): HTMLCanvasElement => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new Error("Canvas rendering is not supported in this browser.");
+  }
+
+  ctx.drawImage(mask, 0, 0, width, height);
+  const pixels = ctx.getImageData(0, 0, width, height);
+  const { data } = pixels;
+  for (let i = 0; i < data.length; i += 4) {
+    const painted = data[i + 3] > 0;
+    data[i] = data[i + 1] = data[i + 2] = painted ? 255 : 0;
+    data[i + 3] = painted || background ? 255 : 0;
+  }
+  ctx.putImageData(pixels, 0, 0);
+  return canvas;
+};
+
+// Models expect a black/white mask (white = editable)
+export const toBinaryMask = async (alphaMaskUrl: string): Promise<string> => {
+  const mask = await loadImage(alphaMaskUrl);
+  return normalizeMask(mask, mask.naturalWidth, mask.naturalHeight, '#000000').toDataURL('image/png');
+};
+
+// True when nothing has been painted on the mask yet
+export const isMaskEmpty = (canvas: HTMLCanvasElement): boolean => {
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return true;
+  const { data } = ctx.getImageData(0, 0, canvas.width, canvas.height);
+  for (let i = 3; i < data.length; i += 4) {
+    if (data[i] > 0) return false;
+  }
+  return true;
+};
+
+// Paste the edited pixels back onto the original, but only inside the mask
+export const compositeMaskedRegion = async (originalUrl: string, editedUrl: string, alphaMaskUrl: string): Promise<string> => {
+  const [original, edited, mask] = await Promise.all([loadImage(originalUrl), loadImage(editedUrl), loadImage(alphaMaskUrl)]);
+  const width = original.naturalWidth;
+  const height = original.naturalHeight;
+
+  const region = document.createElement('canvas');
+  region.width = width;
+  region.height = height;
+  const regionCtx = region.getContext('2d');
+
+  const output = document.createElement('canvas');
+  output.width = width;
+  output.height = height;
+  const outputCtx = output.getContext('2d');
+
+  if (!regionCtx || !outputCtx) {
+    throw new Error("Canvas rendering is not supported in this browser.");
+  }
+
+  // Edited image clipped to the (feathered) mask; the model may return a different size
+  regionCtx.filter = `blur(${FEATHER_PX}px)`;
+  regionCtx.drawImage(normalizeMask(mask, width, height, null), 0, 0);
+  regionCtx.filter = 'none';
+  regionCtx.globalCompositeOperation = 'source-in';
+  regionCtx.drawImage(edited, 0, 0, width, height);
+
+  outputCtx.drawImage(original, 0, 0);
+  outputCtx.drawImage(region, 0, 0);
+  return output.toDataURL('image/png');
+};
@@ -0,0 +1,167 @@
+import { CopyGenerationRequest, CopyGenerationResponse, ImageEditRequest, ImageGenerationRequest, ImageGenerationResponse, ImageProvider, TranslationRequest, TranslationResponse } from "../types";
+import { fitContain, getCanvasSize, loadImage, toDataUrl } from "./canvasUtils";
+import { summarizeBrief } from "./promptService";
+import { draftAdCopy } from "./copyService";
+import { delay } from "./asyncUtils";
+
+const MOCK_MODEL = 'mock-canvas-v1';
+const MOCK_COPY_MODEL = 'mock-template-v1';
+const MOCK_TRANSLATION_MODEL = 'mock-passthrough-v1';
+
+// Simulated latency so loading states are visible during offline demos
+const MOCK_LATENCY_MS = 800;
+
+// Small string hash so the same brief always renders the same placeholder
+const hashString = (value: string): number => {
+  let hash = 0;
+  for (let i = 0; i < value.length; i++) {
+    hash = (hash * 31 + value.charCodeAt(i)) | 0;
+  }
+  return Math.abs(hash);
+};
+
+const generateMockImage = async (request: ImageGenerationRequest): Promise<ImageGenerationResponse> => {
+  const { description, brief, productImage, logoImage, aspectRatio, variation, brandKit, signal } = request;
+  const extraProducts = request.extraProducts || [];
+  console.log("[Visioncraft] Rendering mock composite (offline provider)...");
+
+  await delay(MOCK_LATENCY_MS, signal);
+
+  const { width, height } = getCanvasSize(aspectRatio);
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new Error("Canvas rendering is not supported in this browser.");
+  }
+
+  // Background: two-stop gradient from the brand palette, or hues derived from the brief
+  const hue = hashString(summarizeBrief(brief, description) + (variation || '')) % 360;
+  const palette = brandKit?.palette || [];
+  const gradient = ctx.createLinearGradient(0, 0, width, height);
+  gradient.addColorStop(0, palette[0] || `hsl(${hue}, 55%, 35%)`);
+  gradient.addColorStop(1, palette[1] || `hsl(${(hue + 60) % 360}, 60%, 15%)`);
+  ctx.fillStyle = gradient;
+  ctx.fillRect(0, 0, width, height);
+
+  // Products: one row standing on a shared baseline; the main product takes ~60% of the
+  // shorter edge, shrinking so bundles still fit, and extras follow their relative scale
+  const products = [
+    { image: productImage, scale: 1, isHero: true },
+    ...extraProducts.map(shot => ({ image: shot.image, scale: shot.scale, isHero: shot.role === 'hero' })),
+  ];
+  const totalScale = products.reduce((sum, item) => sum + item.scale, 0);
+  const productBox = Math.min(Math.min(width, height) * 0.6, (width * 0.85) / totalScale);
+  // Alternate extras around the main product: ..., 4, 2, main, 3, 5, ...
+  const row = products.slice(1).reduce(
+    (order, item, index) => index % 2 === 0 ? [...order, item] : [item, ...order],
+    [products[0]]
+  );
+  const loaded = await Promise.all(row.map(async item => {
+    const image = await loadImage(toDataUrl(item.image.base64, item.image.mimeType));
+    return { ...item, image, size: fitContain(image.width, image.height, productBox * item.scale, productBox * item.scale) };
+  }));
+  const rowWidth = loaded.reduce((sum, item) => sum + item.size.width, 0);
+  const baseline = (height + productBox) / 2;
+  let x = (width - rowWidth) / 2;
+  const placed = loaded.map(item => {
+    const position = { ...item, x, y: baseline - item.size.height };
+    x += item.size.width;
+    return position;
+  });
+  ctx.shadowColor = 'rgba(0, 0, 0, 0.45)';
+  ctx.shadowBlur = 40;
+  ctx.shadowOffsetY = 20;
+  // Secondary items first so hero products overlap them, not the other way round
+  [...placed].sort((a, b) => Number(a.isHero) - Number(b.isHero)).forEach(item => {
+    ctx.drawImage(item.image, item.x, item.y, item.size.width, item.size.height);
+  });
+  ctx.shadowColor = 'transparent';
+
+  // Logo: top-right corner, ~15% of the shorter edge
+  if (logoImage) {
+    const logo = await loadImage(toDataUrl(logoImage.base64, logoImage.mimeType));
+    const logoBox = Math.min(width, height) * 0.15;
+    const logoSize = fitContain(logo.width, logo.height, logoBox, logoBox);
+    const margin = Math.min(width, height) * 0.05;
+    ctx.drawImage(logo, width - logoSize.width - margin, margin, logoSize.width, logoSize.height);
+  }
+
+  // Watermark so mock output is never mistaken for a real creative
+  ctx.fillStyle = 'rgba(255, 255, 255, 0.6)';
+  ctx.font = `600 ${Math.round(Math.min(width, height) * 0.03)}px Inter, sans-serif`;
+  ctx.textBaseline = 'bottom';
+  ctx.fillText(`MOCK • ${aspectRatio}`, Math.min(width, height) * 0.04, height - Math.min(width, height) * 0.04);
+
+  return {
+    imageUrl: canvas.toDataURL('image/png'),
+    mimeType: 'image/png',
+    provider: mockImageProvider.id,
+    model: MOCK_MODEL,
+    aspectRatio,
+    createdAt: Date.now(),
+  };
+};
+
+// Tints the current output and stamps the instruction so each step is visibly different
+const refineMockImage = async (request: ImageEditRequest): Promise<ImageGenerationResponse> => {
+  const { image, instruction, aspectRatio, signal } = request;
+  console.log("[Visioncraft] Applying mock refinement:", instruction);
+
+  await delay(MOCK_LATENCY_MS, signal);
+
+  const source = await loadImage(toDataUrl(image.base64, image.mimeType));
+  const canvas = document.createElement('canvas');
+  canvas.width = source.naturalWidth;
+  canvas.height = source.naturalHeight;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new Error("Canvas rendering is not supported in this browser.");
+  }
+
+  ctx.drawImage(source, 0, 0);
+  ctx.fillStyle = `hsla(${hashString(instruction) % 360}, 70%, 50%, 0.15)`;
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+
+  const shortEdge = Math.min(canvas.width, canvas.height);
+  ctx.fillStyle = 'rgba(255, 255, 255, 0.6)';
+  ctx.font = `500 ${Math.round(shortEdge * 0.025)}px Inter, sans-serif`;
+  ctx.textBaseline = 'top';
+  ctx.fillText(`Refined: ${instruction.slice(0, 60)}`, shortEdge * 0.04, shortEdge * 0.04);
+
+  return {
+    imageUrl: canvas.toDataURL('image/png'),
+    mimeType: 'image/png',
+    provider: mockImageProvider.id,
+    model: MOCK_MODEL,
+    aspectRatio,
+    createdAt: Date.now(),
+  };
+};
+
+// Template copy from the brief; the image is not inspected offline
+const writeMockCopy = async (request: CopyGenerationRequest): Promise<CopyGenerationResponse> => {
+  await delay(MOCK_LATENCY_MS, request.signal);
+  return {
+    copies: Array.from({ length: request.count }, (_, index) => draftAdCopy(request, index)),
+    model: MOCK_COPY_MODEL,
+  };
+};
+
+// No offline translator: texts come back unchanged so the market pipeline (prices, wording
+// checks, history entries) can still be exercised
+const translateMock = async (request: TranslationRequest): Promise<TranslationResponse> => {
+  await delay(MOCK_LATENCY_MS, request.signal);
+  return { texts: [...request.texts], model: MOCK_TRANSLATION_MODEL };
+};
+
+export const mockImageProvider: ImageProvider = {
+  id: "mock",
+  label: "Local Mock (Offline)",
+  requiresApiKey: false,
+  generate: generateMockImage,
+  refine: refineMockImage,
+  writeCopy: writeMockCopy,
+  translate: translateMock,
+};
@@ -0,0 +1,142 @@
+import { LayerBounds, OverlayBounds, OverlayLayer, OverlayLayerKind } from "../types";
+import { loadImage } from "./canvasUtils";
+import { DEFAULT_TRANSLATOR, Translator } from "./i18nService";
+
+export const OVERLAY_FONTS = ['Inter', 'Georgia', 'Impact', 'Trebuchet MS', 'Courier New'];
+
+const LAYER_DEFAULTS: Record<OverlayLayerKind, Omit<OverlayLayer, 'id' | 'kind'>> = {
+  text: { x: 0.08, y: 0.08, text: '', fontFamily: 'Inter', fontSize: 0.07, color: '#ffffff', background: 'transparent', scale: 1 },
+  badge: { x: 0.7, y: 0.1, text: '-30%', fontFamily: 'Impact', fontSize: 0.06, color: '#ffffff', background: '#dc2626', scale: 1 },
+  cta: { x: 0.08, y: 0.82, text: '', fontFamily: 'Inter', fontSize: 0.045, color: '#0f172a', background: '#ffffff', scale: 1 },
+  logo: { x: 0.75, y: 0.8, text: '', fontFamily: 'Inter', fontSize: 0, color: '#ffffff', background: 'transparent', scale: 0.18 },
+};
+
+// Headline and CTA start with placeholder text in the interface language
+export const createOverlayLayer = (kind: OverlayLayerKind, t: Translator = DEFAULT_TRANSLATOR): OverlayLayer => {
+  const defaults = LAYER_DEFAULTS[kind];
+  return {
+    id: `${kind}-${Date.now()}-${Math.round(Math.random() * 1000)}`,
+    kind,
+    ...defaults,
+    text: kind === 'text' || kind === 'cta' ? t(`overlay.default.${kind}`) : defaults.text,
+  };
+};
+
+const fontFor = (layer: OverlayLayer, height: number) => {
+  const weight = layer.kind === 'text' ? 700 : 800;
+  return `${weight} ${Math.round(layer.fontSize * height)}px "${layer.fontFamily}", sans-serif`;
+};
+
+// Pixel bounds of a layer on a canvas of the given size
+export const measureOverlayLayer = (
+  ctx: CanvasRenderingContext2D,
+  layer: OverlayLayer,
+  width: number,
+  height: number,
+  logo: HTMLImageElement | null
+): LayerBounds => {
+  const x = layer.x * width;
+  const y = layer.y * height;
+
+  if (layer.kind === 'logo') {
+    const logoWidth = layer.scale * width;
+    const logoHeight = logo ? logoWidth * (logo.naturalHeight / logo.naturalWidth) : logoWidth;
+    return { x, y, width: logoWidth, height: logoHeight };
+  }
+
+  ctx.font = fontFor(layer, height);
+  const fontPx = layer.fontSize * height;
+  const textWidth = ctx.measureText(layer.text).width;
+
+  if (layer.kind === 'badge') {
+    // Badges are circles sized to fit their text
+    const diameter = Math.max(textWidth, fontPx) + fontPx * 1.2;
+    return { x, y, width: diameter, height: diameter };
+  }
+  if (layer.kind === 'cta') {
+    return { x, y, width: textWidth + fontPx * 2, height: fontPx * 2.2 };
+  }
+  return { x, y, width: textWidth, height: fontPx * 1.2 };
+};
+
+export const drawOverlayLayers = (
+  ctx: CanvasRenderingContext2D,
+  layers: OverlayLayer[],
+  width: number,
+  height: number,
+  logo: HTMLImageElement | null
+) => {
+  for (const layer of layers) {
+    const bounds = measureOverlayLayer(ctx, layer, width, height, logo);
+    const fontPx = layer.fontSize * height;
+    ctx.save();
+
+    if (layer.kind === 'logo') {
+      if (logo) ctx.drawImage(logo, bounds.x, bounds.y, bounds.width, bounds.height);
+      ctx.restore();
+      continue;
+    }
+
+    if (layer.kind === 'badge') {
+      ctx.fillStyle = layer.background;
+      ctx.beginPath();
+      ctx.arc(bounds.x + bounds.width / 2, bounds.y + bounds.height / 2, bounds.width / 2, 0, Math.PI * 2);
+      ctx.fill();
+    } else if (layer.kind === 'cta') {
+      ctx.fillStyle = layer.background;
+      ctx.beginPath();
+      ctx.roundRect(bounds.x, bounds.y, bounds.width, bounds.height, bounds.height / 2);
+      ctx.fill();
+    } else {
+      // Soft shadow keeps headline text legible on busy backgrounds
+      ctx.shadowColor = 'rgba(0, 0, 0, 0.5)';
+      ctx.shadowBlur = fontPx * 0.3;
+    }
+
+    ctx.font = fontFor(layer, height);
+    ctx.fillStyle = layer.color;
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    ctx.fillText(layer.text, bounds.x + bounds.width / 2, bounds.y + bounds.height / 2);
+    ctx.restore();
+  }
+};
+
+// Layer bounds as fractions of the image, used by the safe-zone compliance rule
+export const getOverlayBounds = async (
+  layers: OverlayLayer[],
+  width: number,
+  height: number,
+  logoUrl: string | null,
+  t: Translator = DEFAULT_TRANSLATOR
+): Promise<OverlayBounds[]> => {
+  const ctx = document.createElement('canvas').getContext('2d');
+  if (!ctx) return [];
+  const logo = logoUrl ? await loadImage(logoUrl) : null;
+  return layers.map(layer => {
+    const bounds = measureOverlayLayer(ctx, layer, width, height, logo);
+    return {
+      label: layer.kind === 'logo' ? t('compliance.logoLayer') : `"${layer.text}"`,
+      x: bounds.x / width,
+      y: bounds.y / height,
+      width: bounds.width / width,
+      height: bounds.height / height,
+    };
+  });
+};
+
+// Bake all layers into the generated image and return a PNG data URL
+export const flattenCreative = async (imageUrl: string, layers: OverlayLayer[], logoUrl: string | null): Promise<string> => {
+  const base = await loadImage(imageUrl);
+  const canvas = document.createElement('canvas');
+  canvas.width = base.naturalWidth;
+  canvas.height = base.naturalHeight;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new Error("Canvas rendering is not supported in this browser.");
+  }
+  const logo = logoUrl ? await loadImage(logoUrl) : null;
+  ctx.drawImage(base, 0, 0);
+  drawOverlayLayers(ctx, layers, canvas.width, canvas.height, logo);
+  return canvas.toDataURL('image/png');
+};
@@ -0,0 +1,197 @@
+import { PromptInput, PromptTemplate, SafeRephrasing, StructuredBrief } from "../types";
+import { buildBrandDirectives } from "./brandKitService";
+import { describeProductShot, getReferencePartLabel } from "./compositionService";
+
+export const EMPTY_BRIEF: StructuredBrief = {
+  scene: '',
+  lighting: '',
+  mood: '',
+  season: '',
+  cameraAngle: '',
+  productPlacement: '',
+  logoPlacement: '',
+};
+
+// Field metadata drives the prompt builder form; '' is always "Any"
+export const BRIEF_FIELDS: { key: keyof StructuredBrief; options: string[] }[] = [
+  { key: 'scene', options: ['seamless studio backdrop', 'marble kitchen counter', 'sunlit beach', 'urban street', 'lush forest floor', 'cozy living room', 'gym floor'] },
+  { key: 'lighting', options: ['golden hour', 'soft diffused studio light', 'dramatic low-key', 'bright natural daylight', 'neon accent lighting'] },
+  { key: 'mood', options: ['fresh and energetic', 'calm and minimal', 'luxurious', 'playful', 'warm and cozy'] },
+  { key: 'season', options: ['spring', 'summer', 'autumn', 'winter', 'holiday season'] },
+  { key: 'cameraAngle', options: ['eye level', 'top-down flat lay', 'low angle hero shot', '45-degree three-quarter view', 'macro close-up'] },
+  { key: 'productPlacement', options: ['centered', 'left third', 'right third', 'foreground with depth of field', 'held in hand'] },
+  { key: 'logoPlacement', options: ['front label center', 'on the packaging lid', 'subtle embossed on the surface', 'on a tag attached to the product'] },
+];
+
+export const BRIEF_PRESETS: { id: string; brief: StructuredBrief }[] = [
+  {
+    id: 'summer-lifestyle',
+    brief: { ...EMPTY_BRIEF, scene: 'sunlit beach', lighting: 'golden hour', mood: 'fresh and energetic', season: 'summer', cameraAngle: 'eye level', productPlacement: 'foreground with depth of field' },
+  },
+  {
+    id: 'minimal-studio',
+    brief: { ...EMPTY_BRIEF, scene: 'seamless studio backdrop', lighting: 'soft diffused studio light', mood: 'calm and minimal', cameraAngle: '45-degree three-quarter view', productPlacement: 'centered' },
+  },
+  {
+    id: 'festive-cozy',
+    brief: { ...EMPTY_BRIEF, scene: 'cozy living room', lighting: 'warm tungsten and fairy lights', mood: 'warm and cozy', season: 'holiday season', cameraAngle: 'eye level', productPlacement: 'centered' },
+  },
+  {
+    id: 'luxury-dark',
+    brief: { ...EMPTY_BRIEF, scene: 'black marble surface', lighting: 'dramatic low-key', mood: 'luxurious', cameraAngle: 'low angle hero shot', productPlacement: 'centered' },
+  },
+  {
+    id: 'flat-lay',
+    brief: { ...EMPTY_BRIEF, scene: 'pastel paper backdrop with props', lighting: 'bright natural daylight', mood: 'playful', cameraAngle: 'top-down flat lay', productPlacement: 'centered' },
+  },
+];
+
+export const hasBriefContent = (brief: StructuredBrief, description: string): boolean => {
+  return description.trim().length > 0 || Object.values(brief).some(value => value.trim().length > 0);
+};
+
+// Single line summary used for history titles and compliance word checks
+export const summarizeBrief = (brief: StructuredBrief, description: string): string => {
+  const parts = [brief.scene, brief.mood, brief.lighting, brief.season].filter(Boolean);
+  return [parts.join(', '), description.trim()].filter(Boolean).join(' — ');
+};
+
+const formatDirectives = (lines: (string | null | false | undefined)[]): string => {
+  return lines.filter(Boolean).map(line => `- ${line}`).join('\n    ');
+};
+
+// v1: the original single-paragraph template, kept so older results can be reproduced
+const classicTemplate: PromptTemplate = {
+  id: 'classic-v1',
+  name: 'Classic',
+  version: 1,
+  build: ({ description, brief, hasLogo, variation, brandKit }) => `
+    Create a high-end, aesthetic advertisement image.
+    
+    Inputs:
+    1. Product Image (Focus).
+    ${hasLogo ? "2. Brand Logo (Apply to product)." : ""}
+    3. Brief: "${summarizeBrief(brief, description)}"
+
+    Directives:
+    ${formatDirectives([
+      'Integrate the product naturally into a generated background matching the brief.',
+      'Photorealistic lighting and composition.',
+      hasLogo && 'COMPOSITE the logo onto the product surface naturally (respect geometry/lighting). Do not float it.',
+      variation && `Variation: ${variation}`,
+      ...buildBrandDirectives(brandKit),
+      'No text overlays.',
+    ])}
+  `,
+};
+
+// v2: each structured field becomes its own directive
+const structuredTemplate: PromptTemplate = {
+  id: 'structured-v2',
+  name: 'Structured',
+  version: 2,
+  build: ({ description, brief, hasLogo, extraProducts = [], referenceCount = 0, logoClearSpace, variation, brandKit }) => `
+    Create a high-end, photorealistic advertisement image of the supplied product${extraProducts.length > 0 ? 's' : ''}.
+
+    Inputs:
+    1. Product Image (Focus).
+    ${hasLogo ? "2. Brand Logo (Apply to product)." : ""}
+    ${formatDirectives([
+      ...extraProducts.map(describeProductShot),
+      referenceCount > 0 && `${referenceCount > 1 ? `${getReferencePartLabel(0)}-${referenceCount}` : getReferencePartLabel(0)}: style and mood reference only.`,
+    ])}
+
+    Scene:
+    ${formatDirectives([
+      brief.scene && `Background / setting: ${brief.scene}.`,
+      brief.lighting && `Lighting: ${brief.lighting}.`,
+      brief.mood && `Mood: ${brief.mood}.`,
+      brief.season && `Season: ${brief.season}.`,
+      brief.cameraAngle && `Camera angle: ${brief.cameraAngle}.`,
+      brief.productPlacement && `Product placement: ${brief.productPlacement}.`,
+      description.trim() && `Additional notes: "${description.trim()}"`,
+    ]) || '- Choose a setting that flatters the product.'}
+
+    Directives:
+    ${formatDirectives([
+      'Integrate the product naturally; keep its shape, colors and label intact.',
+      extraProducts.length > 0 && 'Show every supplied product exactly once, each with its own shape, colors and label intact, at the relative sizes listed above.',
+      referenceCount > 0 && 'Borrow only palette, lighting and atmosphere from the reference images; do not copy their objects, people or text.',
+      hasLogo && `COMPOSITE the logo onto the product surface naturally${brief.logoPlacement ? ` (${brief.logoPlacement})` : ''}, respecting geometry and lighting. Do not float it.`,
+      logoClearSpace && `Keep the ${logoClearSpace} free of the product and busy detail; a logo will be placed there afterwards.`,
+      variation && `Variation: ${variation}`,
+      ...buildBrandDirectives(brandKit),
+      'No text overlays.',
+    ])}
+  `,
+};
+
+export const PROMPT_TEMPLATES: PromptTemplate[] = [structuredTemplate, classicTemplate];
+
+export const DEFAULT_PROMPT_TEMPLATE_ID = structuredTemplate.id;
+
+export const getPromptTemplate = (id: string | undefined): PromptTemplate => {
+  return PROMPT_TEMPLATES.find(template => template.id === id) || structuredTemplate;
+};
+
+export const buildAdPrompt = (templateId: string | undefined, input: PromptInput): string => {
+  return getPromptTemplate(templateId).build(input);
+};
+
+// Words that often trip safety filters on otherwise harmless product shots, with a
+// neutral stand-in ('' drops the word). Grouped by the harm category they tend to hit.
+const SAFE_REPLACEMENTS: Record<string, Record<string, string>> = {
+  DANGEROUS_CONTENT: {
+    gun: '', guns: '', weapon: '', weapons: '', knife: '', knives: '', bullet: '', bullets: '',
+    bomb: '', explosive: 'vibrant', explosion: 'burst of color', fire: 'warm glow', burning: 'glowing',
+    drug: '', drugs: '', pills: '', syringe: '', poison: '', toxic: 'bold', smoke: 'mist', smoking: '',
+    cigarette: '', cigarettes: '',
+  },
+  SEXUALLY_EXPLICIT: {
+    sexy: 'stylish', seductive: 'elegant', sensual: 'refined', provocative: 'eye-catching', erotic: '',
+    nude: 'neutral-toned', naked: 'bare', lingerie: '', topless: '',
+  },
+  HARASSMENT: {
+    ugly: '', stupid: '', loser: '', losers: '', crush: 'outshine', destroy: 'outperform', attack: '',
+  },
+  VIOLENCE: {
+    blood: 'deep red', bloody: 'deep red', gore: '', violent: 'intense', violence: '', kill: '', killer: 'standout',
+    dead: '', death: '', war: '', fight: '',
+  },
+};
+
+const SAFE_MOOD_SUFFIX = 'brand-safe and family-friendly';
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const tidy = (text: string) => text.replace(/\s{2,}/g, ' ').replace(/\s+([,.;!?])/g, '$1').replace(/,\s*,/g, ',').trim();
+
+// Rule-based rewrite of the brief after a safety block: swaps risky words for neutral
+// ones and asks for a brand-safe mood. Deterministic, so it works with every provider.
+export const rephraseBriefSafely = (brief: StructuredBrief, description: string): SafeRephrasing => {
+  const changes = new Set<string>();
+  const replacements = Object.values(SAFE_REPLACEMENTS).flatMap(group => Object.entries(group));
+
+  const clean = (text: string): string => {
+    let result = text;
+    for (const [term, replacement] of replacements) {
+      const pattern = new RegExp(`\\b${escapeRegExp(term)}\\b`, 'gi');
+      if (pattern.test(result)) {
+        changes.add(replacement ? `"${term}" → "${replacement}"` : `removed "${term}"`);
+        result = result.replace(pattern, replacement);
+      }
+    }
+    return tidy(result);
+  };
+
+  const cleaned = Object.fromEntries(
+    Object.entries(brief).map(([key, value]) => [key, clean(value)])
+  ) as unknown as StructuredBrief;
+
+  if (!cleaned.mood.includes(SAFE_MOOD_SUFFIX)) {
+    cleaned.mood = [cleaned.mood, SAFE_MOOD_SUFFIX].filter(Boolean).join(', ');
+    changes.add(`mood: added "${SAFE_MOOD_SUFFIX}"`);
+  }
+
+  return { brief: cleaned, description: clean(description), changes: Array.from(changes) };
+};
@@ -0,0 +1,203 @@
+import { PublishConnector, PublishPayload, PublishReceipt } from "../types";
+
+const GRAPH_API = 'https://graph.facebook.com/v21.0';
+const PINTEREST_API = 'https://api.pinterest.com/v5';
+
+export const MOCK_PUBLISH_ENDPOINT = 'http://localhost:8787/publish';
+
+const MB = 1024 * 1024;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export class PublishError extends Error {
+  readonly status: number | null;
+
+  constructor(message: string, status: number | null = null) {
+    super(message);
+    this.name = 'PublishError';
+    this.status = status;
+  }
+}
+
+// Graph and Pinterest both wrap failures in JSON; surface their message rather than the status text
+const readJson = async (response: Response, label: string): Promise<any> => {
+  const body = await response.json().catch(() => null);
+  if (!response.ok) {
+    const message = body?.error?.message || body?.message || response.statusText || `HTTP ${response.status}`;
+    throw new PublishError(`${label}: ${message}`, response.status);
+  }
+  return body || {};
+};
+
+const blobToBase64 = async (blob: Blob): Promise<string> => {
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+};
+
+const postGraphPhoto = async (pageId: string, payload: PublishPayload, extra: Record<string, string>): Promise<any> => {
+  const form = new FormData();
+  form.append('source', payload.image, payload.fileName);
+  form.append('access_token', payload.account.accessToken);
+  Object.entries(extra).forEach(([key, value]) => form.append(key, value));
+  const response = await fetch(`${GRAPH_API}/${pageId}/photos`, { method: 'POST', body: form, signal: payload.signal });
+  return readJson(response, 'Facebook');
+};
+
+const publishToFacebook = async (payload: PublishPayload): Promise<PublishReceipt> => {
+  const { account, caption, scheduledAt } = payload;
+  const body = await postGraphPhoto(account.targetId, payload, scheduledAt
+    ? { message: caption, published: 'false', scheduled_publish_time: String(Math.floor(scheduledAt / 1000)) }
+    : { message: caption });
+  const postId = body.post_id || body.id;
+  return { remoteId: postId, url: postId ? `https://www.facebook.com/${postId}` : null };
+};
+
+// The Instagram API only accepts an image URL, so the file is first staged as a hidden
+// photo on the linked Facebook page and its CDN address handed over
+const publishToInstagram = async (payload: PublishPayload): Promise<PublishReceipt> => {
+  const { account, caption, altText, signal } = payload;
+  const token = encodeURIComponent(account.accessToken);
+
+  const staged = await postGraphPhoto(account.pageId, payload, { published: 'false', temporary: 'true' });
+  const photo = await readJson(await fetch(`${GRAPH_API}/${staged.id}?fields=images&access_token=${token}`, { signal }), 'Instagram');
+  const imageUrl = photo.images?.[0]?.source;
+  if (!imageUrl) {
+    throw new PublishError("Instagram: the staged photo has no public URL. Check the page permissions.");
+  }
+
+  const containerParams = new URLSearchParams({ image_url: imageUrl, caption, access_token: account.accessToken });
+  if (altText) containerParams.set('alt_text', altText);
+  const container = await readJson(
+    await fetch(`${GRAPH_API}/${account.targetId}/media`, { method: 'POST', body: containerParams, signal }),
+    'Instagram'
+  );
+  const media = await readJson(
+    await fetch(`${GRAPH_API}/${account.targetId}/media_publish`, {
+      method: 'POST',
+      body: new URLSearchParams({ creation_id: container.id, access_token: account.accessToken }),
+      signal,
+    }),
+    'Instagram'
+  );
+  // The permalink is a nicety; the post is live either way
+  const details = await fetch(`${GRAPH_API}/${media.id}?fields=permalink&access_token=${token}`, { signal })
+    .then(response => response.ok ? response.json() : null)
+    .catch(() => null);
+  return { remoteId: media.id, url: details?.permalink || null };
+};
+
+const publishToPinterest = async (payload: PublishPayload): Promise<PublishReceipt> => {
+  const { account, image, caption, title, altText, link, signal } = payload;
+  const response = await fetch(`${PINTEREST_API}/pins`, {
+    method: 'POST',
+    headers: { 'Authorization': `Bearer ${account.accessToken}`, 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      board_id: account.targetId,
+      title: title.slice(0, 100),
+      description: caption.slice(0, 500),
+      alt_text: altText.slice(0, 500) || undefined,
+      link: link || undefined,
+      media_source: { source_type: 'image_base64', content_type: image.type, data: await blobToBase64(image) },
+    }),
+    signal,
+  });
+  const pin = await readJson(response, 'Pinterest');
+  return { remoteId: pin.id, url: `https://www.pinterest.com/pin/${pin.id}/` };
+};
+
+// Multipart POST: the image file plus a JSON "post" field; the receiver may answer with { id, url }
+const postToEndpoint = async (endpoint: string, payload: PublishPayload, label: string): Promise<PublishReceipt> => {
+  const { account, image, fileName, caption, title, altText, link, scheduledAt, metadata, signal } = payload;
+  if (!endpoint) {
+    throw new PublishError(`${label}: no endpoint URL configured.`);
+  }
+  const form = new FormData();
+  form.append('image', image, fileName);
+  form.append('post', JSON.stringify({ caption, title, altText, link, scheduledAt, metadata }));
+  const response = await fetch(endpoint, {
+    method: 'POST',
+    headers: account.accessToken ? { 'Authorization': `Bearer ${account.accessToken}` } : undefined,
+    body: form,
+    signal,
+  });
+  const body = await readJson(response, label);
+  return { remoteId: String(body.id || `${Date.now()}`), url: body.url || null };
+};
+
+export const instagramConnector: PublishConnector = {
+  id: 'instagram',
+  label: 'Instagram',
+  fields: ['accessToken', 'targetId', 'pageId'],
+  targetLabel: 'Instagram account ID',
+  requirements: {
+    presetIds: ['instagram-square', 'instagram-portrait'],
+    format: 'image/jpeg',
+    maxBytes: 8 * MB,
+    captionLimit: 2200,
+    maxHashtags: 30,
+  },
+  publish: publishToInstagram,
+};
+
+export const facebookConnector: PublishConnector = {
+  id: 'facebook',
+  label: 'Facebook Page',
+  fields: ['accessToken', 'targetId'],
+  targetLabel: 'Page ID',
+  requirements: {
+    presetIds: ['instagram-square', 'facebook-feed', 'instagram-portrait'],
+    format: 'image/jpeg',
+    maxBytes: 4 * MB,
+    captionLimit: 63206,
+    // Graph API accepts page posts 10 minutes to 75 days ahead
+    scheduleWindow: { minLeadMs: 10 * 60 * 1000, maxLeadMs: 75 * DAY_MS },
+  },
+  publish: publishToFacebook,
+};
+
+export const pinterestConnector: PublishConnector = {
+  id: 'pinterest',
+  label: 'Pinterest',
+  fields: ['accessToken', 'targetId'],
+  targetLabel: 'Board ID',
+  requirements: {
+    presetIds: ['pinterest-pin', 'instagram-square'],
+    format: 'image/jpeg',
+    maxBytes: 20 * MB,
+    captionLimit: 500,
+  },
+  publish: publishToPinterest,
+};
+
+export const webhookConnector: PublishConnector = {
+  id: 'webhook',
+  label: 'Webhook',
+  fields: ['endpoint'],
+  optionalFields: ['accessToken'],
+  requirements: {
+    presetIds: [],
+    format: 'image/png',
+    maxBytes: 20 * MB,
+    captionLimit: 63206,
+    // The receiver gets scheduledAt and decides when to post
+    scheduleWindow: { minLeadMs: 0, maxLeadMs: Number.POSITIVE_INFINITY },
+  },
+  publish: payload => postToEndpoint(payload.account.endpoint, payload, 'Webhook'),
+};
+
+// Talks to `npm run mock:publish`; schedules locally so the in-app scheduler can be tested
+export const mockConnector: PublishConnector = {
+  id: 'mock',
+  label: 'Local Mock Server',
+  fields: ['endpoint'],
+  requirements: {
+    presetIds: [],
+    format: 'image/png',
+    maxBytes: 20 * MB,
+    captionLimit: 2200,
+  },
+  publish: payload => postToEndpoint(payload.account.endpoint || MOCK_PUBLISH_ENDPOINT, payload, 'Mock server'),
+};
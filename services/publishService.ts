@@ -0,0 +1,201 @@
+import { AspectRatio, ExportMetadata, PublishAccount, PublishAccountField, PublishConnector, PublishConnectorId, PublishRecord, RequestControl } from "../types";
+import { EXPORT_PRESETS } from "../constants";
+import { STORES, createId, deleteRecord, getAllRecords, putRecord, updateRecord } from "./db";
+import { exportCreative } from "./exportService";
+import { DEFAULT_TRANSLATOR, MessageKey, Translator } from "./i18nService";
+import { facebookConnector, instagramConnector, MOCK_PUBLISH_ENDPOINT, mockConnector, pinterestConnector, webhookConnector } from "./publishConnectors";
+
+const connectors: Record<PublishConnectorId, PublishConnector> = {
+  instagram: instagramConnector,
+  facebook: facebookConnector,
+  pinterest: pinterestConnector,
+  webhook: webhookConnector,
+  mock: mockConnector,
+};
+
+export const listPublishConnectors = (): PublishConnector[] => Object.values(connectors);
+
+export const getPublishConnector = (id: PublishConnectorId): PublishConnector => connectors[id];
+
+// Connectors with a target label name their own target field ("Board ID", "Page ID")
+export const getFieldLabel = (connector: PublishConnector, field: PublishAccountField, t: Translator = DEFAULT_TRANSLATOR): string => {
+  return t(field === 'targetId' && connector.targetLabel ? `publish.target.${connector.id}` as MessageKey : `publish.field.${field}`);
+};
+
+export const createPublishAccount = (id: PublishConnectorId): PublishAccount => ({
+  id,
+  accessToken: '',
+  targetId: '',
+  pageId: '',
+  endpoint: id === 'mock' ? MOCK_PUBLISH_ENDPOINT : '',
+  updatedAt: 0,
+});
+
+export const listPublishAccounts = async (): Promise<PublishAccount[]> => {
+  return getAllRecords<PublishAccount>(STORES.publishAccounts);
+};
+
+export const savePublishAccount = async (account: PublishAccount): Promise<PublishAccount> => {
+  return putRecord<PublishAccount>(STORES.publishAccounts, { ...account, updatedAt: Date.now() });
+};
+
+export const getMissingFields = (connector: PublishConnector, account: PublishAccount | null | undefined): PublishAccountField[] => {
+  return connector.fields.filter(field => !account?.[field].trim());
+};
+
+// Cover-crop target: the connector's preset closest to the creative's aspect ratio
+export const pickPublishPreset = (connector: PublishConnector, aspectRatio: AspectRatio): string | null => {
+  const [width, height] = aspectRatio.split(':').map(Number);
+  const distance = (presetWidth: number, presetHeight: number) => Math.abs(Math.log((presetWidth / presetHeight) / (width / height)));
+  const presets = EXPORT_PRESETS
+    .filter(preset => connector.requirements.presetIds.includes(preset.id))
+    .sort((a, b) => distance(a.width, a.height) - distance(b.width, b.height));
+  return presets[0]?.id || null;
+};
+
+export type ScheduleMode = 'now' | 'remote' | 'local';
+
+// 'remote' hands the time to the platform; 'local' holds the post here until it is due
+export const getScheduleMode = (connector: PublishConnector, scheduledAt: number | null, now: number = Date.now()): ScheduleMode => {
+  if (!scheduledAt || scheduledAt <= now) return 'now';
+  const window = connector.requirements.scheduleWindow;
+  const lead = scheduledAt - now;
+  return window && lead >= window.minLeadMs && lead <= window.maxLeadMs ? 'remote' : 'local';
+};
+
+export const validatePublication = (
+  connector: PublishConnector,
+  account: PublishAccount | null | undefined,
+  caption: string,
+  t: Translator = DEFAULT_TRANSLATOR
+): string[] => {
+  const { captionLimit, maxHashtags } = connector.requirements;
+  const issues: string[] = [];
+  const missing = getMissingFields(connector, account);
+  if (missing.length > 0) {
+    const fields = missing.map(field => getFieldLabel(connector, field, t)).join(', ');
+    issues.push(t('publish.issue.missing', { connector: connector.label, fields }));
+  }
+  if (caption.length > captionLimit) {
+    issues.push(t('publish.issue.caption', { connector: connector.label, length: caption.length, limit: captionLimit }));
+  }
+  const hashtags = caption.match(/#[\p{L}\p{N}_]+/gu) || [];
+  if (maxHashtags !== undefined && hashtags.length > maxHashtags) {
+    issues.push(t('publish.issue.hashtags', { connector: connector.label, count: hashtags.length, limit: maxHashtags }));
+  }
+  return issues;
+};
+
+export interface PublishDraft {
+  historyId: string | null;
+  // Final creative with overlays baked in
+  imageUrl: string;
+  caption: string;
+  title: string;
+  altText: string;
+  link: string;
+  scheduledAt: number | null;
+  metadata: ExportMetadata;
+}
+
+export const createPublishRecord = (connectorId: PublishConnectorId, draft: PublishDraft): PublishRecord => {
+  const { imageUrl, scheduledAt, ...details } = draft;
+  const now = Date.now();
+  return {
+    ...details,
+    id: createId('pub'),
+    connectorId,
+    status: scheduledAt && scheduledAt > now ? 'scheduled' : 'queued',
+    image: { name: 'creative', base64: imageUrl, mimeType: imageUrl.slice(5, imageUrl.indexOf(';')) || 'image/png' },
+    scheduledAt,
+    scheduledRemotely: false,
+    remoteId: null,
+    remoteUrl: null,
+    error: null,
+    publishedAt: null,
+    createdAt: now,
+    updatedAt: now,
+  };
+};
+
+// Platform-held posts past their time. The connectors can't confirm they went live, so they
+// are shown as due on the platform rather than published.
+export const isDueOnPlatform = (record: PublishRecord, now: number = Date.now()): boolean => {
+  return record.status === 'scheduled' && record.scheduledRemotely && (record.scheduledAt || 0) <= now;
+};
+
+// Queued posts go out immediately; locally held ones once their time comes, or as soon as
+// the platform can take over the schedule
+export const isPublicationDue = (record: PublishRecord, now: number = Date.now()): boolean => {
+  if (record.status === 'queued') return true;
+  if (record.status !== 'scheduled' || record.scheduledRemotely) return false;
+  return getScheduleMode(getPublishConnector(record.connectorId), record.scheduledAt, now) !== 'local';
+};
+
+// Exports the creative to the connector's requirements and sends it. Errors propagate so the
+// caller can record them.
+export const sendPublication = async (
+  record: PublishRecord,
+  account: PublishAccount,
+  control: RequestControl = {}
+): Promise<Pick<PublishRecord, 'status' | 'scheduledRemotely' | 'remoteId' | 'remoteUrl' | 'publishedAt' | 'error'>> => {
+  const connector = getPublishConnector(record.connectorId);
+  const { format, maxBytes } = connector.requirements;
+  const remote = getScheduleMode(connector, record.scheduledAt) === 'remote';
+
+  const exported = await exportCreative(
+    record.image.base64,
+    { format, quality: 0.92, maxBytes, presetId: pickPublishPreset(connector, record.metadata.aspectRatio), includeMetadata: true },
+    record.metadata,
+    DEFAULT_TRANSLATOR,
+    `visioncraft-${connector.id}`
+  );
+  const receipt = await connector.publish({
+    account,
+    image: exported.blob,
+    fileName: exported.fileName,
+    caption: record.caption,
+    title: record.title,
+    altText: record.altText,
+    link: record.link,
+    scheduledAt: remote ? record.scheduledAt : null,
+    metadata: record.metadata,
+    signal: control.signal,
+  });
+
+  return {
+    status: remote ? 'scheduled' : 'published',
+    scheduledRemotely: remote,
+    remoteId: receipt.remoteId,
+    remoteUrl: receipt.url,
+    publishedAt: remote ? null : Date.now(),
+    error: null,
+  };
+};
+
+export const listPublications = async (): Promise<PublishRecord[]> => {
+  const records = await getAllRecords<PublishRecord>(STORES.publications);
+  return records.sort((a, b) => b.createdAt - a.createdAt);
+};
+
+export const savePublication = async (record: PublishRecord): Promise<PublishRecord> => {
+  return putRecord<PublishRecord>(STORES.publications, record);
+};
+
+export const updatePublication = async (id: string, patch: Partial<PublishRecord>): Promise<PublishRecord | null> => {
+  return updateRecord<PublishRecord>(STORES.publications, id, record => record ? { ...record, ...patch, updatedAt: Date.now() } : null);
+};
+
+export const deletePublication = async (id: string): Promise<void> => {
+  return deleteRecord(STORES.publications, id);
+};
+
+// A reload may have cut a post off mid-upload. Retrying blindly could post twice, so those
+// are marked failed for the user to check.
+export const restorePublications = async (): Promise<PublishRecord[]> => {
+  const records = await listPublications();
+  return Promise.all(records.map(record => record.status === 'publishing'
+    ? savePublication({ ...record, status: 'failed', error: "Interrupted by a reload. Check the platform before retrying.", updatedAt: Date.now() })
+    : record
+  ));
+};
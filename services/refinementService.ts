@@ -0,0 +1,34 @@
+import { ImageGenerationResponse, RefinementHistory, RefinementStep } from "../types";
+import { createId } from "./db";
+
+export const createRefinementHistory = (original: ImageGenerationResponse): RefinementHistory => ({
+  steps: [{ id: createId('step'), instruction: null, output: original }],
+  index: 0,
+});
+
+export const getCurrentStep = (history: RefinementHistory): RefinementStep => {
+  return history.steps[history.index];
+};
+
+// Adding a step after an undo discards the redo branch, like a text editor
+export const pushRefinement = (history: RefinementHistory, instruction: string, output: ImageGenerationResponse): RefinementHistory => {
+  const steps = history.steps.slice(0, history.index + 1);
+  steps.push({ id: createId('step'), instruction, output });
+  return { steps, index: steps.length - 1 };
+};
+
+export const canUndo = (history: RefinementHistory): boolean => history.index > 0;
+
+export const canRedo = (history: RefinementHistory): boolean => history.index < history.steps.length - 1;
+
+export const undoRefinement = (history: RefinementHistory): RefinementHistory => {
+  return canUndo(history) ? { ...history, index: history.index - 1 } : history;
+};
+
+export const redoRefinement = (history: RefinementHistory): RefinementHistory => {
+  return canRedo(history) ? { ...history, index: history.index + 1 } : history;
+};
+
+export const jumpToRefinement = (history: RefinementHistory, index: number): RefinementHistory => {
+  return index >= 0 && index < history.steps.length ? { ...history, index } : history;
+};
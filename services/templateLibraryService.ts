@@ -0,0 +1,308 @@
+import { AdTemplate, AspectRatio, BrandKit, BrandColorRole, CopyTone, LogoMode, OverlayLayer, OverlayLayerKind, StructuredBrief, TemplateCategory, TemplateSlot } from "../types";
+import { STORES, createId, deleteRecord, getAllRecords, putRecord } from "./db";
+import { BRIEF_FIELDS, EMPTY_BRIEF } from "./promptService";
+import { createOverlayLayer } from "./overlayService";
+import { COPY_TONES } from "./copyService";
+
+export const TEMPLATE_CATEGORY_LABELS: Record<TemplateCategory, string> = {
+  seasonal: 'Seasonal',
+  promotional: 'Promotional',
+  launch: 'Launch',
+  custom: 'Custom',
+};
+
+// Placeholders a template's description and slots may use; {brand} comes from the brand kit
+export const TEMPLATE_TOKENS: { key: string; example: string }[] = [
+  { key: 'price', example: '$49' },
+  { key: 'discount', example: '-30%' },
+  { key: 'code', example: 'SAVE30' },
+];
+
+export type TemplateValues = Record<string, string>;
+
+const TEMPLATE_FILE_FORMAT = 'visioncraft-templates';
+const TEMPLATE_FILE_VERSION = 1;
+
+const BRAND_COLOR_INDEX: Record<BrandColorRole, number> = { primary: 0, secondary: 1, accent: 2 };
+
+export const BUILT_IN_TEMPLATES: AdTemplate[] = [
+  {
+    id: 'black-friday',
+    name: 'Black Friday',
+    category: 'promotional',
+    summary: 'High-contrast doorbuster with a price badge and urgent CTA.',
+    description: 'Black Friday deal: {discount} off, now {price}. Limited time only.',
+    brief: { ...EMPTY_BRIEF, scene: 'black marble surface', lighting: 'dramatic low-key', mood: 'bold and urgent', season: 'autumn', cameraAngle: 'low angle hero shot', productPlacement: 'centered' },
+    aspectRatios: [AspectRatio.Square, AspectRatio.Story, AspectRatio.Widescreen],
+    slots: [
+      { kind: 'text', label: 'Headline', x: 0.06, y: 0.06, text: 'BLACK FRIDAY', fontFamily: 'Impact', fontSize: 0.08, color: '#ffffff' },
+      { kind: 'badge', label: 'Discount', x: 0.72, y: 0.06, text: '{discount}', fontFamily: 'Impact', fontSize: 0.06, color: '#ffffff', background: '#dc2626', brandColor: null },
+      { kind: 'text', label: 'Price', x: 0.06, y: 0.7, text: 'Now {price}', fontSize: 0.06, color: '#facc15' },
+      { kind: 'cta', label: 'CTA', x: 0.06, y: 0.82, text: 'Shop the Deal', brandColor: 'primary' },
+    ],
+    logoMode: 'overlay',
+    copyTone: 'bold',
+    builtIn: true,
+    updatedAt: 0,
+  },
+  {
+    id: 'summer-sale',
+    name: 'Summer Sale',
+    category: 'seasonal',
+    summary: 'Bright outdoor scene with a sale badge.',
+    description: 'Summer sale: {discount} off for a limited time.',
+    brief: { ...EMPTY_BRIEF, scene: 'sunlit beach', lighting: 'golden hour', mood: 'fresh and energetic', season: 'summer', cameraAngle: 'eye level', productPlacement: 'foreground with depth of field' },
+    aspectRatios: [AspectRatio.Square, AspectRatio.Portrait, AspectRatio.Story],
+    slots: [
+      { kind: 'text', label: 'Headline', x: 0.08, y: 0.08, text: 'Summer Sale', fontFamily: 'Trebuchet MS', fontSize: 0.08, color: '#ffffff', brandFont: true },
+      { kind: 'badge', label: 'Discount', x: 0.7, y: 0.1, text: '{discount}', brandColor: 'accent' },
+      { kind: 'cta', label: 'CTA', x: 0.08, y: 0.82, text: 'Shop Summer', brandColor: 'primary' },
+    ],
+    copyTone: 'playful',
+    builtIn: true,
+    updatedAt: 0,
+  },
+  {
+    id: 'festive',
+    name: 'Festive',
+    category: 'seasonal',
+    summary: 'Warm holiday setting for gifting campaigns.',
+    description: 'The perfect gift this holiday season, from {brand}.',
+    brief: { ...EMPTY_BRIEF, scene: 'cozy living room', lighting: 'warm tungsten and fairy lights', mood: 'warm and cozy', season: 'holiday season', cameraAngle: 'eye level', productPlacement: 'centered' },
+    aspectRatios: [AspectRatio.Square, AspectRatio.Story],
+    slots: [
+      { kind: 'text', label: 'Headline', x: 0.08, y: 0.08, text: 'Gift Something Special', fontFamily: 'Georgia', fontSize: 0.065, color: '#ffffff', brandFont: true },
+      { kind: 'cta', label: 'CTA', x: 0.08, y: 0.82, text: 'Shop Gifts', brandColor: 'primary' },
+    ],
+    copyTone: 'friendly',
+    builtIn: true,
+    updatedAt: 0,
+  },
+  {
+    id: 'new-arrival',
+    name: 'New Arrival',
+    category: 'launch',
+    summary: 'Clean studio hero shot announcing a new product.',
+    description: 'Introducing our newest product, available now for {price}.',
+    brief: { ...EMPTY_BRIEF, scene: 'seamless studio backdrop', lighting: 'soft diffused studio light', mood: 'calm and minimal', cameraAngle: '45-degree three-quarter view', productPlacement: 'centered' },
+    aspectRatios: [AspectRatio.Square, AspectRatio.Portrait, AspectRatio.Widescreen],
+    slots: [
+      { kind: 'text', label: 'Headline', x: 0.08, y: 0.08, text: 'New Arrival', fontSize: 0.07, color: '#0f172a', brandFont: true, brandColor: 'secondary' },
+      { kind: 'text', label: 'Price', x: 0.08, y: 0.18, text: '{price}', fontSize: 0.05, color: '#0f172a' },
+      { kind: 'cta', label: 'CTA', x: 0.08, y: 0.82, text: 'Discover Now', brandColor: 'primary' },
+      { kind: 'logo', label: 'Logo', x: 0.75, y: 0.8, text: '' },
+    ],
+    logoMode: 'overlay',
+    copyTone: 'premium',
+    builtIn: true,
+    updatedAt: 0,
+  },
+  {
+    id: 'clearance',
+    name: 'Clearance',
+    category: 'promotional',
+    summary: 'Flat lay with a big markdown and a promo code.',
+    description: 'Clearance: everything must go, {discount} off with code {code}.',
+    brief: { ...EMPTY_BRIEF, scene: 'pastel paper backdrop with props', lighting: 'bright natural daylight', mood: 'playful', cameraAngle: 'top-down flat lay', productPlacement: 'centered' },
+    aspectRatios: [AspectRatio.Square, AspectRatio.Landscape],
+    slots: [
+      { kind: 'badge', label: 'Discount', x: 0.68, y: 0.08, text: '{discount}', fontFamily: 'Impact', fontSize: 0.07, color: '#ffffff', background: '#dc2626' },
+      { kind: 'text', label: 'Headline', x: 0.06, y: 0.08, text: 'CLEARANCE', fontFamily: 'Impact', fontSize: 0.08, color: '#0f172a' },
+      { kind: 'cta', label: 'Promo code', x: 0.06, y: 0.82, text: 'Code {code}', brandColor: 'primary' },
+    ],
+    copyTone: 'bold',
+    builtIn: true,
+    updatedAt: 0,
+  },
+];
+
+export const getTemplateTokens = (template: AdTemplate): string[] => {
+  const text = [template.description, ...template.slots.map(slot => slot.text)].join(' ');
+  return TEMPLATE_TOKENS.map(token => token.key).filter(key => text.includes(`{${key}}`));
+};
+
+// Unfilled tokens are dropped rather than left as "{price}" in the ad
+export const fillTemplateText = (text: string, values: TemplateValues, kit: BrandKit | null): string => {
+  return text
+    .replace(/\{(\w+)\}/g, (_, key: string) => (key === 'brand' ? kit?.name : values[key]) || '')
+    .replace(/\s{2,}/g, ' ')
+    .trim();
+};
+
+const resolveBrandColor = (role: BrandColorRole | null | undefined, kit: BrandKit | null): string | null => {
+  return role ? kit?.palette[BRAND_COLOR_INDEX[role]] || null : null;
+};
+
+// Dark or light text, whichever reads on a brand-colored pill
+const readableTextOn = (hex: string): string => {
+  const value = parseInt(hex.replace('#', '').padEnd(6, '0').slice(0, 6), 16);
+  if (Number.isNaN(value)) return '#ffffff';
+  const luma = 0.299 * (value >> 16) + 0.587 * ((value >> 8) & 0xff) + 0.114 * (value & 0xff);
+  return luma > 150 ? '#0f172a' : '#ffffff';
+};
+
+const hasMissingToken = (text: string, values: TemplateValues): boolean => {
+  return TEMPLATE_TOKENS.some(token => text.includes(`{${token.key}}`) && !values[token.key]?.trim());
+};
+
+// Overlay layers for a template, with brand kit colors and font applied where the slots ask.
+// Slots whose placeholders were left empty are skipped rather than showing "Now" without a price.
+export const buildTemplateLayers = (template: AdTemplate, kit: BrandKit | null, values: TemplateValues): OverlayLayer[] => {
+  return template.slots
+    .filter(slot => !hasMissingToken(slot.text, values))
+    .map(slot => {
+      const layer = createOverlayLayer(slot.kind);
+      const brandColor = resolveBrandColor(slot.brandColor, kit);
+      const usesBackground = slot.kind === 'badge' || slot.kind === 'cta';
+      return {
+        ...layer,
+        x: slot.x,
+        y: slot.y,
+        text: slot.kind === 'logo' ? '' : fillTemplateText(slot.text, values, kit),
+        fontFamily: (slot.brandFont && kit?.fonts[0]) || slot.fontFamily || layer.fontFamily,
+        fontSize: slot.fontSize ?? layer.fontSize,
+        color: (usesBackground && brandColor ? readableTextOn(brandColor) : brandColor) || slot.color || layer.color,
+        background: (usesBackground && brandColor) || slot.background || layer.background,
+        scale: slot.scale ?? layer.scale,
+      };
+    });
+};
+
+// Authoring: capture the current setup; overlay layers become slots at their current positions
+export const createTemplateFromSetup = (setup: {
+  name: string;
+  description: string;
+  brief: StructuredBrief;
+  aspectRatios: AspectRatio[];
+  layers: OverlayLayer[];
+  logoMode: LogoMode;
+}): AdTemplate => ({
+  id: createId('template'),
+  name: setup.name,
+  category: 'custom',
+  summary: '',
+  description: setup.description,
+  brief: setup.brief,
+  aspectRatios: setup.aspectRatios,
+  slots: setup.layers.map(({ id, kind, ...rest }) => ({ ...rest, kind, label: kind === 'cta' ? 'CTA' : kind[0].toUpperCase() + kind.slice(1) })),
+  logoMode: setup.logoMode,
+  updatedAt: Date.now(),
+});
+
+// Built-ins are read-only; editing one starts from a custom copy
+export const duplicateTemplate = (template: AdTemplate): AdTemplate => {
+  const { builtIn, ...rest } = template;
+  return {
+    ...rest,
+    id: createId('template'),
+    name: `${template.name} (copy)`,
+    category: builtIn ? 'custom' : template.category,
+    updatedAt: Date.now(),
+  };
+};
+
+export const listCustomTemplates = async (): Promise<AdTemplate[]> => {
+  const templates = await getAllRecords<AdTemplate>(STORES.templates);
+  return templates.sort((a, b) => a.name.localeCompare(b.name));
+};
+
+export const saveTemplate = async (template: AdTemplate): Promise<AdTemplate> => {
+  return putRecord<AdTemplate>(STORES.templates, { ...template, builtIn: false, updatedAt: Date.now() });
+};
+
+export const deleteTemplate = async (id: string): Promise<void> => {
+  return deleteRecord(STORES.templates, id);
+};
+
+export const exportTemplatesJson = (templates: AdTemplate[]): string => {
+  return JSON.stringify({
+    format: TEMPLATE_FILE_FORMAT,
+    version: TEMPLATE_FILE_VERSION,
+    exportedAt: new Date().toISOString(),
+    templates: templates.map(({ builtIn, ...template }) => template),
+  }, null, 2);
+};
+
+export interface TemplateImportResult {
+  templates: AdTemplate[];
+  errors: string[];
+}
+
+const OVERLAY_KINDS: OverlayLayerKind[] = ['text', 'badge', 'cta', 'logo'];
+const ASPECT_RATIOS = Object.values(AspectRatio) as string[];
+
+const clampFraction = (value: unknown, fallback: number): number => {
+  return typeof value === 'number' && Number.isFinite(value) ? Math.min(1, Math.max(0, value)) : fallback;
+};
+
+const optionalString = (value: unknown): string | undefined => (typeof value === 'string' ? value : undefined);
+
+const parseSlot = (raw: any): TemplateSlot | null => {
+  if (!raw || !OVERLAY_KINDS.includes(raw.kind)) return null;
+  return {
+    kind: raw.kind,
+    label: optionalString(raw.label) || raw.kind,
+    x: clampFraction(raw.x, 0.08),
+    y: clampFraction(raw.y, 0.08),
+    text: optionalString(raw.text) || '',
+    fontSize: typeof raw.fontSize === 'number' ? clampFraction(raw.fontSize, 0.05) : undefined,
+    fontFamily: optionalString(raw.fontFamily),
+    color: optionalString(raw.color),
+    background: optionalString(raw.background),
+    scale: typeof raw.scale === 'number' ? clampFraction(raw.scale, 0.18) : undefined,
+    brandColor: ['primary', 'secondary', 'accent'].includes(raw.brandColor) ? raw.brandColor : null,
+    brandFont: raw.brandFont === true,
+  };
+};
+
+// Validates one template from a file; unknown fields are dropped and ids are re-issued so an
+// import never overwrites a built-in or an existing template
+const parseTemplate = (raw: any, index: number): AdTemplate | string => {
+  const label = `Template ${index + 1}`;
+  if (!raw || typeof raw !== 'object') return `${label}: not an object.`;
+  if (typeof raw.name !== 'string' || !raw.name.trim()) return `${label}: missing a name.`;
+
+  const brief = { ...EMPTY_BRIEF };
+  for (const field of BRIEF_FIELDS) {
+    if (typeof raw.brief?.[field.key] === 'string') brief[field.key] = raw.brief[field.key];
+  }
+  const aspectRatios = (Array.isArray(raw.aspectRatios) ? raw.aspectRatios : []).filter((ratio: unknown) => ASPECT_RATIOS.includes(ratio as string));
+  const slots = (Array.isArray(raw.slots) ? raw.slots : []).map(parseSlot).filter((slot: TemplateSlot | null): slot is TemplateSlot => slot !== null);
+
+  return {
+    id: createId('template'),
+    name: raw.name.trim(),
+    category: typeof raw.category === 'string' && Object.prototype.hasOwnProperty.call(TEMPLATE_CATEGORY_LABELS, raw.category) ? raw.category : 'custom',
+    summary: optionalString(raw.summary) || '',
+    description: optionalString(raw.description) || '',
+    brief,
+    aspectRatios: aspectRatios.length > 0 ? aspectRatios : [AspectRatio.Square],
+    slots,
+    logoMode: raw.logoMode === 'ai' || raw.logoMode === 'overlay' ? raw.logoMode : undefined,
+    copyTone: COPY_TONES.some(tone => tone.id === raw.copyTone) ? raw.copyTone as CopyTone : undefined,
+    updatedAt: Date.now(),
+  };
+};
+
+// Accepts an export file, a bare array, or a single template object
+export const parseTemplatesJson = (text: string): TemplateImportResult => {
+  let parsed: any;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    return { templates: [], errors: ["The file is not valid JSON."] };
+  }
+  if (parsed?.format === TEMPLATE_FILE_FORMAT && parsed.version > TEMPLATE_FILE_VERSION) {
+    return { templates: [], errors: [`The file was written by a newer version (v${parsed.version}).`] };
+  }
+
+  const list = Array.isArray(parsed) ? parsed : Array.isArray(parsed?.templates) ? parsed.templates : [parsed];
+  const templates: AdTemplate[] = [];
+  const errors: string[] = [];
+  list.forEach((raw: unknown, index: number) => {
+    const result = parseTemplate(raw, index);
+    if (typeof result === 'string') errors.push(result);
+    else templates.push(result);
+  });
+  return { templates, errors };
+};
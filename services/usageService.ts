@@ -0,0 +1,105 @@
+import { ModelTier, RequestControl, UsageRecord } from "../types";
+import { DAILY_COST_BUDGET, MODEL_TIERS } from "../constants";
+import { STORES, getAllRecords, updateRecord } from "./db";
+import { delay } from "./asyncUtils";
+import { DEFAULT_TRANSLATOR, Translator } from "./i18nService";
+
+export type UsageOutcome = 'call' | 'success' | 'failure';
+
+interface TokenBucket {
+  tokens: number;
+  updatedAt: number;
+}
+
+// In-memory buckets; a reload refills them, which matches how the API's per-minute windows behave
+const buckets: Partial<Record<ModelTier, TokenBucket>> = {};
+
+const refill = (tier: ModelTier, now: number): TokenBucket => {
+  const { requestsPerMinute, burst } = MODEL_TIERS[tier];
+  const bucket = buckets[tier] || { tokens: burst, updatedAt: now };
+  const tokens = Math.min(burst, bucket.tokens + ((now - bucket.updatedAt) * requestsPerMinute) / 60000);
+  buckets[tier] = { tokens, updatedAt: now };
+  return buckets[tier]!;
+};
+
+// Waits until the tier's bucket has a token, then takes it. The wait is reported
+// through onBackoff so queued jobs show a countdown instead of a silent stall.
+export const acquireRateLimitToken = async (tier: ModelTier, control: RequestControl = {}): Promise<void> => {
+  for (;;) {
+    const now = Date.now();
+    const bucket = refill(tier, now);
+    if (bucket.tokens >= 1) {
+      bucket.tokens -= 1;
+      return;
+    }
+    const wait = Math.ceil(((1 - bucket.tokens) * 60000) / MODEL_TIERS[tier].requestsPerMinute);
+    console.log(`[Visioncraft] ${MODEL_TIERS[tier].label} rate limit reached locally. Waiting ${wait}ms...`);
+    control.onBackoff?.(now + wait);
+    await delay(wait, control.signal);
+    control.onBackoff?.(null);
+  }
+};
+
+// Ledger days follow the user's local calendar
+export const getUsageDate = (time: number = Date.now()): string => {
+  const date = new Date(time);
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+
+export const recordUsage = async (tier: ModelTier, model: string, outcome: UsageOutcome): Promise<void> => {
+  const date = getUsageDate();
+  await updateRecord<UsageRecord>(STORES.usage, `${date}:${tier}`, current => {
+    const record: UsageRecord = current || {
+      id: `${date}:${tier}`,
+      date,
+      tier,
+      model,
+      calls: 0,
+      successes: 0,
+      failures: 0,
+      estimatedCost: 0,
+    };
+    return {
+      ...record,
+      calls: record.calls + (outcome === 'call' ? 1 : 0),
+      successes: record.successes + (outcome === 'success' ? 1 : 0),
+      failures: record.failures + (outcome === 'failure' ? 1 : 0),
+      estimatedCost: record.estimatedCost + (outcome === 'success' ? MODEL_TIERS[tier].costPerImage : 0),
+    };
+  });
+};
+
+// Newest day first
+export const listUsage = async (): Promise<UsageRecord[]> => {
+  const records = await getAllRecords<UsageRecord>(STORES.usage);
+  return records.sort((a, b) => b.date.localeCompare(a.date) || a.tier.localeCompare(b.tier));
+};
+
+export const getTierUsage = (records: UsageRecord[], tier: ModelTier, date: string = getUsageDate()): UsageRecord | null => {
+  return records.find(record => record.date === date && record.tier === tier) || null;
+};
+
+export const getDailyCost = (records: UsageRecord[], date: string = getUsageDate()): number => {
+  return records.filter(record => record.date === date).reduce((sum, record) => sum + record.estimatedCost, 0);
+};
+
+// Checks whether `plannedCalls` more generations fit today's request limit and cost
+// budget. Returns human-readable warnings; an empty list means the run fits.
+export const checkBudget = (records: UsageRecord[], tier: ModelTier, plannedCalls: number, t: Translator = DEFAULT_TRANSLATOR): string[] => {
+  const config = MODEL_TIERS[tier];
+  const used = getTierUsage(records, tier)?.calls || 0;
+  const warnings: string[] = [];
+
+  if (used + plannedCalls > config.dailyRequestLimit) {
+    const remaining = Math.max(0, config.dailyRequestLimit - used);
+    warnings.push(t('usage.warning.calls', { tier: t(`usage.tier.${tier}`), planned: plannedCalls, remaining, limit: config.dailyRequestLimit }));
+  }
+
+  const plannedCost = plannedCalls * config.costPerImage;
+  const spent = getDailyCost(records);
+  if (plannedCost > 0 && spent + plannedCost > DAILY_COST_BUDGET) {
+    warnings.push(t('usage.warning.cost', { cost: (spent + plannedCost).toFixed(2), budget: DAILY_COST_BUDGET.toFixed(2) }));
+  }
+  return warnings;
+};
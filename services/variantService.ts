@@ -0,0 +1,74 @@
+import { ImageGenerationRequest, VariantItem, VariationMode } from "../types";
+import { isAbortError } from "./asyncUtils";
+import { generateAdvertisementImage } from "./imageService";
+
+const LIGHTING_VARIATIONS = [
+  'soft golden-hour sunlight',
+  'crisp studio lighting with a clean key light',
+  'moody low-key lighting with dramatic shadows',
+  'bright, airy daylight',
+];
+
+const BACKGROUND_VARIATIONS = [
+  'minimal seamless backdrop',
+  'natural outdoor lifestyle setting',
+  'textured stone and wood surfaces',
+  'bold color-blocked set',
+];
+
+export const VARIATION_MODES: VariationMode[] = ['none', 'lighting', 'background', 'both'];
+
+const pickVariation = (mode: VariationMode, index: number): string | null => {
+  const lighting = LIGHTING_VARIATIONS[index % LIGHTING_VARIATIONS.length];
+  const background = BACKGROUND_VARIATIONS[index % BACKGROUND_VARIATIONS.length];
+  switch (mode) {
+    case 'lighting':
+      return `Use ${lighting}.`;
+    case 'background':
+      return `Use a ${background}.`;
+    case 'both':
+      return `Use ${lighting} and a ${background}.`;
+    default:
+      // Without perturbations, a take number still nudges the model away from identical output
+      return index === 0 ? null : `Alternative take #${index + 1}; explore a different composition.`;
+  }
+};
+
+export const createVariantItems = (count: number, mode: VariationMode): VariantItem[] => {
+  return Array.from({ length: count }, (_, index) => ({
+    id: `variant-${index + 1}`,
+    variation: pickVariation(mode, index),
+    status: 'pending',
+    imageUrl: "",
+    error: null,
+    meta: null,
+    starred: false,
+  }));
+};
+
+// Same sequential strategy and stop behaviour as batch runs: one request at a time
+export const runVariantGeneration = async (
+  request: ImageGenerationRequest,
+  items: VariantItem[],
+  onItemUpdate: (id: string, patch: Partial<VariantItem>) => void,
+  signal?: AbortSignal
+): Promise<void> => {
+  const queue = items.filter(item => item.status !== 'done');
+  console.log(`[Visioncraft] Generating ${queue.length} variant(s)...`);
+
+  for (const item of queue) {
+    if (signal?.aborted) break;
+    onItemUpdate(item.id, { status: 'running', error: null });
+    try {
+      const { imageUrl, ...meta } = await generateAdvertisementImage({ ...request, variation: item.variation, signal });
+      onItemUpdate(item.id, { status: 'done', imageUrl, meta });
+    } catch (error: any) {
+      if (isAbortError(error) || signal?.aborted) {
+        onItemUpdate(item.id, { status: 'pending', error: null });
+        break;
+      }
+      console.error(`[Visioncraft] Variant ${item.id} failed:`, error);
+      onItemUpdate(item.id, { status: 'error', error: error.message || "Failed to generate this variant." });
+    }
+  }
+};
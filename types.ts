@@ -6,22 +6,770 @@ export enum AspectRatio {
   Widescreen = "16:9",
 }
 
+export type ImageFormat = 'image/png' | 'image/jpeg' | 'image/webp';
+
+export interface ImagePreprocessOptions {
+  // Longest edge after downscaling, in pixels
+  maxEdge: number;
+  // 'auto' keeps PNG for images with transparency and uses JPEG otherwise
+  format: ImageFormat | 'auto';
+  // 0-1, used for JPEG and WebP
+  quality: number;
+  // Centered crop to this ratio before downscaling
+  crop: AspectRatio | null;
+}
+
+export interface ImageDimensions {
+  width: number;
+  height: number;
+  bytes: number;
+  mimeType: string;
+}
+
+export interface ImagePreprocessReport {
+  original: ImageDimensions;
+  output: ImageDimensions;
+  // EXIF orientation tag (1 = upright); only JPEGs carry one
+  orientation: number;
+  steps: string[];
+  warnings: string[];
+}
+
 export interface UploadedImage {
   file: File;
   previewUrl: string;
   base64: string;
   mimeType: string;
+  // Present when the image went through the upload preprocessing pipeline
+  report?: ImagePreprocessReport;
+  // The original photo when this image is a background-removed cutout of it
+  cutoutOf?: UploadedImage;
+}
+
+export type ProductRole = 'hero' | 'secondary';
+
+// An extra product for bundle/cross-sell shots; scale is relative to the main product (1 = same size)
+export interface ProductShot<TImage = UploadedImage> {
+  id: string;
+  image: TImage;
+  role: ProductRole;
+  scale: number;
+  label: string;
+}
+
+// 'ai' asks the model to composite the logo; 'overlay' keeps it out of the request and
+// stamps the exact file onto the result afterwards
+export type LogoMode = 'ai' | 'overlay';
+
+export type LogoAnchor =
+  | 'top-left' | 'top-center' | 'top-right'
+  | 'middle-left' | 'center' | 'middle-right'
+  | 'bottom-left' | 'bottom-center' | 'bottom-right';
+
+export interface LogoPlacement {
+  anchor: LogoAnchor;
+  // Logo width as a fraction of the image width
+  scale: number;
+  opacity: number;
+  // Clear space from the anchored edges, as a fraction of the shorter image edge
+  margin: number;
 }
 
+// Per-format overrides; formats without one use DEFAULT_LOGO_PLACEMENTS
+export type LogoPlacements = Partial<Record<AspectRatio, LogoPlacement>>;
+
 export interface AdRequest {
+  // The main (hero) product; bundles add more in extraProducts
   productImage: UploadedImage | null;
+  extraProducts: ProductShot[];
+  // Style/mood references the model should borrow from but not reproduce
+  referenceImages: UploadedImage[];
   logoImage: UploadedImage | null;
+  logoMode: LogoMode;
+  logoPlacements: LogoPlacements;
   description: string;
   aspectRatio: AspectRatio;
+  useProModel: boolean;
+  brief: StructuredBrief;
+  promptTemplateId: string;
+}
+
+// Structured creative direction; empty strings mean "let the model decide"
+export interface StructuredBrief {
+  scene: string;
+  lighting: string;
+  mood: string;
+  season: string;
+  cameraAngle: string;
+  productPlacement: string;
+  logoPlacement: string;
+}
+
+export interface SafeRephrasing {
+  brief: StructuredBrief;
+  description: string;
+  // Human-readable list of substitutions, e.g. `"sexy" → "stylish"`
+  changes: string[];
+}
+
+export interface PromptInput {
+  description: string;
+  brief: StructuredBrief;
+  hasLogo: boolean;
+  extraProducts?: Omit<ProductShot<unknown>, 'id' | 'image'>[];
+  referenceCount?: number;
+  // Where an exact logo will be stamped afterwards, so the model keeps that area calm
+  logoClearSpace?: string | null;
+  variation?: string | null;
+  brandKit?: BrandKit | null;
+}
+
+export interface PromptTemplate {
+  id: string;
+  name: string;
+  version: number;
+  build: (input: PromptInput) => string;
+}
+
+// Minimal image payload sent to a provider (UploadedImage satisfies this)
+export interface ImageInput {
+  base64: string;
+  mimeType: string;
+}
+
+// Lets callers cancel a provider call and watch retry backoff
+export interface RequestControl {
+  signal?: AbortSignal;
+  // Called with the retry timestamp when a backoff starts, and with null once the retry fires
+  onBackoff?: (retryAt: number | null) => void;
+}
+
+export interface ImageGenerationRequest extends RequestControl {
+  apiKey: string;
+  description: string;
+  brief: StructuredBrief;
+  promptTemplateId: string;
+  productImage: ImageInput;
+  extraProducts?: ProductShot<ImageInput>[];
+  referenceImages?: ImageInput[];
+  logoImage: ImageInput | null;
+  logoMode?: LogoMode;
+  logoPlacements?: LogoPlacements;
+  aspectRatio: AspectRatio;
+  useProModel: boolean;
+  // Optional extra creative direction, e.g. a lighting or background variation
+  variation?: string | null;
+  brandKit?: BrandKit | null;
+}
+
+export interface GenerationMeta {
+  provider: string;
+  model: string;
+  promptTemplateId?: string;
+  mimeType: string;
+  aspectRatio: AspectRatio;
+  createdAt: number;
+}
+
+export interface ImageGenerationResponse extends GenerationMeta {
+  imageUrl: string;
+}
+
+// Fixed output size for a platform placement; the creative is center-cropped to fill it
+export interface ExportPreset {
+  id: string;
+  label: string;
+  width: number;
+  height: number;
+}
+
+export interface ExportSettings {
+  format: ImageFormat;
+  // 0-1 starting quality for JPEG/WebP; lowered automatically to meet maxBytes
+  quality: number;
+  maxBytes: number | null;
+  // null keeps the creative's own size
+  presetId: string | null;
+  includeMetadata: boolean;
+}
+
+// Written into the file as XMP so the brief and model travel with the image
+export interface ExportMetadata {
+  title: string;
+  description: string;
+  provider: string;
+  model: string;
+  promptTemplateId: string | null;
+  brand: string | null;
+  aspectRatio: AspectRatio;
+  createdAt: number;
+}
+
+export interface ExportResult {
+  blob: Blob;
+  fileName: string;
+  width: number;
+  height: number;
+  // Final encoder quality; null for PNG
+  quality: number | null;
+  warnings: string[];
+}
+
+export type PublishConnectorId = 'instagram' | 'facebook' | 'pinterest' | 'webhook' | 'mock';
+
+export type PublishAccountField = 'accessToken' | 'targetId' | 'pageId' | 'endpoint';
+
+// Credentials and destination for one connector; stored only in this browser
+export interface PublishAccount {
+  id: PublishConnectorId;
+  accessToken: string;
+  // Instagram business account, Facebook page or Pinterest board, depending on the connector
+  targetId: string;
+  // Facebook page the Instagram connector stages uploads on
+  pageId: string;
+  endpoint: string;
+  updatedAt: number;
+}
+
+export interface PublishRequirements {
+  // Export presets the creative may be cropped to; the closest aspect wins. Empty keeps its size.
+  presetIds: string[];
+  format: ImageFormat;
+  maxBytes: number;
+  captionLimit: number;
+  maxHashtags?: number;
+  // How far ahead the platform itself can schedule. Without it (or outside it) posts are
+  // held locally and sent when due, which needs the app to be open.
+  scheduleWindow?: { minLeadMs: number; maxLeadMs: number };
+}
+
+export interface PublishPayload extends RequestControl {
+  account: PublishAccount;
+  image: Blob;
+  fileName: string;
+  caption: string;
+  title: string;
+  altText: string;
+  link: string;
+  // Only set when the connector schedules natively
+  scheduledAt: number | null;
+  metadata: ExportMetadata;
+}
+
+export interface PublishReceipt {
+  remoteId: string;
+  url: string | null;
+}
+
+export interface PublishConnector {
+  id: PublishConnectorId;
+  label: string;
+  fields: PublishAccountField[];
+  optionalFields?: PublishAccountField[];
+  // What targetId means for this platform, e.g. "Page ID"
+  targetLabel?: string;
+  requirements: PublishRequirements;
+  publish: (payload: PublishPayload) => Promise<PublishReceipt>;
+}
+
+export type PublishStatus = 'queued' | 'scheduled' | 'publishing' | 'published' | 'failed' | 'cancelled';
+
+// One creative sent to one connector
+export interface PublishRecord {
+  id: string;
+  historyId: string | null;
+  connectorId: PublishConnectorId;
+  status: PublishStatus;
+  // Final creative with overlays, kept so scheduled posts survive a reload
+  image: StoredImage;
+  caption: string;
+  title: string;
+  altText: string;
+  link: string;
+  metadata: ExportMetadata;
+  scheduledAt: number | null;
+  // True when the platform holds the schedule rather than this app
+  scheduledRemotely: boolean;
+  remoteId: string | null;
+  remoteUrl: string | null;
+  error: string | null;
+  publishedAt: number | null;
+  createdAt: number;
+  updatedAt: number;
+}
+
+// One planned post. Items can be placed on the calendar before a creative exists.
+export interface CampaignItem {
+  id: string;
+  historyId: string | null;
+  channel: PublishConnectorId;
+  aspectRatio: AspectRatio;
+  scheduledAt: number;
+  caption: string;
+  notes: string;
+  // Minutes before scheduledAt; null turns the reminder off
+  reminderMinutes: number | null;
+  // Set once the item has been handed to the publishing queue
+  publicationId: string | null;
+}
+
+export interface Campaign {
+  id: string;
+  name: string;
+  color: string;
+  launchDate: number;
+  channels: PublishConnectorId[];
+  formats: AspectRatio[];
+  notes: string;
+  items: CampaignItem[];
+  createdAt: number;
+  updatedAt: number;
+}
+
+// Edit an existing output (conversational refinement)
+export interface ImageEditRequest extends RequestControl {
+  apiKey: string;
+  image: ImageInput;
+  instruction: string;
+  aspectRatio: AspectRatio;
+  useProModel: boolean;
+  // Black/white mask; white marks the only region the model may change
+  mask?: ImageInput | null;
+}
+
+export type CopyPlatform = 'instagram-post' | 'instagram-story' | 'facebook';
+export type CopyTone = 'friendly' | 'bold' | 'premium' | 'playful';
+export type CopyLength = 'short' | 'long';
+
+// Character budgets per field; hashtags is a count, caption covers the assembled post text
+export interface PlatformCopyLimits {
+  label: string;
+  headline: number;
+  body: number;
+  hashtags: number;
+  altText: number;
+  caption: number;
+}
+
+export interface AdCopy {
+  headline: string;
+  body: string;
+  // Stored without the leading '#'
+  hashtags: string[];
+  altText: string;
+}
+
+export interface AdCopyVariant extends AdCopy {
+  id: string;
+  platform: CopyPlatform;
+  tone: CopyTone;
+  length: CopyLength;
+  provider: string;
+  model: string;
+  createdAt: number;
+}
+
+export interface CopyGenerationRequest extends RequestControl {
+  apiKey: string;
+  description: string;
+  brief: StructuredBrief;
+  // The finished creative, so the copy and alt text describe what is actually shown
+  image: ImageInput | null;
+  platform: CopyPlatform;
+  tone: CopyTone;
+  length: CopyLength;
+  count: number;
+  brandKit?: BrandKit | null;
+  // Language to write in, e.g. "German"; English when omitted
+  language?: string;
+}
+
+export interface CopyGenerationResponse {
+  copies: AdCopy[];
+  model: string;
+}
+
+export interface CopyIssue {
+  field: keyof AdCopy | 'caption';
+  message: string;
+}
+
+// Overlay and caption text translated for one market, returned in the same order
+export interface TranslationRequest extends RequestControl {
+  apiKey: string;
+  texts: string[];
+  language: string;
+  marketLabel: string;
+  brandKit?: BrandKit | null;
+}
+
+export interface TranslationResponse {
+  texts: string[];
+  model: string;
+}
+
+export interface ImageProvider {
+  id: string;
+  label: string;
+  requiresApiKey: boolean;
+  generate: (request: ImageGenerationRequest) => Promise<ImageGenerationResponse>;
+  refine: (request: ImageEditRequest) => Promise<ImageGenerationResponse>;
+  writeCopy: (request: CopyGenerationRequest) => Promise<CopyGenerationResponse>;
+  translate: (request: TranslationRequest) => Promise<TranslationResponse>;
+}
+
+export type GenerationErrorKind =
+  | 'quota-zero'
+  | 'rate-limited'
+  | 'permission'
+  | 'model-not-found'
+  | 'auth'
+  | 'safety-blocked'
+  | 'text-only'
+  | 'network'
+  | 'unknown';
+
+// Follow-up steps the UI can offer for a failed generation
+export type RecoveryAction = 'retry' | 'reconnect' | 'use-standard' | 'switch-model' | 'open-usage' | 'edit-brief' | 'rephrase';
+
+export interface SafetyRatingSummary {
+  category: string;
+  probability: string;
+  blocked: boolean;
+}
+
+// What the model said about a response that carried no image
+export interface GenerationDiagnostics {
+  finishReason: string | null;
+  blockReason: string | null;
+  blockMessage: string | null;
+  safetyRatings: SafetyRatingSummary[];
+  modelText: string | null;
 }
 
 export interface GenerationResult {
   imageUrl: string;
   loading: boolean;
   error: string | null;
+  errorKind?: GenerationErrorKind | null;
+  diagnostics?: GenerationDiagnostics | null;
+  meta?: GenerationMeta | null;
+  compliance?: ComplianceReport | null;
+}
+
+export type ComplianceStatus = 'pass' | 'warn' | 'fail';
+
+// Margins as fractions of the image edge (0.1 = 10%)
+export interface SafeZone {
+  top: number;
+  right: number;
+  bottom: number;
+  left: number;
+}
+
+// Languages the app UI is available in
+export type UiLocale = 'en' | 'de' | 'fr' | 'es';
+
+export type MarketId = 'us' | 'uk' | 'de' | 'fr' | 'es';
+
+// Where a creative runs: language, number/currency formatting and local advertising wording rules
+export interface MarketProfile {
+  id: MarketId;
+  label: string;
+  // BCP 47 tag for Intl formatting
+  locale: string;
+  // Language name given to the model, e.g. "German"
+  language: string;
+  currency: string;
+  // Claims local rules restrict; flagged in the caption and overlays
+  forbiddenWords: string[];
+  // Any one of these labels paid partnership posts
+  disclosureWords: string[];
+}
+
+// A translated copy of the creative on screen for one market
+export interface MarketVariant {
+  marketId: MarketId;
+  status: 'translating' | 'done' | 'failed';
+  caption: string;
+  issues: string[];
+  error: string | null;
+  historyId: string | null;
+}
+
+export interface RetailerProfile {
+  id: string;
+  name: string;
+  minWidth: number;
+  minHeight: number;
+  safeZones: Record<AspectRatio, SafeZone>;
+  requireLogo: boolean;
+  bannedWords: string[];
+  maxFileSizeKb: number;
+}
+
+export interface ComplianceContext {
+  width: number;
+  height: number;
+  fileSizeBytes: number;
+  aspectRatio: AspectRatio;
+  description: string;
+  caption: string;
+  hasLogo: boolean;
+  overlayBounds: OverlayBounds[];
+  overlayText: string;
+  market: MarketProfile;
+}
+
+export interface ComplianceCheck {
+  ruleId: string;
+  label: string;
+  status: ComplianceStatus;
+  message: string;
+}
+
+export interface ComplianceReport {
+  profileId: string;
+  status: ComplianceStatus;
+  checks: ComplianceCheck[];
+  evaluatedAt: number;
+}
+
+export type BatchItemStatus = 'pending' | 'running' | 'done' | 'error';
+
+export interface BatchItem {
+  aspectRatio: AspectRatio;
+  status: BatchItemStatus;
+  imageUrl: string;
+  error: string | null;
+  meta: GenerationMeta | null;
+  attempts: number;
+}
+
+export type OverlayLayerKind = 'text' | 'badge' | 'cta' | 'logo';
+
+// Positions and sizes are fractions of the image so layers survive resizing
+export interface OverlayLayer {
+  id: string;
+  kind: OverlayLayerKind;
+  x: number;
+  y: number;
+  text: string;
+  fontFamily: string;
+  fontSize: number;
+  color: string;
+  background: string;
+  scale: number;
+}
+
+export interface LayerBounds {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Layer bounds as fractions of the image, labelled for compliance messages
+export interface OverlayBounds extends LayerBounds {
+  label: string;
+}
+
+// Palette entry of the selected brand kit (palette[0], [1], [2])
+export type BrandColorRole = 'primary' | 'secondary' | 'accent';
+
+// Overlay slot in an ad template. Text may contain {price}, {discount}, {code} and {brand},
+// filled in when the template is applied.
+export interface TemplateSlot {
+  kind: OverlayLayerKind;
+  label: string;
+  x: number;
+  y: number;
+  text: string;
+  fontSize?: number;
+  fontFamily?: string;
+  color?: string;
+  background?: string;
+  scale?: number;
+  // Brand kit hooks: use the kit's color (background for badges/CTAs, text otherwise) and first font
+  brandColor?: BrandColorRole | null;
+  brandFont?: boolean;
+}
+
+export type TemplateCategory = 'seasonal' | 'promotional' | 'launch' | 'custom';
+
+// A reusable starting point: brief, description, formats and overlay layout
+export interface AdTemplate {
+  id: string;
+  name: string;
+  category: TemplateCategory;
+  summary: string;
+  description: string;
+  brief: StructuredBrief;
+  // Recommended formats; the first becomes the single-format choice
+  aspectRatios: AspectRatio[];
+  slots: TemplateSlot[];
+  logoMode?: LogoMode;
+  copyTone?: CopyTone;
+  builtIn?: boolean;
+  updatedAt: number;
+}
+
+// Serializable image (File objects and object URLs don't survive a reload)
+export interface StoredImage {
+  name: string;
+  base64: string;
+  mimeType: string;
+}
+
+export interface StoredAdRequest {
+  productImage: StoredImage;
+  // Absent on entries saved before multi-product compositions
+  extraProducts?: ProductShot<StoredImage>[];
+  referenceImages?: StoredImage[];
+  logoImage: StoredImage | null;
+  // Absent on entries saved before exact logo overlays
+  logoMode?: LogoMode;
+  logoPlacements?: LogoPlacements;
+  description: string;
+  // Absent on entries saved before structured briefs existed
+  brief?: StructuredBrief;
+  promptTemplateId?: string;
+  aspectRatio: AspectRatio;
+  useProModel: boolean;
+}
+
+export interface HistoryEntry {
+  id: string;
+  title: string;
+  createdAt: number;
+  request: StoredAdRequest;
+  output: ImageGenerationResponse;
+  overlays: OverlayLayer[];
+  refinements?: RefinementHistory | null;
+  // Set on market variants: the market they were translated for and their caption
+  marketId?: MarketId;
+  caption?: string;
+}
+
+// One entry per edit; the first step is the original output (instruction = null)
+export interface RefinementStep {
+  id: string;
+  instruction: string | null;
+  output: ImageGenerationResponse;
+}
+
+export interface RefinementHistory {
+  steps: RefinementStep[];
+  index: number;
+}
+
+export interface DraftState {
+  productImage: StoredImage | null;
+  extraProducts?: ProductShot<StoredImage>[];
+  referenceImages?: StoredImage[];
+  logoImage: StoredImage | null;
+  description: string;
+  brief?: StructuredBrief;
+  promptTemplateId?: string;
+  aspectRatio: AspectRatio;
+  useProModel: boolean;
+  brandKitId?: string | null;
+  preprocessOptions?: ImagePreprocessOptions;
+  logoMode?: LogoMode;
+  logoPlacements?: LogoPlacements;
+  uiLocale?: UiLocale;
+  marketId?: MarketId;
+}
+
+export interface BrandKit {
+  id: string;
+  name: string;
+  logos: StoredImage[];
+  palette: string[];
+  fonts: string[];
+  tone: string;
+  forbiddenStyles: string[];
+  updatedAt: number;
+}
+
+export type VariationMode = 'none' | 'lighting' | 'background' | 'both';
+
+export interface VariantItem {
+  id: string;
+  variation: string | null;
+  status: BatchItemStatus;
+  imageUrl: string;
+  error: string | null;
+  meta: GenerationMeta | null;
+  starred: boolean;
+}
+
+// One product line from an imported catalog file
+export interface CatalogRow {
+  id: string;
+  sku: string;
+  name: string;
+  price: string;
+  imageFile: string;
+  brief: string;
+  formats: AspectRatio[];
+}
+
+export interface CatalogParseResult {
+  rows: CatalogRow[];
+  warnings: string[];
+}
+
+export interface CatalogJob {
+  id: string;
+  rowId: string;
+  sku: string;
+  aspectRatio: AspectRatio;
+  status: BatchItemStatus;
+  imageUrl: string;
+  error: string | null;
+  meta: GenerationMeta | null;
+  attempts: number;
+}
+
+export type JobStatus = 'queued' | 'running' | 'backing-off' | 'failed' | 'done' | 'cancelled';
+
+// A single generation persisted so it survives reloads; results land in history
+export interface GenerationJob {
+  id: string;
+  title: string;
+  status: JobStatus;
+  request: StoredAdRequest;
+  brandKitId: string | null;
+  attempts: number;
+  error: string | null;
+  errorKind?: GenerationErrorKind | null;
+  retryAt: number | null;
+  historyId: string | null;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export type ModelTier = 'standard' | 'pro' | 'text';
+
+export interface ModelTierConfig {
+  label: string;
+  // Token bucket: sustained rate plus how many calls may go out back to back
+  requestsPerMinute: number;
+  burst: number;
+  dailyRequestLimit: number;
+  // Estimated USD per successful call (one image for the image tiers); 0 for free-tier models
+  costPerImage: number;
+}
+
+// One ledger row per day and model tier
+export interface UsageRecord {
+  id: string;
+  date: string;
+  tier: ModelTier;
+  model: string;
+  calls: number;
+  successes: number;
+  failures: number;
+  estimatedCost: number;
 }